@@ -0,0 +1,117 @@
+/**
+ * Airtime Tests
+ *
+ * Verifies LoRa time-on-air against reference values from the
+ * Semtech LoRa calculator, budget checks and scheduler enforcement.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  AIRTIME_POLICIES,
+  calculateAirtimeMs,
+  calculateUplinkAirtimeMs,
+  checkAirtimeBudget,
+  estimateDeviceAirtimeMs,
+} from '@/lib/deviceLibrary/airtime';
+import { createEmissionScheduler } from '@/lib/deviceLibrary/emissionScheduler';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+
+// ============================================
+// Time-on-Air
+// ============================================
+
+describe('LoRa Time-on-Air', () => {
+  const base = { bandwidthHz: 125_000, codingRate: '4/5' };
+
+  it('matches reference values at SF7 and SF12', () => {
+    // 10 byte FRMPayload + 13 byte LoRaWAN overhead
+    expect(calculateUplinkAirtimeMs(10, { ...base, spreadingFactor: 7 })).toBeCloseTo(61.696, 3);
+    expect(calculateUplinkAirtimeMs(10, { ...base, spreadingFactor: 12 })).toBeCloseTo(1482.752, 3);
+  });
+
+  it('grows with payload length and spreading factor', () => {
+    const sf7 = { ...base, spreadingFactor: 7 as const };
+    expect(calculateAirtimeMs(51, sf7)).toBeGreaterThan(calculateAirtimeMs(23, sf7));
+    expect(calculateAirtimeMs(23, { ...base, spreadingFactor: 9 })).toBeGreaterThan(calculateAirtimeMs(23, sf7));
+  });
+
+  it('rejects unknown coding rates', () => {
+    expect(() => calculateAirtimeMs(23, { ...base, spreadingFactor: 7, codingRate: '2/3' })).toThrow(/coding rate/);
+  });
+});
+
+// ============================================
+// Budgets
+// ============================================
+
+describe('Airtime Budgets', () => {
+  const eu868 = AIRTIME_POLICIES.EU868;
+
+  it('flags EU868 duty cycle and fair-use violations', () => {
+    // 61.7 ms every 5 s = 1.2% duty cycle, 1066 s/day
+    const check = checkAirtimeBudget(61.696, 5, eu868);
+    expect(check.violations).toHaveLength(2);
+    // Fair use (30 s/day) is the binding limit: 86400 * 61.696 / 30000
+    expect(check.minIntervalSec).toBe(178);
+    expect(checkAirtimeBudget(61.696, 178, eu868).violations).toEqual([]);
+  });
+
+  it('has no duty cycle limit in US915', () => {
+    const check = checkAirtimeBudget(61.696, 5, AIRTIME_POLICIES.US915);
+    expect(check.violations).toEqual([expect.stringMatching(/fair use/)]);
+  });
+
+  it('counts load from other devices on the same gateway', () => {
+    const policy = { dutyCycle: null, fairUseMsPerDay: null, gatewayOccupancy: 0.1 };
+    expect(checkAirtimeBudget(100, 10, policy, 0.05).violations).toEqual([]);
+    expect(checkAirtimeBudget(100, 10, policy, 0.095).violations).toHaveLength(1);
+  });
+
+  it('estimates library device airtime from the example frame', () => {
+    const lht65 = defaultDeviceLibrary.devices.find(d => d.id === 'dragino-lht65')!;
+    expect(estimateDeviceAirtimeMs(lht65, 'EU868')).toBeCloseTo(61.696, 3);
+  });
+});
+
+describe('Scheduler Airtime Enforcement', () => {
+  const noop = () => {};
+  const airtime = { airtimeMs: 61.696, gatewayId: 'gw-1' };
+
+  it('warns but runs at the requested interval', () => {
+    const scheduler = createEmissionScheduler({ policy: AIRTIME_POLICIES.EU868, enforcement: 'warn' });
+    const budget = scheduler.startDevice('warn-device', 5, noop, { airtime });
+    expect(budget?.action).toBe('warned');
+    expect(scheduler.getStatus('warn-device')?.intervalMs).toBe(5000);
+    scheduler.stopAll();
+  });
+
+  it('throttles to the shortest compliant interval', () => {
+    const scheduler = createEmissionScheduler({ policy: AIRTIME_POLICIES.EU868, enforcement: 'throttle' });
+    const budget = scheduler.startDevice('throttle-device', 5, noop, { airtime });
+    expect(budget?.action).toBe('throttled');
+    expect(budget?.requestedIntervalSec).toBe(5);
+    expect(budget?.throttledIntervalSec).toBe(178);
+    expect(budget?.violations.length).toBeGreaterThan(0);
+    expect(scheduler.getStatus('throttle-device')?.intervalMs).toBe(178_000);
+    expect(scheduler.getStatus('throttle-device')?.dailyAirtimeMs).toBeLessThanOrEqual(30_000);
+    scheduler.stopAll();
+  });
+
+  it('rejects devices that break the budget', () => {
+    const scheduler = createEmissionScheduler({ policy: AIRTIME_POLICIES.EU868, enforcement: 'reject' });
+    const budget = scheduler.startDevice('reject-device', 5, noop, { airtime });
+    expect(budget?.action).toBe('rejected');
+    expect(scheduler.isRunning('reject-device')).toBe(false);
+  });
+
+  it('shares the gateway budget between devices', () => {
+    const policy = { dutyCycle: null, fairUseMsPerDay: null, gatewayOccupancy: 0.1 };
+    const scheduler = createEmissionScheduler({ policy, enforcement: 'reject' });
+    const shared = { airtimeMs: 100, gatewayId: 'gw-shared' };
+    expect(scheduler.startDevice('a', 2, noop, { airtime: shared })?.action).toBe('ok');
+    expect(scheduler.startDevice('b', 2, noop, { airtime: shared })?.action).toBe('ok');
+    expect(scheduler.startDevice('c', 1, noop, { airtime: shared })?.action).toBe('rejected');
+    expect(scheduler.startDevice('d', 1, noop, { airtime: { ...shared, gatewayId: 'gw-other' } })?.action).toBe('ok');
+    scheduler.stopAll();
+  });
+});
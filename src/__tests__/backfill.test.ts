@@ -0,0 +1,220 @@
+/**
+ * Historical Backfill Tests
+ *
+ * Verifies deterministic timeline generation, batched delivery with
+ * persisted progress, resume after interruption, and the mapping of
+ * generated uplinks to FreshTrack readings.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  countBackfillEntries,
+  generateBackfill,
+  getBackfillJobId,
+  getBackfillProgress,
+  runBackfill,
+  type BackfillEntry,
+  type BackfillOptions,
+} from '@/lib/deviceLibrary/backfill';
+import { loadDeviceLibrary, clearDeviceLibrary } from '@/lib/deviceLibrary/loader';
+import { getDeviceSimState } from '@/lib/deviceLibrary/deviceStateStore';
+import { createMemoryBackend, setStateBackend } from '@/lib/deviceLibrary/stateBackend';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import { buildBackfillReading } from '@/lib/freshtrackExport';
+
+vi.mock('@/integrations/supabase/client', () => ({
+  supabase: { functions: { invoke: vi.fn() } },
+}));
+
+const FROM = Date.parse('2025-01-01T00:00:00.000Z');
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UNIT_ID = '3f2b8a4e-1c9d-4e5f-a6b7-c8d9e0f1a2b3';
+
+const options: BackfillOptions = {
+  devices: [
+    { devEui: 'A840410000000001', model: 'milesight-em300-th', gatewayId: 'gw-1', unitId: UNIT_ID },
+    { devEui: 'A840410000000002', model: 'dragino-lds02', gatewayId: 'gw-1', unitId: UNIT_ID },
+  ],
+  gateways: [{ id: 'gw-1', eui: 'A840411F00000001' }],
+  from: FROM,
+  to: FROM + DAY_MS,
+  intervalSec: 3600,
+  seed: 'demo',
+  applicationId: 'frostguard-demo',
+};
+
+beforeEach(() => {
+  setStateBackend(createMemoryBackend());
+  loadDeviceLibrary(defaultDeviceLibrary);
+});
+
+afterEach(() => {
+  setStateBackend(null);
+  clearDeviceLibrary();
+});
+
+// ============================================
+// Timeline Generation
+// ============================================
+
+describe('Backfill Timeline', () => {
+  it('covers the range at the interval with historical received_at', () => {
+    const entries = [...generateBackfill(options)];
+
+    expect(entries).toHaveLength(countBackfillEntries(options));
+    expect(entries).toHaveLength(52); // 25 hourly steps × 2 devices, plus 2 daily LDS02 status frames
+    expect(entries[0].envelope.received_at).toBe('2025-01-01T00:00:00.000Z');
+    expect(entries[3].envelope.received_at).toBe('2025-01-01T01:00:00.000Z');
+    expect(entries[51].envelope.received_at).toBe('2025-01-02T00:00:00.000Z');
+    expect(entries.filter(e => e.device.devEui === 'A840410000000001').map(e => e.envelope.uplink_message.f_cnt))
+      .toEqual(Array.from({ length: 25 }, (_, i) => i + 1));
+  });
+
+  it('is deterministic and leaves live simulation state untouched', () => {
+    const first = [...generateBackfill(options)].map(e => e.envelope);
+    const second = [...generateBackfill(options)].map(e => e.envelope);
+
+    expect(second).toEqual(first);
+    expect(getDeviceSimState('A840410000000001').f_cnt).toBe(0);
+    expect([...generateBackfill({ ...options, seed: 'other' })][0].envelope.uplink_message.decoded_payload)
+      .not.toEqual(first[0].uplink_message.decoded_payload);
+  });
+
+  it('sends each message type on its own interval and fPort', () => {
+    const door = { ...options, devices: [options.devices[1]], to: FROM + 2 * DAY_MS };
+    const entries = [...generateBackfill(door)];
+    const ports = (port: number) => entries.filter(e => e.envelope.uplink_message.f_port === port);
+
+    expect(entries).toHaveLength(countBackfillEntries(door));
+    expect(ports(2)).toHaveLength(49);
+    expect(ports(5).map(e => e.recordedAt)).toEqual([
+      '2025-01-01T00:00:00.000Z',
+      '2025-01-02T00:00:00.000Z',
+      '2025-01-03T00:00:00.000Z',
+    ]);
+    expect(ports(5)[0].envelope.uplink_message.decoded_payload).toEqual({
+      BatV: expect.any(Number),
+      battery_level: expect.any(Number),
+    });
+  });
+
+  it('sends event rule frames when sampled values fire', () => {
+    const doors = {
+      ...options,
+      devices: [{ devEui: 'A840410000000003', model: 'netvox-r311a', gatewayId: 'gw-1', unitId: UNIT_ID }],
+    };
+    const entries = [...generateBackfill(doors)];
+
+    expect(entries).toHaveLength(countBackfillEntries(doors));
+    expect(entries.length).toBeGreaterThan(25);
+    expect(entries.map(e => e.envelope.uplink_message.f_cnt)).toEqual(entries.map((_, i) => i + 1));
+  });
+
+  it('derives a stable job id from the options', () => {
+    expect(getBackfillJobId({ ...options })).toBe(getBackfillJobId(options));
+    expect(getBackfillJobId({ ...options, intervalSec: 600 })).not.toBe(getBackfillJobId(options));
+  });
+
+  it('rejects unknown models and empty intervals', () => {
+    expect(() => generateBackfill({ ...options, intervalSec: 0 }).next()).toThrow(/interval/);
+    expect(() => generateBackfill({
+      ...options,
+      devices: [{ ...options.devices[0], model: 'no-such-model' }],
+    }).next()).toThrow(/unknown library model/);
+  });
+});
+
+// ============================================
+// Batched Delivery & Resume
+// ============================================
+
+describe('Backfill Delivery', () => {
+  it('pushes batches and records progress', async () => {
+    const batches: number[] = [];
+    const { progress, stopped } = await runBackfill(options, {
+      batchSize: 20,
+      send: async (entries) => {
+        batches.push(entries.length);
+        return { ingested: entries.length, failed: 0 };
+      },
+    });
+
+    expect(batches).toEqual([20, 20, 12]);
+    expect(stopped).toBe(false);
+    expect(progress).toMatchObject({ total: 52, completed: 52, ingested: 52, failed: 0 });
+    expect(progress.finishedAt).toBeDefined();
+    expect(getBackfillProgress(progress.jobId)?.completed).toBe(52);
+  });
+
+  it('resumes after an interruption without resending or changing readings', async () => {
+    const full = [...generateBackfill(options)].map(e => e.envelope);
+    const sent: BackfillEntry[] = [];
+    const controller = new AbortController();
+    const send = async (entries: BackfillEntry[]) => {
+      sent.push(...entries);
+      if (sent.length >= 20) controller.abort();
+      return { ingested: entries.length, failed: 0 };
+    };
+
+    const first = await runBackfill(options, { batchSize: 10, send, signal: controller.signal });
+    expect(first.stopped).toBe(true);
+    expect(first.progress.completed).toBe(20);
+
+    const second = await runBackfill(options, { batchSize: 10, send });
+    expect(second.stopped).toBe(false);
+    expect(sent.map(e => e.index)).toEqual(Array.from({ length: 52 }, (_, i) => i));
+    expect(sent.map(e => e.envelope)).toEqual(full);
+  });
+
+  it('sends the event-driven frames it counted in one pass', async () => {
+    const doors = {
+      ...options,
+      devices: [{ devEui: 'A840410000000003', model: 'netvox-r311a', gatewayId: 'gw-1', unitId: UNIT_ID }],
+    };
+    const sent: BackfillEntry[] = [];
+    const { progress } = await runBackfill(doors, {
+      send: async (entries) => {
+        sent.push(...entries);
+        return { ingested: entries.length, failed: 0 };
+      },
+    });
+
+    expect(progress.total).toBe(countBackfillEntries(doors));
+    expect(progress.completed).toBe(progress.total);
+    expect(sent.map(e => e.envelope)).toEqual([...generateBackfill(doors)].map(e => e.envelope));
+  });
+
+  it('keeps the cursor on a fatal batch so it is retried', async () => {
+    const result = await runBackfill(options, {
+      batchSize: 10,
+      send: async () => ({ ingested: 0, failed: 0, error: 'Authentication failed (401)', fatal: true }),
+    });
+
+    expect(result.stopped).toBe(true);
+    expect(result.errors).toEqual(['Authentication failed (401)']);
+    expect(result.progress.completed).toBe(0);
+  });
+});
+
+// ============================================
+// FreshTrack Readings
+// ============================================
+
+describe('Backfill Readings', () => {
+  it('maps decoded fields to an ingest reading at its historical time', () => {
+    const [temp, door] = [...generateBackfill(options)];
+
+    const reading = buildBackfillReading(temp);
+    expect(reading).toMatchObject({
+      unit_id: UNIT_ID,
+      device_serial: 'A840410000000001',
+      recorded_at: '2025-01-01T00:00:00.000Z',
+      source: 'simulator',
+    });
+    expect(reading.temperature).toBeTypeOf('number');
+    expect(reading.humidity).toBeTypeOf('number');
+    expect(reading.source_metadata).toMatchObject({ emission_mode: 'backfill', f_cnt: 1 });
+
+    expect(buildBackfillReading(door).door_open).toBeTypeOf('boolean');
+  });
+});
@@ -0,0 +1,148 @@
+/**
+ * Battery Discharge Model Tests
+ *
+ * Verifies monotonic discharge from uplinks, elapsed time and cold
+ * derating, and that battery_level follows the model in the engine.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_BATTERY_MODEL,
+  createBatteryState,
+  dischargeBattery,
+  getBatteryPct,
+  isBatteryLow,
+  usesBatteryModel,
+} from '@/lib/deviceLibrary/batteryModel';
+import { generateFields, createInitialSimulationState } from '@/lib/deviceLibrary/simulationEngine';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import { dischargeSensorBattery, type SensorState } from '@/lib/emulatorSensorState';
+import type { BatteryModelConfig, SimulationContext, SimulationProfile } from '@/lib/deviceLibrary/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ============================================
+// Model
+// ============================================
+
+describe('Battery Discharge Model', () => {
+  const config: BatteryModelConfig = { ...DEFAULT_BATTERY_MODEL, capacityMah: 100, uplinkCostMah: 1 };
+
+  it('drains the uplink cost on every emission', () => {
+    let battery = createBatteryState(config);
+    battery = dischargeBattery(battery, config, 0, 25);
+    battery = dischargeBattery(battery, config, 0, 25);
+    expect(getBatteryPct(battery, config)).toBeCloseTo(98);
+  });
+
+  it('adds self-discharge for time elapsed since the last uplink', () => {
+    const yearly: BatteryModelConfig = { ...config, uplinkCostMah: 0, selfDischargePctPerYear: 10 };
+    let battery = dischargeBattery(createBatteryState(yearly), yearly, 0);
+    battery = dischargeBattery(battery, yearly, 365 * 24 * HOUR_MS);
+    expect(getBatteryPct(battery, yearly)).toBeCloseTo(90);
+  });
+
+  it('costs more per uplink below the reference temperature', () => {
+    const warm = dischargeBattery(createBatteryState(config), config, 0, 20);
+    const cold = dischargeBattery(createBatteryState(config), config, 0, -20);
+    // 40°C below reference at 1.5%/°C = 60% extra
+    expect(100 - cold.remainingMah).toBeCloseTo(1.6);
+    expect(cold.remainingMah).toBeLessThan(warm.remainingMah);
+  });
+
+  it('never goes below zero and reports low charge', () => {
+    let battery = createBatteryState(config, 11);
+    expect(isBatteryLow(battery, config)).toBe(false);
+    for (let i = 0; i < 20; i++) {
+      battery = dischargeBattery(battery, config, i * HOUR_MS);
+    }
+    expect(battery.remainingMah).toBe(0);
+    expect(isBatteryLow(battery, config)).toBe(true);
+  });
+
+  it('applies only to profiles with a non-static battery_level', () => {
+    expect(usesBatteryModel({ fields: { battery_level: { type: 'int', min: 0, max: 100 } } })).toBe(true);
+    expect(usesBatteryModel({ fields: { battery_level: { type: 'int', min: 0, max: 100, static: true, default: 80 } } })).toBe(false);
+    expect(usesBatteryModel({ fields: { temperature: { type: 'float', min: 0, max: 10 } } })).toBe(false);
+  });
+});
+
+// ============================================
+// Engine Integration
+// ============================================
+
+describe('Battery Level Generation', () => {
+  const profile: SimulationProfile = {
+    fields: {
+      temperature: { type: 'float', min: -30, max: 30, precision: 1 },
+      battery_level: { type: 'int', min: 0, max: 100, unit: '%' },
+    },
+    battery: { capacityMah: 10, uplinkCostMah: 0.5, initialPct: 20, lowThresholdPct: 10 },
+  };
+
+  it('declines monotonically across emissions and trips battery low', () => {
+    const state = createInitialSimulationState('battery-device', 'battery-test');
+    const levels: number[] = [];
+    let lowAt = -1;
+
+    for (let i = 0; i < 6; i++) {
+      const context: SimulationContext = {
+        orgId: 'battery-org', siteId: 'battery-site', unitId: 'battery-unit',
+        deviceInstanceId: 'battery-device', emissionSequence: i,
+      };
+      const result = generateFields(profile, state, context, 'normal', { emissionTime: i * HOUR_MS });
+      levels.push(result.fields.battery_level as number);
+      if (lowAt < 0 && result.metadata.batteryLow) lowAt = i;
+    }
+
+    expect(levels[0]).toBe(20);
+    for (let i = 1; i < levels.length; i++) {
+      expect(levels[i]).toBeLessThanOrEqual(levels[i - 1]);
+    }
+    expect(lowAt).toBeGreaterThanOrEqual(0);
+    expect(state.battery!.remainingMah).toBeLessThan(2);
+  });
+
+  it('derates only against constrained temperatures, not random ones', () => {
+    const drain = (constraints?: Record<string, { value: number }>) => {
+      const state = createInitialSimulationState('derating-device', 'battery-test');
+      generateFields(profile, state, {
+        orgId: 'o', siteId: 's', unitId: 'u', deviceInstanceId: 'derating-device', emissionSequence: 0,
+      }, 'normal', { emissionTime: 0, constraints });
+      return 2 - state.battery!.remainingMah;
+    };
+
+    expect(drain()).toBeCloseTo(0.5);
+    expect(drain({ temperature: { value: 20 } })).toBeCloseTo(0.5);
+    // 40°C below reference at 1.5%/°C = 60% extra
+    expect(drain({ temperature: { value: -20 } })).toBeCloseTo(0.8);
+  });
+
+  it('library devices start from a full battery', () => {
+    const device = defaultDeviceLibrary.devices.find(d => d.id === 'dragino-lht65')!;
+    const state = createInitialSimulationState('battery-lht65', device.id);
+    const { fields } = generateFields(device.simulation_profile, state, {
+      orgId: 'o', siteId: 's', unitId: 'u', deviceInstanceId: 'battery-lht65', emissionSequence: 0,
+    });
+    expect(fields.battery_level).toBe(100);
+    expect(fields.BatV).toBeGreaterThan(3.5);
+  });
+});
+
+// ============================================
+// Emulator Sensor State
+// ============================================
+
+describe('Sensor Battery Discharge', () => {
+  it('drains the emulator battery a little on every send', () => {
+    const sensor = {
+      sensorId: 's1', type: 'temperature', tempF: 38, minTempF: 35, maxTempF: 40, humidity: 45,
+      doorOpen: false, batteryPct: 95, signalStrength: -65, intervalSec: 60,
+      lastSentAt: new Date(0), isOnline: true,
+    } as SensorState;
+
+    const next = dischargeSensorBattery(sensor, new Date(60_000));
+    expect(next).toBeLessThan(95);
+    expect(next).toBeGreaterThan(94.99);
+  });
+});
@@ -0,0 +1,126 @@
+/**
+ * Behavior Model Tests
+ *
+ * Verifies time-series shapes and their use in field generation.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { evaluateBehaviorModel, evaluateFieldBehavior } from '@/lib/deviceLibrary/behaviorModels';
+import { generateFields, createInitialSimulationState } from '@/lib/deviceLibrary/simulationEngine';
+import { validateDeviceLibrary } from '@/lib/deviceLibrary/schema';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import type { SimulationContext, SimulationProfile } from '@/lib/deviceLibrary/types';
+
+const context: SimulationContext = {
+  orgId: 'behavior-org',
+  siteId: 'behavior-site',
+  unitId: 'behavior-unit',
+  deviceInstanceId: 'behavior-device',
+  emissionSequence: 1,
+};
+
+// ============================================
+// Model Shapes
+// ============================================
+
+describe('Behavior Model Shapes', () => {
+  it('sinusoid peaks a quarter period after its phase', () => {
+    const model = { model: 'sinusoid' as const, amplitude: 3, periodSeconds: 86400, phaseSeconds: 3600 };
+    expect(evaluateBehaviorModel(model, 3600 + 21600)).toBeCloseTo(3);
+    expect(evaluateBehaviorModel(model, 3600 + 64800)).toBeCloseTo(-3);
+  });
+
+  it('sawtooth falls while the compressor runs and recovers while idle', () => {
+    const model = { model: 'sawtooth' as const, amplitude: 2, periodSeconds: 1000, dutyCycle: 0.4 };
+    expect(evaluateBehaviorModel(model, 0)).toBeCloseTo(1);
+    expect(evaluateBehaviorModel(model, 200)).toBeCloseTo(0);
+    expect(evaluateBehaviorModel(model, 400)).toBeCloseTo(-1);
+    expect(evaluateBehaviorModel(model, 700)).toBeCloseTo(0);
+    expect(evaluateBehaviorModel(model, 1000)).toBeCloseTo(1);
+  });
+
+  it('spike is zero outside its window and peaks mid-window', () => {
+    const model = { model: 'spike' as const, magnitude: 12, intervalSeconds: 21600, durationSeconds: 1800, offsetSeconds: 600 };
+    expect(evaluateBehaviorModel(model, 0)).toBe(0);
+    expect(evaluateBehaviorModel(model, 600 + 900)).toBeCloseTo(12);
+    expect(evaluateBehaviorModel(model, 600 + 450)).toBeCloseTo(6);
+    expect(evaluateBehaviorModel(model, 600 + 1800)).toBe(0);
+  });
+
+  it('recovery decays exponentially after each disturbance', () => {
+    const model = { model: 'recovery' as const, magnitude: 4, intervalSeconds: 14400, timeConstantSeconds: 600 };
+    expect(evaluateBehaviorModel(model, 0)).toBeCloseTo(4);
+    expect(evaluateBehaviorModel(model, 600)).toBeCloseTo(4 / Math.E);
+    expect(evaluateBehaviorModel(model, 14400)).toBeCloseTo(4);
+  });
+
+  it('sums model deviations onto the baseline with bounded noise', () => {
+    const behavior = {
+      baseline: -18,
+      models: [
+        { model: 'sawtooth' as const, amplitude: 2, periodSeconds: 1000, dutyCycle: 0.5 },
+        { model: 'spike' as const, magnitude: 10, intervalSeconds: 5000, durationSeconds: 200 },
+      ],
+      noise: 0.5,
+    };
+    expect(evaluateFieldBehavior(behavior, 100, 0.5)).toBeCloseTo(-18 + 0.6 + 10);
+    expect(evaluateFieldBehavior(behavior, 100, 0)).toBeCloseTo(-18 + 0.6 + 10 - 0.5);
+  });
+});
+
+// ============================================
+// Field Generation
+// ============================================
+
+describe('Behavior Field Generation', () => {
+  const profile: SimulationProfile = {
+    fields: {
+      temperature: {
+        type: 'float', min: -30, max: 10, precision: 1,
+        behavior: {
+          baseline: -18,
+          models: [{ model: 'spike', magnitude: 40, intervalSeconds: 3600, durationSeconds: 600 }],
+        },
+      },
+    },
+  };
+
+  function generateAt(seconds: number): number {
+    const state = createInitialSimulationState(context.deviceInstanceId, 'behavior-test');
+    const result = generateFields(profile, state, context, 'normal', { emissionTime: seconds * 1000 });
+    return result.fields.temperature as number;
+  }
+
+  it('evaluates the model at the emission time', () => {
+    expect(generateAt(1800)).toBe(-18);
+    expect(generateAt(150)).toBe(2);
+  });
+
+  it('clamps behavior output to the field bounds', () => {
+    expect(generateAt(300)).toBe(10);
+  });
+
+  it('is deterministic for the same context and emission time', () => {
+    const noisy: SimulationProfile = {
+      fields: {
+        temperature: { type: 'float', min: -30, max: 10, precision: 2, behavior: { baseline: 3, models: [], noise: 1 } },
+      },
+    };
+    const run = () => generateFields(
+      noisy,
+      createInitialSimulationState(context.deviceInstanceId, 'behavior-test'),
+      context,
+      'normal',
+      { emissionTime: 1_700_000_000_000 }
+    ).fields.temperature;
+    expect(run()).toBe(run());
+  });
+
+  it('library devices with behaviors validate against the schema', () => {
+    const withBehavior = defaultDeviceLibrary.devices.filter(d =>
+      Object.values(d.simulation_profile.fields).some(f => 'behavior' in f)
+    );
+    expect(withBehavior.length).toBeGreaterThan(0);
+    expect(validateDeviceLibrary(defaultDeviceLibrary).valid).toBe(true);
+  });
+});
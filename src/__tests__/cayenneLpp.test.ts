@@ -0,0 +1,177 @@
+/**
+ * Cayenne LPP Tests
+ *
+ * Verifies channel mapping, byte-exact LPP frames and decode round-trips
+ * for devices with payload_format: 'cayenne'.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import {
+  buildCayenneMapping,
+  encodeCayenneLpp,
+  decodeCayenneLpp,
+  decodeCayenneFields,
+} from '@/lib/deviceLibrary/cayenneLpp';
+import {
+  encodeDeviceFrmPayload,
+  decodeDeviceFrmPayload,
+  base64ToBytes,
+  bytesToHex,
+} from '@/lib/deviceLibrary/payloadCodec';
+import { buildLibraryEnvelope } from '@/lib/deviceLibrary/envelopeBuilder';
+import { createInitialSimulationState, generateDevicePayload } from '@/lib/deviceLibrary/simulationEngine';
+import type { SimulationContext, SimulationProfile } from '@/lib/deviceLibrary/types';
+
+const cayenneDevices = defaultDeviceLibrary.devices.filter(d => d.payload_format === 'cayenne');
+
+function getDeviceDef(id: string) {
+  return defaultDeviceLibrary.devices.find(d => d.id === id)!;
+}
+
+// ============================================
+// Channel Mapping
+// ============================================
+
+describe('Cayenne Channel Mapping', () => {
+  it('infers LPP types from field units and names', () => {
+    const mapping = buildCayenneMapping(getDeviceDef('rakwireless-rak7204').simulation_profile);
+    expect(mapping.channels.map(c => [c.channel, c.type, c.fields[0]])).toEqual([
+      [1, 'temperature', 'temperature'],
+      [2, 'humidity', 'humidity'],
+      [3, 'barometer', 'pressure'],
+      [4, 'analog_input', 'battery_voltage'],
+    ]);
+    expect(mapping.unmapped).toEqual([]);
+  });
+
+  it('collapses latitude/longitude/altitude into one GPS channel', () => {
+    const mapping = buildCayenneMapping(getDeviceDef('rakwireless-rak7200').simulation_profile);
+    expect(mapping.channels[0]).toEqual({
+      channel: 1, type: 'gps', fields: ['latitude', 'longitude', 'altitude'],
+    });
+    expect(mapping.channels[1].type).toBe('analog_input');
+  });
+
+  it('maps booleans and enums to digital or presence channels', () => {
+    const profile: SimulationProfile = {
+      fields: {
+        motion: { type: 'bool' },
+        door_status: { type: 'enum', values: ['closed', 'open'] },
+      },
+    };
+    const mapping = buildCayenneMapping(profile);
+    expect(mapping.channels.map(c => c.type)).toEqual(['presence', 'digital_input']);
+    expect(mapping.channels[1].values).toEqual(['closed', 'open']);
+  });
+
+  it('reports fields with no LPP representation as unmapped', () => {
+    const profile: SimulationProfile = {
+      fields: {
+        pulse_count: { type: 'int', min: 0, max: 1000000 },
+        firmware: { type: 'string' },
+      },
+    };
+    const mapping = buildCayenneMapping(profile);
+    expect(mapping.channels).toEqual([]);
+    expect(mapping.unmapped).toEqual(['pulse_count', 'firmware']);
+  });
+});
+
+// ============================================
+// Frames
+// ============================================
+
+describe('Cayenne LPP Frames', () => {
+  it('encodes big-endian channel/type/value entries', () => {
+    const device = getDeviceDef('rakwireless-rak7204');
+    const bytes = encodeCayenneLpp(
+      { temperature: 27.2, humidity: 64, pressure: 1013.2, battery_voltage: 3.95 },
+      buildCayenneMapping(device.simulation_profile)
+    );
+    expect(bytesToHex(bytes)).toBe('01670110' + '026880' + '03732794' + '0402018B');
+  });
+
+  it('encodes GPS as signed 24-bit coordinates', () => {
+    const device = getDeviceDef('rakwireless-rak7200');
+    const bytes = encodeCayenneLpp(
+      { latitude: 42.3519, longitude: -87.9094, altitude: 10 },
+      buildCayenneMapping(device.simulation_profile)
+    );
+    expect(bytesToHex(bytes)).toBe('0188' + '06765F' + 'F2960A' + '0003E8');
+  });
+
+  it('encodes enum values by index and skips missing fields', () => {
+    const device = getDeviceDef('generic-lpp-door');
+    const bytes = encodeCayenneLpp({ door_status: 'open' }, buildCayenneMapping(device.simulation_profile));
+    expect(bytesToHex(bytes)).toBe('010001');
+  });
+
+  it('throws on unknown types and truncated frames', () => {
+    expect(() => decodeCayenneLpp(Uint8Array.from([0x01, 0x42, 0x00]))).toThrow(/Unknown Cayenne LPP type 0x42/);
+    expect(() => decodeCayenneLpp(Uint8Array.from([0x01, 0x67, 0x00]))).toThrow(/Truncated/);
+  });
+
+  it('decodes frames back to typed fields', () => {
+    const profile = getDeviceDef('generic-lpp-door').simulation_profile;
+    const fields = { door_status: 'open', temperature: -4.5, battery_level: 87 };
+    const bytes = encodeCayenneLpp(fields, buildCayenneMapping(profile));
+    expect(decodeCayenneFields(bytes, profile)).toEqual(fields);
+  });
+});
+
+// ============================================
+// Library Devices
+// ============================================
+
+describe('Cayenne Library Devices', () => {
+  it('the default library includes Cayenne devices', () => {
+    expect(cayenneDevices.length).toBeGreaterThanOrEqual(3);
+  });
+
+  it('every Cayenne device maps all of its fields', () => {
+    for (const device of cayenneDevices) {
+      expect(buildCayenneMapping(device.simulation_profile).unmapped).toEqual([]);
+    }
+  });
+
+  it('round-trips generated payloads through frm_payload', () => {
+    for (const device of cayenneDevices) {
+      const context: SimulationContext = {
+        orgId: 'org', siteId: 'site', unitId: 'unit',
+        deviceInstanceId: `${device.id}-1`, emissionSequence: 3,
+      };
+      const state = createInitialSimulationState(context.deviceInstanceId, device.id);
+      const { fields } = generateDevicePayload(device, state, context);
+      const decoded = decodeDeviceFrmPayload(device, encodeDeviceFrmPayload(device, fields))!;
+
+      expect(Object.keys(decoded).sort()).toEqual(Object.keys(fields).sort());
+      for (const [key, value] of Object.entries(fields)) {
+        if (typeof value === 'number') {
+          // LPP humidity has 0.5% resolution
+          expect(Math.abs((decoded[key] as number) - value)).toBeLessThanOrEqual(0.25);
+        } else {
+          expect(decoded[key]).toEqual(value);
+        }
+      }
+    }
+  });
+
+  it('library envelopes carry LPP frames on the device fport', () => {
+    const device = getDeviceDef('rakwireless-rak7204');
+    const gateway = { id: 'lpp-gw', eui: 'AC1F09FFFE000001' };
+    const state = createInitialSimulationState('AC1F09FFFE000002', device.id);
+
+    const envelope = buildLibraryEnvelope(
+      { devEui: 'AC1F09FFFE000002', name: 'Cooler', gatewayId: gateway.id },
+      gateway,
+      device.examples.normal,
+      device,
+      state,
+      'lpp-app'
+    );
+
+    expect(envelope.uplink_message.f_port).toBe(8);
+    expect(bytesToHex(base64ToBytes(envelope.uplink_message.frm_payload)).slice(0, 4)).toBe('0167');
+  });
+});
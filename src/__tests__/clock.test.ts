@@ -0,0 +1,158 @@
+/**
+ * Simulation Clock Tests
+ *
+ * Verifies virtual and scaled clocks, and that the scheduler, engine,
+ * envelope builder and server time all follow the active clock.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import {
+  createClockFromSpec,
+  createScaledClock,
+  createVirtualClock,
+  setSimulationClock,
+  simNowIso,
+  simSleep,
+} from '@/lib/deviceLibrary/clock';
+import { createEmissionScheduler } from '@/lib/deviceLibrary/emissionScheduler';
+import { createInitialSimulationState, generateDevicePayload } from '@/lib/deviceLibrary/simulationEngine';
+import { getServerTimeISO, resetServerTimeOffset } from '@/lib/serverTime';
+import { createHeadlessRunner } from '@/headless/runner';
+import { createMemoryBackend, setStateBackend } from '@/lib/deviceLibrary/stateBackend';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import type { FleetManifest } from '@/lib/deviceLibrary/types';
+
+const START = Date.parse('2025-01-06T08:00:00.000Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+afterEach(() => {
+  setSimulationClock(null);
+  setStateBackend(null);
+  resetServerTimeOffset();
+});
+
+// ============================================
+// Clocks
+// ============================================
+
+describe('Virtual Clock', () => {
+  it('fires timers in due order at their own timestamps', async () => {
+    const clock = createVirtualClock(START);
+    const fired: [string, number][] = [];
+    clock.setTimeout(() => fired.push(['b', clock.now()]), 2000);
+    clock.setTimeout(() => fired.push(['a', clock.now()]), 1000);
+    const cancelled = clock.setTimeout(() => fired.push(['c', clock.now()]), 1500);
+    clock.clearTimeout(cancelled);
+
+    await clock.advance(5000);
+
+    expect(fired).toEqual([['a', START + 1000], ['b', START + 2000]]);
+    expect(clock.now()).toBe(START + 5000);
+  });
+
+  it('steps one timer at a time', async () => {
+    const clock = createVirtualClock(START);
+    clock.setTimeout(() => undefined, 60_000);
+    expect(await clock.step()).toBe(true);
+    expect(clock.now()).toBe(START + 60_000);
+    expect(await clock.step()).toBe(false);
+  });
+
+  it('drives simSleep without waiting in real time', async () => {
+    const clock = createVirtualClock(START);
+    setSimulationClock(clock);
+    let done = false;
+    simSleep(4 * HOUR_MS).then(() => { done = true; });
+
+    await clock.advance(4 * HOUR_MS - 1);
+    expect(done).toBe(false);
+    await clock.advance(1);
+    expect(done).toBe(true);
+    expect(simNowIso()).toBe('2025-01-06T12:00:00.000Z');
+  });
+});
+
+describe('Scaled Clock', () => {
+  it('runs faster than the wall clock from its start time', () => {
+    vi.useFakeTimers({ now: START });
+    try {
+      const clock = createScaledClock(100, START);
+      vi.advanceTimersByTime(1000);
+      expect(clock.now()).toBe(START + 100_000);
+
+      const callback = vi.fn();
+      clock.setTimeout(callback, 60_000);
+      vi.advanceTimersByTime(599);
+      expect(callback).not.toHaveBeenCalled();
+      vi.advanceTimersByTime(1);
+      expect(callback).toHaveBeenCalledOnce();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('parses clock specs', () => {
+    expect(createClockFromSpec('real').mode).toBe('real');
+    expect(createClockFromSpec('x10').speed).toBe(10);
+    expect(createClockFromSpec('virtual', START).now()).toBe(START);
+    expect(() => createClockFromSpec('fast')).toThrow(/Unknown clock/);
+  });
+});
+
+// ============================================
+// Shared Time Source
+// ============================================
+
+describe('Clock Consumers', () => {
+  it('schedules emissions on the virtual clock', async () => {
+    const clock = createVirtualClock(START);
+    const scheduler = createEmissionScheduler({ clock });
+    const emittedAt: number[] = [];
+
+    scheduler.startDevice('dev-1', 600, () => { emittedAt.push(clock.now()); });
+    await clock.advance(4 * HOUR_MS);
+    scheduler.stopAll();
+
+    expect(emittedAt).toHaveLength(24);
+    expect(emittedAt[0]).toBe(START + 600_000);
+    expect(emittedAt[23]).toBe(START + 4 * HOUR_MS);
+    expect(scheduler.getStatus('dev-1')?.lastEmittedAt).toBe(new Date(START + 4 * HOUR_MS).toISOString());
+  });
+
+  it('stamps generated state and server time from the active clock', () => {
+    setSimulationClock(createVirtualClock(START));
+    const device = defaultDeviceLibrary.devices[0];
+    const state = createInitialSimulationState('dev-1', device.id);
+    const context = { orgId: '', siteId: '', unitId: '', deviceInstanceId: 'dev-1', emissionSequence: 0 };
+
+    generateDevicePayload(device, state, context);
+
+    expect(state.lastEmittedAt).toBe('2025-01-06T08:00:00.000Z');
+    expect(getServerTimeISO()).toBe('2025-01-06T08:00:00.000Z');
+  });
+
+  it('replays hours of headless emissions with spaced received_at', async () => {
+    const fleet: FleetManifest = {
+      version: 1,
+      seed: 'clock',
+      applicationId: 'frostguard-ci',
+      gateways: [{ id: 'gw-1', eui: 'A840411F00000001' }],
+      devices: [{ devEui: 'A840410000000001', model: 'milesight-em300-th', gatewayId: 'gw-1', intervalSec: 900 }],
+    };
+    const receivedAt: string[] = [];
+    const runner = createHeadlessRunner({
+      fleet,
+      library: defaultDeviceLibrary,
+      backend: createMemoryBackend(),
+      clock: createVirtualClock(START),
+      onEmission: (emission) => receivedAt.push(emission.envelope.received_at),
+    });
+
+    await runner.runFor(2 * HOUR_MS);
+
+    expect(receivedAt).toHaveLength(9); // Immediate + every 15 minutes
+    expect(receivedAt[0]).toBe('2025-01-06T08:00:00.000Z');
+    expect(receivedAt[1]).toBe('2025-01-06T08:15:00.000Z');
+    expect(receivedAt[8]).toBe('2025-01-06T10:00:00.000Z');
+  });
+});
@@ -0,0 +1,121 @@
+/**
+ * Derived Field Tests
+ *
+ * Verifies dependency ordering, derivation math and that correlated
+ * library fields stay consistent.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  LI_SOCL2_VOLTAGE_CURVE,
+  interpolateCurve,
+  evaluateDerivation,
+  orderFieldsByDependency,
+} from '@/lib/deviceLibrary/derivedFields';
+import { generateFields, createInitialSimulationState } from '@/lib/deviceLibrary/simulationEngine';
+import { validateDeviceLibrary } from '@/lib/deviceLibrary/schema';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import type { SimulationContext, SimulationProfile } from '@/lib/deviceLibrary/types';
+
+function contextFor(sequence: number): SimulationContext {
+  return {
+    orgId: 'derived-org',
+    siteId: 'derived-site',
+    unitId: 'derived-unit',
+    deviceInstanceId: 'derived-device',
+    emissionSequence: sequence,
+  };
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+describe('Derivation Evaluation', () => {
+  it('interpolates the Li-SOCl2 curve and clamps outside its range', () => {
+    expect(interpolateCurve(LI_SOCL2_VOLTAGE_CURVE, 50)).toBeCloseTo(2.8);
+    expect(interpolateCurve(LI_SOCL2_VOLTAGE_CURVE, 65)).toBeCloseTo(3.0);
+    expect(interpolateCurve(LI_SOCL2_VOLTAGE_CURVE, -10)).toBe(1.8);
+    expect(interpolateCurve(LI_SOCL2_VOLTAGE_CURVE, 150)).toBe(3.6);
+  });
+
+  it('applies linear derivations with bounded jitter', () => {
+    const derivation = { kind: 'linear' as const, from: 't', scale: -1.2, offset: 80, jitter: 5 };
+    expect(evaluateDerivation(derivation, 10, 0.5)).toBeCloseTo(68);
+    expect(evaluateDerivation(derivation, 10, 0)).toBeCloseTo(63);
+  });
+});
+
+// ============================================
+// Dependency Ordering
+// ============================================
+
+describe('Dependency Ordering', () => {
+  it('hoists sources ahead of the fields derived from them', () => {
+    const profile: SimulationProfile = {
+      fields: {
+        voltage: { type: 'float', min: 0, max: 5, derive: { kind: 'linear', from: 'level', scale: 0.05 } },
+        temperature: { type: 'float', min: -20, max: 20 },
+        level: { type: 'int', min: 0, max: 100 },
+      },
+    };
+    expect(orderFieldsByDependency(profile)).toEqual(['level', 'voltage', 'temperature']);
+  });
+
+  it('rejects cycles and unknown sources', () => {
+    const cyclic: SimulationProfile = {
+      fields: {
+        a: { type: 'float', min: 0, max: 1, derive: { kind: 'linear', from: 'b', scale: 1 } },
+        b: { type: 'float', min: 0, max: 1, derive: { kind: 'linear', from: 'a', scale: 1 } },
+      },
+    };
+    const dangling: SimulationProfile = {
+      fields: { a: { type: 'float', min: 0, max: 1, derive: { kind: 'linear', from: 'missing', scale: 1 } } },
+    };
+    expect(() => orderFieldsByDependency(cyclic)).toThrow(/Circular/);
+    expect(() => orderFieldsByDependency(dangling)).toThrow(/unknown field "missing"/);
+  });
+
+  it('schema validation rejects libraries with invalid derivations', () => {
+    const device = structuredClone(defaultDeviceLibrary.devices[0]);
+    device.simulation_profile.fields.humidity = {
+      type: 'float', min: 0, max: 100, derive: { kind: 'linear', from: 'nope', scale: 1 },
+    };
+    const result = validateDeviceLibrary({ ...defaultDeviceLibrary, devices: [device] });
+    expect(result.valid).toBe(false);
+  });
+});
+
+// ============================================
+// Generation
+// ============================================
+
+describe('Correlated Generation', () => {
+  it('derived fields follow their source and keep declared output order', () => {
+    const device = defaultDeviceLibrary.devices.find(d => d.id === 'dragino-lht65')!;
+    const state = createInitialSimulationState('derived-device', device.id);
+    const { fields } = generateFields(device.simulation_profile, state, contextFor(1));
+
+    expect(Object.keys(fields)).toEqual(Object.keys(device.simulation_profile.fields));
+    const expected = interpolateCurve(LI_SOCL2_VOLTAGE_CURVE, fields.battery_level as number);
+    expect(Math.abs((fields.BatV as number) - Math.max(2.5, expected))).toBeLessThanOrEqual(0.025);
+  });
+
+  it('library battery voltages are consistent with battery percent', () => {
+    for (const device of defaultDeviceLibrary.devices) {
+      const voltageField = ['BatV', 'battery_voltage'].find(
+        f => f in device.simulation_profile.fields && 'derive' in device.simulation_profile.fields[f]
+      );
+      if (!voltageField) continue;
+
+      for (let i = 0; i < 20; i++) {
+        const state = createInitialSimulationState('derived-device', device.id);
+        const { fields } = generateFields(device.simulation_profile, state, contextFor(i));
+        const pct = fields.battery_level as number;
+        // A nearly full battery can never report a near-empty voltage
+        if (pct >= 90) expect(fields[voltageField] as number).toBeGreaterThan(3.3);
+        if (pct <= 10) expect(fields[voltageField] as number).toBeLessThanOrEqual(2.5);
+      }
+    }
+  });
+});
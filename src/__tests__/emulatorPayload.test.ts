@@ -0,0 +1,253 @@
+/**
+ * Emulator Payload Pipeline Tests
+ *
+ * Verifies that emulator controls constrain generated fields, that
+ * sensors without a library model keep their original payload shape, and
+ * that a composed uplink carries one payload, fport and frame counter for
+ * every transport.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  buildEmulatorEnvelope,
+  composeEmulatorUplink,
+  doorEventMessageType,
+  previewEmulatorPayload,
+  sampleEmulatorEventRules,
+  sensorStateConstraints,
+  sensorStateValues,
+  EMULATOR_DEVICE_MODELS,
+  type EmulatorUplink,
+} from '@/lib/emulatorPayload';
+import { createEmissionScheduler } from '@/lib/deviceLibrary/emissionScheduler';
+import { generateFields, createInitialSimulationState } from '@/lib/deviceLibrary/simulationEngine';
+import { loadDeviceLibrary, clearDeviceLibrary } from '@/lib/deviceLibrary/loader';
+import { createMemoryBackend, setStateBackend } from '@/lib/deviceLibrary/stateBackend';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import { buildTTNPayload, createDevice, createGateway } from '@/lib/ttn-payload';
+import { decodeDeviceFrmPayload } from '@/lib/deviceLibrary/payloadCodec';
+import { createVirtualClock, setSimulationClock } from '@/lib/deviceLibrary/clock';
+import { dischargeSensorBattery, type SensorState } from '@/lib/emulatorSensorState';
+import type { DeviceLibrary, SimulationContext, SimulationProfile } from '@/lib/deviceLibrary/types';
+
+function sensor(overrides: Partial<SensorState> = {}): SensorState {
+  return {
+    sensorId: 'sensor-1',
+    type: 'temperature',
+    tempF: 38,
+    minTempF: 35,
+    maxTempF: 40,
+    humidity: 45,
+    doorOpen: false,
+    batteryPct: 95,
+    signalStrength: -65,
+    intervalSec: 60,
+    lastSentAt: null,
+    isOnline: true,
+    ...overrides,
+  };
+}
+
+beforeEach(() => {
+  setStateBackend(createMemoryBackend());
+  loadDeviceLibrary(defaultDeviceLibrary);
+});
+
+afterEach(() => {
+  setSimulationClock(null);
+  setStateBackend(null);
+  clearDeviceLibrary();
+});
+
+// ============================================
+// Constraints
+// ============================================
+
+describe('Field Constraints', () => {
+  const profile: SimulationProfile = {
+    fields: {
+      temperature: { type: 'float', min: -40, max: 85, precision: 1 },
+      battery_level: { type: 'int', min: 0, max: 100 },
+      battery_voltage: {
+        type: 'float', min: 2.0, max: 3.6, precision: 2,
+        derive: { kind: 'curve', from: 'battery_level', points: [[0, 2.0], [100, 3.6]] },
+      },
+    },
+  };
+
+  it('keeps ranged fields inside the narrowed range and pins values', () => {
+    let state = createInitialSimulationState('c-1', 'test');
+    for (let i = 0; i < 20; i++) {
+      const context: SimulationContext = { orgId: '', siteId: '', unitId: '', deviceInstanceId: 'c-1', emissionSequence: i };
+      const result = generateFields(profile, state, context, 'normal', {
+        constraints: { temperature: { min: 2, max: 4 }, battery_level: { value: 50 } },
+      });
+      state = result.updatedState;
+      expect(result.fields.temperature as number).toBeGreaterThanOrEqual(2);
+      expect(result.fields.temperature as number).toBeLessThanOrEqual(4);
+      expect(result.fields.battery_level).toBe(50);
+      expect(result.fields.battery_voltage).toBe(2.8);
+    }
+  });
+
+  it('maps emulator controls onto library field names', () => {
+    const lht65 = (defaultDeviceLibrary as DeviceLibrary).devices.find(d => d.id === 'dragino-lht65')!;
+    const constraints = sensorStateConstraints(sensor({ humidity: 61.6, batteryPct: 80 }), lht65);
+
+    expect(constraints.TempC_SHT).toEqual({ min: 1.7, max: 4.4 });
+    expect(constraints.Hum_SHT).toEqual({ value: 62 });
+    expect(constraints.battery_level).toEqual({ value: 80 });
+    expect(sensorStateValues(sensor({ doorOpen: true, type: 'door', libraryDeviceId: 'dragino-lds02' })))
+      .toMatchObject({ DOOR_OPEN_STATUS: 'open' });
+  });
+});
+
+// ============================================
+// Uplinks
+// ============================================
+
+describe('Emulator Uplinks', () => {
+  it('keeps the original payload shape on fport 2 without a library model', () => {
+    const temp = composeEmulatorUplink(sensor({ minTempF: 38, maxTempF: 38, batteryPct: 100 }));
+    expect(Object.keys(temp.decodedPayload)).toEqual(Object.keys(EMULATOR_DEVICE_MODELS.temperature.simulation_profile.fields));
+    expect(temp.decodedPayload).toMatchObject({ temperature: 3.3, humidity: 45, battery_level: 100, battery_voltage: 3.6 });
+    expect(temp.fPort).toBe(2);
+
+    const door = composeEmulatorUplink(sensor({ sensorId: 'door-1', type: 'door', doorOpen: true }));
+    expect(door.decodedPayload).toMatchObject({ door_status: 'open', door_open: true, battery_level: 95 });
+  });
+
+  it('sends the previewed payload with consecutive frame counters', () => {
+    const state = sensor({ libraryDeviceId: 'dragino-lht65' });
+    const preview = previewEmulatorPayload(state);
+    const first = composeEmulatorUplink(state);
+    const second = composeEmulatorUplink(state);
+
+    expect(first.decodedPayload).toEqual(preview);
+    expect([first.fCnt, second.fCnt]).toEqual([1, 2]);
+
+    const gateway = createGateway('Gateway');
+    const envelope = buildTTNPayload(createDevice('LHT65', 'temperature', gateway.id), gateway, first.decodedPayload, 'app', undefined, first.fCnt, first.fPort);
+    expect(envelope.uplink_message).toMatchObject({ f_cnt: 1, f_port: first.fPort, decoded_payload: preview });
+  });
+
+  it('sends a frm_payload the model formatter decodes', () => {
+    const lht65 = (defaultDeviceLibrary as DeviceLibrary).devices.find(d => d.id === 'dragino-lht65')!;
+    const gateway = createGateway('Gateway');
+    const device = createDevice('Probe', 'temperature', gateway.id);
+
+    const library = composeEmulatorUplink(sensor({ libraryDeviceId: 'dragino-lht65' }));
+    const envelope = buildTTNPayload(device, gateway, library.decodedPayload, 'app', undefined, library.fCnt, library.fPort, lht65);
+    expect(envelope.uplink_message.frm_payload).toBe(library.frmPayload);
+    expect(decodeDeviceFrmPayload(lht65, envelope.uplink_message.frm_payload)).toEqual({
+      BatV: library.decodedPayload.BatV,
+      TempC_SHT: library.decodedPayload.TempC_SHT,
+      Hum_SHT: library.decodedPayload.Hum_SHT,
+      TempC_DS: library.decodedPayload.TempC_DS,
+    });
+
+    // Sensors without a model send the legacy Dragino frame of their shape
+    const plain = composeEmulatorUplink(sensor({ minTempF: 38, maxTempF: 38 }));
+    const legacy = buildTTNPayload(device, gateway, plain.decodedPayload, 'app', undefined, plain.fCnt, plain.fPort);
+    expect(legacy.uplink_message.frm_payload).toBe(plain.frmPayload);
+    expect(decodeDeviceFrmPayload(lht65, plain.frmPayload)).toMatchObject({ TempC_SHT: 3.3, Hum_SHT: 45 });
+
+    const door = composeEmulatorUplink(sensor({ sensorId: 'door-1', type: 'door', doorOpen: true }));
+    const lds02 = (defaultDeviceLibrary as DeviceLibrary).devices.find(d => d.id === 'dragino-lds02')!;
+    expect(decodeDeviceFrmPayload(lds02, door.frmPayload)).toMatchObject({ DOOR_OPEN_STATUS: 'open' });
+  });
+
+  it('sends door events as the model door frame', () => {
+    const state = sensor({ type: 'door', libraryDeviceId: 'dragino-lds02' });
+    const messageType = doorEventMessageType(state);
+    const uplink = composeEmulatorUplink({ ...state, doorOpen: true }, { messageType });
+
+    expect(messageType).toBe('door_event');
+    expect(uplink.decodedPayload.DOOR_OPEN_STATUS).toBe('open');
+    expect(uplink.messageType).toBe('door_event');
+    expect(doorEventMessageType(sensor({ type: 'door' }))).toBeUndefined();
+  });
+
+  it('wraps the uplink in the same v3 envelope for every transport', () => {
+    const home = { ...createGateway('Walk-in'), id: 'gw-home', location: { latitude: 40.0, longitude: -75.0 } };
+    const dock = { ...createGateway('Dock'), id: 'gw-dock', location: { latitude: 40.0005, longitude: -75.0 } };
+    const offline = { ...createGateway('Office'), id: 'gw-off', isOnline: false, location: { latitude: 40.0, longitude: -75.0 } };
+    const device = { ...createDevice('Probe', 'temperature', home.id), location: { latitude: 40.0002, longitude: -75.0 } };
+    const state = sensor({ libraryDeviceId: 'dragino-lht65' });
+    const uplink = composeEmulatorUplink(state);
+
+    const at = { serverTimestamp: '2025-06-01T00:00:00.000Z' };
+    const envelope = buildEmulatorEnvelope(state, uplink, device, home, [offline, dock, home], 'app', at);
+    expect(envelope.uplink_message).toMatchObject({
+      f_port: uplink.fPort,
+      f_cnt: uplink.fCnt,
+      decoded_payload: uplink.decodedPayload,
+      frm_payload: uplink.frmPayload,
+      settings: { data_rate: { lora: { bandwidth: 125000 } } },
+      network_ids: { net_id: '000013' },
+    });
+    expect(envelope.uplink_message.rx_metadata.map(rx => rx.gateway_ids.gateway_id)).toEqual(['gw-home', 'gw-dock']);
+    expect(envelope.correlation_ids.length).toBeGreaterThan(0);
+
+    // Seeded RF model: the same emission gets the same signal on every transport
+    expect(buildEmulatorEnvelope(state, uplink, device, home, [offline, dock, home], 'app', at).uplink_message.rx_metadata)
+      .toEqual(envelope.uplink_message.rx_metadata);
+
+    // Sensors without a model keep their legacy frame
+    const plain = composeEmulatorUplink(sensor({ sensorId: 'sensor-2' }));
+    expect(buildEmulatorEnvelope(sensor({ sensorId: 'sensor-2' }), plain, device, home, [home], 'app').uplink_message)
+      .toMatchObject({ f_port: 2, frm_payload: plain.frmPayload, decoded_payload: plain.decodedPayload });
+  });
+
+  it('stamps received_at and battery drain with the simulation clock', () => {
+    const start = Date.parse('2025-06-01T00:00:00.000Z');
+    setSimulationClock(createVirtualClock(start));
+    const gateway = createGateway('Gateway');
+    const uplink = composeEmulatorUplink(sensor());
+
+    const envelope = buildTTNPayload(createDevice('LHT65', 'temperature', gateway.id), gateway, uplink.decodedPayload, 'app', undefined, uplink.fCnt, uplink.fPort);
+    expect(envelope.received_at).toBe('2025-06-01T00:00:00.000Z');
+    expect(envelope.uplink_message.rx_metadata[0].timestamp).toBe(start);
+
+    // A year of self-discharge since the last send on the simulated timeline
+    const sent = sensor({ lastSentAt: new Date(start - 365 * 24 * 60 * 60 * 1000) });
+    expect(dischargeSensorBattery(sent)).toBeCloseTo(dischargeSensorBattery(sent, new Date(start)));
+    expect(dischargeSensorBattery(sent)).toBeLessThan(dischargeSensorBattery(sensor({ lastSentAt: new Date(start) })));
+  });
+});
+
+// ============================================
+// Event Rules
+// ============================================
+
+describe('Emulator Event Rules', () => {
+  it('sends the probe threshold frame when the sensor controls cross it', async () => {
+    const clock = createVirtualClock(Date.parse('2025-06-01T00:00:00.000Z'));
+    const lht65 = (defaultDeviceLibrary as DeviceLibrary).devices.find(d => d.id === 'dragino-lht65')!;
+    const scheduler = createEmissionScheduler({ clock });
+    let state = sensor({ libraryDeviceId: lht65.id });
+    const events: Array<{ uplink: EmulatorUplink; data: Record<string, unknown> }> = [];
+
+    // Registered the way the emulator registers library devices
+    scheduler.startDevice(state.sensorId, 3600, (_id, messageType, data) => {
+      const uplink = composeEmulatorUplink(state, { messageType, overrides: data });
+      if (data) events.push({ uplink, data });
+    }, {
+      sampler: { intervalSec: lht65.sample_interval_sec!, sample: () => sampleEmulatorEventRules(state) },
+    });
+
+    await clock.advance(10 * 60 * 1000);
+    expect(events).toEqual([]);
+
+    state = { ...state, minTempF: 50, maxTempF: 55 };
+    await clock.advance(60 * 1000);
+    scheduler.stopAll();
+
+    expect(events).toHaveLength(1);
+    // The frame carries the sampled value the rule fired on
+    expect(events[0].data.TempC_DS).toBeGreaterThanOrEqual(10);
+    expect(events[0].uplink.decodedPayload.TempC_DS).toBe(events[0].data.TempC_DS);
+    expect(events[0].uplink.messageType).toBeDefined();
+    expect(scheduler.getStatus(state.sensorId)).toMatchObject({ eventCount: 1 });
+  });
+});
@@ -18,6 +18,7 @@ import {
   createInitialSimulationState,
 } from '@/lib/deviceLibrary/simulationEngine';
 import { clearAllDeviceStates, incrementFCnt } from '@/lib/deviceLibrary/deviceStateStore';
+import { getChannelPlan, type RegionId } from '@/lib/deviceLibrary/channelPlans';
 import type { SimulationContext } from '@/lib/deviceLibrary/types';
 
 // ============================================
@@ -325,6 +326,56 @@ describe('rx_metadata Generation', () => {
   });
 });
 
+describe('Multi-Gateway Reception', () => {
+  const site = { latitude: 52.3702, longitude: 4.8952 };
+  const nearby: GatewayInstance[] = [
+    { id: 'gw-home', eui: 'A84041FFFF000001', location: site },
+    { id: 'gw-north', eui: 'A84041FFFF000002', location: { latitude: 52.3722, longitude: 4.8952 } },
+    { id: 'gw-east', eui: 'A84041FFFF000003', location: { latitude: 52.3702, longitude: 4.8992 } },
+  ];
+  const distant: GatewayInstance = {
+    id: 'gw-distant', eui: 'A84041FFFF000004', location: { latitude: 52.8702, longitude: 4.8952 },
+  };
+
+  it('lists every gateway in range with its own metadata', () => {
+    const rxMetadata = generateRxMetadata([...nearby, distant], {
+      timestamp: 1_700_000_000_000,
+      context: testContext,
+      deviceLocation: site,
+    });
+
+    expect(rxMetadata.map(m => m.gateway_ids.gateway_id)).toEqual(['gw-home', 'gw-north', 'gw-east']);
+    expect(rxMetadata[0].timestamp).toBe(1_700_000_000_000);
+    for (const meta of rxMetadata.slice(1)) {
+      expect(meta.timestamp).toBeGreaterThan(1_700_000_000_000);
+    }
+  });
+
+  it('puts the home gateway first in library envelopes', () => {
+    const device = defaultDeviceLibrary.devices[0];
+    const state = createInitialSimulationState('A84041FFFF777777', device.id);
+    const result = generateDevicePayload(device, state, testContext);
+    const envelope = buildLibraryEnvelope(
+      { devEui: 'A84041FFFF777777', name: 'Multi', gatewayId: 'gw-east', location: site },
+      nearby,
+      result.fields,
+      device,
+      state,
+      'test-application'
+    );
+
+    const ids = envelope.uplink_message.rx_metadata.map(m => m.gateway_ids.gateway_id);
+    expect(ids[0]).toBe('gw-east');
+    expect(ids).toHaveLength(3);
+  });
+
+  it('signal overrides pin the primary gateway only', () => {
+    const rxMetadata = generateRxMetadata(nearby, { rssi: -110, snr: -4, context: testContext });
+    expect(rxMetadata).toHaveLength(1);
+    expect(rxMetadata[0].rssi).toBe(-110);
+  });
+});
+
 describe('Envelope Structure', () => {
   it('has all required TTN v3 fields', () => {
     const device = defaultDeviceLibrary.devices[0];
@@ -379,3 +430,46 @@ describe('Envelope Structure', () => {
     expect(envelope.end_device_ids.application_ids.application_id).toBe(applicationId);
   });
 });
+
+describe('TTN v3 Uplink Fields', () => {
+  function buildFor(region?: RegionId): TTNEnvelope {
+    const device = defaultDeviceLibrary.devices[0];
+    const devEui = 'A84041FFFF88ABCD';
+    const state = createInitialSimulationState(devEui, device.id);
+    const result = generateDevicePayload(device, state, testContext);
+    return buildLibraryEnvelope(
+      createTestDeviceInstance(devEui),
+      testGateway,
+      result.fields,
+      device,
+      state,
+      'test-application',
+      { region, context: testContext, serverTimestamp: '2026-01-01T00:00:00.000Z' }
+    );
+  }
+
+  it('dev_addr matches the ABP session address', () => {
+    expect(buildFor().end_device_ids.dev_addr).toBe('260CABCD');
+  });
+
+  it('settings frequency comes from the region channel plan', () => {
+    for (const region of ['US915', 'EU868', 'AU915'] as const) {
+      const { settings, network_ids, rx_metadata } = buildFor(region).uplink_message;
+      const plan = getChannelPlan(region);
+      expect(plan.uplinkChannelsHz).toContain(Number(settings.frequency));
+      expect(rx_metadata[0].channel_index).toBe(plan.uplinkChannelsHz.indexOf(Number(settings.frequency)));
+      expect(settings.data_rate.lora.bandwidth).toBe(125000);
+      expect(network_ids.cluster_id).toBe(plan.cluster);
+    }
+  });
+
+  it('reports consumed_airtime, correlation_ids and received_at', () => {
+    const envelope = buildFor('EU868');
+    expect(envelope.uplink_message.consumed_airtime).toMatch(/^\d+\.\d{6}s$/);
+    expect(parseFloat(envelope.uplink_message.consumed_airtime)).toBeGreaterThan(0.03);
+    expect(envelope.correlation_ids).toHaveLength(3);
+    expect(envelope.correlation_ids[2]).toMatch(/^as:up:[0-9A-Z]{26}$/);
+    expect(envelope.uplink_message.received_at).toBe(envelope.received_at);
+    expect(buildFor('EU868')).toEqual(envelope);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Event Rule Tests
+ *
+ * Verifies rule matching, sampling without consuming frame counters,
+ * scheduler rate limiting and out-of-cycle uplinks from the headless
+ * runner.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { evaluateEventRules, matchesEventRule, sampleEventRules, toEventTrigger } from '@/lib/deviceLibrary/eventRules';
+import { createInitialSimulationState } from '@/lib/deviceLibrary/simulationEngine';
+import { createEmissionScheduler } from '@/lib/deviceLibrary/emissionScheduler';
+import { createVirtualClock, setSimulationClock } from '@/lib/deviceLibrary/clock';
+import { createMemoryBackend, setStateBackend } from '@/lib/deviceLibrary/stateBackend';
+import { validateDeviceLibrary } from '@/lib/deviceLibrary/schema';
+import { withDevice } from '@/lib/deviceLibrary/libraryEditor';
+import { createHeadlessRunner, type HeadlessEmission } from '@/headless/runner';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import type { DeviceLibrary, EventRuleDefinition, FleetManifest } from '@/lib/deviceLibrary/types';
+
+const library = defaultDeviceLibrary as DeviceLibrary;
+const lht65 = library.devices.find(d => d.id === 'dragino-lht65')!;
+const lds02 = library.devices.find(d => d.id === 'dragino-lds02')!;
+const START = Date.parse('2025-01-06T08:00:00.000Z');
+const HOUR_MS = 60 * 60 * 1000;
+
+afterEach(() => {
+  setSimulationClock(null);
+  setStateBackend(null);
+});
+
+// ============================================
+// Matching
+// ============================================
+
+describe('Event Rule Matching', () => {
+  it('fires thresholds only when crossed in the given direction', () => {
+    const rising: EventRuleDefinition = { id: 'hot', field: 't', kind: 'threshold', threshold: 8, direction: 'rising' };
+    expect(matchesEventRule(rising, 7.9, 8)).toBe(true);
+    expect(matchesEventRule(rising, 8.5, 9)).toBe(false);
+    expect(matchesEventRule(rising, 9, 7)).toBe(false);
+    expect(matchesEventRule({ ...rising, direction: 'both' }, 9, 7)).toBe(true);
+    expect(matchesEventRule(rising, undefined, 9)).toBe(false);
+  });
+
+  it('fires changes and raised flags', () => {
+    expect(matchesEventRule({ id: 'c', field: 'd', kind: 'change' }, 'closed', 'open')).toBe(true);
+    expect(matchesEventRule({ id: 'c', field: 't', kind: 'change', min_delta: 1 }, 4, 4.5)).toBe(false);
+    expect(matchesEventRule({ id: 'f', field: 'leak', kind: 'flag' }, false, true)).toBe(true);
+    expect(matchesEventRule({ id: 'f', field: 'leak', kind: 'flag' }, true, true)).toBe(false);
+    expect(matchesEventRule({ id: 'f', field: 'mode', kind: 'flag', value: 'alarm' }, 'normal', 'alarm')).toBe(true);
+
+    const rules: EventRuleDefinition[] = [
+      { id: 'door', field: 'DOOR_OPEN_STATUS', kind: 'change', message_type: 'door_event' },
+      { id: 'low', field: 'BatV', kind: 'threshold', threshold: 2.8, direction: 'falling' },
+    ];
+    const fired = evaluateEventRules(rules, { DOOR_OPEN_STATUS: 'closed', BatV: 3.1 }, { DOOR_OPEN_STATUS: 'open', BatV: 3.0 });
+    expect(fired.map(r => r.id)).toEqual(['door']);
+    expect(toEventTrigger(lds02, fired[0], { DOOR_OPEN_STATUS: 'open', BatV: 3.0, battery_level: 80 })).toEqual({
+      ruleId: 'door',
+      messageType: 'door_event',
+      minIntervalSec: 60,
+      data: { DOOR_OPEN_STATUS: 'open', BatV: 3.0 },
+    });
+  });
+
+  it('validates rule fields and message types', () => {
+    const broken = {
+      ...lds02,
+      event_rules: [
+        { id: 'door', field: 'door', kind: 'change' as const, message_type: 'alarm' },
+        { id: 'cold', field: 'BatV', kind: 'threshold' as const },
+      ],
+    };
+    const result = validateDeviceLibrary(withDevice(library, broken, lds02.id));
+    expect(result.errors.map(e => e.path.replace(/^devices\.\d+\./, '')).sort()).toEqual([
+      'event_rules.0.field',
+      'event_rules.0.message_type',
+      'event_rules.1.threshold',
+    ]);
+  });
+});
+
+// ============================================
+// Sampling
+// ============================================
+
+describe('Event Sampling', () => {
+  it('advances values without consuming the frame counter', () => {
+    let state = createInitialSimulationState('lht65-1', lht65.id);
+    const context = { orgId: '', siteId: '', unitId: '', deviceInstanceId: 'lht65-1', emissionSequence: 0 };
+
+    const first = sampleEventRules(lht65, state, context);
+    expect(first.triggers).toEqual([]);
+    state = first.updatedState;
+
+    const second = sampleEventRules(lht65, state, { ...context, emissionSequence: state.emissionSequence });
+    expect(second.updatedState.f_cnt).toBe(0);
+    expect(second.updatedState.emissionSequence).toBe(2);
+    expect(second.updatedState.lastValues.TempC_DS).toBe(second.fields.TempC_DS);
+  });
+});
+
+// ============================================
+// Scheduling
+// ============================================
+
+describe('Event Scheduling', () => {
+  it('rate limits triggers per rule', async () => {
+    const clock = createVirtualClock(START);
+    const scheduler = createEmissionScheduler({ clock });
+    const sent: Array<[string | undefined, Record<string, unknown> | undefined]> = [];
+    const trigger = { ruleId: 'hot', messageType: 'uplink', minIntervalSec: 600, data: { t: 9 } };
+
+    expect(await scheduler.triggerEvent('dev-1', trigger)).toBe('not_running');
+    scheduler.startDevice('dev-1', 3600, (_id, messageType, data) => { sent.push([messageType, data]); });
+
+    expect(await scheduler.triggerEvent('dev-1', trigger)).toBe('sent');
+    expect(await scheduler.triggerEvent('dev-1', trigger)).toBe('rate_limited');
+    expect(await scheduler.triggerEvent('dev-1', { ...trigger, ruleId: 'cold' })).toBe('sent');
+    await clock.advance(600_000);
+    expect(await scheduler.triggerEvent('dev-1', trigger)).toBe('sent');
+    scheduler.stopAll();
+
+    expect(sent).toEqual([['uplink', { t: 9 }], ['uplink', { t: 9 }], ['uplink', { t: 9 }]]);
+    expect(scheduler.getStatus('dev-1')).toMatchObject({ eventCount: 3, rateLimitedEvents: 1 });
+  });
+
+  it('sends out-of-cycle uplinks when a sampled value crosses a threshold', async () => {
+    const clock = createVirtualClock(START);
+    const fleet: FleetManifest = {
+      version: 1,
+      seed: 'events',
+      applicationId: 'frostguard-ci',
+      gateways: [{ id: 'gw-ci', eui: 'A840411F00000001' }],
+      devices: [{ devEui: 'A840410000000004', model: lht65.id, gatewayId: 'gw-ci', intervalSec: 1200 }],
+    };
+    const emissions: HeadlessEmission[] = [];
+    const runner = createHeadlessRunner({ fleet, backend: createMemoryBackend(), clock, onEmission: e => emissions.push(e) });
+
+    await runner.runFor(12 * HOUR_MS);
+
+    const events = emissions.filter(e => e.messageType);
+    const periodic = emissions.filter(e => !e.messageType);
+    expect(periodic).toHaveLength(37);
+    expect(events.length).toBeGreaterThan(0);
+    expect(runner.getStatus('A840410000000004')?.eventCount).toBe(events.length);
+    for (const event of events) {
+      const probe = event.envelope.uplink_message.decoded_payload.TempC_DS as number;
+      expect(Math.abs(probe - 8)).toBeLessThan(3);
+    }
+    expect(emissions.map(e => e.fCnt)).toEqual(emissions.map((_, i) => i + 1));
+  });
+});
@@ -0,0 +1,192 @@
+/**
+ * Fleet Manifest Tests
+ *
+ * Verifies manifest validation, YAML/JSON round trips and conversion
+ * to and from emulator gateways, devices and model assignments.
+ */
+
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  parseFleetManifest,
+  serializeFleetManifest,
+  createFleetManifest,
+  applyFleetManifest,
+  getFleetSettings,
+} from '@/lib/deviceLibrary/fleetManifest';
+import { validateFleetManifest } from '@/lib/deviceLibrary/schema';
+import { loadDeviceLibrary, clearDeviceLibrary } from '@/lib/deviceLibrary/loader';
+import { getDeviceModel } from '@/lib/deviceLibrary/store';
+import { createMemoryBackend, setStateBackend } from '@/lib/deviceLibrary/stateBackend';
+import { createFieldSeed } from '@/lib/deviceLibrary/simulationEngine';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import type { SimulationContext } from '@/lib/deviceLibrary/types';
+
+const YAML_MANIFEST = `
+version: 1
+name: walk-in-bench
+seed: 42
+region: US915
+applicationId: frostguard-ci
+gateways:
+  - id: gw-kitchen
+    eui: A840411F00000001
+    location: { latitude: 40.7128, longitude: -74.006 }
+devices:
+  - devEui: A840410000000001
+    model: milesight-em300-th
+    gatewayId: gw-kitchen
+    unitId: walk-in-cooler
+    intervalSec: 600
+  - devEui: a840410000000002
+    model: dragino-lds02
+    gatewayId: gw-kitchen
+    intervalSec: 300
+    scenario: door_left_open
+`;
+
+beforeEach(() => {
+  setStateBackend(createMemoryBackend());
+  loadDeviceLibrary(defaultDeviceLibrary);
+});
+
+afterEach(() => {
+  setStateBackend(null);
+  clearDeviceLibrary();
+});
+
+// ============================================
+// Validation
+// ============================================
+
+describe('Fleet Manifest Validation', () => {
+  it('parses YAML and normalizes a numeric seed to a string', () => {
+    const { manifest, result } = parseFleetManifest(YAML_MANIFEST);
+    expect(result.valid).toBe(true);
+    expect(manifest?.seed).toBe('42');
+    expect(manifest?.devices).toHaveLength(2);
+    expect(manifest?.gateways[0].location?.latitude).toBe(40.7128);
+  });
+
+  it('parses JSON manifests', () => {
+    const { manifest } = parseFleetManifest(YAML_MANIFEST);
+    const reparsed = parseFleetManifest(serializeFleetManifest(manifest!, 'json'));
+    expect(reparsed.result.valid).toBe(true);
+    expect(reparsed.manifest).toEqual(manifest);
+  });
+
+  it('rejects devices that reference a missing gateway', () => {
+    const { result } = validateFleetManifest({
+      version: 1,
+      seed: 'x',
+      applicationId: 'app',
+      gateways: [{ id: 'gw-1', eui: 'A840411F00000001' }],
+      devices: [{ devEui: 'A840410000000001', model: 'milesight-em300-th', gatewayId: 'gw-2', intervalSec: 60 }],
+    });
+    expect(result.valid).toBe(false);
+    expect(result.errors[0].message).toMatch(/gatewayId/);
+  });
+
+  it('rejects unsupported versions and duplicate devEuis', () => {
+    const base = { seed: 'x', applicationId: 'app', gateways: [{ id: 'gw-1', eui: 'A840411F00000001' }] };
+    const device = { devEui: 'A840410000000001', model: 'm', gatewayId: 'gw-1', intervalSec: 60 };
+
+    expect(validateFleetManifest({ ...base, version: 2, devices: [] }).result.valid).toBe(false);
+    expect(validateFleetManifest({
+      ...base,
+      version: 1,
+      devices: [device, { ...device, devEui: device.devEui.toLowerCase() }],
+    }).result.errors.map(e => e.message)).toContain('all device devEuis must be unique');
+  });
+
+  it('warns about unknown models and inapplicable scenarios', () => {
+    const text = YAML_MANIFEST
+      .replace('milesight-em300-th', 'no-such-model')
+      .replace('door_left_open', 'leak');
+    const { result } = parseFleetManifest(text);
+    expect(result.valid).toBe(true);
+    expect(result.warnings.map(w => w.path)).toEqual(['devices.0.model', 'devices.1.scenario']);
+  });
+
+  it('reports YAML syntax errors', () => {
+    const { manifest, result } = parseFleetManifest('version: [1');
+    expect(manifest).toBeNull();
+    expect(result.errors[0].code).toBe('parse_error');
+  });
+});
+
+// ============================================
+// Emulator Round Trip
+// ============================================
+
+describe('Fleet Manifest Emulator Conversion', () => {
+  it('recreates gateways, devices and model assignments', () => {
+    const { manifest } = parseFleetManifest(YAML_MANIFEST);
+    const fleet = applyFleetManifest(manifest!);
+
+    expect(fleet.gateways[0]).toMatchObject({ id: 'gw-kitchen', eui: 'A840411F00000001', isOnline: true });
+    expect(fleet.devices[1]).toMatchObject({ id: 'A840410000000002', type: 'door', gatewayId: 'gw-kitchen' });
+    expect(fleet.intervals).toEqual({ A840410000000001: 600, A840410000000002: 300 });
+    expect(fleet.scenarios).toEqual({ A840410000000002: 'door_left_open' });
+    expect(getDeviceModel('A840410000000001')).toBe('milesight-em300-th');
+    expect(getFleetSettings()).toEqual({ name: 'walk-in-bench', seed: '42', region: 'US915' });
+  });
+
+  it('exports an imported fleet back to an equivalent manifest', () => {
+    const { manifest } = parseFleetManifest(YAML_MANIFEST);
+    const fleet = applyFleetManifest(manifest!);
+
+    const { manifest: exported, skipped } = createFleetManifest({
+      gateways: fleet.gateways,
+      devices: fleet.devices,
+      applicationId: 'frostguard-ci',
+      intervals: fleet.intervals,
+      scenarios: fleet.scenarios,
+    });
+
+    expect(skipped).toEqual([]);
+    expect(exported.seed).toBe('42');
+    expect(exported.devices.map(d => [d.devEui, d.model, d.intervalSec, d.scenario])).toEqual([
+      ['A840410000000001', 'milesight-em300-th', 600, undefined],
+      ['A840410000000002', 'dragino-lds02', 300, 'door_left_open'],
+    ]);
+    expect(exported.devices[0]).not.toHaveProperty('appKey');
+
+    const reparsed = parseFleetManifest(serializeFleetManifest(exported));
+    expect(reparsed.result.valid).toBe(true);
+  });
+
+  it('includes credentials only when requested', () => {
+    const { manifest } = parseFleetManifest(YAML_MANIFEST);
+    const fleet = applyFleetManifest(manifest!);
+    const { manifest: exported } = createFleetManifest({
+      gateways: fleet.gateways,
+      devices: fleet.devices,
+      applicationId: 'frostguard-ci',
+      includeCredentials: true,
+    });
+    expect(exported.devices[0].appKey).toBe(fleet.devices[0].appKey);
+    expect(validateFleetManifest(exported).result.valid).toBe(true);
+  });
+});
+
+// ============================================
+// Global Seed
+// ============================================
+
+describe('Fleet Seed', () => {
+  const context: SimulationContext = {
+    orgId: 'org',
+    siteId: 'site',
+    unitId: 'unit',
+    deviceInstanceId: 'A840410000000001',
+    emissionSequence: 0,
+  };
+
+  it('changes field seeds when set and leaves unseeded contexts unchanged', () => {
+    const unseeded = createFieldSeed(context, 'temperature');
+    expect(createFieldSeed({ ...context, seed: '' }, 'temperature')).toBe(unseeded);
+    expect(createFieldSeed({ ...context, seed: '42' }, 'temperature')).not.toBe(unseeded);
+    expect(createFieldSeed({ ...context, seed: '42' }, 'temperature'))
+      .toBe(createFieldSeed({ ...context, seed: '42' }, 'temperature'));
+  });
+});
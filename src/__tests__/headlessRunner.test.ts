@@ -0,0 +1,129 @@
+/**
+ * Headless Runner Tests
+ *
+ * Verifies that the headless runner delivers envelopes to a webhook and
+ * persists simulation state through pluggable backends.
+ */
+
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createHeadlessRunner } from '@/headless/runner';
+import { createJsonFileBackend, createStateBackendFromSpec } from '@/headless/stateBackends';
+import { createMemoryBackend, setStateBackend } from '@/lib/deviceLibrary/stateBackend';
+import { getDeviceSimState } from '@/lib/deviceLibrary/deviceStateStore';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import type { FleetManifest } from '@/lib/deviceLibrary/types';
+
+const fleet: FleetManifest = {
+  version: 1,
+  seed: 'ci',
+  applicationId: 'frostguard-ci',
+  region: 'US915',
+  gateways: [{ id: 'gw-ci', eui: 'A840411F00000001' }],
+  devices: [
+    { devEui: 'A840410000000001', model: 'milesight-em300-th', gatewayId: 'gw-ci', intervalSec: 600 },
+    { devEui: 'A840410000000002', model: 'dragino-lht52', gatewayId: 'gw-ci', intervalSec: 600 },
+  ],
+};
+
+function okFetch() {
+  return vi.fn(async () => new Response('{}', { status: 200 }));
+}
+
+afterEach(() => {
+  setStateBackend(null);
+});
+
+// ============================================
+// Delivery
+// ============================================
+
+describe('Headless Runner', () => {
+  it('POSTs one TTN envelope per device per round', async () => {
+    const fetchMock = okFetch();
+    const runner = createHeadlessRunner({
+      fleet,
+      library: defaultDeviceLibrary,
+      target: { url: 'https://example.test/ttn-webhook', headers: { 'X-Webhook-Secret': 's3cret' } },
+      backend: createMemoryBackend(),
+      fetch: fetchMock,
+    });
+
+    const emissions = await runner.runCount(2);
+
+    expect(emissions).toHaveLength(4);
+    expect(fetchMock).toHaveBeenCalledTimes(4);
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(url).toBe('https://example.test/ttn-webhook');
+    expect(init.headers).toMatchObject({ 'Content-Type': 'application/json', 'X-Webhook-Secret': 's3cret' });
+
+    const body = JSON.parse(init.body as string);
+    expect(body.end_device_ids.dev_eui).toBe('A840410000000001');
+    expect(body.end_device_ids.application_ids.application_id).toBe('frostguard-ci');
+    expect(body.uplink_message.rx_metadata[0].gateway_ids.gateway_id).toBe('gw-ci');
+    expect(runner.stats).toEqual({ sent: 4, failed: 0 });
+  });
+
+  it('increments f_cnt per device across rounds', async () => {
+    const runner = createHeadlessRunner({ fleet, backend: createMemoryBackend() });
+    const emissions = await runner.runCount(3);
+    const fCnts = emissions.filter(e => e.devEui === 'A840410000000001').map(e => e.fCnt);
+    expect(fCnts).toEqual([1, 2, 3]);
+  });
+
+  it('records failed deliveries without throwing', async () => {
+    const runner = createHeadlessRunner({
+      fleet,
+      target: { url: 'https://example.test/ttn-webhook' },
+      backend: createMemoryBackend(),
+      fetch: vi.fn(async () => new Response('nope', { status: 500 })),
+    });
+
+    const [emission] = await runner.runCount(1);
+    expect(emission.ok).toBe(false);
+    expect(emission.status).toBe(500);
+    expect(runner.stats.failed).toBe(2);
+  });
+
+  it('rejects fleets that reference unknown library models', () => {
+    expect(() => createHeadlessRunner({
+      fleet: { ...fleet, devices: [{ ...fleet.devices[0], model: 'no-such-device' }] },
+      backend: createMemoryBackend(),
+    })).toThrow(/unknown library model/);
+  });
+});
+
+// ============================================
+// State Backends
+// ============================================
+
+describe('Headless State Backends', () => {
+  it('persists simulation state in the configured backend', async () => {
+    const backend = createMemoryBackend();
+    await createHeadlessRunner({ fleet, backend }).runCount(2);
+
+    expect(getDeviceSimState('A840410000000001').f_cnt).toBe(2);
+    setStateBackend(createMemoryBackend());
+    expect(getDeviceSimState('A840410000000001').f_cnt).toBe(0);
+  });
+
+  it('resumes f_cnt from a JSON state file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'headless-'));
+    const path = join(dir, 'state.json');
+    try {
+      await createHeadlessRunner({ fleet, backend: createJsonFileBackend(path) }).runCount(2);
+      expect(JSON.parse(readFileSync(path, 'utf8'))).toBeTypeOf('object');
+
+      const [next] = await createHeadlessRunner({ fleet, backend: createJsonFileBackend(path) }).runCount(1);
+      expect(next.fCnt).toBe(3);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('rejects unknown backend specs', () => {
+    expect(() => createStateBackendFromSpec('redis://localhost')).toThrow(/Unknown state backend/);
+  });
+});
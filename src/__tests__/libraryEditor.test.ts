@@ -0,0 +1,123 @@
+/**
+ * Library Editor Tests
+ *
+ * Verifies draft validation with device-relative paths, library updates,
+ * versioned export and payload preview for edited device definitions.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createDeviceDraft,
+  createFieldConfig,
+  withDevice,
+  withoutDevice,
+  bumpLibraryVersion,
+  serializeDeviceLibrary,
+  validateDeviceDraft,
+  previewDevicePayloads,
+} from '@/lib/deviceLibrary/libraryEditor';
+import { parseDeviceLibrary } from '@/lib/deviceLibrary/schema';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import type { DeviceDefinition, DeviceLibrary } from '@/lib/deviceLibrary/types';
+
+const library = defaultDeviceLibrary as DeviceLibrary;
+
+// ============================================
+// Validation
+// ============================================
+
+describe('Device Draft Validation', () => {
+  it('accepts a new draft device', () => {
+    const result = validateDeviceDraft(library, createDeviceDraft('custom-probe'));
+    expect(result).toEqual({ valid: true, errors: [], warnings: [] });
+  });
+
+  it('reports errors relative to the device', () => {
+    const draft = createDeviceDraft('Bad Id');
+    draft.simulation_profile.fields.state = { type: 'enum', values: [] };
+
+    const paths = validateDeviceDraft(library, draft).errors.map(e => e.path);
+    expect(paths).toContain('id');
+    expect(paths).toContain('simulation_profile.fields.state.values');
+  });
+
+  it('flags duplicate ids unless the draft replaces that device', () => {
+    const existing = library.devices[0];
+    const copy: DeviceDefinition = { ...structuredClone(existing), name: 'Renamed' };
+
+    expect(validateDeviceDraft(library, copy).errors.map(e => e.message)).toContain('all device ids must be unique');
+    expect(validateDeviceDraft(library, copy, existing.id).valid).toBe(true);
+  });
+
+  it('warns about profile fields missing from the normal example', () => {
+    const draft = createDeviceDraft('custom-probe');
+    draft.simulation_profile.fields.humidity = createFieldConfig('float');
+
+    const { valid, warnings } = validateDeviceDraft(library, draft);
+    expect(valid).toBe(true);
+    expect(warnings).toEqual([expect.objectContaining({ path: 'examples.normal', message: expect.stringMatching(/humidity/) })]);
+  });
+});
+
+// ============================================
+// Library Updates & Export
+// ============================================
+
+describe('Library Editing', () => {
+  it('adds, renames and removes devices and keeps metadata in step', () => {
+    const draft = { ...createDeviceDraft('custom-probe'), manufacturer: 'Acme' };
+    const added = withDevice(library, draft);
+    expect(added.devices).toHaveLength(library.devices.length + 1);
+    expect(added.metadata.manufacturers).toContain('Acme');
+    expect(library.metadata.manufacturers).not.toContain('Acme');
+
+    const renamed = withDevice(added, { ...draft, id: 'custom-probe-2' }, 'custom-probe');
+    expect(renamed.devices.map(d => d.id)).toContain('custom-probe-2');
+    expect(renamed.devices.map(d => d.id)).not.toContain('custom-probe');
+
+    expect(withoutDevice(renamed, 'custom-probe-2').devices).toHaveLength(library.devices.length);
+  });
+
+  it('keeps range, unit and description when switching numeric field types', () => {
+    const field = createFieldConfig('int', { type: 'float', min: -40, max: 85, precision: 1, unit: '°C' });
+    expect(field).toMatchObject({ type: 'int', min: -40, max: 85, unit: '°C' });
+    expect(createFieldConfig('enum', field)).toMatchObject({ type: 'enum', unit: '°C' });
+  });
+
+  it('exports a versioned library that parses back', () => {
+    const versioned = bumpLibraryVersion(withDevice(library, createDeviceDraft('custom-probe')), new Date('2025-03-04T12:00:00Z'));
+    const [major, minor, patch] = library.metadata.version.split('.').map(Number);
+
+    expect(versioned.metadata.version).toBe(`${major}.${minor}.${patch + 1}`);
+    expect(versioned.metadata.last_updated).toBe('2025-03-04');
+
+    const { library: parsed, result } = parseDeviceLibrary(serializeDeviceLibrary(versioned));
+    expect(result.valid).toBe(true);
+    expect(parsed?.devices.at(-1)?.id).toBe('custom-probe');
+  });
+});
+
+// ============================================
+// Preview
+// ============================================
+
+describe('Payload Preview', () => {
+  it('generates consecutive samples deterministically per seed', () => {
+    const device = createDeviceDraft('custom-probe');
+    const first = previewDevicePayloads(device, 3, 'a');
+
+    expect(first.error).toBeUndefined();
+    expect(first.normal).toHaveLength(3);
+    for (const sample of first.normal) {
+      expect(sample.temperature).toBeGreaterThanOrEqual(-20);
+      expect(sample.temperature).toBeLessThanOrEqual(10);
+    }
+    expect(first.alarm).toBeUndefined();
+    expect(previewDevicePayloads(device, 3, 'a')).toEqual(first);
+  });
+
+  it('includes an alarm sample when the device has an alarm example', () => {
+    const device = { ...createDeviceDraft('custom-probe'), examples: { normal: { temperature: 3 }, alarm: { temperature: 9.5 } } };
+    expect(previewDevicePayloads(device).alarm?.temperature).toBe(9.5);
+  });
+});
@@ -0,0 +1,188 @@
+/**
+ * Library Migration Tests
+ *
+ * Verifies diffing between library releases, rename detection, planning
+ * of assignment and simulation state migrations, and applying a plan to
+ * the persisted store.
+ */
+
+import { describe, it, expect, beforeEach } from 'vitest';
+import {
+  compareLibraryVersions,
+  diffDeviceLibraries,
+  reconcileSimState,
+  planLibraryMigration,
+  planActiveLibraryMigration,
+  applyLibraryMigration,
+} from '@/lib/deviceLibrary/libraryMigration';
+import { withDevice, withoutDevice } from '@/lib/deviceLibrary/libraryEditor';
+import { loadDeviceLibrary } from '@/lib/deviceLibrary/loader';
+import { getModelAssignments, setDeviceModel } from '@/lib/deviceLibrary/store';
+import { getDeviceSimState, updateDeviceSimState } from '@/lib/deviceLibrary/deviceStateStore';
+import { createMemoryBackend, setStateBackend } from '@/lib/deviceLibrary/stateBackend';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import type { DeviceLibrary, DeviceSimulationState } from '@/lib/deviceLibrary/types';
+
+function withVersion(library: DeviceLibrary, version: string): DeviceLibrary {
+  return { ...library, metadata: { ...library.metadata, version } };
+}
+
+/** The 3.0.0 release, before devices declared message types and event rules */
+const base = withVersion({
+  ...defaultDeviceLibrary,
+  devices: defaultDeviceLibrary.devices.map(
+    ({ message_types: _types, event_rules: _rules, sample_interval_sec: _sample, ...device }) => device
+  ),
+}, '3.0.0');
+const door = base.devices.find(d => d.id === 'dragino-lds02')!;
+
+/** The 3.1.0 release: 3.0.0 plus the default library's message types */
+function messageTypesRelease(): DeviceLibrary {
+  const messageTypes = new Map(defaultDeviceLibrary.devices.map(d => [d.id, d.message_types]));
+  return withVersion({
+    ...base,
+    devices: base.devices.map(d => messageTypes.get(d.id) ? { ...d, message_types: messageTypes.get(d.id) } : d),
+  }, '3.1.0');
+}
+
+/** LDS02 renamed to a new id, with open_count no longer counting */
+function nextRelease(): DeviceLibrary {
+  const { open_count: _removed, ...fields } = door.simulation_profile.fields;
+  const renamed = {
+    ...door,
+    id: 'dragino-lds02-v2',
+    simulation_profile: { fields: { ...fields, last_open_duration: { type: 'float' as const, min: 0, max: 65535 } } },
+    examples: { normal: { DOOR_OPEN_STATUS: 'closed', last_open_duration: 8, BatV: 3.4, battery_level: 88 } },
+  };
+  return withVersion(withDevice(withoutDevice(base, door.id), renamed), '3.1.0');
+}
+
+function doorState(): DeviceSimulationState {
+  return {
+    deviceInstanceId: 'emu-door',
+    libraryDeviceId: door.id,
+    f_cnt: 12,
+    emissionSequence: 12,
+    incrementCounters: { open_count: 12 },
+    lastValues: { DOOR_OPEN_STATUS: 'open', last_open_duration: 30, battery_level: 90, tamper: false },
+    lastEmittedAt: null,
+    createdAt: '2025-01-01T00:00:00.000Z',
+    updatedAt: '2025-01-01T00:00:00.000Z',
+  };
+}
+
+beforeEach(() => {
+  setStateBackend(createMemoryBackend());
+  loadDeviceLibrary(base);
+});
+
+// ============================================
+// Diffing
+// ============================================
+
+describe('Library Diff', () => {
+  it('compares semver versions numerically', () => {
+    expect(compareLibraryVersions('3.10.0', '3.9.9')).toBeGreaterThan(0);
+    expect(compareLibraryVersions('1.0.0', '1.0.0')).toBe(0);
+    expect(compareLibraryVersions('1.0.1', '2.0.0')).toBeLessThan(0);
+  });
+
+  it('detects renamed devices by manufacturer and model, with field changes', () => {
+    const diff = diffDeviceLibraries(base, nextRelease());
+
+    expect(diff).toMatchObject({ fromVersion: '3.0.0', toVersion: '3.1.0', versionChange: 'minor', added: [], removed: [], breaking: true });
+    expect(diff.renamed).toEqual([{ from: door.id, to: 'dragino-lds02-v2' }]);
+    expect(diff.changed).toEqual([{
+      id: 'dragino-lds02-v2',
+      previousId: door.id,
+      properties: ['examples'],
+      fields: { added: [], removed: ['open_count'], changed: ['last_open_duration'] },
+    }]);
+  });
+
+  it('reports message types added in 3.1.0 as non-breaking definition changes', () => {
+    const diff = diffDeviceLibraries(base, messageTypesRelease());
+
+    expect(diff).toMatchObject({ fromVersion: '3.0.0', toVersion: '3.1.0', versionChange: 'minor', renamed: [], breaking: false });
+    expect(diff.changed).toEqual([
+      { id: door.id, properties: ['message_types'], fields: { added: [], removed: [], changed: [] } },
+      { id: 'milesight-ws301', properties: ['message_types'], fields: { added: [], removed: [], changed: [] } },
+    ]);
+  });
+
+  it('reports removed and added devices when no rename applies', () => {
+    const next = withDevice(withoutDevice(base, door.id), { ...door, id: 'acme-door', manufacturer: 'Acme' });
+    const diff = diffDeviceLibraries(base, next);
+    expect(diff.removed).toEqual([door.id]);
+    expect(diff.added).toEqual(['acme-door']);
+
+    const explicit = diffDeviceLibraries(base, next, { renames: { [door.id]: 'acme-door' } });
+    expect(explicit.renamed).toEqual([{ from: door.id, to: 'acme-door' }]);
+    expect(explicit.changed[0].properties).toEqual(['manufacturer']);
+  });
+});
+
+// ============================================
+// Planning
+// ============================================
+
+describe('Library Migration Plan', () => {
+  it('drops counters and values that no longer fit the device', () => {
+    const next = nextRelease().devices.find(d => d.id === 'dragino-lds02-v2');
+    const { state, droppedCounters, droppedValues } = reconcileSimState(doorState(), next);
+
+    expect(droppedCounters).toEqual(['open_count']);
+    expect(droppedValues).toEqual(['tamper']);
+    expect(state.lastValues).toEqual({ DOOR_OPEN_STATUS: 'open', last_open_duration: 30, battery_level: 90 });
+    expect(state.f_cnt).toBe(12);
+
+    expect(reconcileSimState(doorState(), door).droppedCounters).toEqual([]);
+    expect(reconcileSimState(doorState(), undefined).state.lastValues).toEqual({});
+  });
+
+  it('remaps and orphans assignments and warns about affected devices', () => {
+    const next = withoutDevice(nextRelease(), 'milesight-em300-th');
+    const plan = planLibraryMigration(base, next, {
+      assignments: [
+        { emulatorDeviceId: 'emu-door', libraryDeviceId: door.id, assignedAt: '' },
+        { emulatorDeviceId: 'emu-temp', libraryDeviceId: 'milesight-em300-th', assignedAt: '' },
+      ],
+      states: [doorState()],
+    });
+
+    expect(plan.assignments.map(a => [a.emulatorDeviceId, a.action, a.to])).toEqual([
+      ['emu-door', 'remap', 'dragino-lds02-v2'],
+      ['emu-temp', 'orphan', null],
+    ]);
+    expect(plan.states).toEqual([expect.objectContaining({ deviceInstanceId: 'emu-door', to: 'dragino-lds02-v2', droppedCounters: ['open_count'] })]);
+    expect(plan.warnings.map(w => w.deviceId)).toEqual([undefined, 'emu-door', 'emu-door', 'emu-temp']);
+    expect(plan.warnings[0].message).toMatch(/without a major version bump/);
+  });
+
+  it('keeps assignments and simulation state when 3.1.0 adds message types', () => {
+    const plan = planLibraryMigration(base, messageTypesRelease(), {
+      assignments: [{ emulatorDeviceId: 'emu-door', libraryDeviceId: door.id, assignedAt: '' }],
+      states: [{ ...doorState(), lastValues: { DOOR_OPEN_STATUS: 'open', last_open_duration: 30, battery_level: 90 } }],
+    });
+
+    expect(plan.assignments.map(a => [a.emulatorDeviceId, a.action, a.to])).toEqual([['emu-door', 'keep', door.id]]);
+    expect(plan.states).toEqual([]);
+    expect(plan.warnings).toEqual([]);
+  });
+
+  it('persists the migration for the active library', () => {
+    setDeviceModel('emu-door', door.id);
+    updateDeviceSimState(doorState());
+
+    const next = nextRelease();
+    const plan = planActiveLibraryMigration(next)!;
+    loadDeviceLibrary(next);
+    applyLibraryMigration(plan, next);
+
+    expect(getModelAssignments().map(a => a.libraryDeviceId)).toEqual(['dragino-lds02-v2']);
+    const state = getDeviceSimState('emu-door');
+    expect(state.libraryDeviceId).toBe('dragino-lds02-v2');
+    expect(state.incrementCounters).toEqual({});
+    expect(state.f_cnt).toBe(12);
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Message Type Tests
+ *
+ * Verifies per-fport frame types: schema validation, field subsets,
+ * on_change suppression, scheduler streams and event frames from the
+ * headless runner.
+ */
+
+import { describe, it, expect, afterEach } from 'vitest';
+import { getMessageStreams, getMessageTypes } from '@/lib/deviceLibrary/messageTypes';
+import { composeMessagePayload } from '@/lib/deviceLibrary/scenarioComposer';
+import { createInitialSimulationState } from '@/lib/deviceLibrary/simulationEngine';
+import { createEmissionScheduler } from '@/lib/deviceLibrary/emissionScheduler';
+import { createVirtualClock, setSimulationClock } from '@/lib/deviceLibrary/clock';
+import { createMemoryBackend, setStateBackend } from '@/lib/deviceLibrary/stateBackend';
+import { validateDeviceLibrary } from '@/lib/deviceLibrary/schema';
+import { withDevice } from '@/lib/deviceLibrary/libraryEditor';
+import { createHeadlessRunner } from '@/headless/runner';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import type { DeviceLibrary, DeviceSimulationState, FleetManifest, SimulationContext } from '@/lib/deviceLibrary/types';
+
+const library = defaultDeviceLibrary as DeviceLibrary;
+const lds02 = library.devices.find(d => d.id === 'dragino-lds02')!;
+const ws301 = library.devices.find(d => d.id === 'milesight-ws301')!;
+const START = Date.parse('2025-01-06T08:00:00.000Z');
+
+function contextFor(state: DeviceSimulationState): SimulationContext {
+  return { orgId: '', siteId: '', unitId: '', deviceInstanceId: state.deviceInstanceId, emissionSequence: state.emissionSequence, seed: 'mt' };
+}
+
+afterEach(() => {
+  setSimulationClock(null);
+  setStateBackend(null);
+});
+
+// ============================================
+// Definitions
+// ============================================
+
+describe('Message Type Definitions', () => {
+  it('falls back to one interval frame with every field on default_fport', () => {
+    const th = library.devices.find(d => d.id === 'milesight-em300-th')!;
+    expect(getMessageTypes(th)).toEqual([{
+      id: 'uplink',
+      fport: th.default_fport,
+      fields: Object.keys(th.simulation_profile.fields),
+      trigger: 'interval',
+    }]);
+    expect(getMessageStreams(lds02)).toEqual([{ messageType: 'status' }, { messageType: 'device_status', intervalSec: 86400 }]);
+  });
+
+  it('rejects unknown fields, duplicate ids and events without a name', () => {
+    const broken = {
+      ...ws301,
+      message_types: [
+        { id: 'periodic', fport: 85, trigger: 'interval' as const, fields: ['door_status', 'humidity'] },
+        { id: 'periodic', fport: 86, trigger: 'on_event' as const, fields: ['battery_level'] },
+      ],
+    };
+    const result = validateDeviceLibrary(withDevice(library, broken, ws301.id));
+
+    expect(result.valid).toBe(false);
+    expect(result.errors.map(e => e.path.replace(/^devices\.\d+\./, '')).sort()).toEqual([
+      'message_types.0.fields',
+      'message_types.1.event',
+      'message_types.1.id',
+    ]);
+    expect(result.errors.find(e => e.path.endsWith('fields'))?.message).toMatch(/humidity/);
+  });
+});
+
+// ============================================
+// Frames
+// ============================================
+
+describe('Message Frames', () => {
+  it('generates only the frame type fields on its fport', () => {
+    const state = createInitialSimulationState('lds02-1', lds02.id);
+    const frame = composeMessagePayload(lds02, 'device_status', state, contextFor(state));
+
+    expect(Object.keys(frame.fields)).toEqual(['BatV', 'battery_level']);
+    expect(frame.metadata).toMatchObject({ messageType: 'device_status', fport: 5 });
+    expect(frame.send).toBe(true);
+    expect(frame.updatedState.incrementCounters.open_count ?? 0).toBe(0);
+  });
+
+  it('applies event data to event frames', () => {
+    const state = createInitialSimulationState('lds02-1', lds02.id);
+    const frame = composeMessagePayload(lds02, 'door_event', state, contextFor(state), { overrides: { DOOR_OPEN_STATUS: 'open' } });
+
+    expect(frame.fields.DOOR_OPEN_STATUS).toBe('open');
+    expect(Object.keys(frame.fields)).toEqual(['DOOR_OPEN_STATUS', 'open_count', 'last_open_duration', 'BatV']);
+  });
+
+  it('suppresses on_change frames without consuming f_cnt', () => {
+    let state = createInitialSimulationState('ws301-1', ws301.id);
+    const sent: string[] = [];
+    for (let i = 0; i < 20; i++) {
+      const frame = composeMessagePayload(ws301, 'door_change', state, contextFor(state));
+      state = frame.updatedState;
+      if (frame.send) sent.push(frame.fields.door_status as string);
+    }
+
+    expect(sent.length).toBeGreaterThan(1);
+    expect(sent.length).toBeLessThan(20);
+    expect(state.f_cnt).toBe(sent.length);
+    sent.slice(1).forEach((status, i) => expect(status).not.toBe(sent[i]));
+  });
+});
+
+// ============================================
+// Scheduling
+// ============================================
+
+describe('Message Streams', () => {
+  it('fires each stream on its own period and events on demand', async () => {
+    const clock = createVirtualClock(START);
+    const scheduler = createEmissionScheduler({ clock });
+    const fired: Array<string | undefined> = [];
+
+    scheduler.startDevice('dev-1', 3600, (_id, messageType) => { fired.push(messageType); }, {
+      messageStreams: [{ messageType: 'status' }, { messageType: 'device_status', intervalSec: 4 * 3600 }],
+    });
+    await clock.advance(4 * 3600 * 1000);
+    expect(fired.filter(t => t === 'status')).toHaveLength(4);
+    expect(fired.filter(t => t === 'device_status')).toHaveLength(1);
+
+    expect(await scheduler.emitEvent('dev-1', 'door_event')).toBe(true);
+    expect(fired.at(-1)).toBe('door_event');
+    expect(scheduler.getStatus('dev-1')?.emissionCount).toBe(6);
+
+    scheduler.stopAll();
+    expect(await scheduler.emitEvent('dev-1', 'door_event')).toBe(false);
+  });
+
+  it('sends periodic and event frames from the headless runner', async () => {
+    setStateBackend(createMemoryBackend());
+    const fleet: FleetManifest = {
+      version: 1,
+      seed: 'mt',
+      applicationId: 'frostguard-ci',
+      gateways: [{ id: 'gw-ci', eui: 'A840411F00000001' }],
+      devices: [{ devEui: 'A840410000000003', model: lds02.id, gatewayId: 'gw-ci', intervalSec: 600 }],
+    };
+    const runner = createHeadlessRunner({ fleet, backend: createMemoryBackend() });
+
+    const periodic = await runner.runCount(1);
+    expect(periodic.map(e => [e.messageType, e.envelope.uplink_message.f_port])).toEqual([['status', 2], ['device_status', 5]]);
+
+    const [event] = await runner.fireEvent('A840410000000003', 'door', { DOOR_OPEN_STATUS: 'open' });
+    expect(event.messageType).toBe('door_event');
+    expect(event.envelope.uplink_message.decoded_payload).toMatchObject({ DOOR_OPEN_STATUS: 'open' });
+    expect(event.fCnt).toBe(3);
+    expect(await runner.fireEvent('A840410000000003', 'tamper')).toEqual([]);
+  });
+});
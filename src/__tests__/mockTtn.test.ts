@@ -0,0 +1,244 @@
+/**
+ * Mock TTN Integration Tests
+ *
+ * Runs the provisioning, preflight, simulate and settings edge functions
+ * against the mock TTN v3 server through the edge function harness.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createMockTtnServer, TTN_APPLICATION_RIGHTS, type MockTtnServer } from '@/mockTtn/mockTtnServer';
+import { createEdgeHarness, HARNESS_SUPABASE_URL, type EdgeHarness } from '@/mockTtn/edgeHarness';
+import { decodeDeviceFrmPayload, encodeDeviceFrmPayload } from '@/lib/deviceLibrary/payloadCodec';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+
+const APP = 'frostguard-lab';
+const KEY = 'NNSXS.FULLRIGHTS';
+const READ_ONLY_KEY = 'NNSXS.READONLY';
+const NAM1 = 'https://nam1.cloud.thethings.network';
+const EU1 = 'https://eu1.cloud.thethings.network';
+const DEV_EUI = 'A840410000000101';
+const DEVICE_ID = `sensor-${DEV_EUI.toLowerCase()}`;
+const UNIT_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+let ttn: MockTtnServer;
+let harness: EdgeHarness;
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+
+  ttn = createMockTtnServer({
+    applications: [APP],
+    apiKeys: [
+      { key: KEY, rights: TTN_APPLICATION_RIGHTS, applicationIds: [APP] },
+      { key: READ_ONLY_KEY, rights: ['RIGHT_APPLICATION_INFO'], applicationIds: [APP] },
+    ],
+    webhooks: [{
+      applicationId: APP,
+      webhookId: 'frostguard',
+      baseUrl: `${HARNESS_SUPABASE_URL}/functions/v1/ttn-webhook`,
+      headers: { 'X-TTN-Webhook-Secret': 'lab-secret' },
+    }],
+  });
+  harness = createEdgeHarness({
+    ttn,
+    env: { TTN_API_KEY: KEY },
+    tables: {
+      synced_users: [{ source_user_id: 'user-1', ttn: { enabled: true, api_key: KEY, application_id: APP, cluster: 'nam1' } }],
+      ttn_settings: [{ org_id: 'org-1', application_id: APP, api_key: KEY, cluster: 'nam1', enabled: true, webhook_secret: 'lab-secret' }],
+      lora_sensors: [{ id: 'sensor-row-1', org_id: 'org-1', unit_id: UNIT_ID, site_id: null, dev_eui: DEV_EUI, sensor_kind: 'temp', status: 'pending' }],
+    },
+  });
+});
+
+afterEach(() => {
+  harness.restore();
+  vi.restoreAllMocks();
+});
+
+const provisionRequest = {
+  org_id: 'org-1',
+  selected_user_id: 'user-1',
+  devices: [{ dev_eui: DEV_EUI, join_eui: '0000000000000000', app_key: '00112233445566778899AABBCCDDEEFF', name: 'Walk-in probe' }],
+};
+
+// ============================================
+// Provisioning
+// ============================================
+
+describe('Provisioning Against Mock TTN', () => {
+  it('registers a device on IS, JS, NS and AS and is idempotent', async () => {
+    const first = await harness.invoke<{ ok: boolean; results: Array<{ status: string }> }>('ttn-batch-provision', provisionRequest);
+
+    expect(first.body.ok).toBe(true);
+    expect(first.body.results[0].status).toBe('created');
+    const device = ttn.device(APP, DEVICE_ID, NAM1);
+    expect(device.is).toMatchObject({ ids: { dev_eui: DEV_EUI } });
+    expect(device.js).not.toBeNull();
+    expect(device.ns).not.toBeNull();
+    expect(device.as).not.toBeNull();
+    expect(ttn.device(APP, DEVICE_ID, EU1).as).toBeNull();
+    expect(harness.db.tables.lora_sensors[0]).toMatchObject({ status: 'active', ttn_device_id: DEVICE_ID });
+
+    const second = await harness.invoke<{ results: Array<{ status: string }> }>('ttn-batch-provision', provisionRequest);
+    expect(second.body.results[0].status).toBe('already_exists');
+  });
+
+  it('reports missing device rights from ttn-register-device', async () => {
+    const request = { applicationId: APP, cluster: 'nam1', devEui: DEV_EUI, joinEui: '0000000000000000', appKey: '00112233445566778899AABBCCDDEEFF', deviceName: 'Probe' };
+
+    const ok = await harness.invoke<{ success: boolean; deviceId: string }>('ttn-register-device', request);
+    expect(ok.body).toMatchObject({ success: true, deviceId: DEVICE_ID });
+    expect(ttn.device(APP, DEVICE_ID, NAM1).js).toMatchObject({ root_keys: { app_key: { key: '00112233445566778899AABBCCDDEEFF' } } });
+
+    const duplicate = await harness.invoke<{ success: boolean; status: number }>('ttn-register-device', request);
+    expect(duplicate.body).toMatchObject({ success: false, status: 409 });
+
+    harness.restore();
+    harness = createEdgeHarness({ ttn, env: { TTN_API_KEY: READ_ONLY_KEY } });
+    const denied = await harness.invoke<{ success: boolean; status: number }>('ttn-register-device', { ...request, devEui: 'A840410000000102' });
+    expect(denied.body).toMatchObject({ success: false, status: 403 });
+  });
+
+  it('sets ABP sessions after checking the device on the eu1 Identity Server', async () => {
+    const request = { deviceId: DEVICE_ID, devEui: DEV_EUI, applicationId: APP, cluster: 'nam1' };
+
+    const missing = await harness.invoke<{ success: boolean; steps: { preflight: { status: number } } }>('ttn-provision-abp', request);
+    expect(missing.body.success).toBe(false);
+    expect(missing.body.steps.preflight.status).toBe(404);
+
+    await harness.invoke('ttn-batch-provision', provisionRequest);
+    const result = await harness.invoke<{ success: boolean; devAddr: string }>('ttn-provision-abp', request);
+
+    expect(result.body.success).toBe(true);
+    expect(ttn.device(APP, DEVICE_ID, NAM1).ns).toMatchObject({ session: { dev_addr: result.body.devAddr } });
+    expect(ttn.requests.some(r => r.url === `${EU1}/api/v3/applications/${APP}/devices/${DEVICE_ID}` && r.status === 200)).toBe(true);
+  });
+});
+
+// ============================================
+// Preflight and Simulation
+// ============================================
+
+describe('Simulation Against Mock TTN', () => {
+  it('preflight reports devices missing from the Application Server', async () => {
+    const request = { selected_user_id: 'user-1', devices: [{ dev_eui: DEV_EUI, name: 'Probe' }] };
+
+    const before = await harness.invoke<{ ok: boolean; all_registered: boolean }>('ttn-preflight', request);
+    expect(before.body).toMatchObject({ ok: false, all_registered: false });
+
+    await harness.invoke('ttn-batch-provision', provisionRequest);
+    const after = await harness.invoke<{ ok: boolean; all_registered: boolean }>('ttn-preflight', request);
+    expect(after.body).toMatchObject({ ok: true, all_registered: true });
+  });
+
+  it('forwards simulated uplinks through the webhook into ttn-webhook', async () => {
+    await harness.invoke('ttn-batch-provision', provisionRequest);
+
+    const result = await harness.invoke<{ success: boolean }>('ttn-simulate', {
+      selected_user_id: 'user-1',
+      org_id: 'org-1',
+      deviceId: DEVICE_ID,
+      devEui: DEV_EUI,
+      fPort: 2,
+      decodedPayload: { temperature: 3.5, humidity: 44, battery_level: 90 },
+    });
+
+    expect(result.body.success).toBe(true);
+    expect(ttn.deliveries).toEqual([expect.objectContaining({ webhookId: 'frostguard', status: 200 })]);
+    const forwarded = harness.db.tables.sensor_uplinks.find(row => row.snr_db === 7.5);
+    expect(forwarded).toMatchObject({ org_id: 'org-1', unit_id: UNIT_ID, dev_eui: DEV_EUI, f_port: 2 });
+    expect(harness.db.tables.unit_telemetry[0]).toMatchObject({ unit_id: UNIT_ID, last_humidity: 44 });
+  });
+
+  it('forwards a frm_payload a Dragino formatter decodes', async () => {
+    await harness.invoke('ttn-batch-provision', provisionRequest);
+    const lht65 = defaultDeviceLibrary.devices.find(d => d.id === 'dragino-lht65')!;
+    const lds02 = defaultDeviceLibrary.devices.find(d => d.id === 'dragino-lds02')!;
+    const simulate = (body: Record<string, unknown>) => harness.invoke('ttn-simulate', {
+      selected_user_id: 'user-1', deviceId: DEVICE_ID, devEui: DEV_EUI, fPort: 2, ...body,
+    });
+    const forwarded = (i: number) => (ttn.deliveries[i].event.uplink_message as { frm_payload: string }).frm_payload;
+
+    await simulate({ decodedPayload: { temperature: 3.5, humidity: 44, battery_voltage: 3.4 } });
+    await simulate({ decodedPayload: { door_status: 'open', door_open: true, battery_voltage: 3.1 } });
+    const frame = encodeDeviceFrmPayload(lds02, { DOOR_OPEN_STATUS: 'closed', BatV: 3.3, open_count: 7, last_open_duration: 120 });
+    await simulate({ decodedPayload: { DOOR_OPEN_STATUS: 'closed' }, frmPayload: frame });
+
+    expect(decodeDeviceFrmPayload(lht65, forwarded(0))).toEqual({ BatV: 3.4, TempC_SHT: 3.5, Hum_SHT: 44 });
+    expect(decodeDeviceFrmPayload(lds02, forwarded(1))).toMatchObject({ DOOR_OPEN_STATUS: 'open', BatV: 3.1 });
+    expect(forwarded(2)).toBe(frame);
+  });
+
+  it('forwards the rx_metadata and settings of the emulator envelope', async () => {
+    await harness.invoke('ttn-batch-provision', provisionRequest);
+    const rxMetadata = [
+      { gateway_ids: { gateway_id: 'gw-home', eui: 'A840411F00000001' }, rssi: -71, channel_rssi: -71, snr: 8.2, channel_index: 3 },
+      { gateway_ids: { gateway_id: 'gw-dock', eui: 'A840411F00000002' }, rssi: -96, channel_rssi: -96, snr: -1.5, channel_index: 3 },
+    ];
+    const settings = { data_rate: { lora: { bandwidth: 125000, spreading_factor: 9, coding_rate: '4/5' } }, frequency: '903300000' };
+
+    await harness.invoke('ttn-simulate', {
+      selected_user_id: 'user-1', deviceId: DEVICE_ID, devEui: DEV_EUI, fPort: 2,
+      decodedPayload: { temperature: 3.5, humidity: 44 }, rxMetadata, settings,
+    });
+
+    expect(ttn.deliveries[0].event.uplink_message).toMatchObject({ rx_metadata: rxMetadata, settings });
+  });
+
+  it('returns TTN errors for unprovisioned devices', async () => {
+    const result = await harness.invoke<{ success: boolean; ttn_status: number }>('ttn-simulate', {
+      selected_user_id: 'user-1',
+      deviceId: DEVICE_ID,
+      fPort: 2,
+      decodedPayload: { temperature: 3.5 },
+    });
+
+    expect(result.body).toMatchObject({ success: false, ttn_status: 404 });
+    expect(ttn.deliveries).toHaveLength(0);
+  });
+});
+
+// ============================================
+// Settings Checks
+// ============================================
+
+describe('Settings Checks Against Mock TTN', () => {
+  it('tests connections and reports missing rights', async () => {
+    const connection = await harness.invoke<{ ok: boolean; connected: boolean }>('manage-ttn-settings', {
+      action: 'test', cluster: 'nam1', application_id: APP, api_key: KEY,
+    });
+    expect(connection.body).toMatchObject({ ok: true, connected: true });
+
+    const invalid = await harness.invoke<{ ok: boolean; code: string }>('manage-ttn-settings', {
+      action: 'test', cluster: 'nam1', application_id: APP, api_key: 'NNSXS.UNKNOWN',
+    });
+    expect(invalid.body).toMatchObject({ ok: false, code: 'AUTH_INVALID' });
+
+    const rights = await harness.invoke<{ ok: boolean; can_simulate: boolean; missing: string[] }>('manage-ttn-settings', {
+      action: 'check_app_permissions', cluster: 'nam1', application_id: APP, api_key: READ_ONLY_KEY,
+    });
+    expect(rights.body).toMatchObject({ ok: false, can_simulate: false });
+    expect(rights.body.missing).toContain('Write devices');
+  });
+
+  it('checks devices on a self-hosted deployment', async () => {
+    ttn = createMockTtnServer({
+      hosts: ['https://tts.example.com'],
+      applications: [APP],
+      apiKeys: [{ key: KEY, rights: TTN_APPLICATION_RIGHTS }],
+    });
+    harness.restore();
+    harness = createEdgeHarness({ ttn, env: { TTN_API_KEY: KEY } });
+    const request = { applicationId: APP, cluster: 'nam1', base_url: 'https://tts.example.com', devEui: DEV_EUI, joinEui: '0000000000000000', appKey: '00112233445566778899AABBCCDDEEFF', deviceName: 'Probe' };
+
+    await harness.invoke('ttn-register-device', request);
+    const check = await harness.invoke<{ ok: boolean; exists: boolean }>('manage-ttn-settings', {
+      action: 'check_device', cluster: 'nam1', base_url: 'https://tts.example.com', application_id: APP, api_key: KEY, device_id: DEVICE_ID,
+    });
+
+    expect(check.body).toMatchObject({ ok: true, exists: true });
+    expect(ttn.requests.every(r => r.url.startsWith('https://tts.example.com/api/v3/'))).toBe(true);
+  });
+});
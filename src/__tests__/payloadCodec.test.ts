@@ -0,0 +1,298 @@
+/**
+ * Payload Codec Tests
+ *
+ * Verifies byte-exact frm_payload frames for each vendor codec and that
+ * each decoder inverts its encoder.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import {
+  PAYLOAD_CODECS,
+  PORT_CODECS,
+  getPayloadCodec,
+  encodeFrmPayload,
+  decodeFrmPayload,
+  encodeDeviceFrmPayload,
+  decodeDeviceFrmPayload,
+  encodeLegacyFrmPayload,
+  base64ToBytes,
+  bytesToBase64,
+  bytesToHex,
+} from '@/lib/deviceLibrary/payloadCodec';
+import { buildLibraryEnvelope, buildLegacyEnvelope } from '@/lib/deviceLibrary/envelopeBuilder';
+import { createInitialSimulationState } from '@/lib/deviceLibrary/simulationEngine';
+import { getMessageType, getMessageTypes } from '@/lib/deviceLibrary/messageTypes';
+import { testPayloadRoundTrip } from '@/lib/deviceLibrary/testHarness';
+
+const lds02 = defaultDeviceLibrary.devices.find(d => d.id === 'dragino-lds02')!;
+
+function decodeHex(deviceId: string, hex: string): Record<string, unknown> {
+  const bytes = Uint8Array.from(hex.match(/../g)!.map(b => parseInt(b, 16)));
+  return getPayloadCodec(deviceId)!.decode(bytes);
+}
+
+function encodeHex(deviceId: string, fields: Record<string, unknown>): string {
+  return bytesToHex(getPayloadCodec(deviceId)!.encode(fields));
+}
+
+// ============================================
+// Registry Tests
+// ============================================
+
+describe('Payload Codec Registry', () => {
+  it('only registers codecs for devices in the default library', () => {
+    const libraryIds = new Set(defaultDeviceLibrary.devices.map(d => d.id));
+    for (const id of Object.keys(PAYLOAD_CODECS)) {
+      expect(libraryIds.has(id)).toBe(true);
+    }
+  });
+
+  it('codec fields exist in the device simulation profile', () => {
+    for (const device of defaultDeviceLibrary.devices) {
+      const codec = getPayloadCodec(device.id);
+      if (!codec) continue;
+      for (const field of codec.fields) {
+        expect(Object.keys(device.simulation_profile.fields)).toContain(field);
+      }
+    }
+  });
+
+  it('port codec fields exist in the device simulation profile', () => {
+    for (const [id, ports] of Object.entries(PORT_CODECS)) {
+      const device = defaultDeviceLibrary.devices.find(d => d.id === id)!;
+      for (const codec of Object.values(ports)) {
+        for (const field of codec.fields) {
+          expect(Object.keys(device.simulation_profile.fields)).toContain(field);
+        }
+      }
+    }
+  });
+
+  it('falls back to base64 JSON for devices without a codec', () => {
+    const fields = { gps_lat: 40.7128, gps_lon: -74.006 };
+    expect(encodeFrmPayload('generic-tbs220', fields)).toBe(btoa(JSON.stringify(fields)));
+    expect(encodeFrmPayload(null, fields)).toBe(btoa(JSON.stringify(fields)));
+  });
+
+  it('base64 helpers round-trip bytes', () => {
+    const bytes = Uint8Array.from([0x00, 0x7f, 0x80, 0xff]);
+    expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+  });
+});
+
+// ============================================
+// Dragino Frames
+// ============================================
+
+describe('Dragino Frames', () => {
+  it('encodes LHT65 with battery status bits and signed temperatures', () => {
+    const hex = encodeHex('dragino-lht65', {
+      BatV: 3.048, TempC_SHT: 24.52, Hum_SHT: 57.3, TempC_DS: -5.25,
+    });
+    // BAT: 0b11 << 14 | 3048 = 0xCBE8
+    expect(hex).toBe('CBE8' + '0994' + '023D' + '01' + 'FDF3' + '7FFF');
+  });
+
+  it('marks a missing LHT65 external probe as 0x7FFF', () => {
+    const hex = encodeHex('dragino-lht65', { BatV: 2.5, TempC_SHT: 0, Hum_SHT: 0 });
+    expect(hex).toBe('09C4' + '0000' + '0000' + '01' + '7FFF' + '7FFF');
+  });
+
+  it('encodes LDS02 door status, counters and duration in minutes', () => {
+    const hex = encodeHex('dragino-lds02', {
+      DOOR_OPEN_STATUS: 'open', BatV: 3.4, open_count: 143, last_open_duration: 3600, alarm: true,
+    });
+    expect(hex).toBe('8D48' + '01' + '00008F' + '00003C' + '01');
+  });
+
+  it('encodes the LDS02 device status frame on fport 5', () => {
+    const deviceStatus = getMessageType(lds02, 'device_status')!;
+    const frmPayload = encodeDeviceFrmPayload(lds02, { BatV: 3.6, battery_level: 100 }, 5, deviceStatus);
+
+    expect(bytesToHex(base64ToBytes(frmPayload))).toBe('0A' + '0100' + '02' + '02' + '0E10');
+    expect(decodeDeviceFrmPayload(lds02, frmPayload, 5, deviceStatus)).toEqual({ BatV: 3.6 });
+  });
+
+  it('falls back to base64 JSON on ports and partial frames without a codec', () => {
+    const fields = { BatV: 3.6 };
+    expect(encodeDeviceFrmPayload(lds02, fields, 9)).toBe(btoa(JSON.stringify(fields)));
+
+    const batteryOnly = { id: 'battery', fport: 2, fields: ['BatV'], trigger: 'interval' as const };
+    expect(encodeDeviceFrmPayload(lds02, fields, 2, batteryOnly)).toBe(btoa(JSON.stringify(fields)));
+    expect(decodeDeviceFrmPayload(lds02, btoa(JSON.stringify(fields)), 2, batteryOnly)).toEqual(fields);
+  });
+
+  it('encodes LDDS75 distance in millimetres', () => {
+    const hex = encodeHex('dragino-ldds75', { BatV: 3.35, distance: 125, sensor_flag: true });
+    expect(hex).toBe('0D16' + '04E2' + '00' + '0000' + '01');
+  });
+});
+
+// ============================================
+// TLV Frames
+// ============================================
+
+describe('TLV Frames', () => {
+  it('encodes Milesight EM300-TH as little-endian channel/type entries', () => {
+    const hex = encodeHex('milesight-em300-th', { temperature: 27.2, humidity: 46.5, battery_level: 100 });
+    expect(hex).toBe('017564' + '03671001' + '04685D');
+  });
+
+  it('encodes Milesight door status as a flag', () => {
+    expect(encodeHex('milesight-ws301', { door_status: 'open', battery_level: 90 })).toBe('01755A' + '030001');
+    expect(encodeHex('milesight-ws301', { door_status: 'closed', battery_level: 90 })).toBe('01755A' + '030000');
+  });
+
+  it('skips TLV entries for missing fields', () => {
+    expect(encodeHex('milesight-em300-th', { temperature: -10 })).toBe('0367' + '9CFF');
+  });
+
+  it('encodes Elsys as big-endian type/value entries', () => {
+    const hex = encodeHex('elsys-ers', {
+      temperature: 21.3, humidity: 52, light: 450, motion: 12, battery_voltage: 3.45,
+    });
+    expect(hex).toBe('0100D5' + '0234' + '0401C2' + '050C' + '070D7A');
+  });
+
+  it('encodes Tektelic pulse counters as 32-bit values', () => {
+    const hex = encodeHex('tektelic-kona-pulse', {
+      battery_level: 80, temperature: 20.5, pulse_count: 70000, pulse_rate: 12.5,
+    });
+    expect(hex).toBe('00D350' + '036700CD' + '0D0400011170' + '0E040000007D');
+  });
+});
+
+// ============================================
+// Netvox Frames
+// ============================================
+
+describe('Netvox Frames', () => {
+  it('encodes R311A contact status with battery in 0.1V', () => {
+    const hex = encodeHex('netvox-r311a', { door: true, battery_voltage: 3.6 });
+    expect(hex).toBe('01' + '02' + '01' + '24' + '01' + '000000000000');
+  });
+
+  it('sets the low-battery bit below 2.4V', () => {
+    const bytes = getPayloadCodec('netvox-r718wa2')!.encode({ water_leak: false, battery_voltage: 2.1 });
+    expect(bytes[3]).toBe(0x80 | 21);
+    expect(bytes.length).toBe(11);
+  });
+});
+
+// ============================================
+// Decoders
+// ============================================
+
+describe('Payload Decoders', () => {
+  it('decodes LHT65 frames, omitting a missing external probe', () => {
+    expect(decodeHex('dragino-lht65', 'CBE8' + '0994' + '023D' + '01' + 'FDF3' + '7FFF')).toEqual({
+      BatV: 3.048, TempC_SHT: 24.52, Hum_SHT: 57.3, TempC_DS: -5.25,
+    });
+    expect(decodeHex('dragino-lht65', '09C4' + '0000' + '0000' + '01' + '7FFF' + '7FFF')).not.toHaveProperty('TempC_DS');
+  });
+
+  it('decodes LDS02 duration back to seconds', () => {
+    expect(decodeHex('dragino-lds02', '8D48' + '01' + '00008F' + '00003C' + '01')).toEqual({
+      DOOR_OPEN_STATUS: 'open', BatV: 3.4, open_count: 143, last_open_duration: 3600, alarm: true,
+    });
+  });
+
+  it('decodes TLV flags back to enum values', () => {
+    expect(decodeHex('milesight-ws301', '01755A' + '030000')).toEqual({ battery_level: 90, door_status: 'closed' });
+    expect(decodeHex('elsys-ers', '0100D5' + '0234' + '0401C2' + '050C' + '070D7A')).toEqual({
+      temperature: 21.3, humidity: 52, light: 450, motion: 12, battery_voltage: 3.45,
+    });
+  });
+
+  it('decodes Netvox battery and status', () => {
+    expect(decodeHex('netvox-r718wa2', '01' + '32' + '01' + '95' + '01' + '000000000000')).toEqual({
+      battery_voltage: 2.1, water_leak: true,
+    });
+  });
+
+  it('rejects unknown TLV entries and truncated frames', () => {
+    expect(() => decodeHex('milesight-em300-th', '0999FF')).toThrow(/Unknown TLV entry/);
+    expect(() => decodeHex('dragino-ldds75', '0D1604E2')).toThrow(/truncated/);
+  });
+
+  it('decodes the JSON fallback', () => {
+    const fields = { gps_lat: 40.7128, gps_lon: -74.006 };
+    expect(decodeFrmPayload('generic-tbs220', encodeFrmPayload('generic-tbs220', fields))).toEqual(fields);
+  });
+
+  it('every library device round-trips through its frame', () => {
+    const failures = testPayloadRoundTrip(25).filter(r => !r.passed);
+    expect(failures).toEqual([]);
+  });
+
+  it('round-trips every message type of the default library', () => {
+    const results = testPayloadRoundTrip(5);
+    const messageTypeCount = defaultDeviceLibrary.devices.reduce((sum, d) => sum + getMessageTypes(d).length, 0);
+
+    expect(results).toHaveLength(messageTypeCount);
+    expect(results.map(r => r.name)).toContain('Device dragino-lds02 device_status (fport 5) payload round-trips');
+    expect(results.filter(r => !r.passed)).toEqual([]);
+  });
+});
+
+// ============================================
+// Envelope Integration
+// ============================================
+
+describe('Envelope frm_payload', () => {
+  const gateway = { id: 'codec-gw', eui: 'A84041FFFF000001' };
+
+  it('library envelopes carry the codec frame', () => {
+    const device = defaultDeviceLibrary.devices.find(d => d.id === 'dragino-lht65')!;
+    const state = createInitialSimulationState('A84041FFFF000002', device.id);
+    const fields = { TempC_SHT: 4.2, Hum_SHT: 80, TempC_DS: 3.9, BatV: 3.1, battery_level: 90 };
+
+    const envelope = buildLibraryEnvelope(
+      { devEui: 'A84041FFFF000002', name: 'Walk-in', gatewayId: gateway.id },
+      gateway,
+      fields,
+      device,
+      state,
+      'codec-app'
+    );
+
+    expect(envelope.uplink_message.frm_payload).toBe(encodeFrmPayload(device.id, fields));
+    expect(base64ToBytes(envelope.uplink_message.frm_payload).length).toBe(11);
+  });
+
+  it('encodes message type frames with the codec for their port', () => {
+    const state = createInitialSimulationState('A84041FFFF000004', lds02.id);
+    const envelope = buildLibraryEnvelope(
+      { devEui: 'A84041FFFF000004', name: 'Door', gatewayId: gateway.id },
+      gateway,
+      { BatV: 3.6, battery_level: 100 },
+      lds02,
+      state,
+      'codec-app',
+      { messageType: 'device_status' }
+    );
+
+    expect(envelope.uplink_message.f_port).toBe(5);
+    expect(base64ToBytes(envelope.uplink_message.frm_payload).length).toBe(7);
+  });
+
+  it('legacy envelopes use Dragino frames', () => {
+    const legacyDevice = {
+      id: 'legacy-1', devEui: 'A84041FFFF000003', joinEui: '0000000000000000',
+      appKey: '00000000000000000000000000000000', name: 'Door', type: 'door' as const, gatewayId: gateway.id,
+    };
+    const envelope = buildLegacyEnvelope(
+      legacyDevice,
+      { ...gateway, name: 'GW', isOnline: true },
+      { door_status: 'open', battery_voltage: 3.2 },
+      'codec-app',
+      7
+    );
+
+    expect(envelope.uplink_message.frm_payload).toBe(
+      encodeLegacyFrmPayload({ door_status: 'open', battery_voltage: 3.2 })
+    );
+    expect(bytesToHex(base64ToBytes(envelope.uplink_message.frm_payload)).slice(0, 4)).toBe('8C80');
+  });
+});
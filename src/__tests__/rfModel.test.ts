@@ -0,0 +1,144 @@
+/**
+ * RF Link Model Tests
+ *
+ * Verifies path loss, the spreading-factor SNR floor and that
+ * rx_metadata is reproducible from the simulation context.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_RF_LINK,
+  SNR_FLOOR_DB,
+  distanceMeters,
+  pathLossDb,
+  resolveLinkDistance,
+  simulateRfLink,
+  type RfLinkInput,
+} from '@/lib/deviceLibrary/rfModel';
+import { buildLibraryEnvelope, type GatewayInstance } from '@/lib/deviceLibrary/envelopeBuilder';
+import { generateDevicePayload, createInitialSimulationState } from '@/lib/deviceLibrary/simulationEngine';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import type { SimulationContext } from '@/lib/deviceLibrary/types';
+
+function contextFor(sequence: number): SimulationContext {
+  return {
+    orgId: 'rf-org',
+    siteId: 'rf-site',
+    unitId: 'rf-unit',
+    deviceInstanceId: 'rf-device',
+    emissionSequence: sequence,
+  };
+}
+
+const gatewayLocation = { latitude: 52.3702, longitude: 4.8952 };
+
+// ============================================
+// Path Loss
+// ============================================
+
+describe('RF Path Loss', () => {
+  it('measures great-circle distance', () => {
+    // 0.01° of latitude ≈ 1112 m
+    const north = { latitude: gatewayLocation.latitude + 0.01, longitude: gatewayLocation.longitude };
+    expect(distanceMeters(gatewayLocation, north)).toBeCloseTo(1112, -1);
+  });
+
+  it('adds 10·n dB per decade of distance', () => {
+    const perDecade = pathLossDb(1000) - pathLossDb(100);
+    expect(perDecade).toBeCloseTo(10 * DEFAULT_RF_LINK.pathLossExponent);
+  });
+
+  it('places links without locations at a stable seeded distance', () => {
+    const input: RfLinkInput = { context: contextFor(0), gatewayId: 'gw-1' };
+    const later = resolveLinkDistance({ ...input, context: contextFor(42) });
+    expect(resolveLinkDistance(input)).toBe(later);
+    expect(later).toBeGreaterThanOrEqual(20);
+    expect(later).toBeLessThanOrEqual(500);
+  });
+});
+
+// ============================================
+// Link Simulation
+// ============================================
+
+describe('RF Link Simulation', () => {
+  it('same context and gateway give the same RSSI/SNR', () => {
+    const input: RfLinkInput = { context: contextFor(3), gatewayId: 'gw-1' };
+    expect(simulateRfLink(input)).toEqual(simulateRfLink(input));
+  });
+
+  it('distant devices are received weaker on average', () => {
+    const meanRssi = (latitudeOffset: number) => {
+      let total = 0;
+      for (let i = 0; i < 50; i++) {
+        total += simulateRfLink({
+          context: contextFor(i),
+          gatewayId: 'gw-1',
+          gatewayLocation,
+          deviceLocation: { latitude: gatewayLocation.latitude + latitudeOffset, longitude: gatewayLocation.longitude },
+        }).rssi;
+      }
+      return total / 50;
+    };
+    expect(meanRssi(0.02)).toBeLessThan(meanRssi(0.0005) - 20);
+  });
+
+  it('reports lower SNR for distant devices across the virtual placement range', () => {
+    const snrAt = (latitudeOffset: number) => simulateRfLink({
+      context: contextFor(0),
+      gatewayId: 'gw-1',
+      gatewayLocation,
+      deviceLocation: { latitude: gatewayLocation.latitude + latitudeOffset, longitude: gatewayLocation.longitude },
+      config: { shadowingSigmaDb: 0, snrSigmaDb: 0 },
+    }).snr;
+
+    // ≈ 55 m, 110 m, 220 m and 450 m
+    const snrs = [0.0005, 0.001, 0.002, 0.004].map(snrAt);
+    for (let i = 1; i < snrs.length; i++) {
+      expect(snrs[i]).toBeLessThan(snrs[i - 1]);
+    }
+    expect(snrs[0]).toBeLessThan(13.5);
+  });
+
+  it('never reports SNR below the spreading factor floor', () => {
+    for (const sf of [7, 10, 12] as const) {
+      for (let i = 0; i < 30; i++) {
+        const { rssi, snr } = simulateRfLink({
+          context: contextFor(i),
+          gatewayId: 'gw-1',
+          rssi: -119,
+          config: { spreadingFactor: sf },
+        });
+        expect(rssi).toBe(-119);
+        expect(snr).toBeGreaterThanOrEqual(SNR_FLOOR_DB[sf]);
+      }
+    }
+  });
+});
+
+// ============================================
+// Envelope Reproducibility
+// ============================================
+
+describe('Reproducible Envelopes', () => {
+  it('identical context and timestamp give identical envelopes', () => {
+    const device = defaultDeviceLibrary.devices[0];
+    const gateway: GatewayInstance = { id: 'rf-gateway', eui: 'A84041FFFF0000AA', location: gatewayLocation };
+    const build = () => {
+      const state = createInitialSimulationState('rf-device', device.id);
+      const { fields } = generateDevicePayload(device, state, contextFor(7), 'normal', {
+        emissionTime: Date.parse('2026-01-01T00:00:00.000Z'),
+      });
+      return buildLibraryEnvelope(
+        { devEui: 'A84041FFFF0000BB', name: 'RF Device', gatewayId: gateway.id, location: { latitude: 52.372, longitude: 4.9 } },
+        gateway,
+        fields,
+        device,
+        state,
+        'rf-application',
+        { context: contextFor(7), serverTimestamp: '2026-01-01T00:00:00.000Z' }
+      );
+    };
+    expect(build()).toEqual(build());
+  });
+});
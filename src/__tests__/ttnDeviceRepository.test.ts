@@ -0,0 +1,206 @@
+/**
+ * TTN Device Repository Import Tests
+ *
+ * Verifies conversion of lorawan-devices vendor YAML into device
+ * definitions, field inference from codec examples, validation and
+ * merging into a library with conflict reporting.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  importTtnRepository,
+  inferCategory,
+  inferFieldConfig,
+  mergeImportedDevices,
+  type TtnRepositoryReader,
+} from '@/lib/deviceLibrary/ttnDeviceRepository';
+import { validateDeviceLibrary } from '@/lib/deviceLibrary/schema';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import type { DeviceLibrary } from '@/lib/deviceLibrary/types';
+
+const REPOSITORY: Record<string, string> = {
+  'vendor/index.yaml': `
+vendors:
+  - id: acme
+    name: Acme Sensors
+  - id: other
+    name: Other Co
+`,
+  'vendor/acme/index.yaml': `
+endDevices:
+  - th-100
+  - door-1
+  - no-codec
+`,
+  'vendor/acme/th-100.yaml': `
+name: TH-100
+description: Temperature and humidity sensor
+sensors:
+  - temperature
+  - humidity
+  - battery
+firmwareVersions:
+  - version: '1.2'
+    numeric: 1
+    profiles:
+      US902-928:
+        id: th-100-profile
+        codec: th-100-codec
+`,
+  'vendor/acme/th-100-codec.yaml': `
+uplinkDecoder:
+  fileName: th-100.js
+  examples:
+    - description: Periodic uplink
+      input:
+        fPort: 85
+        bytes: [0x01, 0x75, 0x5C]
+      output:
+        data:
+          battery: 92
+          temperature: 4.2
+          humidity: 55.5
+          mode: normal
+          location: { lat: 40.1 }
+    - description: Cold room
+      input:
+        fPort: 85
+        bytes: [0x01, 0x75, 0x5A]
+      output:
+        data:
+          battery: 90
+          temperature: -2.75
+          humidity: 61
+          mode: normal
+    - description: High temperature alarm
+      input:
+        fPort: 85
+        bytes: [0x01, 0x75, 0x50]
+      output:
+        data:
+          battery: 88
+          temperature: 12.1
+          humidity: 48.2
+          mode: alarm
+`,
+  'vendor/acme/door-1.yaml': `
+name: Door 1
+sensors: [door]
+firmwareVersions:
+  - version: '2.0'
+    profiles:
+      EU863-870:
+        codec: door-1-codec
+`,
+  'vendor/acme/door-1-codec.yaml': `
+uplinkDecoder:
+  examples:
+    - description: Closed
+      input: { fPort: 10, bytes: [0] }
+      output: { data: { door_open: false, open_count: 3 } }
+    - description: Door open
+      input: { fPort: 10, bytes: [1] }
+      output: { data: { door_open: true, open_count: 4 } }
+`,
+  'vendor/acme/no-codec.yaml': `
+name: No Codec
+firmwareVersions:
+  - version: '1.0'
+`,
+};
+
+const reader: TtnRepositoryReader = {
+  readText: async (path) => REPOSITORY[path] ?? null,
+};
+
+// ============================================
+// Inference
+// ============================================
+
+describe('TTN Field Inference', () => {
+  it('widens observed numeric ranges and keeps precision', () => {
+    expect(inferFieldConfig('temperature', [4.2, -2.75, 12.1])).toEqual({ type: 'float', min: -6.47, max: 15.82, precision: 2 });
+    expect(inferFieldConfig('battery', [92, 90, 88])).toEqual({ type: 'int', min: 87, max: 93 });
+    expect(inferFieldConfig('battery', [95])).toEqual({ type: 'int', min: 85, max: 100 });
+  });
+
+  it('infers bool, enum and string fields and rejects mixed values', () => {
+    expect(inferFieldConfig('door_open', [false, true])).toEqual({ type: 'bool', default: false });
+    expect(inferFieldConfig('mode', ['normal', 'alarm', 'normal'])).toEqual({ type: 'enum', values: ['normal', 'alarm'], default: 'normal' });
+    expect(inferFieldConfig('id', 'abcdefghij'.split(''))).toMatchObject({ type: 'string' });
+    expect(inferFieldConfig('x', [1, 'a'])).toBeNull();
+  });
+
+  it('maps sensors and field names to categories', () => {
+    expect(inferCategory(['temperature', 'humidity'], [])).toBe('temperature_humidity');
+    expect(inferCategory([], ['co2', 'temperature'])).toBe('co2');
+    expect(inferCategory(['door'], ['temperature'])).toBe('door');
+    expect(inferCategory([], ['rssi'])).toBe('multi_sensor');
+  });
+});
+
+// ============================================
+// Repository Import
+// ============================================
+
+describe('TTN Repository Import', () => {
+  it('converts vendor models into valid device definitions', async () => {
+    const { devices, skipped } = await importTtnRepository(reader, { vendors: ['acme'] });
+
+    expect(devices.map(d => d.id)).toEqual(['acme-th-100', 'acme-door-1']);
+    const [th, door] = devices;
+    expect(th).toMatchObject({
+      name: 'TH-100',
+      manufacturer: 'Acme Sensors',
+      category: 'temperature_humidity',
+      default_fport: 85,
+      payload_format: 'custom',
+      firmware_version: '1.2',
+    });
+    expect(Object.keys(th.simulation_profile.fields)).toEqual(['battery', 'temperature', 'humidity', 'mode', 'location_lat']);
+    expect(th.examples.normal).toEqual({ battery: 92, temperature: 4.2, humidity: 55.5, mode: 'normal', location_lat: 40.1 });
+    expect(th.examples.alarm).toMatchObject({ mode: 'alarm', temperature: 12.1 });
+    expect(door).toMatchObject({ category: 'door', default_fport: 10 });
+    expect(door.examples.alarm).toEqual({ door_open: true, open_count: 4 });
+
+    expect(skipped).toEqual([{ path: 'vendor/acme/no-codec.yaml', message: 'no codec referenced by any firmware profile' }]);
+  });
+
+  it('filters models and reports missing vendors', async () => {
+    const { devices, skipped } = await importTtnRepository(reader, { models: ['door-1'] });
+    expect(devices.map(d => d.id)).toEqual(['acme-door-1']);
+    expect(skipped).toEqual([{ path: 'vendor/other/index.yaml', message: 'file not found' }]);
+  });
+});
+
+// ============================================
+// Merge
+// ============================================
+
+describe('TTN Import Merge', () => {
+  const base = defaultDeviceLibrary as DeviceLibrary;
+
+  it('adds new devices and produces a valid library', async () => {
+    const { devices } = await importTtnRepository(reader, { vendors: ['acme'] });
+    const { library, report } = mergeImportedDevices(base, devices);
+
+    expect(report).toEqual({ added: ['acme-th-100', 'acme-door-1'], replaced: [], conflicts: [] });
+    expect(library.metadata.manufacturers).toContain('Acme Sensors');
+    expect(validateDeviceLibrary(library).valid).toBe(true);
+  });
+
+  it('reports id and model conflicts, replacing only on request', async () => {
+    const { devices } = await importTtnRepository(reader, { vendors: ['acme'] });
+    const { library: merged } = mergeImportedDevices(base, devices);
+    const renamed = { ...devices[0], id: 'acme-th-100-v2' };
+
+    const again = mergeImportedDevices(merged, [devices[0], renamed]);
+    expect(again.report.added).toEqual([]);
+    expect(again.report.conflicts.map(c => c.path)).toEqual(['acme-th-100', 'acme-th-100-v2']);
+    expect(again.report.conflicts[1].message).toMatch(/same model/);
+
+    const replaced = mergeImportedDevices(merged, [devices[0]], { replaceExisting: true });
+    expect(replaced.report.replaced).toEqual(['acme-th-100']);
+    expect(replaced.library.devices).toHaveLength(merged.devices.length);
+  });
+});
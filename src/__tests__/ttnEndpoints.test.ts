@@ -0,0 +1,62 @@
+/**
+ * TTN Endpoint Tests
+ *
+ * Verifies that TTN Cloud clusters and self-hosted base URLs resolve to the
+ * right Console links, host labels and edge function request fields.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getTTNBaseUrl,
+  getTTNConsoleUrl,
+  getTTNHostLabel,
+  isSelfHostedTTN,
+  normalizeTTNBaseUrl,
+  ttnHostFields,
+  ttnHostFromSettings,
+} from '@/lib/ttnEndpoints';
+import { getGatewayApiKeyUrl } from '@/lib/ttnConsoleLinks';
+
+describe('TTN Endpoints', () => {
+  it('normalizes pasted API and Console URLs to their root', () => {
+    expect(normalizeTTNBaseUrl('https://tts.example.com/')).toBe('https://tts.example.com');
+    expect(normalizeTTNBaseUrl(' https://tts.example.com:8443/api/v3 ')).toBe('https://tts.example.com:8443');
+    expect(normalizeTTNBaseUrl('https://lab.example.com/tts/console/')).toBe('https://lab.example.com/tts');
+    expect(normalizeTTNBaseUrl('ftp://tts.example.com')).toBeNull();
+    expect(normalizeTTNBaseUrl('tts.example.com')).toBeNull();
+  });
+
+  it('resolves TTN Cloud clusters', () => {
+    expect(getTTNBaseUrl('nam1')).toBe('https://nam1.cloud.thethings.network');
+    expect(getTTNConsoleUrl({ cluster: 'eu1' })).toBe('https://eu1.cloud.thethings.network/console');
+    expect(getTTNHostLabel('au1')).toBe('au1.cloud.thethings.network');
+    expect(isSelfHostedTTN('nam1')).toBe(false);
+    expect(getGatewayApiKeyUrl('nam1', 'user')).toBe('https://nam1.cloud.thethings.network/console/user/api-keys/add');
+  });
+
+  it('resolves self-hosted deployments from their base URL', () => {
+    const host = { cluster: 'nam1', baseUrl: 'https://tts.example.com/console', networkServerUrl: 'https://ns.example.com' };
+
+    expect(isSelfHostedTTN(host)).toBe(true);
+    expect(getTTNConsoleUrl(host)).toBe('https://tts.example.com/console');
+    expect(getTTNHostLabel(host)).toBe('tts.example.com');
+    expect(getGatewayApiKeyUrl(host, 'organization', 'lab')).toBe('https://tts.example.com/console/organizations/lab/api-keys/add');
+    expect(isSelfHostedTTN({ cluster: 'nam1', baseUrl: 'not a url' })).toBe(false);
+    expect(getTTNBaseUrl({ cluster: 'nam1', baseUrl: 'not a url' })).toBe('https://nam1.cloud.thethings.network');
+  });
+
+  it('round-trips host settings through edge function fields', () => {
+    const fields = ttnHostFields({ cluster: 'eu1', baseUrl: 'https://tts.example.com', joinServerUrl: 'https://js.example.com' });
+
+    expect(fields).toEqual({
+      cluster: 'eu1',
+      base_url: 'https://tts.example.com',
+      identity_server_url: null,
+      network_server_url: null,
+      application_server_url: null,
+      join_server_url: 'https://js.example.com',
+    });
+    expect(ttnHostFromSettings(fields)).toMatchObject({ baseUrl: 'https://tts.example.com', joinServerUrl: 'https://js.example.com' });
+    expect(ttnHostFields('nam1').base_url).toBeNull();
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * TTN Webhook Event Tests
+ *
+ * Sends the emulator's TTN events through ttn-webhook in the edge function
+ * harness and checks that each message type is routed and stored.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createMockTtnServer } from '@/mockTtn/mockTtnServer';
+import { createEdgeHarness, type EdgeHarness } from '@/mockTtn/edgeHarness';
+import { buildTTNEvent, TTN_EVENT_TYPES } from '@/lib/ttnEvents';
+import type { LoRaWANDevice } from '@/lib/ttn-payload';
+
+const APP = 'frostguard-lab';
+const SECRET = 'lab-secret-0000000001';
+const AUTH = { 'X-TTN-Webhook-Secret': SECRET };
+const UNIT_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+
+const device: LoRaWANDevice = {
+  id: 'device-1',
+  devEui: 'A840410000000401',
+  joinEui: '0000000000000000',
+  appKey: '00112233445566778899AABBCCDDEEFF',
+  name: 'Walk-in probe',
+  type: 'temperature',
+  gatewayId: 'gateway-1',
+  location: { latitude: 51.05, longitude: 3.72 },
+};
+
+let harness: EdgeHarness;
+
+const rows = (table: string) => harness.db.tables[table] ?? [];
+const send = <T = Record<string, unknown>>(event: Record<string, unknown>) => harness.invoke<T>('ttn-webhook', event, AUTH);
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  harness = createEdgeHarness({
+    ttn: createMockTtnServer({ applications: [APP] }),
+    tables: {
+      ttn_settings: [{ org_id: 'org-1', application_id: APP, cluster: 'nam1', enabled: true, webhook_secret: SECRET }],
+      lora_sensors: [{ id: 'sensor-row-1', org_id: 'org-1', unit_id: UNIT_ID, site_id: null, dev_eui: device.devEui, sensor_kind: 'temp', status: 'active' }],
+    },
+  });
+});
+
+afterEach(() => {
+  harness.restore();
+  vi.restoreAllMocks();
+});
+
+// ============================================
+// Device State
+// ============================================
+
+describe('Join and Location Events', () => {
+  it('records join accepts on the sensor and in the join history', async () => {
+    const result = await send(buildTTNEvent('join_accept', device, APP, { receivedAt: '2026-10-19T12:00:00.000Z' }));
+
+    expect(result.body).toMatchObject({ ok: true, message_type: 'join_accept', sensor_id: 'sensor-row-1' });
+    expect(rows('lora_sensors')[0]).toMatchObject({ last_join_at: '2026-10-19T12:00:00.000Z', dev_addr: '260C0401' });
+    expect(rows('sensor_device_events')).toEqual([
+      expect.objectContaining({ event_type: 'join_accept', sensor_id: 'sensor-row-1', org_id: 'org-1', dev_eui: device.devEui }),
+    ]);
+    expect(rows('sensor_uplinks')).toHaveLength(0);
+  });
+
+  it('stores solved locations and service data', async () => {
+    await send(buildTTNEvent('location_solved', device, APP));
+    await send(buildTTNEvent('service_data', device, APP, { data: { battery: 'ok' } }));
+
+    expect(rows('lora_sensors')[0].last_location).toMatchObject({ latitude: 51.05, longitude: 3.72, source: 'SOURCE_WIFI_RSSI_GEOLOCATION' });
+    expect(rows('sensor_device_events').map(row => row.event_type)).toEqual(['location_solved', 'service_data']);
+    expect(rows('sensor_device_events')[1].payload).toMatchObject({ data: { battery: 'ok' } });
+  });
+
+  it('logs events for unregistered devices as unassigned', async () => {
+    const stranger = { ...device, devEui: 'A8404100000004FF' };
+    const result = await send(buildTTNEvent('join_accept', stranger, APP));
+
+    expect(result.status).toBe(202);
+    expect(result.body).toMatchObject({ status: 'unassigned' });
+    expect(rows('sensor_device_events')[0]).toMatchObject({ org_id: null, dev_eui: 'A8404100000004FF' });
+  });
+});
+
+// ============================================
+// Downlinks
+// ============================================
+
+describe('Downlink Events', () => {
+  it('tracks one downlink from queued to acked and ignores stale statuses', async () => {
+    const options = { downlinkId: 'DL1', fPort: 10, fCnt: 3 };
+    await send(buildTTNEvent('downlink_queued', device, APP, options));
+    await send(buildTTNEvent('downlink_ack', device, APP, options));
+    const late = await send<{ downlink_status: string }>(buildTTNEvent('downlink_sent', device, APP, options));
+
+    expect(late.body.downlink_status).toBe('sent');
+    expect(rows('sensor_downlinks')).toEqual([
+      expect.objectContaining({ downlink_id: 'as:downlink:DL1', status: 'acked', f_port: 10, f_cnt: 3, sensor_id: 'sensor-row-1' }),
+    ]);
+    expect(rows('sensor_device_events')).toHaveLength(3);
+  });
+
+  it('records failures and invalidated queues', async () => {
+    await send(buildTTNEvent('downlink_failed', device, APP, { downlinkId: 'DL2' }));
+    await send(buildTTNEvent('downlink_queue_invalidated', device, APP, { downlinkId: 'DL3' }));
+
+    const byId = Object.fromEntries(rows('sensor_downlinks').map(row => [row.downlink_id, row]));
+    expect(byId['as:downlink:DL2']).toMatchObject({ status: 'failed', error: expect.objectContaining({ name: 'no_downlink_path' }) });
+    expect(byId['as:downlink:DL3']).toMatchObject({ status: 'invalidated' });
+  });
+});
+
+// ============================================
+// Routing
+// ============================================
+
+describe('Message Routing', () => {
+  it('ingests normalized uplinks once alongside the uplink_message for the same frame', async () => {
+    const normalized = buildTTNEvent('uplink_normalized', device, APP, { fCnt: 8, temperature: 4.5 });
+    const result = await send(normalized);
+    const uplinkMessage = {
+      ...normalized,
+      uplink_normalized: undefined,
+      uplink_message: { f_port: 2, f_cnt: 8, decoded_payload: { temperature: 4.5 }, rx_metadata: [] },
+    };
+    const duplicate = await send(uplinkMessage);
+
+    expect(result.status).toBe(200);
+    expect(duplicate.body).toMatchObject({ status: 'duplicate', matched_on: 'correlation_id' });
+    expect(rows('sensor_readings')).toEqual([expect.objectContaining({ temperature: 4.5, humidity: 45 })]);
+  });
+
+  it('ignores bodies without a supported message type', async () => {
+    const result = await send({ end_device_ids: { device_id: 'sensor-a840410000000401', application_ids: { application_id: APP } }, uplink_unknown: {} });
+
+    expect(result.body).toMatchObject({ ok: true, status: 'ignored' });
+    expect(rows('sensor_uplinks')).toHaveLength(0);
+    expect(rows('sensor_device_events')).toHaveLength(0);
+  });
+
+  it('builds every event type the emulator offers', () => {
+    for (const { value } of TTN_EVENT_TYPES) {
+      const event = buildTTNEvent(value, device, APP);
+      expect(event[value]).toBeDefined();
+      expect(event.end_device_ids).toMatchObject({ dev_eui: device.devEui, application_ids: { application_id: APP } });
+    }
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Uplink Deduplication Tests
+ *
+ * Runs ttn-webhook and ttn-simulate through the edge function harness to
+ * check that retries and double-sends are ingested once and that frame
+ * counter regressions are flagged or rejected on the sensor_uplinks row.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createMockTtnServer, TTN_APPLICATION_RIGHTS } from '@/mockTtn/mockTtnServer';
+import { createEdgeHarness, HARNESS_SUPABASE_URL, type EdgeHarness } from '@/mockTtn/edgeHarness';
+
+const APP = 'frostguard-lab';
+const KEY = 'NNSXS.FULLRIGHTS';
+const SECRET = 'lab-secret-0000000001';
+const DEV_EUI = 'A840410000000301';
+const DEVICE_ID = `sensor-${DEV_EUI.toLowerCase()}`;
+const UNIT_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const AUTH = { 'X-TTN-Webhook-Secret': SECRET };
+
+let harness: EdgeHarness;
+
+function setup(env: Record<string, string> = {}) {
+  harness?.restore();
+  const ttn = createMockTtnServer({
+    applications: [APP],
+    apiKeys: [{ key: KEY, rights: TTN_APPLICATION_RIGHTS, applicationIds: [APP] }],
+    webhooks: [{ applicationId: APP, webhookId: 'frostguard', baseUrl: `${HARNESS_SUPABASE_URL}/functions/v1/ttn-webhook`, headers: AUTH }],
+  });
+  harness = createEdgeHarness({
+    ttn,
+    env: { TTN_API_KEY: KEY, ...env },
+    tables: {
+      synced_users: [{ source_user_id: 'user-1', ttn: { enabled: true, api_key: KEY, application_id: APP, cluster: 'nam1' } }],
+      ttn_settings: [{ org_id: 'org-1', application_id: APP, api_key: KEY, cluster: 'nam1', enabled: true, webhook_secret: SECRET }],
+      lora_sensors: [{ id: 'sensor-row-1', org_id: 'org-1', unit_id: UNIT_ID, site_id: null, dev_eui: DEV_EUI, sensor_kind: 'temp', status: 'active' }],
+    },
+  });
+}
+
+function uplink(fCnt: number, receivedAt = '2026-10-19T12:00:00.000Z', correlationId?: string) {
+  return {
+    end_device_ids: { device_id: DEVICE_ID, dev_eui: DEV_EUI, application_ids: { application_id: APP } },
+    ...(correlationId && { correlation_ids: [`as:up:${correlationId}`, 'gs:uplink:01'] }),
+    received_at: receivedAt,
+    uplink_message: {
+      f_port: 2,
+      f_cnt: fCnt,
+      decoded_payload: { temperature: 3.5 },
+      rx_metadata: [{ gateway_ids: { gateway_id: 'lab-gateway', eui: 'A84041FFFF000001' }, rssi: -70, snr: 7 }],
+    },
+  };
+}
+
+const rows = (table: string) => harness.db.tables[table] ?? [];
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  setup();
+});
+
+afterEach(() => {
+  harness.restore();
+  vi.restoreAllMocks();
+});
+
+// ============================================
+// Duplicates
+// ============================================
+
+describe('Duplicate Uplinks', () => {
+  it('ingests a retried TTN webhook once by correlation id', async () => {
+    const first = await harness.invoke('ttn-webhook', uplink(7, undefined, '01HRETRY'), AUTH);
+    // A retry after a timeout: same correlation id, later delivery
+    const retry = await harness.invoke<{ status: string; matched_on: string }>('ttn-webhook', uplink(7, '2026-10-19T12:30:00.000Z', '01HRETRY'), AUTH);
+
+    expect(first.status).toBe(200);
+    expect(retry.body).toMatchObject({ status: 'duplicate', matched_on: 'correlation_id' });
+    expect(rows('sensor_uplinks')).toHaveLength(1);
+    expect(rows('sensor_uplinks')[0]).toMatchObject({ f_cnt: 7, dedup_key: 'as:up:01HRETRY', f_cnt_status: 'first', ingest_decision: 'accepted' });
+    expect(rows('sensor_readings')).toHaveLength(1);
+  });
+
+  it('treats the same frame counter within the window as one frame', async () => {
+    await harness.invoke('ttn-webhook', uplink(7), AUTH);
+    const again = await harness.invoke<{ status: string; matched_on: string }>('ttn-webhook', uplink(7, '2026-10-19T12:00:30.000Z'), AUTH);
+
+    expect(again.body).toMatchObject({ status: 'duplicate', matched_on: 'f_cnt' });
+    expect(rows('sensor_uplinks')).toHaveLength(1);
+  });
+
+  it('ingests a frame once whatever the case of its dev_eui', async () => {
+    // Registered in lower case, so a frame without dev_eui resolves it by TTN device id
+    harness.db.tables.lora_sensors[0] = { ...rows('lora_sensors')[0], dev_eui: DEV_EUI.toLowerCase(), ttn_device_id: DEVICE_ID };
+    const frame = (devEui?: string) => {
+      const body = uplink(7, undefined, '01HCASE');
+      return { ...body, end_device_ids: { ...body.end_device_ids, dev_eui: devEui } };
+    };
+
+    await harness.invoke('ttn-webhook', frame(undefined), AUTH);
+    const lower = await harness.invoke('ttn-webhook', frame(DEV_EUI.toLowerCase()), AUTH);
+    const upper = await harness.invoke('ttn-webhook', frame(DEV_EUI), AUTH);
+
+    expect(lower.body).toMatchObject({ status: 'duplicate', matched_on: 'correlation_id' });
+    expect(upper.body).toMatchObject({ status: 'duplicate', matched_on: 'correlation_id' });
+    expect(rows('sensor_uplinks')).toHaveLength(1);
+    expect(rows('sensor_uplinks')[0]).toMatchObject({ dev_eui: DEV_EUI, dedup_key: 'as:up:01HCASE' });
+  });
+
+  it('writes a simulated uplink once across the webhook and ttn-simulate dual-write', async () => {
+    await harness.invoke('ttn-batch-provision', {
+      org_id: 'org-1',
+      selected_user_id: 'user-1',
+      devices: [{ dev_eui: DEV_EUI, join_eui: '0000000000000000', app_key: '00112233445566778899AABBCCDDEEFF', name: 'Probe' }],
+    });
+
+    const result = await harness.invoke<{ success: boolean; db_writes: Record<string, unknown> }>('ttn-simulate', {
+      selected_user_id: 'user-1',
+      org_id: 'org-1',
+      deviceId: DEVICE_ID,
+      devEui: DEV_EUI,
+      fPort: 2,
+      fCnt: 12,
+      decodedPayload: { temperature: 3.5, unit_id: UNIT_ID },
+    });
+
+    expect(result.body.success).toBe(true);
+    expect(result.body.db_writes).toMatchObject({ skipped: 'duplicate' });
+    expect(rows('sensor_uplinks')).toHaveLength(1);
+    expect(rows('sensor_readings')).toHaveLength(1);
+  });
+});
+
+// ============================================
+// Frame Counter Checks
+// ============================================
+
+describe('Frame Counter Checks', () => {
+  it('flags regressions and replays but still processes them by default', async () => {
+    await harness.invoke('ttn-webhook', uplink(10), AUTH);
+    const regression = await harness.invoke<{ f_cnt_status: string; ingest_decision: string }>('ttn-webhook', uplink(5, '2026-10-19T12:05:00.000Z'), AUTH);
+    const replay = await harness.invoke<{ f_cnt_status: string }>('ttn-webhook', uplink(5, '2026-10-19T12:15:00.000Z'), AUTH);
+
+    expect(regression.body).toMatchObject({ f_cnt_status: 'regression', ingest_decision: 'flagged' });
+    expect(replay.body).toMatchObject({ f_cnt_status: 'replay' });
+    expect(rows('sensor_uplinks').map(row => row.ingest_decision)).toEqual(['accepted', 'flagged', 'flagged']);
+    expect(rows('sensor_readings')).toHaveLength(3);
+  });
+
+  it('records rejected frames without processing them under the reject policy', async () => {
+    setup({ TTN_FCNT_REPLAY_POLICY: 'reject' });
+    await harness.invoke('ttn-webhook', uplink(10), AUTH);
+    const rejected = await harness.invoke<{ status: string; last_f_cnt: number }>('ttn-webhook', uplink(4, '2026-10-19T12:05:00.000Z'), AUTH);
+    const next = await harness.invoke<{ f_cnt_status: string }>('ttn-webhook', uplink(11, '2026-10-19T12:10:00.000Z'), AUTH);
+
+    expect(rejected.status).toBe(202);
+    expect(rejected.body).toMatchObject({ status: 'rejected', last_f_cnt: 10 });
+    expect(next.body.f_cnt_status).toBe('ok');
+    expect(rows('sensor_uplinks').map(row => [row.f_cnt, row.f_cnt_status, row.ingest_decision])).toEqual([
+      [10, 'first', 'accepted'],
+      [4, 'regression', 'rejected'],
+      [11, 'ok', 'accepted'],
+    ]);
+    expect(rows('sensor_readings')).toHaveLength(2);
+  });
+
+  it('accepts a counter restarting at 0 as a device reset', async () => {
+    setup({ TTN_FCNT_REPLAY_POLICY: 'reject' });
+    await harness.invoke('ttn-webhook', uplink(250), AUTH);
+    const reset = await harness.invoke<{ f_cnt_status: string; ingest_decision: string }>('ttn-webhook', uplink(0, '2026-10-19T12:05:00.000Z'), AUTH);
+    const after = await harness.invoke<{ f_cnt_status: string }>('ttn-webhook', uplink(1, '2026-10-19T12:10:00.000Z'), AUTH);
+
+    expect(reset.body).toMatchObject({ f_cnt_status: 'reset', ingest_decision: 'accepted' });
+    expect(after.body.f_cnt_status).toBe('ok');
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Webhook Authentication Tests
+ *
+ * Runs ttn-webhook and the manage-ttn-settings rotation actions through the
+ * edge function harness: secret header and HMAC modes, unconfigured secrets,
+ * and rotation with a grace period.
+ */
+
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createMockTtnServer } from '@/mockTtn/mockTtnServer';
+import { createEdgeHarness, type EdgeHarness } from '@/mockTtn/edgeHarness';
+import { buildWebhookRequest, signWebhookBody, summarizePreviousWebhookSecrets } from '@/lib/webhookAuth';
+
+const APP = 'frostguard-lab';
+const DEV_EUI = 'A840410000000201';
+const UNIT_ID = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const SECRET = 'lab-secret-0000000001';
+
+let harness: EdgeHarness;
+
+function setup(settings: Record<string, unknown> = {}, env: Record<string, string> = {}) {
+  harness?.restore();
+  harness = createEdgeHarness({
+    ttn: createMockTtnServer({ applications: [APP] }),
+    env,
+    tables: {
+      synced_users: [{ id: 'synced-1', source_user_id: 'user-1', ttn: { enabled: true, application_id: APP, webhook_secret: SECRET } }],
+      ttn_settings: [{ org_id: 'org-1', application_id: APP, cluster: 'nam1', enabled: true, webhook_secret: SECRET, previous_webhook_secrets: [], webhook_auth_mode: 'secret', ...settings }],
+      lora_sensors: [{ id: 'sensor-row-1', org_id: 'org-1', unit_id: UNIT_ID, site_id: null, dev_eui: DEV_EUI, sensor_kind: 'temp', status: 'active' }],
+    },
+  });
+}
+
+function uplink(fCnt = 1) {
+  return {
+    end_device_ids: {
+      device_id: `sensor-${DEV_EUI.toLowerCase()}`,
+      dev_eui: DEV_EUI,
+      application_ids: { application_id: APP },
+    },
+    received_at: new Date().toISOString(),
+    uplink_message: {
+      f_port: 2,
+      f_cnt: fCnt,
+      decoded_payload: { temperature: 3.5 },
+      rx_metadata: [{ gateway_ids: { gateway_id: 'lab-gateway', eui: 'A84041FFFF000001' }, rssi: -70, snr: 7 }],
+    },
+  };
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+  setup();
+});
+
+afterEach(() => {
+  harness.restore();
+  vi.restoreAllMocks();
+});
+
+// ============================================
+// Secret Header Mode
+// ============================================
+
+describe('Webhook Secret Header', () => {
+  it('accepts the configured secret and rejects a wrong or missing one', async () => {
+    const ok = await harness.invoke('ttn-webhook', uplink(), { 'X-TTN-Webhook-Secret': SECRET });
+    expect(ok.status).toBe(200);
+
+    const wrong = await harness.invoke<{ error: string }>('ttn-webhook', uplink(2), { 'X-TTN-Webhook-Secret': 'lab-secret-0000000002' });
+    expect(wrong.status).toBe(401);
+    expect(wrong.body.error).toBe('Invalid webhook secret');
+
+    const missing = await harness.invoke<{ error: string }>('ttn-webhook', uplink(3));
+    expect(missing.status).toBe(401);
+    expect(harness.db.tables.sensor_uplinks).toHaveLength(1);
+  });
+
+  it('rejects uplinks when no secret is configured unless explicitly allowed', async () => {
+    setup({ webhook_secret: null });
+    const rejected = await harness.invoke<{ error: string }>('ttn-webhook', uplink());
+    expect(rejected.status).toBe(401);
+    expect(rejected.body.error).toBe('No webhook secret configured for this application');
+
+    setup({ webhook_secret: null }, { TTN_WEBHOOK_ALLOW_UNAUTHENTICATED: 'true' });
+    const allowed = await harness.invoke('ttn-webhook', uplink());
+    expect(allowed.status).toBe(200);
+  });
+
+  it('rejects secrets that only share a prefix', async () => {
+    const longer = await harness.invoke('ttn-webhook', uplink(), { 'X-TTN-Webhook-Secret': `${SECRET}x` });
+    const shorter = await harness.invoke('ttn-webhook', uplink(), { 'X-TTN-Webhook-Secret': SECRET.slice(0, -1) });
+    expect(longer.status).toBe(401);
+    expect(shorter.status).toBe(401);
+  });
+});
+
+// ============================================
+// HMAC Mode
+// ============================================
+
+describe('Webhook HMAC Signature', () => {
+  beforeEach(() => setup({ webhook_auth_mode: 'hmac' }));
+
+  it('accepts a body signed with the secret', async () => {
+    const payload = uplink();
+    const { headers } = await buildWebhookRequest(payload, SECRET, 'hmac');
+    expect(headers['X-TTN-Webhook-Signature']).toMatch(/^sha256=[0-9a-f]{64}$/);
+
+    const result = await harness.invoke('ttn-webhook', payload, headers);
+    expect(result.status).toBe(200);
+  });
+
+  it('rejects a tampered body and the plain secret header', async () => {
+    const payload = uplink();
+    const signature = await signWebhookBody(SECRET, JSON.stringify(payload));
+
+    const tampered = await harness.invoke<{ error: string }>('ttn-webhook', { ...payload, received_at: '2026-01-01T00:00:00Z' }, { 'X-TTN-Webhook-Signature': signature });
+    expect(tampered.status).toBe(401);
+    expect(tampered.body.error).toBe('Invalid webhook signature');
+
+    const header = await harness.invoke<{ error: string }>('ttn-webhook', payload, { 'X-TTN-Webhook-Secret': SECRET });
+    expect(header.body.error).toBe('Missing webhook signature');
+  });
+});
+
+// ============================================
+// Rotation
+// ============================================
+
+describe('Webhook Secret Rotation', () => {
+  it('keeps the old secret valid during the grace period', async () => {
+    const rotated = await harness.invoke<{ ok: boolean; webhook_secret: string; previous_webhook_secrets: Array<{ last4: string }> }>('manage-ttn-settings', {
+      action: 'rotate_webhook_secret', org_id: 'org-1', user_id: 'synced-1', grace_period_hours: 24,
+    });
+
+    expect(rotated.body.ok).toBe(true);
+    expect(rotated.body.webhook_secret).toMatch(/^[0-9a-f]{64}$/);
+    expect(rotated.body.previous_webhook_secrets).toEqual([expect.objectContaining({ last4: SECRET.slice(-4) })]);
+    expect(harness.db.tables.synced_users[0].ttn).toMatchObject({ webhook_secret: rotated.body.webhook_secret });
+
+    const fresh = await harness.invoke('ttn-webhook', uplink(1), { 'X-TTN-Webhook-Secret': rotated.body.webhook_secret });
+    const old = await harness.invoke('ttn-webhook', uplink(2), { 'X-TTN-Webhook-Secret': SECRET });
+    expect(fresh.status).toBe(200);
+    expect(old.status).toBe(200);
+
+    await harness.invoke('manage-ttn-settings', { action: 'end_webhook_secret_grace', org_id: 'org-1' });
+    const revoked = await harness.invoke('ttn-webhook', uplink(3), { 'X-TTN-Webhook-Secret': SECRET });
+    expect(revoked.status).toBe(401);
+  });
+
+  it('drops the old secret immediately without a grace period', async () => {
+    const rotated = await harness.invoke<{ previous_webhook_secrets: unknown[] }>('manage-ttn-settings', {
+      action: 'rotate_webhook_secret', org_id: 'org-1', grace_period_hours: 0, webhook_secret: 'replacement-secret-0001',
+    });
+
+    expect(rotated.body.previous_webhook_secrets).toEqual([]);
+    const old = await harness.invoke('ttn-webhook', uplink(), { 'X-TTN-Webhook-Secret': SECRET });
+    expect(old.status).toBe(401);
+  });
+
+  it('validates the grace period and a supplied secret', async () => {
+    const tooLong = await harness.invoke<{ code: string }>('manage-ttn-settings', {
+      action: 'rotate_webhook_secret', org_id: 'org-1', grace_period_hours: 10_000,
+    });
+    expect(tooLong.status).toBe(400);
+
+    const short = await harness.invoke('manage-ttn-settings', {
+      action: 'rotate_webhook_secret', org_id: 'org-1', webhook_secret: 'short',
+    });
+    expect(short.status).toBe(400);
+  });
+
+  it('stops accepting previous secrets once they expire', async () => {
+    const expired = [{ secret: 'expired-secret-0001', expires_at: '2020-01-01T00:00:00Z' }];
+    setup({ previous_webhook_secrets: expired });
+
+    const result = await harness.invoke('ttn-webhook', uplink(), { 'X-TTN-Webhook-Secret': 'expired-secret-0001' });
+    expect(result.status).toBe(401);
+    expect(summarizePreviousWebhookSecrets(expired)).toEqual([]);
+    expect(summarizePreviousWebhookSecrets([{ secret: 'active-secret-0001', expires_at: '2099-01-01T00:00:00Z' }]))
+      .toEqual([{ last4: '0001', expires_at: '2099-01-01T00:00:00Z' }]);
+  });
+});
@@ -27,6 +27,7 @@ import type { ScenarioAlarmDef } from '@/lib/scenarioAlarmDefinitions';
 import SensorSelector from './emulator/SensorSelector';
 import TestContextConfig from './emulator/TestContextConfig';
 import TestDashboard from './emulator/TestDashboard';
+import DeviceEventPanel from './emulator/DeviceEventPanel';
 import TelemetryMonitor from './emulator/TelemetryMonitor';
 import TTNProvisioningWizard from './emulator/TTNProvisioningWizard';
 import UserSelectionGate, { STORAGE_KEY_USER_CONTEXT } from './emulator/UserSelectionGate';
@@ -42,9 +43,8 @@ import {
   SyncResult,
   createGateway, 
   createDevice,
-  buildTTNPayload,
 } from '@/lib/ttn-payload';
-import { buildDecodedPayload } from '@/lib/freshtrackExport';
+import { buildEmulatorEnvelope, composeEmulatorUplink, doorEventMessageType, sampleEmulatorEventRules } from '@/lib/emulatorPayload';
 import { assignDeviceToUnit, fetchOrgState, fetchOrgGateways, LocalGateway } from '@/lib/frostguardOrgSync';
 import { log } from '@/lib/debugLogger';
 import { logTTNSimulateEvent } from '@/lib/supportSnapshot';
@@ -53,6 +53,8 @@ import { getCanonicalConfig, setCanonicalConfig, isConfigStale, hasCanonicalConf
 import { acquireEmulatorLock, releaseEmulatorLock, sendEmulatorHeartbeat, releaseEmulatorLockBeacon, LockInfo } from '@/lib/emulatorLock';
 import CreateUnitModal from './emulator/CreateUnitModal';
 import EmulatorDiagnosticsPanel from './emulator/EmulatorDiagnosticsPanel';
+import FleetManifestPanel from './emulator/FleetManifestPanel';
+import DeviceLibraryEditor from './emulator/DeviceLibraryEditor';
 import { 
   SensorState, 
   initializeSensorState, 
@@ -61,11 +63,24 @@ import {
   saveSelectedSensorIds,
   getTempCompatibleSensors,
   getDoorCompatibleSensors,
-  logStateChange
+  logStateChange,
+  dischargeSensorBattery,
 } from '@/lib/emulatorSensorState';
 import { toCanonicalDoor, generateDoorTraceId, logDoorTrace } from '@/lib/doorStateCanonical';
 import { EmissionScheduler, createEmissionScheduler } from '@/lib/deviceLibrary/emissionScheduler';
-import { getDevice as getLibraryDevice } from '@/lib/deviceLibrary';
+import {
+  DEFAULT_SAMPLE_INTERVAL_SEC,
+  getDevice as getLibraryDevice,
+  getDeviceModel,
+  getMessageStreams,
+  hasEventRules,
+  hasMessageTypes,
+} from '@/lib/deviceLibrary';
+import type { ScenarioType } from '@/lib/deviceLibrary/scenarioComposer';
+import { estimateDeviceAirtimeMs, getAirtimePolicy } from '@/lib/deviceLibrary/airtime';
+import { regionForCluster } from '@/lib/deviceLibrary/channelPlans';
+import { createScaledClock, setSimulationClock, simNow } from '@/lib/deviceLibrary/clock';
+import { buildWebhookRequest } from '@/lib/webhookAuth';
 
 interface LogEntry {
   id: string;
@@ -111,6 +126,7 @@ export default function LoRaWANEmulator() {
   const [provisioningMode, setProvisioningMode] = useState<'devices' | 'gateways'>('devices');
   const [showCreateUnitModal, setShowCreateUnitModal] = useState(false);
   const [activeScenarioId, setActiveScenarioId] = useState<string | null>(null);
+  const [clockSpeed, setClockSpeed] = useState(1);
 
   // Emulator routing mode: 'ttn' routes through TTN API, 'local' uses direct DB ingest
   type EmulatorMode = 'ttn' | 'local';
@@ -158,7 +174,7 @@ export default function LoRaWANEmulator() {
   const doorIntervalRef = useRef<NodeJS.Timeout | null>(null);
   
   // Ref to hold latest callback version for stable interval references
-  const sendDeviceUplinkRef = useRef<(deviceId: string) => void>(() => {});
+  const sendDeviceUplinkRef = useRef<(deviceId: string, messageType?: string, data?: Record<string, unknown>) => void>(() => {});
   
   // Legacy refs (kept for backward compatibility)
   const sendTempReadingRef = useRef<() => void>(() => {});
@@ -407,6 +423,7 @@ export default function LoRaWANEmulator() {
   const [sensorStates, setSensorStates] = useState<Record<string, SensorState>>(() => 
     initializeSensorState(devices)
   );
+  const sensorStatesRef = useRef(sensorStates);
   
   const [selectedSensorIds, setSelectedSensorIds] = useState<string[]>(() => 
     loadSelectedSensorIds(devices)
@@ -533,21 +550,11 @@ export default function LoRaWANEmulator() {
     return gateways.find(g => g.id === device.gatewayId && g.isOnline);
   }, [gateways]);
 
-  /** Resolve f_port from device library when a model is assigned, else default to 2 */
-  const resolveDeviceFPort = useCallback((device: LoRaWANDevice): number => {
-    const state = sensorStates[device.id];
-    if (state?.libraryDeviceId) {
-      const libDev = getLibraryDevice(state.libraryDeviceId);
-      if (libDev) return libDev.default_fport;
-    }
-    return 2; // Dragino default
-  }, [sensorStates]);
-
   /**
    * Send uplink for a specific device using its per-device state
    * Each device sends ONLY its own independent payload - no bundling
    */
-  const sendDeviceUplink = useCallback(async (deviceId: string) => {
+  const sendDeviceUplink = useCallback(async (deviceId: string, messageTypeId?: string, eventData?: Record<string, unknown>) => {
     const device = devices.find(d => d.id === deviceId);
     const sensorState = sensorStates[deviceId];
     
@@ -567,12 +574,17 @@ export default function LoRaWANEmulator() {
       return;
     }
 
-    // Build library-aware decoded payload (uses device library field names
-    // like TempC_SHT, BatV, DOOR_OPEN_STATUS when a library model is assigned)
-    const payload = buildDecodedPayload(sensorState, device.type);
-
-    // Use device library's default_fport when available, else default to 2
-    const fPort = resolveDeviceFPort(device);
+    // Compose through the emulator payload pipeline: sensor controls constrain
+    // the library model's fields, the frame type picks fields and fport, and
+    // an on_change frame whose watched fields did not change is not sent.
+    // Event frames carry the values their rule fired on.
+    const uplink = composeEmulatorUplink(sensorState, { messageType: messageTypeId, overrides: eventData });
+    if (!uplink.send) return;
+    const { decodedPayload: payload, fPort, fCnt } = uplink;
+    // One TTN v3 envelope for every transport, heard by every online gateway in range
+    const envelope = buildEmulatorEnvelope(sensorState, uplink, device, gateway, gateways, webhookConfig.applicationId, {
+      region: regionForCluster(webhookConfig.ttnConfig?.cluster || 'nam1'),
+    });
     const requestId = crypto.randomUUID().slice(0, 8);
 
     // Use canonical device_id format: sensor-{normalized_deveui}
@@ -588,6 +600,8 @@ export default function LoRaWANEmulator() {
       payloadPreview: JSON.stringify(payload).slice(0, 100),
       request_id: requestId,
       fPort,
+      fCnt,
+      messageType: uplink.messageType,
       timestamp: new Date().toISOString(),
     });
 
@@ -622,7 +636,11 @@ export default function LoRaWANEmulator() {
             deviceId: ttnDeviceId,
             devEui: device.devEui,
             decodedPayload: payload,
+            frmPayload: envelope.uplink_message.frm_payload,
+            rxMetadata: envelope.uplink_message.rx_metadata,
+            settings: envelope.uplink_message.settings,
             fPort,
+            fCnt,
             gatewayId: gateway.ttnGatewayId || gateway.id,
             gatewayEui: gateway.eui,
             signalStrength: Math.round(sensorState.signalStrength),
@@ -649,12 +667,11 @@ export default function LoRaWANEmulator() {
       // External webhook
       else if (webhookConfig.enabled && webhookConfig.targetUrl) {
         testResult.uplinkPath = 'external-webhook';
-        const ttnPayload = buildTTNPayload(device, gateway, payload, webhookConfig.applicationId);
         const response = await fetch(webhookConfig.targetUrl, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           credentials: 'omit',
-          body: JSON.stringify(ttnPayload),
+          body: JSON.stringify(envelope),
         });
         
         if (!response.ok) throw new Error(`Webhook returned ${response.status}`);
@@ -665,18 +682,25 @@ export default function LoRaWANEmulator() {
       // Local webhook
       else {
         testResult.uplinkPath = 'local-webhook';
-        const ttnPayload = buildTTNPayload(device, gateway, payload, webhookConfig.applicationId);
-        const { error } = await supabase.functions.invoke('ttn-webhook', {
-          body: ttnPayload,
-        });
+        const { error } = await supabase.functions.invoke('ttn-webhook', await buildWebhookRequest(
+          envelope,
+          webhookConfig.ttnWebhookSecret,
+          webhookConfig.ttnWebhookAuthMode
+        ));
         if (error) throw error;
         testResult.webhookStatus = 'success';
         testResult.dbStatus = 'inserted';
         addLog('info', `DEVICE_UPLINK | ${device.name} | path=local-webhook | request_id=${requestId}`);
       }
 
-      // Update sensor state with lastSentAt
-      updateSensorState(deviceId, { lastSentAt: new Date(), isOnline: true });
+      // Update sensor state with lastSentAt and drain the battery for this uplink
+      const sentAt = new Date(simNow());
+      updateSensorState(deviceId, {
+        lastSentAt: sentAt,
+        isOnline: true,
+        batteryPct: dischargeSensorBattery(sensorState, sentAt),
+        f_cnt: fCnt,
+      });
       
       // Type-specific logs
       if (device.type === 'temperature') {
@@ -697,7 +721,7 @@ export default function LoRaWANEmulator() {
     }
 
     addTestResult(testResult);
-  }, [devices, sensorStates, gateways, webhookConfig, addLog, addTestResult, updateSensorState, getActiveGateway, resolveDeviceFPort]);
+  }, [devices, sensorStates, gateways, webhookConfig, addLog, addTestResult, updateSensorState, getActiveGateway]);
 
   const sendTempReading = useCallback(async () => {
     const device = getActiveDevice('temperature');
@@ -713,21 +737,30 @@ export default function LoRaWANEmulator() {
       return;
     }
 
-    const temp = tempState.minTemp + Math.random() * (tempState.maxTemp - tempState.minTemp);
     const humidity = tempState.humidity + (Math.random() - 0.5) * 5;
     const battery = Math.max(0, tempState.batteryLevel - Math.random() * 0.1);
     const signal = tempState.signalStrength + (Math.random() - 0.5) * 10;
-
-    setCurrentTemp(temp);
     setTempState(prev => ({ ...prev, batteryLevel: battery }));
 
-    // Build payload — only sensor telemetry, no metadata
+    // The global controls constrain the active sensor's model; the engine
+    // picks the temperature within the configured range
     const signalStrength = Math.round(signal);
-    const payload = {
-      temperature: Math.round(temp * 10) / 10,
-      humidity: Math.round(humidity * 10) / 10,
-      battery_level: Math.round(battery),
-    };
+    const sensorState = sensorStates[device.id] ?? initializeSensorState([device])[device.id];
+    const uplink = composeEmulatorUplink({
+      ...sensorState,
+      minTempF: tempState.minTemp,
+      maxTempF: tempState.maxTemp,
+      humidity,
+      batteryPct: battery,
+      signalStrength,
+    });
+    const { decodedPayload: payload, fPort, fCnt } = uplink;
+    // One TTN v3 envelope for every transport, heard by every online gateway in range
+    const envelope = buildEmulatorEnvelope(sensorState, uplink, device, gateway, gateways, webhookConfig.applicationId, {
+      region: regionForCluster(webhookConfig.ttnConfig?.cluster || 'nam1'),
+    });
+    const tempC = payload.temperature ?? payload.TempC_SHT ?? payload.TempC_DS;
+    if (typeof tempC === 'number') setCurrentTemp(Math.round((tempC * 9 / 5 + 32) * 10) / 10);
 
     let testResult: Omit<TestResult, 'id' | 'timestamp'> = {
       deviceId: device.id,
@@ -861,7 +894,6 @@ export default function LoRaWANEmulator() {
         // Use canonical device_id format: sensor-{normalized_deveui}
         const normalizedDevEui = device.devEui.replace(/[:\s-]/g, '').toLowerCase();
         const deviceId = `sensor-${normalizedDevEui}`;
-        const fPort = resolveDeviceFPort(device);
 
         // Log request to debug terminal
         log('ttn-preflight', 'info', 'TTN_SIMULATE_REQUEST', {
@@ -880,7 +912,11 @@ export default function LoRaWANEmulator() {
             deviceId,
             devEui: device.devEui,
             decodedPayload: payload,
+            frmPayload: envelope.uplink_message.frm_payload,
+            rxMetadata: envelope.uplink_message.rx_metadata,
+            settings: envelope.uplink_message.settings,
             fPort,
+            fCnt,
             gatewayId: gateway.ttnGatewayId || gateway.id,
             gatewayEui: gateway.eui,
             signalStrength,
@@ -1044,12 +1080,11 @@ export default function LoRaWANEmulator() {
       else if (webhookConfig.enabled && webhookConfig.targetUrl) {
         testResult.ttnStatus = 'skipped';
         testResult.uplinkPath = 'external-webhook';
-        const ttnPayload = buildTTNPayload(device, gateway, payload, webhookConfig.applicationId);
         const response = await fetch(webhookConfig.targetUrl, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           credentials: 'omit',
-          body: JSON.stringify(ttnPayload),
+          body: JSON.stringify(envelope),
         });
         
         if (!response.ok) {
@@ -1064,10 +1099,11 @@ export default function LoRaWANEmulator() {
       else {
         testResult.ttnStatus = 'skipped';
         testResult.uplinkPath = 'local-webhook';
-        const ttnPayload = buildTTNPayload(device, gateway, payload, webhookConfig.applicationId);
-        const { error } = await supabase.functions.invoke('ttn-webhook', {
-          body: ttnPayload,
-        });
+        const { error } = await supabase.functions.invoke('ttn-webhook', await buildWebhookRequest(
+          envelope,
+          webhookConfig.ttnWebhookSecret,
+          webhookConfig.ttnWebhookAuthMode
+        ));
 
         if (error) throw error;
         testResult.webhookStatus = 'success';
@@ -1077,7 +1113,7 @@ export default function LoRaWANEmulator() {
       }
 
       setReadingCount(prev => prev + 1);
-      addLog('temp', `📡 Temp: ${temp.toFixed(1)}°F, Humidity: ${humidity.toFixed(1)}%, Battery: ${battery.toFixed(0)}%`);
+      addLog('temp', `📡 Temp: ${tempC}°C, Humidity: ${Math.round(humidity)}%, Battery: ${battery.toFixed(0)}%`);
     } catch (err: any) {
       testResult.webhookStatus = 'failed';
       testResult.dbStatus = 'failed';
@@ -1091,7 +1127,7 @@ export default function LoRaWANEmulator() {
     }
 
     addTestResult(testResult);
-  }, [tempState, webhookConfig, addLog, addTestResult, getActiveDevice, getActiveGateway, resolveDeviceFPort]);
+  }, [tempState, sensorStates, gateways, webhookConfig, addLog, addTestResult, getActiveDevice, getActiveGateway]);
 
   const sendDoorEvent = useCallback(async (status?: 'open' | 'closed') => {
     if (!doorState.enabled) return;
@@ -1116,15 +1152,18 @@ export default function LoRaWANEmulator() {
 
     setDoorState(prev => ({ ...prev, batteryLevel: battery }));
 
-    // Build payload — only sensor telemetry, no metadata
+    // The global controls constrain the active sensor's model
     const signalStrength = Math.round(signal);
-    const payload = {
-      door_status: doorStatus,
-      battery_level: Math.round(battery),
-    };
-    
-    // Resolve fPort from device library
-    const fPort = resolveDeviceFPort(device);
+    const sensorState = sensorStates[device.id] ?? initializeSensorState([device])[device.id];
+    const uplink = composeEmulatorUplink(
+      { ...sensorState, doorOpen: doorStatus === 'open', batteryPct: battery, signalStrength },
+      { messageType: doorEventMessageType(sensorState) }
+    );
+    const { decodedPayload: payload, fPort, fCnt } = uplink;
+    // One TTN v3 envelope for every transport, heard by every online gateway in range
+    const envelope = buildEmulatorEnvelope(sensorState, uplink, device, gateway, gateways, webhookConfig.applicationId, {
+      region: regionForCluster(webhookConfig.ttnConfig?.cluster || 'nam1'),
+    });
 
     // DEBUG: Log full payload being sent for door events
     const debugRequestId = crypto.randomUUID();
@@ -1132,6 +1171,7 @@ export default function LoRaWANEmulator() {
       request_id: debugRequestId,
       devEui: device.devEui,
       fPort,
+      fCnt,
       door_status: doorStatus,
       payload,
       ttnEnabled: webhookConfig.ttnConfig?.enabled,
@@ -1181,7 +1221,11 @@ export default function LoRaWANEmulator() {
             deviceId,
             devEui: device.devEui,
             decodedPayload: payload,
+            frmPayload: envelope.uplink_message.frm_payload,
+            rxMetadata: envelope.uplink_message.rx_metadata,
+            settings: envelope.uplink_message.settings,
             fPort,
+            fCnt,
             gatewayId: gateway.ttnGatewayId || gateway.id,
             gatewayEui: gateway.eui,
             signalStrength,
@@ -1282,12 +1326,11 @@ export default function LoRaWANEmulator() {
       else if (webhookConfig.enabled && webhookConfig.targetUrl) {
         testResult.ttnStatus = 'skipped';
         testResult.uplinkPath = 'external-webhook';
-        const ttnPayload = buildTTNPayload(device, gateway, payload, webhookConfig.applicationId);
         const response = await fetch(webhookConfig.targetUrl, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           credentials: 'omit',
-          body: JSON.stringify(ttnPayload),
+          body: JSON.stringify(envelope),
         });
         
         if (!response.ok) {
@@ -1302,10 +1345,11 @@ export default function LoRaWANEmulator() {
       else {
         testResult.ttnStatus = 'skipped';
         testResult.uplinkPath = 'local-webhook';
-        const ttnPayload = buildTTNPayload(device, gateway, payload, webhookConfig.applicationId);
-        const { error } = await supabase.functions.invoke('ttn-webhook', {
-          body: ttnPayload,
-        });
+        const { error } = await supabase.functions.invoke('ttn-webhook', await buildWebhookRequest(
+          envelope,
+          webhookConfig.ttnWebhookSecret,
+          webhookConfig.ttnWebhookAuthMode
+        ));
 
         if (error) throw error;
         testResult.webhookStatus = 'success';
@@ -1328,7 +1372,7 @@ export default function LoRaWANEmulator() {
     }
 
     addTestResult(testResult);
-  }, [doorState, webhookConfig, addLog, addTestResult, getActiveDevice, getActiveGateway, resolveDeviceFPort]);
+  }, [doorState, sensorStates, gateways, webhookConfig, addLog, addTestResult, getActiveDevice, getActiveGateway]);
 
   // Keep refs updated with latest callback versions for stable interval references
   useEffect(() => {
@@ -1344,6 +1388,11 @@ export default function LoRaWANEmulator() {
     sendDoorEventRef.current = sendDoorEvent;
   }, [sendDoorEvent]);
 
+  // Latest sensor controls for the scheduler's event rule sampler
+  useEffect(() => {
+    sensorStatesRef.current = sensorStates;
+  }, [sensorStates]);
+
   /**
    * Send uplink for a door sensor with EXPLICIT door state
    * This bypasses the React state closure issue by accepting state as parameter
@@ -1377,13 +1426,15 @@ export default function LoRaWANEmulator() {
     };
 
     const signalStrength = Math.round(sensorState.signalStrength);
-    const payload: Record<string, unknown> = {
-      door_status: canonical.door_status,
-      door_open: canonical.door_open,
-      battery_level: Math.round(sensorState.batteryPct),
-    };
 
-    const fPort = resolveDeviceFPort(device);
+    // Door events go out as the model's door event frame when declared
+    // (e.g. LDS02: DOOR_OPEN_STATUS, counters and BatV on fport 2)
+    const uplink = composeEmulatorUplink({ ...sensorState, doorOpen }, { messageType: doorEventMessageType(sensorState) });
+    const { decodedPayload: payload, fPort, fCnt } = uplink;
+    // One TTN v3 envelope for every transport, heard by every online gateway in range
+    const envelope = buildEmulatorEnvelope(sensorState, uplink, device, gateway, gateways, webhookConfig.applicationId, {
+      region: regionForCluster(webhookConfig.ttnConfig?.cluster || 'nam1'),
+    });
     const normalizedDevEui = device.devEui.replace(/[:\s-]/g, '').toLowerCase();
     const ttnDeviceId = `sensor-${normalizedDevEui}`;
 
@@ -1400,6 +1451,7 @@ export default function LoRaWANEmulator() {
       request_id: requestId,
       trace_id: traceId,
       fPort,
+      fCnt,
       timestamp: new Date().toISOString(),
     });
 
@@ -1435,7 +1487,11 @@ export default function LoRaWANEmulator() {
             deviceId: ttnDeviceId,
             devEui: device.devEui,
             decodedPayload: payload,
+            frmPayload: envelope.uplink_message.frm_payload,
+            rxMetadata: envelope.uplink_message.rx_metadata,
+            settings: envelope.uplink_message.settings,
             fPort,
+            fCnt,
             gatewayId: gateway.ttnGatewayId || gateway.id,
             gatewayEui: gateway.eui,
             signalStrength,
@@ -1461,12 +1517,11 @@ export default function LoRaWANEmulator() {
       // External webhook
       else if (webhookConfig.enabled && webhookConfig.targetUrl) {
         testResult.uplinkPath = 'external-webhook';
-        const ttnPayload = buildTTNPayload(device, gateway, payload, webhookConfig.applicationId);
         const response = await fetch(webhookConfig.targetUrl, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           credentials: 'omit',
-          body: JSON.stringify(ttnPayload),
+          body: JSON.stringify(envelope),
         });
 
         if (!response.ok) throw new Error(`Webhook returned ${response.status}`);
@@ -1477,18 +1532,26 @@ export default function LoRaWANEmulator() {
       // Local webhook
       else {
         testResult.uplinkPath = 'local-webhook';
-        const ttnPayload = buildTTNPayload(device, gateway, payload, webhookConfig.applicationId);
-        const { error } = await supabase.functions.invoke('ttn-webhook', {
-          body: ttnPayload,
-        });
+        const { error } = await supabase.functions.invoke('ttn-webhook', await buildWebhookRequest(
+          envelope,
+          webhookConfig.ttnWebhookSecret,
+          webhookConfig.ttnWebhookAuthMode
+        ));
         if (error) throw error;
         testResult.webhookStatus = 'success';
         testResult.dbStatus = 'inserted';
         addLog('info', `DOOR_UPLINK | ${device.name} | ${canonical.label} | trace=${traceId}`);
       }
 
-      // Update sensor state with lastSentAt
-      updateSensorState(deviceId, { lastSentAt: new Date(), isOnline: true, doorOpen });
+      // Update sensor state with lastSentAt and drain the battery for this uplink
+      const sentAt = new Date(simNow());
+      updateSensorState(deviceId, {
+        lastSentAt: sentAt,
+        isOnline: true,
+        doorOpen,
+        batteryPct: dischargeSensorBattery(sensorState, sentAt),
+        f_cnt: fCnt,
+      });
       addLog('door', `🚪 ${device.name}: Door ${canonical.door_status} (trace: ${traceId})`);
       setReadingCount(prev => prev + 1);
     } catch (err: any) {
@@ -1499,7 +1562,7 @@ export default function LoRaWANEmulator() {
     }
 
     addTestResult(testResult);
-  }, [devices, sensorStates, gateways, webhookConfig, addLog, addTestResult, updateSensorState, getActiveGateway, resolveDeviceFPort]);
+  }, [devices, sensorStates, gateways, webhookConfig, addLog, addTestResult, updateSensorState, getActiveGateway]);
 
   /**
    * Toggle door state for all selected door sensors
@@ -1523,9 +1586,12 @@ export default function LoRaWANEmulator() {
       updateSensorState(deviceId, { doorOpen: newStatus });
     });
     
-    // Send uplinks with EXPLICIT state (bypasses stale closure issue)
+    // Send uplinks with EXPLICIT state (bypasses stale closure issue).
+    // The toggle is the door's event uplink; its frame becomes the event
+    // rule sampler's baseline, so door rules do not fire again.
     doorCompatibleIds.forEach(deviceId => {
       sendDoorUplinkWithState(deviceId, newStatus, traceId);
+      if (schedulerRef.current?.isRunning(deviceId)) schedulerRef.current.recordEmission(deviceId);
     });
   }, [doorState.doorOpen, doorCompatibleIds, updateSensorState, sendDoorUplinkWithState]);
 
@@ -1730,27 +1796,53 @@ export default function LoRaWANEmulator() {
       schedulerRef.current = createEmissionScheduler();
     }
     const scheduler = schedulerRef.current;
+    const region = regionForCluster(webhookConfig.ttnConfig?.cluster || 'nam1');
+    scheduler.configureAirtime({ policy: getAirtimePolicy(region), enforcement: 'warn' });
 
     // Register only selected devices with the scheduler
     for (const device of devicesToSchedule) {
       const sensorState = sensorStates[device.id];
       if (!sensorState) continue;
 
-      scheduler.startDevice(
+      const libraryDevice = sensorState.libraryDeviceId ? getLibraryDevice(sensorState.libraryDeviceId) : undefined;
+      const budget = scheduler.startDevice(
         device.id,
         sensorState.intervalSec,
-        (deviceId) => {
+        (deviceId, messageType, data) => {
           console.log('[SCHEDULER_TICK]', {
             deviceId,
             deviceName: device.name,
             kind: device.type,
+            messageType,
+            event: !!data,
             timestamp: new Date().toISOString(),
           });
-          sendDeviceUplinkRef.current(deviceId);
+          if (data) addLog('info', `⚡ ${device.name}: event "${messageType}" sent out of cycle`);
+          sendDeviceUplinkRef.current(deviceId, messageType, data);
         },
-        { emitImmediately: true }
+        {
+          emitImmediately: true,
+          airtime: { airtimeMs: estimateDeviceAirtimeMs(libraryDevice, region), gatewayId: device.gatewayId },
+          messageStreams: libraryDevice && hasMessageTypes(libraryDevice) ? getMessageStreams(libraryDevice) : undefined,
+          // Library event rules: sample the model under the sensor's current
+          // controls; rules that fire send out of cycle, rate limited per rule
+          sampler: libraryDevice && hasEventRules(libraryDevice)
+            ? {
+                intervalSec: libraryDevice.sample_interval_sec ?? DEFAULT_SAMPLE_INTERVAL_SEC,
+                sample: id => {
+                  const state = sensorStatesRef.current[id];
+                  return state ? sampleEmulatorEventRules(state) : [];
+                },
+              }
+            : undefined,
+        }
       );
 
+      if (budget && budget.action !== 'ok') {
+        const throttledTo = budget.throttledIntervalSec !== undefined ? `, throttled to ${budget.throttledIntervalSec}s` : '';
+        addLog('error', `📡 ${device.name} exceeds ${region} airtime budget: ${budget.violations.join('; ')} (min interval ${budget.minIntervalSec}s${throttledTo})`);
+      }
+
       addLog('info', `⏱️ ${device.name} scheduled every ${sensorState.intervalSec}s (drift-corrected)`);
     }
 
@@ -1994,6 +2086,7 @@ export default function LoRaWANEmulator() {
       selectedUserSites: undefined,
       ttnConfig: undefined,
       ttnWebhookSecret: undefined,
+      ttnWebhookAuthMode: undefined,
       contextSetAt: undefined,
       isHydrated: false,
       lastSyncAt: undefined,
@@ -2004,6 +2097,49 @@ export default function LoRaWANEmulator() {
     window.location.reload();
   }, []);
 
+  // Accelerated clock: scheduler intervals, payload and scenario timestamps follow it
+  const handleClockSpeedChange = useCallback((speed: number) => {
+    setSimulationClock(speed === 1 ? null : createScaledClock(speed));
+    setClockSpeed(speed);
+    addLog('info', speed === 1 ? '⏱️ Clock: real time' : `⏱️ Clock: ×${speed} accelerated`);
+  }, [addLog]);
+
+  useEffect(() => () => setSimulationClock(null), []);
+
+  // Replace gateways, devices and per-sensor settings from a fleet manifest
+  const handleFleetImport = useCallback((fleet: {
+    gateways: GatewayConfigType[];
+    devices: LoRaWANDevice[];
+    intervals: Record<string, number>;
+    scenarios: Record<string, ScenarioType>;
+  }) => {
+    const states = initializeSensorState(fleet.devices);
+    for (const device of fleet.devices) {
+      states[device.id] = {
+        ...states[device.id],
+        intervalSec: fleet.intervals[device.id] ?? states[device.id].intervalSec,
+        scenario: fleet.scenarios[device.id],
+        libraryDeviceId: getDeviceModel(device.id) ?? undefined,
+      };
+    }
+    setGateways(fleet.gateways);
+    setDevices(fleet.devices);
+    setSensorStates(states);
+    addLog('info', `📦 Imported fleet manifest: ${fleet.gateways.length} gateways, ${fleet.devices.length} devices`);
+  }, [addLog]);
+
+  // Follow library model renames and removals after a library migration
+  const handleModelsMigrated = useCallback((models: Record<string, string | null>) => {
+    setSensorStates(prev => {
+      const next = { ...prev };
+      for (const [deviceId, libraryDeviceId] of Object.entries(models)) {
+        if (next[deviceId]) next[deviceId] = { ...next[deviceId], libraryDeviceId: libraryDeviceId ?? undefined };
+      }
+      return next;
+    });
+    addLog('info', `📚 Library migration updated models for ${Object.keys(models).length} device(s)`);
+  }, [addLog]);
+
   // Handle device unit assignment
   const handleAssignDeviceUnit = useCallback(async (
     deviceId: string, 
@@ -2116,6 +2252,8 @@ export default function LoRaWANEmulator() {
           onStartEmulation={startEmulation}
           onStopEmulation={stopEmulation}
           onSingleReading={sendTempReading}
+          clockSpeed={clockSpeed}
+          onClockSpeedChange={handleClockSpeedChange}
         />
 
         <main className="flex-1 p-6">
@@ -2417,7 +2555,16 @@ export default function LoRaWANEmulator() {
           </TabsContent>
 
           {/* Devices Tab */}
-          <TabsContent value="devices">
+          <TabsContent value="devices" className="space-y-6">
+            <FleetManifestPanel
+              gateways={gateways}
+              devices={devices}
+              sensorStates={sensorStates}
+              applicationId={webhookConfig.applicationId}
+              orgId={webhookConfig.testOrgId}
+              disabled={isRunning}
+              onImport={handleFleetImport}
+            />
             <DeviceManager
               devices={devices}
               gateways={gateways}
@@ -2436,6 +2583,11 @@ export default function LoRaWANEmulator() {
               onAssignUnit={handleAssignDeviceUnit}
               onCreateUnit={() => setShowCreateUnitModal(true)}
             />
+            <DeviceLibraryEditor
+              disabled={isRunning}
+              devices={devices}
+              onModelsMigrated={handleModelsMigrated}
+            />
           </TabsContent>
 
           {/* Webhook Tab */}
@@ -2483,6 +2635,11 @@ export default function LoRaWANEmulator() {
                   gateways={gateways}
                   devices={devices}
                 />
+                <DeviceEventPanel
+                  devices={devices}
+                  config={webhookConfig}
+                  disabled={isRunning}
+                />
                 <TestDashboard
                   results={testResults}
                   syncResults={syncResults}
@@ -0,0 +1,235 @@
+import { useState, useRef, useMemo, useCallback, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { History, Loader2, Play, Square, RotateCcw } from 'lucide-react';
+import {
+  createFleetManifest,
+  countBackfillEntries,
+  getBackfillJobId,
+  getBackfillProgress,
+  clearBackfillProgress,
+  isLibraryLoaded,
+  initializeDeviceLibrary,
+  type BackfillOptions,
+  type BackfillProgress,
+} from '@/lib/deviceLibrary';
+import { backfillReadingsToFreshTrack } from '@/lib/freshtrackExport';
+import type { GatewayConfig, LoRaWANDevice } from '@/lib/ttn-payload';
+import { toast } from '@/hooks/use-toast';
+
+interface BackfillPanelProps {
+  devices: LoRaWANDevice[];
+  gateways: GatewayConfig[];
+  applicationId: string;
+  orgId?: string;
+  onLog?: (message: string, status: 'success' | 'warning' | 'error') => void;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toDateInput(epochMs: number): string {
+  const d = new Date(epochMs);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/** Local midnight of a yyyy-mm-dd input value */
+function fromDateInput(value: string): number {
+  return new Date(`${value}T00:00:00`).getTime();
+}
+
+export default function BackfillPanel({ devices, gateways, applicationId, orgId, onLog }: BackfillPanelProps) {
+  const eligible = useMemo(() => devices.filter(d => d.unitId), [devices]);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(eligible.map(d => d.id)));
+  const [fromDate, setFromDate] = useState(() => toDateInput(Date.now() - 30 * DAY_MS));
+  const [toDate, setToDate] = useState(() => toDateInput(Date.now()));
+  const [intervalSec, setIntervalSec] = useState(600);
+  const [progress, setProgress] = useState<BackfillProgress | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Build the job from the same model assignments and seed a fleet export uses
+  const job = useMemo((): BackfillOptions | null => {
+    const chosen = eligible.filter(d => selected.has(d.id));
+    const from = fromDateInput(fromDate);
+    const to = fromDateInput(toDate);
+    if (chosen.length === 0 || !(to >= from)) return null;
+
+    if (!isLibraryLoaded()) initializeDeviceLibrary();
+    const { manifest } = createFleetManifest({ gateways, devices: chosen, applicationId, orgId });
+    if (manifest.devices.length === 0) return null;
+    return {
+      devices: manifest.devices,
+      gateways: manifest.gateways,
+      from,
+      to,
+      intervalSec,
+      seed: manifest.seed,
+      applicationId,
+      orgId,
+      region: manifest.region,
+    };
+  }, [eligible, selected, fromDate, toDate, intervalSec, gateways, applicationId, orgId]);
+
+  const jobId = job ? getBackfillJobId(job) : null;
+  const [total, setTotal] = useState<number | null>(null);
+
+  // Counting simulates event-driven jobs, so it runs once the settings settle rather than on every render
+  useEffect(() => {
+    setTotal(job ? null : 0);
+    if (!job) return;
+    const timer = window.setTimeout(() => setTotal(countBackfillEntries(job)), 400);
+    return () => window.clearTimeout(timer);
+  }, [job]);
+
+  // Show saved progress for the current job so it can be resumed
+  useEffect(() => {
+    if (!isRunning) setProgress(jobId ? getBackfillProgress(jobId) : null);
+  }, [jobId, isRunning]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const toggleDevice = useCallback((id: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  }, []);
+
+  const handleStart = useCallback(async () => {
+    if (!job) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+
+    const { progress: final, errors, stopped } = await backfillReadingsToFreshTrack(job, {
+      signal: controller.signal,
+      onProgress: setProgress,
+    });
+
+    setIsRunning(false);
+    abortRef.current = null;
+    const summary = `${final.completed}/${final.total} readings pushed (${final.ingested} ingested, ${final.failed} failed)`;
+    if (stopped) {
+      onLog?.(`Backfill stopped: ${summary}${errors.length > 0 ? ` — ${errors[errors.length - 1]}` : ''}`, 'warning');
+      toast({ title: 'Backfill stopped', description: `${summary}. Start again to resume.`, variant: errors.length > 0 ? 'destructive' : undefined });
+    } else {
+      onLog?.(`Backfill complete: ${summary}`, errors.length > 0 ? 'warning' : 'success');
+      toast({ title: 'Backfill complete', description: summary });
+    }
+  }, [job, onLog]);
+
+  const handleReset = useCallback(() => {
+    if (!jobId) return;
+    clearBackfillProgress(jobId);
+    setProgress(null);
+  }, [jobId]);
+
+  const canResume = progress !== null && !progress.finishedAt && progress.completed > 0;
+  const percent = progress && progress.total > 0 ? Math.round((progress.completed / progress.total) * 100) : 0;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Historical Backfill
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Generate a deterministic history of readings for the selected devices and push it in
+          batches of 100 with historical timestamps. Interrupted runs resume where they stopped.
+        </p>
+
+        {eligible.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Assign devices to units to backfill them.</p>
+        ) : (
+          <div className="space-y-2">
+            {eligible.map(dev => (
+              <div key={dev.id} className="flex items-center gap-2">
+                <Checkbox
+                  id={`backfill-${dev.id}`}
+                  checked={selected.has(dev.id)}
+                  onCheckedChange={v => toggleDevice(dev.id, v === true)}
+                  disabled={isRunning}
+                />
+                <Label htmlFor={`backfill-${dev.id}`} className="text-sm font-normal">
+                  {dev.name} <span className="font-mono text-xs text-muted-foreground">{dev.devEui}</span>
+                </Label>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="backfill-from" className="text-xs">From</Label>
+            <Input id="backfill-from" type="date" value={fromDate} onChange={e => setFromDate(e.target.value)} disabled={isRunning} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="backfill-to" className="text-xs">Until (00:00)</Label>
+            <Input id="backfill-to" type="date" value={toDate} onChange={e => setToDate(e.target.value)} disabled={isRunning} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Interval</Label>
+            <Select value={String(intervalSec)} onValueChange={v => setIntervalSec(Number(v))} disabled={isRunning}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="300">5 min</SelectItem>
+                <SelectItem value="600">10 min</SelectItem>
+                <SelectItem value="900">15 min</SelectItem>
+                <SelectItem value="1800">30 min</SelectItem>
+                <SelectItem value="3600">1 hour</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <p className="text-xs text-muted-foreground">{total === null ? 'Counting readings…' : `${total.toLocaleString()} readings`}</p>
+
+        {progress && (
+          <div className="space-y-1">
+            <Progress value={percent} />
+            <p className="text-xs text-muted-foreground">
+              {progress.completed.toLocaleString()} / {progress.total.toLocaleString()} pushed
+              — {progress.ingested.toLocaleString()} ingested, {progress.failed.toLocaleString()} failed
+              {progress.finishedAt && ` — finished ${new Date(progress.finishedAt).toLocaleString()}`}
+            </p>
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          {isRunning ? (
+            <Button variant="outline" className="flex-1" onClick={() => abortRef.current?.abort()}>
+              <Square className="h-4 w-4 mr-2" /> Stop after current batch
+            </Button>
+          ) : (
+            <Button variant="secondary" className="flex-1" onClick={handleStart} disabled={!job || !orgId || !!progress?.finishedAt}>
+              {canResume ? <><Play className="h-4 w-4 mr-2" /> Resume Backfill</> : <><History className="h-4 w-4 mr-2" /> Start Backfill</>}
+            </Button>
+          )}
+          {isRunning && <Loader2 className="h-4 w-4 animate-spin self-center" />}
+          <Button variant="ghost" size="icon" onClick={handleReset} disabled={isRunning || !progress} title="Reset progress">
+            <RotateCcw className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
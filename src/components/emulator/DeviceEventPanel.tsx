@@ -0,0 +1,139 @@
+/**
+ * Device Event Panel
+ *
+ * Sends TTN webhook events other than uplinks (join accepts, downlink
+ * status, location solved, service data, normalized uplinks) for an
+ * emulated device, to test how ttn-webhook routes and stores them.
+ */
+
+import { useState } from 'react';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, RefreshCw, Send, Zap } from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from '@/hooks/use-toast';
+import type { LoRaWANDevice, WebhookConfig } from '@/lib/ttn-payload';
+import { buildTTNEvent, newDownlinkId, TTN_EVENT_TYPES, type TTNEventType } from '@/lib/ttnEvents';
+import { buildWebhookRequest } from '@/lib/webhookAuth';
+
+// ============================================
+// Component Props
+// ============================================
+
+interface DeviceEventPanelProps {
+  devices: LoRaWANDevice[];
+  config: WebhookConfig;
+  disabled?: boolean;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export default function DeviceEventPanel({ devices, config, disabled = false }: DeviceEventPanelProps) {
+  const [deviceId, setDeviceId] = useState<string>('');
+  const [eventType, setEventType] = useState<TTNEventType>('join_accept');
+  // Downlink events share one id so queued → sent → ack update the same row
+  const [downlinkId, setDownlinkId] = useState(newDownlinkId);
+  const [isSending, setIsSending] = useState(false);
+  const [lastResult, setLastResult] = useState<string | null>(null);
+
+  const device = devices.find(d => d.id === deviceId) ?? devices[0];
+  const isDownlinkEvent = eventType.startsWith('downlink_');
+
+  const sendEvent = async () => {
+    if (!device) return;
+
+    setIsSending(true);
+    try {
+      const event = buildTTNEvent(eventType, device, config.applicationId, { downlinkId });
+      const request = await buildWebhookRequest(event, config.ttnWebhookSecret, config.ttnWebhookAuthMode);
+
+      let result: Record<string, unknown>;
+      if (config.enabled && config.targetUrl) {
+        const response = await fetch(config.targetUrl, { method: 'POST', credentials: 'omit', ...request });
+        result = { status: response.status, ...(await response.json().catch(() => ({}))) };
+      } else {
+        const { data, error } = await supabase.functions.invoke('ttn-webhook', request);
+        if (error) throw error;
+        result = data;
+      }
+
+      setLastResult(JSON.stringify(result));
+      toast({ title: 'Event Sent', description: `${eventType} for ${device.name}` });
+    } catch (err: unknown) {
+      setLastResult(null);
+      const message = err instanceof Error ? err.message : String(err);
+      toast({ title: 'Event Failed', description: message || 'Failed to send event', variant: 'destructive' });
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardContent className="pt-6 space-y-4">
+        <div className="flex items-center gap-2">
+          <Zap className="h-4 w-4 text-primary" />
+          <h3 className="font-medium">Device Events</h3>
+        </div>
+
+        {devices.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Add a device to send TTN events.</p>
+        ) : (
+          <>
+            <div className="grid gap-3 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label>Device</Label>
+                <Select value={device?.id} onValueChange={setDeviceId} disabled={disabled || isSending}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {devices.map(d => (
+                      <SelectItem key={d.id} value={d.id}>{d.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Event</Label>
+                <Select value={eventType} onValueChange={(v) => setEventType(v as TTNEventType)} disabled={disabled || isSending}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TTN_EVENT_TYPES.map(t => (
+                      <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            {isDownlinkEvent && (
+              <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                <span className="font-mono">as:downlink:{downlinkId}</span>
+                <Button variant="ghost" size="sm" className="h-6 text-xs" onClick={() => setDownlinkId(newDownlinkId())}>
+                  <RefreshCw className="h-3 w-3" />
+                  New downlink
+                </Button>
+              </div>
+            )}
+
+            <Button onClick={sendEvent} disabled={disabled || isSending || !device} className="w-full">
+              {isSending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+              Send {eventType}
+            </Button>
+
+            {lastResult && (
+              <pre className="text-xs bg-muted rounded p-2 overflow-x-auto">{lastResult}</pre>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
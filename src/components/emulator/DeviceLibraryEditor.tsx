@@ -0,0 +1,665 @@
+import { useState, useMemo, useCallback, useRef } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { BookOpen, Plus, Trash2, Save, FileDown, FileUp, FolderInput, RefreshCw, AlertTriangle } from 'lucide-react';
+import {
+  getActiveLibrary,
+  isLibraryLoaded,
+  initializeDeviceLibrary,
+  loadDeviceLibrary,
+  saveCustomLibrary,
+  validateDeviceLibrary,
+  parseDeviceLibrary,
+  planActiveLibraryMigration,
+  applyLibraryMigration,
+  createDeviceDraft,
+  createFieldConfig,
+  withDevice,
+  withoutDevice,
+  bumpLibraryVersion,
+  serializeDeviceLibrary,
+  validateDeviceDraft,
+  previewDevicePayloads,
+  importTtnRepository,
+  mergeImportedDevices,
+  defaultDeviceLibrary,
+  type DeviceCategory,
+  type DeviceDefinition,
+  type DeviceLibrary,
+  type FieldConfig,
+  type FieldType,
+  type ValidationError,
+  type TtnImportIssue,
+  type TtnMergeReport,
+  type TtnRepositoryReader,
+  type LibraryMigrationPlan,
+} from '@/lib/deviceLibrary';
+import type { LoRaWANDevice } from '@/lib/ttn-payload';
+import { toast } from '@/hooks/use-toast';
+
+interface DeviceLibraryEditorProps {
+  disabled?: boolean;
+  devices?: LoRaWANDevice[];
+  /** Emulator device id → new library device id (null when its model was removed) */
+  onModelsMigrated?: (models: Record<string, string | null>) => void;
+}
+
+interface PendingActivation {
+  library: DeviceLibrary;
+  plan: LibraryMigrationPlan;
+  onActivated?: () => void;
+}
+
+const CATEGORIES: DeviceCategory[] = [
+  'temperature', 'temperature_humidity', 'door', 'contact', 'co2', 'leak',
+  'gps', 'meter', 'motion', 'air_quality', 'combo', 'multi_sensor',
+];
+const FIELD_TYPES: FieldType[] = ['float', 'int', 'bool', 'enum', 'string'];
+
+function loadWorkingLibrary(): DeviceLibrary {
+  if (!isLibraryLoaded()) initializeDeviceLibrary();
+  return structuredClone(getActiveLibrary() ?? (defaultDeviceLibrary as DeviceLibrary));
+}
+
+function formatJson(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+/** Parse an optional number input; empty clears the value */
+function optionalNumber(value: string): number | undefined {
+  return value.trim() === '' ? undefined : Number(value);
+}
+
+function uniqueDeviceId(library: DeviceLibrary): string {
+  const ids = new Set(library.devices.map(d => d.id));
+  let n = 1;
+  while (ids.has(`custom-device-${n}`)) n++;
+  return `custom-device-${n}`;
+}
+
+/**
+ * Read a lorawan-devices checkout picked as a directory. Paths are made
+ * relative to the repository root whether the root or its vendor/ folder
+ * was picked.
+ */
+function createFileListReader(files: File[]): TtnRepositoryReader {
+  const byPath = new Map<string, File>();
+  for (const file of files) {
+    const [root, ...rest] = file.webkitRelativePath.split('/');
+    byPath.set(root === 'vendor' ? ['vendor', ...rest].join('/') : rest.join('/'), file);
+  }
+  return {
+    readText: async (path) => {
+      const file = byPath.get(path);
+      return file ? file.text() : null;
+    },
+  };
+}
+
+function InlineErrors({ errors }: { errors: ValidationError[] }) {
+  if (errors.length === 0) return null;
+  return (
+    <ul className="text-xs text-destructive space-y-0.5">
+      {errors.map((e, i) => <li key={i}>{e.message}</li>)}
+    </ul>
+  );
+}
+
+export default function DeviceLibraryEditor({ disabled, devices = [], onModelsMigrated }: DeviceLibraryEditorProps) {
+  const [library, setLibrary] = useState<DeviceLibrary>(loadWorkingLibrary);
+  const [originalId, setOriginalId] = useState<string | null>(() => library.devices[0]?.id ?? null);
+  const [draft, setDraft] = useState<DeviceDefinition>(() => structuredClone(library.devices[0] ?? createDeviceDraft()));
+  const [normalText, setNormalText] = useState(() => formatJson(draft.examples.normal));
+  const [alarmText, setAlarmText] = useState(() => (draft.examples.alarm ? formatJson(draft.examples.alarm) : ''));
+  const [exampleErrors, setExampleErrors] = useState<{ normal?: string; alarm?: string }>({});
+  const [newFieldName, setNewFieldName] = useState('');
+  const [previewRound, setPreviewRound] = useState(0);
+  const [ttnVendors, setTtnVendors] = useState('');
+  const [ttnReplace, setTtnReplace] = useState(false);
+  const [ttnReport, setTtnReport] = useState<(TtnMergeReport & { skipped: TtnImportIssue[] }) | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const directoryInputRef = useRef<HTMLInputElement | null>(null);
+  const libraryInputRef = useRef<HTMLInputElement>(null);
+  const [pending, setPending] = useState<PendingActivation | null>(null);
+
+  const validation = useMemo(
+    () => validateDeviceDraft(library, draft, originalId ?? undefined),
+    [library, draft, originalId]
+  );
+  const preview = useMemo(
+    () => (validation.valid ? previewDevicePayloads(draft, 3, `preview-${previewRound}`) : null),
+    [validation.valid, draft, previewRound]
+  );
+
+  const errorsAt = useCallback((path: string) => validation.errors.filter(
+    e => e.path === path || e.path.startsWith(`${path}.`)
+  ), [validation.errors]);
+
+  // ============================================
+  // Draft Editing
+  // ============================================
+
+  const editDevice = useCallback((device: DeviceDefinition, id: string | null) => {
+    setOriginalId(id);
+    setDraft(structuredClone(device));
+    setNormalText(formatJson(device.examples.normal));
+    setAlarmText(device.examples.alarm ? formatJson(device.examples.alarm) : '');
+    setExampleErrors({});
+  }, []);
+
+  const updateDraft = useCallback((patch: Partial<DeviceDefinition>) => {
+    setDraft(prev => ({ ...prev, ...patch }));
+  }, []);
+
+  const setFields = useCallback((update: (fields: Record<string, FieldConfig>) => Record<string, FieldConfig>) => {
+    setDraft(prev => ({
+      ...prev,
+      simulation_profile: { ...prev.simulation_profile, fields: update(prev.simulation_profile.fields) },
+    }));
+  }, []);
+
+  const updateField = useCallback((name: string, patch: Partial<FieldConfig>) => {
+    setFields(fields => ({ ...fields, [name]: { ...fields[name], ...patch } as FieldConfig }));
+  }, [setFields]);
+
+  const changeFieldType = useCallback((name: string, type: FieldType) => {
+    setFields(fields => ({ ...fields, [name]: createFieldConfig(type, fields[name]) }));
+  }, [setFields]);
+
+  const removeField = useCallback((name: string) => {
+    setFields(fields => {
+      const next = { ...fields };
+      delete next[name];
+      return next;
+    });
+  }, [setFields]);
+
+  const addField = useCallback(() => {
+    const name = newFieldName.trim();
+    if (!name || name in draft.simulation_profile.fields) return;
+    setFields(fields => ({ ...fields, [name]: createFieldConfig('float') }));
+    setNewFieldName('');
+  }, [newFieldName, draft.simulation_profile.fields, setFields]);
+
+  const handleExampleChange = useCallback((kind: 'normal' | 'alarm', text: string) => {
+    (kind === 'normal' ? setNormalText : setAlarmText)(text);
+
+    if (kind === 'alarm' && text.trim() === '') {
+      setExampleErrors(prev => ({ ...prev, alarm: undefined }));
+      setDraft(prev => ({ ...prev, examples: { normal: prev.examples.normal } }));
+      return;
+    }
+    try {
+      const value = JSON.parse(text);
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) throw new Error('Example must be a JSON object');
+      setExampleErrors(prev => ({ ...prev, [kind]: undefined }));
+      setDraft(prev => ({ ...prev, examples: { ...prev.examples, [kind]: value } }));
+    } catch (e) {
+      setExampleErrors(prev => ({ ...prev, [kind]: e instanceof Error ? e.message : 'Invalid JSON' }));
+    }
+  }, []);
+
+  // ============================================
+  // Library Actions
+  // ============================================
+
+  const activateLibrary = useCallback((next: DeviceLibrary, plan: LibraryMigrationPlan | null) => {
+    loadDeviceLibrary(next);
+    saveCustomLibrary(next);
+    if (plan) {
+      applyLibraryMigration(plan, next);
+      const migrated = plan.assignments.filter(a => a.action !== 'keep');
+      if (migrated.length > 0) {
+        onModelsMigrated?.(Object.fromEntries(migrated.map(a => [a.emulatorDeviceId, a.to])));
+      }
+    }
+    setLibrary(next);
+  }, [onModelsMigrated]);
+
+  /**
+   * Validate and activate a library. When the change affects emulator
+   * devices or the version, it waits for confirmation first.
+   */
+  const commitLibrary = useCallback((next: DeviceLibrary, onActivated?: () => void): boolean => {
+    const result = validateDeviceLibrary(next);
+    if (!result.valid) {
+      toast({ title: 'Library invalid', description: result.errors[0]?.message, variant: 'destructive' });
+      return false;
+    }
+    const plan = planActiveLibraryMigration(next);
+    if (plan && plan.warnings.length > 0) {
+      setPending({ library: next, plan, onActivated });
+      return false;
+    }
+    activateLibrary(next, plan);
+    onActivated?.();
+    return true;
+  }, [activateLibrary]);
+
+  const confirmPending = useCallback(() => {
+    if (!pending) return;
+    activateLibrary(pending.library, pending.plan);
+    pending.onActivated?.();
+    setPending(null);
+  }, [pending, activateLibrary]);
+
+  const handleSave = useCallback(() => {
+    commitLibrary(withDevice(library, draft, originalId ?? undefined), () => {
+      setOriginalId(draft.id);
+      toast({ title: 'Device saved', description: `${draft.name} (${draft.id}) saved to the active library` });
+    });
+  }, [commitLibrary, library, draft, originalId]);
+
+  const handleDelete = useCallback(() => {
+    if (!originalId) {
+      editDevice(library.devices[0], library.devices[0].id);
+      return;
+    }
+    const next = withoutDevice(library, originalId);
+    if (next.devices.length === 0) {
+      toast({ title: 'Cannot delete', description: 'A library needs at least one device', variant: 'destructive' });
+      return;
+    }
+    commitLibrary(next, () => {
+      editDevice(next.devices[0], next.devices[0].id);
+      toast({ title: 'Device removed', description: originalId });
+    });
+  }, [commitLibrary, editDevice, library, originalId]);
+
+  const handleExport = useCallback(() => {
+    const versioned = bumpLibraryVersion(library);
+    if (!commitLibrary(versioned)) return;
+
+    const blob = new Blob([serializeDeviceLibrary(versioned)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `device-library-v${versioned.metadata.version}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+    toast({ title: 'Library exported', description: `v${versioned.metadata.version}, ${versioned.devices.length} devices` });
+  }, [commitLibrary, library]);
+
+  const handleLibraryImport = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const { library: next, result } = parseDeviceLibrary(await file.text());
+    if (!next) {
+      toast({ title: 'Library invalid', description: result.errors[0]?.message, variant: 'destructive' });
+      return;
+    }
+    commitLibrary(next, () => {
+      editDevice(next.devices[0], next.devices[0].id);
+      toast({ title: 'Library activated', description: `v${next.metadata.version}, ${next.devices.length} devices` });
+    });
+  }, [commitLibrary, editDevice]);
+
+  const handleTtnImport = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length === 0) return;
+
+    setIsImporting(true);
+    try {
+      const vendors = ttnVendors.split(',').map(v => v.trim()).filter(Boolean);
+      const { devices, skipped } = await importTtnRepository(createFileListReader(files), {
+        vendors: vendors.length > 0 ? vendors : undefined,
+      });
+      const { library: merged, report } = mergeImportedDevices(library, devices, { replaceExisting: ttnReplace });
+      const finish = () => {
+        setTtnReport({ ...report, skipped });
+        toast({
+          title: 'TTN import finished',
+          description: `${report.added.length} added, ${report.replaced.length} replaced, ` +
+            `${report.conflicts.length} conflicts, ${skipped.length} skipped`,
+        });
+      };
+      if (report.added.length + report.replaced.length > 0) commitLibrary(merged, finish);
+      else finish();
+    } finally {
+      setIsImporting(false);
+    }
+  }, [ttnVendors, ttnReplace, library, commitLibrary]);
+
+  const hasExampleErrors = !!exampleErrors.normal || !!exampleErrors.alarm;
+  const fieldEntries = Object.entries(draft.simulation_profile.fields);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <BookOpen className="h-4 w-4" />
+          Device Library Editor
+          <Badge variant="outline" className="ml-auto font-mono text-xs">v{library.metadata.version}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Device picker */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={originalId ?? '__new__'}
+            onValueChange={id => {
+              const device = library.devices.find(d => d.id === id);
+              if (device) editDevice(device, id);
+            }}
+          >
+            <SelectTrigger className="w-72">
+              <SelectValue placeholder="Select a device" />
+            </SelectTrigger>
+            <SelectContent>
+              {originalId === null && <SelectItem value="__new__">{draft.name} (unsaved)</SelectItem>}
+              {library.devices.map(d => (
+                <SelectItem key={d.id} value={d.id}>{d.manufacturer} {d.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={() => editDevice(createDeviceDraft(uniqueDeviceId(library)), null)} disabled={disabled}>
+            <Plus className="h-4 w-4 mr-2" /> New Device
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => libraryInputRef.current?.click()} disabled={disabled}>
+            <FileUp className="h-4 w-4 mr-2" /> Import Library
+          </Button>
+          <Button variant="outline" size="sm" onClick={handleExport} disabled={disabled}>
+            <FileDown className="h-4 w-4 mr-2" /> Export Library
+          </Button>
+          <input
+            ref={libraryInputRef}
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleLibraryImport}
+          />
+        </div>
+
+        {/* Pending activation review */}
+        {pending && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription className="space-y-2">
+              <p className="font-medium">
+                Activating v{pending.plan.diff.toVersion} (from v{pending.plan.diff.fromVersion}):{' '}
+                {pending.plan.diff.added.length} added, {pending.plan.diff.removed.length} removed,{' '}
+                {pending.plan.diff.renamed.length} renamed, {pending.plan.diff.changed.length} changed
+              </p>
+              <ul className="text-xs space-y-0.5">
+                {pending.plan.warnings.map((w, i) => (
+                  <li key={i}>
+                    {w.deviceId && <span className="font-medium">{devices.find(d => d.id === w.deviceId)?.name ?? w.deviceId}: </span>}
+                    {w.message}
+                  </li>
+                ))}
+              </ul>
+              <div className="flex gap-2">
+                <Button size="sm" onClick={confirmPending}>Activate</Button>
+                <Button size="sm" variant="outline" onClick={() => setPending(null)}>Cancel</Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {/* TTN Device Repository import */}
+        <div className="rounded-md border p-3 space-y-2">
+          <div className="flex flex-wrap items-center gap-2">
+            <Input
+              placeholder="Vendor ids, comma separated (default: all)"
+              value={ttnVendors}
+              onChange={e => setTtnVendors(e.target.value)}
+              className="h-8 w-72 text-xs"
+            />
+            <label className="flex items-center gap-2 text-xs">
+              <Switch checked={ttnReplace} onCheckedChange={setTtnReplace} />
+              Replace existing ids
+            </label>
+            <Button
+              variant="outline"
+              size="sm"
+              className="ml-auto"
+              onClick={() => directoryInputRef.current?.click()}
+              disabled={disabled || isImporting}
+            >
+              <FolderInput className="h-4 w-4 mr-2" /> Import TTN Repository
+            </Button>
+            <input
+              ref={el => {
+                directoryInputRef.current = el;
+                el?.setAttribute('webkitdirectory', '');
+              }}
+              type="file"
+              multiple
+              className="hidden"
+              onChange={handleTtnImport}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Pick a local checkout of TheThingsNetwork/lorawan-devices (or its vendor folder). Field
+            types and ranges are inferred from each codec's decoder examples.
+          </p>
+          {ttnReport && (ttnReport.conflicts.length > 0 || ttnReport.skipped.length > 0) && (
+            <ul className="text-xs font-mono space-y-1 max-h-40 overflow-auto">
+              {ttnReport.conflicts.map((c, i) => <li key={`c${i}`}>conflict {c.path}: {c.message}</li>)}
+              {ttnReport.skipped.map((c, i) => <li key={`s${i}`} className="text-muted-foreground">skipped {c.path}: {c.message}</li>)}
+            </ul>
+          )}
+        </div>
+
+        {/* Definition */}
+        <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs">ID</Label>
+            <Input value={draft.id} onChange={e => updateDraft({ id: e.target.value })} className="font-mono" />
+            <InlineErrors errors={errorsAt('id')} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Name</Label>
+            <Input value={draft.name} onChange={e => updateDraft({ name: e.target.value })} />
+            <InlineErrors errors={errorsAt('name')} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Manufacturer</Label>
+            <Input value={draft.manufacturer} onChange={e => updateDraft({ manufacturer: e.target.value })} />
+            <InlineErrors errors={errorsAt('manufacturer')} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Model</Label>
+            <Input value={draft.model ?? ''} onChange={e => updateDraft({ model: e.target.value || undefined })} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Category</Label>
+            <Select value={draft.category} onValueChange={v => updateDraft({ category: v as DeviceCategory })}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {CATEGORIES.map(c => <SelectItem key={c} value={c}>{c}</SelectItem>)}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label className="text-xs">FPort</Label>
+              <Input type="number" value={draft.default_fport} onChange={e => updateDraft({ default_fport: Number(e.target.value) })} />
+              <InlineErrors errors={errorsAt('default_fport')} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Format</Label>
+              <Select value={draft.payload_format} onValueChange={v => updateDraft({ payload_format: v as DeviceDefinition['payload_format'] })}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="json">json</SelectItem>
+                  <SelectItem value="cayenne">cayenne</SelectItem>
+                  <SelectItem value="custom">custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </div>
+
+        {/* Fields */}
+        <div className="space-y-3">
+          <Label className="text-sm font-medium">Simulation Fields</Label>
+          {fieldEntries.map(([name, field]) => (
+            <div key={name} className="rounded-md border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="font-mono text-sm">{name}</span>
+                {'behavior' in field && field.behavior && <Badge variant="secondary" className="text-xs">behavior</Badge>}
+                {'derive' in field && field.derive && <Badge variant="secondary" className="text-xs">derived from {field.derive.from}</Badge>}
+                <Select value={field.type} onValueChange={v => changeFieldType(name, v as FieldType)}>
+                  <SelectTrigger className="h-8 w-28 ml-auto"><SelectValue /></SelectTrigger>
+                  <SelectContent>
+                    {FIELD_TYPES.map(t => <SelectItem key={t} value={t}>{t}</SelectItem>)}
+                  </SelectContent>
+                </Select>
+                <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => removeField(name)} title="Remove field">
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                {(field.type === 'float' || field.type === 'int') && (
+                  <>
+                    <Input type="number" placeholder="min" value={field.min} onChange={e => updateField(name, { min: Number(e.target.value) })} />
+                    <Input type="number" placeholder="max" value={field.max} onChange={e => updateField(name, { max: Number(e.target.value) })} />
+                    {field.type === 'float' && (
+                      <Input type="number" placeholder="precision" value={field.precision ?? ''} onChange={e => updateField(name, { precision: optionalNumber(e.target.value) })} />
+                    )}
+                    <Input type="number" placeholder="default" value={field.default ?? ''} onChange={e => updateField(name, { default: optionalNumber(e.target.value) })} />
+                  </>
+                )}
+                {field.type === 'enum' && (
+                  <>
+                    <Input
+                      className="col-span-2"
+                      placeholder="values (comma separated)"
+                      value={field.values.join(',')}
+                      onChange={e => updateField(name, { values: e.target.value.split(',').map(v => v.trim()).filter(Boolean) })}
+                    />
+                    <Input placeholder="default" value={field.default ?? ''} onChange={e => updateField(name, { default: e.target.value || undefined })} />
+                  </>
+                )}
+                {field.type === 'string' && (
+                  <>
+                    <Input placeholder="default" value={field.default ?? ''} onChange={e => updateField(name, { default: e.target.value })} />
+                    <Input placeholder="pattern" value={field.pattern ?? ''} onChange={e => updateField(name, { pattern: e.target.value || undefined })} />
+                  </>
+                )}
+                <Input placeholder="unit" value={field.unit ?? ''} onChange={e => updateField(name, { unit: e.target.value || undefined })} />
+              </div>
+
+              <div className="flex flex-wrap items-center gap-4 text-xs">
+                {field.type === 'bool' && (
+                  <label className="flex items-center gap-2">
+                    <Switch checked={field.default ?? false} onCheckedChange={v => updateField(name, { default: v })} />
+                    default true
+                  </label>
+                )}
+                {(field.type === 'float' || field.type === 'int') && (
+                  <label className="flex items-center gap-2">
+                    <Switch checked={field.increment ?? false} onCheckedChange={v => updateField(name, { increment: v || undefined })} />
+                    increment
+                  </label>
+                )}
+                <label className="flex items-center gap-2">
+                  <Switch checked={field.static ?? false} onCheckedChange={v => updateField(name, { static: v || undefined })} />
+                  static
+                </label>
+              </div>
+              <InlineErrors errors={errorsAt(`simulation_profile.fields.${name}`)} />
+            </div>
+          ))}
+          <InlineErrors errors={validation.errors.filter(e => e.path === 'simulation_profile.fields' || e.path === 'simulation_profile')} />
+          <div className="flex gap-2">
+            <Input
+              placeholder="new_field_name"
+              value={newFieldName}
+              onChange={e => setNewFieldName(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && addField()}
+              className="font-mono"
+            />
+            <Button variant="outline" onClick={addField} disabled={!newFieldName.trim()}>
+              <Plus className="h-4 w-4 mr-2" /> Add Field
+            </Button>
+          </div>
+        </div>
+
+        {/* Examples */}
+        <div className="grid md:grid-cols-2 gap-3">
+          {(['normal', 'alarm'] as const).map(kind => (
+            <div key={kind} className="space-y-1">
+              <div className="flex items-center justify-between">
+                <Label className="text-xs">examples.{kind}{kind === 'alarm' && ' (optional)'}</Label>
+                {kind === 'normal' && preview && preview.normal.length > 0 && (
+                  <Button variant="link" size="sm" className="h-auto p-0 text-xs" onClick={() => handleExampleChange('normal', formatJson(preview.normal[0]))}>
+                    Use first preview
+                  </Button>
+                )}
+              </div>
+              <Textarea
+                className="font-mono text-xs min-h-32"
+                value={kind === 'normal' ? normalText : alarmText}
+                onChange={e => handleExampleChange(kind, e.target.value)}
+              />
+              {exampleErrors[kind] && <p className="text-xs text-destructive">{exampleErrors[kind]}</p>}
+              <InlineErrors errors={errorsAt(`examples.${kind}`)} />
+              {validation.warnings.filter(w => w.path === `examples.${kind}`).map((w, i) => (
+                <p key={i} className="text-xs text-amber-600">{w.message}</p>
+              ))}
+            </div>
+          ))}
+        </div>
+
+        {/* Preview */}
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label className="text-sm font-medium">Payload Preview</Label>
+            <Button variant="ghost" size="sm" onClick={() => setPreviewRound(r => r + 1)} disabled={!preview}>
+              <RefreshCw className="h-4 w-4 mr-2" /> Regenerate
+            </Button>
+          </div>
+          {!preview ? (
+            <p className="text-xs text-muted-foreground">Fix the validation errors to preview generated payloads.</p>
+          ) : preview.error ? (
+            <p className="text-xs text-destructive">Generation failed: {preview.error}</p>
+          ) : (
+            <pre className="text-xs font-mono bg-muted rounded-md p-3 overflow-auto max-h-64">
+              {preview.normal.map(sample => JSON.stringify(sample)).join('\n')}
+              {preview.alarm && `\nalarm: ${JSON.stringify(preview.alarm)}`}
+            </pre>
+          )}
+        </div>
+
+        {validation.errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="text-xs font-mono space-y-1">
+                {validation.errors.map((e, i) => <li key={i}>{e.path || '(root)'}: {e.message}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="flex gap-2">
+          <Button onClick={handleSave} disabled={disabled || !validation.valid || hasExampleErrors} className="flex-1">
+            <Save className="h-4 w-4 mr-2" /> {originalId ? 'Save Device' : 'Add to Library'}
+          </Button>
+          <Button variant="outline" onClick={handleDelete} disabled={disabled}>
+            <Trash2 className="h-4 w-4 mr-2" /> {originalId ? 'Delete' : 'Discard'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
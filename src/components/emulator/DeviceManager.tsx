@@ -8,6 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Thermometer, DoorOpen, Trash2, Copy, Check, QrCode, RefreshCw, Radio, Cloud, Loader2, Lock, Unlock, MapPin, Box, AlertCircle, RotateCcw, Download, ClipboardCopy, Database, ChevronDown } from 'lucide-react';
 import { LoRaWANDevice, GatewayConfig, WebhookConfig, createDevice, generateEUI, generateAppKey } from '@/lib/ttn-payload';
+import { ttnHostFields } from '@/lib/ttnEndpoints';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
@@ -630,7 +631,7 @@ export default function DeviceManager({
       const { data, error } = await supabase.functions.invoke('ttn-register-device', {
         body: {
           applicationId: ttnConfig.applicationId,
-          cluster: ttnConfig.cluster,
+          ...ttnHostFields(ttnConfig),
           devEui: device.devEui,
           joinEui: device.joinEui,
           appKey: device.appKey,
@@ -2,7 +2,7 @@
  * Emulator Diagnostics Panel
  * 
  * Displays real-time state verification for door sensors and scheduling.
- * Shows truth source, payload preview, and next fire times.
+ * Shows truth source, payload preview, next fire times and daily airtime.
  */
 
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
@@ -44,6 +44,15 @@ export default function EmulatorDiagnosticsPanel({
     return `${seconds}s`;
   };
 
+  // Daily airtime at the scheduled interval, flagged when over budget
+  const getDailyAirtime = (status: DeviceEmissionStatus | null): { label: string; overBudget: boolean } => {
+    if (status?.dailyAirtimeMs === undefined) return { label: 'n/a', overBudget: false };
+    return {
+      label: `${(status.dailyAirtimeMs / 1000).toFixed(1)}s/day`,
+      overBudget: (status.budget?.violations.length ?? 0) > 0 && status.budget?.action !== 'throttled',
+    };
+  };
+
   return (
     <Card className="border-dashed border-2 border-muted">
       <CardHeader className="pb-2">
@@ -69,6 +78,7 @@ export default function EmulatorDiagnosticsPanel({
                 {doorDevices.map(device => {
                   const state = sensorStates[device.id];
                   const status = scheduler?.getStatus(device.id);
+                  const airtime = getDailyAirtime(status);
                   const canonical = toCanonicalDoor(state?.doorOpen ?? false);
                   
                   // Validate consistency
@@ -142,8 +152,20 @@ export default function EmulatorDiagnosticsPanel({
                             {status?.errors ?? 0}
                           </span>
                         </div>
+                        <div>
+                          <span className="font-medium">Airtime:</span>{' '}
+                          <span className={airtime.overBudget ? 'text-red-500' : ''}>
+                            {airtime.label}
+                          </span>
+                        </div>
                       </div>
 
+                      {status?.budget && status.budget.violations.length > 0 && (
+                        <div className="text-xs text-red-600 bg-red-50 dark:bg-red-900/20 rounded p-2">
+                          📡 {status.budget.violations.join('; ')} (min interval {status.budget.minIntervalSec}s)
+                        </div>
+                      )}
+
                       {!validation.valid && (
                         <div className="text-xs text-yellow-600 bg-yellow-50 dark:bg-yellow-900/20 rounded p-2">
                           ⚠️ {validation.error}
@@ -187,6 +209,7 @@ export default function EmulatorDiagnosticsPanel({
                 {tempDevices.map(device => {
                   const state = sensorStates[device.id];
                   const status = scheduler?.getStatus(device.id);
+                  const airtime = getDailyAirtime(status);
 
                   return (
                     <div 
@@ -204,6 +227,21 @@ export default function EmulatorDiagnosticsPanel({
                         {getTimeUntilNextFire(status)}
                         <span className="text-muted-foreground/60">|</span>
                         <span>{status?.emissionCount ?? 0} sent</span>
+                        {(status?.eventCount || status?.rateLimitedEvents) ? (
+                          <>
+                            <span className="text-muted-foreground/60">|</span>
+                            <span title={`${status.rateLimitedEvents ?? 0} rate limited`}>
+                              {status.eventCount ?? 0} events
+                            </span>
+                          </>
+                        ) : null}
+                        <span className="text-muted-foreground/60">|</span>
+                        <span
+                          className={airtime.overBudget ? 'text-red-500' : ''}
+                          title={status?.budget?.violations.join('; ')}
+                        >
+                          {airtime.label}
+                        </span>
                         <Button 
                           size="sm" 
                           variant="outline" 
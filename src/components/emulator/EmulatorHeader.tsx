@@ -6,6 +6,8 @@ import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/comp
 import { cn } from '@/lib/utils';
 import { DeveloperMenu } from './DebugModeToggle';
 import { getServerTime, getServerTimeOffset, getLastSyncTime, isTimeSyncStale } from '@/lib/serverTime';
+import { simNow } from '@/lib/deviceLibrary/clock';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { format } from 'date-fns';
 import { useState, useEffect } from 'react';
 interface EmulatorHeaderProps {
@@ -15,8 +17,16 @@ interface EmulatorHeaderProps {
   onStartEmulation: () => void;
   onStopEmulation: () => void;
   onSingleReading: () => void;
+  clockSpeed: number;
+  onClockSpeedChange: (speed: number) => void;
 }
 
+const CLOCK_SPEEDS = [
+  { value: 1, label: 'Real time' },
+  { value: 10, label: '×10' },
+  { value: 100, label: '×100' },
+];
+
 // Format relative time for display
 const formatRelativeTime = (date: Date): string => {
   const now = new Date();
@@ -37,6 +47,8 @@ export default function EmulatorHeader({
   onStartEmulation,
   onStopEmulation,
   onSingleReading,
+  clockSpeed,
+  onClockSpeedChange,
 }: EmulatorHeaderProps) {
   // Update time display every second when running
   const [, setTick] = useState(0);
@@ -158,7 +170,7 @@ export default function EmulatorHeader({
             ) : (
               <Badge variant="outline" className="gap-1 font-mono text-xs bg-orange-500/10 text-orange-600 border-orange-500/30">
                 <Clock className="h-3 w-3" />
-                {format(new Date(), 'HH:mm:ss')}
+                {format(simNow(), 'HH:mm:ss')}
                 <span className="opacity-60">(local)</span>
               </Badge>
             )}
@@ -168,6 +180,22 @@ export default function EmulatorHeader({
           <div className="flex items-center gap-2">
             {/* Developer menu with debug toggle */}
             <DeveloperMenu />
+
+            {/* Simulation clock speed */}
+            <Select
+              value={String(clockSpeed)}
+              onValueChange={(value) => onClockSpeedChange(Number(value))}
+              disabled={isRunning}
+            >
+              <SelectTrigger className={cn("h-8 w-[110px] text-xs", clockSpeed !== 1 && "border-amber-500/50 text-amber-600")}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CLOCK_SPEEDS.map(speed => (
+                  <SelectItem key={speed.value} value={String(speed.value)}>{speed.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
             
             {!isRunning ? (
               <>
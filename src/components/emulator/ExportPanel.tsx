@@ -33,6 +33,7 @@ import { getEffectiveConfig } from '@/lib/freshtrackConnectionStore';
 import { toast } from '@/hooks/use-toast';
 import ExportConnectionSettings from './ExportConnectionSettings';
 import OrgStateViewer from './OrgStateViewer';
+import BackfillPanel from './BackfillPanel';
 
 interface ExportPanelProps {
   devices: LoRaWANDevice[];
@@ -438,6 +439,15 @@ export default function ExportPanel({ devices, gateways, sensorStates, webhookCo
         </CardContent>
       </Card>
 
+      {/* Historical Backfill */}
+      <BackfillPanel
+        devices={devices}
+        gateways={gateways}
+        applicationId={webhookConfig.applicationId}
+        orgId={effectiveOrgId}
+        onLog={(message, status) => addLog('readings', message, status)}
+      />
+
       {/* Reading Stream */}
       {readingsFeed.length > 0 && (
         <Card>
@@ -0,0 +1,180 @@
+import { useState, useRef, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { FileDown, FileUp, Layers, AlertTriangle } from 'lucide-react';
+import {
+  parseFleetManifest,
+  serializeFleetManifest,
+  createFleetManifest,
+  applyFleetManifest,
+  getFleetSettings,
+  isLibraryLoaded,
+  initializeDeviceLibrary,
+  type FleetManifestFormat,
+  type ValidationError,
+  type ValidationWarning,
+} from '@/lib/deviceLibrary';
+import type { ScenarioType } from '@/lib/deviceLibrary/scenarioComposer';
+import type { GatewayConfig, LoRaWANDevice } from '@/lib/ttn-payload';
+import type { SensorState } from '@/lib/emulatorSensorState';
+import { toast } from '@/hooks/use-toast';
+
+interface FleetManifestPanelProps {
+  gateways: GatewayConfig[];
+  devices: LoRaWANDevice[];
+  sensorStates: Record<string, SensorState>;
+  applicationId: string;
+  orgId?: string;
+  disabled?: boolean;
+  onImport: (fleet: {
+    gateways: GatewayConfig[];
+    devices: LoRaWANDevice[];
+    intervals: Record<string, number>;
+    scenarios: Record<string, ScenarioType>;
+  }) => void;
+}
+
+export default function FleetManifestPanel({
+  gateways,
+  devices,
+  sensorStates,
+  applicationId,
+  orgId,
+  disabled,
+  onImport,
+}: FleetManifestPanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [includeCredentials, setIncludeCredentials] = useState(false);
+  const [errors, setErrors] = useState<ValidationError[]>([]);
+  const [warnings, setWarnings] = useState<ValidationWarning[]>([]);
+  const settings = getFleetSettings();
+
+  const handleExport = useCallback((format: FleetManifestFormat) => {
+    if (!isLibraryLoaded()) initializeDeviceLibrary();
+
+    const intervals: Record<string, number> = {};
+    const scenarios: Record<string, ScenarioType> = {};
+    for (const [id, state] of Object.entries(sensorStates)) {
+      intervals[id] = state.intervalSec;
+      if (state.scenario) scenarios[id] = state.scenario;
+    }
+
+    const { manifest, skipped } = createFleetManifest({
+      gateways,
+      devices,
+      applicationId,
+      orgId,
+      intervals,
+      scenarios,
+      includeCredentials,
+    });
+
+    const blob = new Blob([serializeFleetManifest(manifest, format)], {
+      type: format === 'json' ? 'application/json' : 'application/yaml',
+    });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${manifest.name ?? 'fleet'}.${format === 'json' ? 'json' : 'yaml'}`;
+    a.click();
+    URL.revokeObjectURL(url);
+
+    toast({
+      title: 'Fleet exported',
+      description: skipped.length > 0
+        ? `${manifest.devices.length} devices exported; skipped without a library model: ${skipped.join(', ')}`
+        : `${manifest.gateways.length} gateways, ${manifest.devices.length} devices`,
+    });
+  }, [gateways, devices, sensorStates, applicationId, orgId, includeCredentials]);
+
+  const handleFileSelected = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    if (!isLibraryLoaded()) initializeDeviceLibrary();
+    const { manifest, result } = parseFleetManifest(await file.text());
+    setErrors(result.errors);
+    setWarnings(result.warnings);
+
+    if (!manifest) {
+      toast({ title: 'Invalid fleet manifest', description: `${result.errors.length} error(s)`, variant: 'destructive' });
+      return;
+    }
+
+    onImport(applyFleetManifest(manifest));
+    toast({
+      title: 'Fleet imported',
+      description: `${manifest.name ?? file.name}: ${manifest.gateways.length} gateways, ${manifest.devices.length} devices`,
+    });
+  }, [onImport]);
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base flex items-center gap-2">
+          <Layers className="h-4 w-4" />
+          Fleet Manifest
+          <Badge variant="outline" className="ml-auto font-mono text-xs">seed {settings.seed}</Badge>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Export gateways, devices, library models and intervals as a versioned manifest to commit
+          alongside your tests, or import one to recreate a test bench exactly.
+        </p>
+
+        <div className="flex flex-wrap items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => handleExport('yaml')}>
+            <FileDown className="h-4 w-4 mr-2" />
+            Export YAML
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => handleExport('json')}>
+            <FileDown className="h-4 w-4 mr-2" />
+            Export JSON
+          </Button>
+          <Button size="sm" onClick={() => fileInputRef.current?.click()} disabled={disabled}>
+            <FileUp className="h-4 w-4 mr-2" />
+            Import
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".yaml,.yml,.json"
+            className="hidden"
+            onChange={handleFileSelected}
+          />
+          <div className="flex items-center gap-2 ml-auto">
+            <Switch id="fleet-credentials" checked={includeCredentials} onCheckedChange={setIncludeCredentials} />
+            <Label htmlFor="fleet-credentials" className="text-sm">Include JoinEUI / AppKey</Label>
+          </div>
+        </div>
+
+        {errors.length > 0 && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="text-xs font-mono space-y-1">
+                {errors.map((e, i) => <li key={i}>{e.path || '(root)'}: {e.message}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+        {warnings.length > 0 && (
+          <Alert>
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>
+              <ul className="text-xs font-mono space-y-1">
+                {warnings.map((w, i) => <li key={i}>{w.path}: {w.message}</li>)}
+              </ul>
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
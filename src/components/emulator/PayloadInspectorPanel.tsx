@@ -26,6 +26,8 @@ import {
 } from 'lucide-react';
 import { toast } from '@/hooks/use-toast';
 import type { TTNEnvelope } from '@/lib/deviceLibrary/envelopeBuilder';
+import { getDevice } from '@/lib/deviceLibrary/loader';
+import { base64ToBytes, bytesToHex, decodeDeviceFrmPayload } from '@/lib/deviceLibrary/payloadCodec';
 import type { SimulationContext, GenerationMode } from '@/lib/deviceLibrary/types';
 
 // ============================================
@@ -70,6 +72,34 @@ function formatJson(obj: unknown): string {
   return JSON.stringify(obj, null, 2);
 }
 
+interface FrameInspection {
+  hex: string;
+  byteCount: number;
+  decoded: Record<string, unknown> | null;
+  error?: string;
+}
+
+/**
+ * Inspect the raw frm_payload and decode it back with the library device's codec
+ */
+function inspectFrame(data: InspectionData): FrameInspection | null {
+  const frmPayload = data.envelope?.uplink_message.frm_payload;
+  if (!frmPayload) return null;
+
+  const bytes = base64ToBytes(frmPayload);
+  const device = data.libraryDeviceId ? getDevice(data.libraryDeviceId) : null;
+  const inspection: FrameInspection = { hex: bytesToHex(bytes), byteCount: bytes.length, decoded: null };
+
+  if (device) {
+    try {
+      inspection.decoded = decodeDeviceFrmPayload(device, frmPayload, data.envelope?.uplink_message.f_port);
+    } catch (error) {
+      inspection.error = error instanceof Error ? error.message : String(error);
+    }
+  }
+  return inspection;
+}
+
 // ============================================
 // Sub-components
 // ============================================
@@ -135,6 +165,7 @@ function ContextRow({ label, value, mono = false }: { label: string; value: stri
 export function PayloadInspectorPanel({ data, className }: PayloadInspectorPanelProps) {
   const [isExpanded, setIsExpanded] = useState(true);
   const [showEnvelope, setShowEnvelope] = useState(false);
+  const frame = useMemo(() => (data ? inspectFrame(data) : null), [data]);
 
   if (!data) {
     return (
@@ -241,6 +272,27 @@ export function PayloadInspectorPanel({ data, className }: PayloadInspectorPanel
             {/* Decoded Payload */}
             <JsonBlock data={data.decodedPayload} label="Decoded Payload" />
 
+            {/* Raw frm_payload */}
+            {frame && (
+              <div className="space-y-1">
+                <div className="flex items-center justify-between">
+                  <span className="text-xs font-medium text-muted-foreground">
+                    frm_payload ({frame.byteCount} bytes)
+                  </span>
+                  <CopyButton text={frame.hex} label="frm_payload" />
+                </div>
+                <pre className="p-2 rounded border bg-muted/30 text-xs font-mono whitespace-pre-wrap break-all">
+                  {frame.hex}
+                </pre>
+                {frame.error && (
+                  <p className="text-xs text-destructive">Decode failed: {frame.error}</p>
+                )}
+              </div>
+            )}
+            {frame?.decoded && (
+              <JsonBlock data={frame.decoded} label="Decoded from frm_payload" />
+            )}
+
             {/* Full Envelope (collapsible) */}
             {data.envelope && (
               <Collapsible open={showEnvelope} onOpenChange={setShowEnvelope}>
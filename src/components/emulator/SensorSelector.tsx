@@ -179,7 +179,7 @@ export default function SensorSelector({
                         <>
                           <span className="flex items-center gap-1">
                             <Battery className="h-3 w-3" />
-                            {sensor.batteryPct}%
+                            {Math.round(sensor.batteryPct)}%
                           </span>
                           <span className="flex items-center gap-1">
                             <Signal className="h-3 w-3" />
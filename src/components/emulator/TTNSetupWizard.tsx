@@ -4,7 +4,8 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Badge } from '@/components/ui/badge';
 import { Check, ChevronLeft, ChevronRight, Loader2, X } from 'lucide-react';
-import { LoRaWANDevice } from '@/lib/ttn-payload';
+import { LoRaWANDevice, TTNHostConfig } from '@/lib/ttn-payload';
+import { isSelfHostedTTN } from '@/lib/ttnEndpoints';
 import StepCluster from './wizard/StepCluster';
 import StepApplicationId from './wizard/StepApplicationId';
 import StepApiKey from './wizard/StepApiKey';
@@ -12,8 +13,7 @@ import StepDeviceRegistration from './wizard/StepDeviceRegistration';
 import StepWebhook from './wizard/StepWebhook';
 import StepVerification from './wizard/StepVerification';
 
-export interface WizardConfig {
-  cluster: string;
+export interface WizardConfig extends TTNHostConfig {
   applicationId: string;
   apiKey: string;
   webhookSecret?: string;
@@ -52,6 +52,7 @@ export default function TTNSetupWizard({
 }: TTNSetupWizardProps) {
   const [currentStep, setCurrentStep] = useState(1);
   const [config, setConfig] = useState<WizardConfig>({
+    ...initialConfig,
     cluster: initialConfig?.cluster || 'nam1',
     applicationId: initialConfig?.applicationId || '',
     apiKey: initialConfig?.apiKey || '',
@@ -68,6 +69,7 @@ export default function TTNSetupWizard({
       setStepStatuses({});
       if (initialConfig) {
         setConfig({
+          ...initialConfig,
           cluster: initialConfig.cluster || 'nam1',
           applicationId: initialConfig.applicationId || '',
           apiKey: initialConfig.apiKey || '',
@@ -91,7 +93,7 @@ export default function TTNSetupWizard({
   const canProceed = (step: number): boolean => {
     switch (step) {
       case 1:
-        return !!config.cluster;
+        return typeof config.baseUrl === 'string' ? isSelfHostedTTN(config) : !!config.cluster;
       case 2:
         return !!config.applicationId;
       case 3:
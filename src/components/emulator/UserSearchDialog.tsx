@@ -9,6 +9,7 @@ import { FunctionsHttpError, FunctionsRelayError, FunctionsFetchError } from '@s
 import { syncDebug, getSupabaseEnvInfo, createDebugReport, copyDebugReport } from '@/lib/debugLogger';
 import { validateSearchUsersResponse } from '@/lib/schemas';
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import type { WebhookAuthMode } from '@/lib/webhookAuth';
 
 export interface UserSite {
   site_id: string;
@@ -27,6 +28,7 @@ export interface TTNConnection {
   api_key_last4?: string | null; // Last 4 chars (for UI display)
   webhook_secret?: string | null; // Full webhook secret (server-side only)
   webhook_secret_last4?: string | null; // Last 4 chars (for UI display)
+  webhook_auth_mode?: WebhookAuthMode | null; // Secret header or HMAC signature
   updated_at?: string | null;
 }
 
@@ -12,6 +12,7 @@ import UserSearchDialog, { UserProfile } from './UserSearchDialog';
 import { debug, log, clearDebugContext, setDebugContext } from '@/lib/debugLogger';
 import { buildSupportSnapshot, downloadSnapshot } from '@/lib/supportSnapshot';
 import { setCanonicalConfig, clearCanonicalConfig } from '@/lib/ttnConfigStore';
+import type { WebhookAuthMode } from '@/lib/webhookAuth';
 import { findDeviceByName, setDeviceModel, isLibraryLoaded, initializeDeviceLibrary, type DeviceCategory } from '@/lib/deviceLibrary';
 
 const STORAGE_KEY_USER_CONTEXT = 'lorawan-emulator-user-context';
@@ -37,6 +38,7 @@ interface StoredUserContext {
     gateway_api_key_last4?: string | null;
   };
   ttnWebhookSecret?: string | null;
+  ttnWebhookAuthMode?: WebhookAuthMode;
   selectedUserSites: Array<{ site_id: string; site_name: string | null; is_default: boolean }>;
   syncedAt: string;
   syncRunId: string;
@@ -130,6 +132,7 @@ export default function UserSelectionGate({
             selectedUserSites: context.selectedUserSites,
             ttnConfig: context.ttnConfig,
             ttnWebhookSecret: context.ttnWebhookSecret,
+            ttnWebhookAuthMode: context.ttnWebhookAuthMode,
             contextSetAt: context.syncedAt,
             isHydrated: true,
             lastSyncAt: context.syncedAt,
@@ -428,6 +431,7 @@ export default function UserSelectionGate({
         availableUnits: pulledUnits,
         ttnConfig,
         ttnWebhookSecret: user.ttn?.webhook_secret ?? null,
+        ttnWebhookAuthMode: user.ttn?.webhook_auth_mode ?? undefined,
         contextSetAt: syncedAt,
         isHydrated: true,
         lastSyncAt: syncedAt,
@@ -445,6 +449,7 @@ export default function UserSelectionGate({
         orgName: orgState.organization?.name,
         ttnConfig,
         ttnWebhookSecret: user.ttn?.webhook_secret ?? null,
+        ttnWebhookAuthMode: user.ttn?.webhook_auth_mode ?? undefined,
         selectedUserSites: sites,
         syncedAt,
         syncRunId,
@@ -630,6 +635,7 @@ export default function UserSelectionGate({
       selectedUserSites: undefined,
       ttnConfig: undefined,
       ttnWebhookSecret: undefined,
+      ttnWebhookAuthMode: undefined,
       contextSetAt: undefined,
       isHydrated: false,
       lastSyncAt: undefined,
@@ -668,6 +674,7 @@ export default function UserSelectionGate({
       selectedUserSites: undefined,
       ttnConfig: undefined,
       ttnWebhookSecret: undefined,
+      ttnWebhookAuthMode: undefined,
       contextSetAt: undefined,
       isHydrated: false,
       lastSyncAt: undefined,
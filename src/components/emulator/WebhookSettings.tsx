@@ -16,10 +16,12 @@ import {
 import { cn } from '@/lib/utils';
 import { getGatewayApiKeyUrl, getGatewayKeyInstructions, getKeyTypeLabel, GATEWAY_PERMISSIONS, parseOrgFromUrl } from '@/lib/ttnConsoleLinks';
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from '@/components/ui/tooltip';
-import { WebhookConfig, TTNConfig, buildTTNPayload, createDevice, createGateway, LoRaWANDevice } from '@/lib/ttn-payload';
+import { WebhookConfig, TTNConfig, TTNHostConfig, buildTTNPayload, createDevice, createGateway, LoRaWANDevice } from '@/lib/ttn-payload';
+import { getTTNHostLabel, normalizeTTNBaseUrl, ttnHostFields, ttnHostFromSettings, type TTNHostFields } from '@/lib/ttnEndpoints';
 import { toast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
 import { debug } from '@/lib/debugLogger';
+import { buildWebhookRequest, summarizePreviousWebhookSecrets, type PreviousWebhookSecretSummary, type WebhookAuthMode } from '@/lib/webhookAuth';
 import { setCanonicalConfig, getCanonicalConfig, markLocalDirty, subscribeToConfigChanges, getConfigSummary } from '@/lib/ttnConfigStore';
 import {
   Select,
@@ -200,6 +202,14 @@ const TTN_CLUSTERS = [
   { value: 'eu1', label: 'Europe (eu1)' },
 ];
 
+// Component hosts of a self-hosted The Things Stack that may differ from its base URL
+const TTN_COMPONENT_HOSTS = [
+  { key: 'identityServerUrl', label: 'Identity Server' },
+  { key: 'networkServerUrl', label: 'Network Server' },
+  { key: 'applicationServerUrl', label: 'Application Server' },
+  { key: 'joinServerUrl', label: 'Join Server' },
+] as const;
+
 interface TTNTestResult {
   ok: boolean;
   requestId: string;
@@ -259,6 +269,9 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
   // Local form state for TTN settings
   const [ttnEnabled, setTtnEnabled] = useState(false);
   const [ttnCluster, setTtnCluster] = useState<string>('nam1');
+  // Self-hosted The Things Stack base URL and per-component hosts (empty = TTN Cloud cluster)
+  const [ttnHosts, setTtnHosts] = useState(ttnHostFromSettings(null));
+  const ttnHost: TTNHostConfig = { cluster: ttnCluster, ...ttnHosts };
   const [ttnApplicationId, setTtnApplicationId] = useState('');
   const [ttnApiKey, setTtnApiKey] = useState('');
   const [ttnWebhookSecret, setTtnWebhookSecret] = useState('');
@@ -272,6 +285,12 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
   const [gatewayOwnerType, setGatewayOwnerType] = useState<'user' | 'organization'>('user');
   const [gatewayOwnerId, setGatewayOwnerId] = useState('');
   const [ttnWebhookSecretSet, setTtnWebhookSecretSet] = useState(false);
+  // Webhook authentication and secret rotation
+  const [webhookAuthMode, setWebhookAuthMode] = useState<WebhookAuthMode>('secret');
+  const [previousWebhookSecrets, setPreviousWebhookSecrets] = useState<PreviousWebhookSecretSummary[]>([]);
+  const [webhookGraceHours, setWebhookGraceHours] = useState('24');
+  const [rotatedWebhookSecret, setRotatedWebhookSecret] = useState<string | null>(null);
+  const [isRotatingSecret, setIsRotatingSecret] = useState(false);
   
   // Canonical values from FrostGuard (source of truth for "Current:" display)
   const [canonicalCluster, setCanonicalCluster] = useState<string | null>(null);
@@ -482,7 +501,7 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
         body: {
           action: 'check_gateway_permissions',
           org_id: orgId,
-          cluster: ttnCluster,
+          ...ttnHostFields(ttnHost),
         },
       });
 
@@ -560,7 +579,9 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
 
   // Handle wizard completion
   const handleWizardComplete = async (wizardConfig: WizardConfig) => {
+    const wizardHosts = ttnHostFromSettings(ttnHostFields(wizardConfig));
     setTtnCluster(wizardConfig.cluster);
+    setTtnHosts(wizardHosts);
     setTtnApplicationId(wizardConfig.applicationId);
     setTtnApiKey(wizardConfig.apiKey);
     if (wizardConfig.webhookSecret) {
@@ -575,7 +596,7 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
           action: 'save',
           org_id: orgId,
           enabled: true,
-          cluster: wizardConfig.cluster,
+          ...ttnHostFields(wizardConfig),
           application_id: wizardConfig.applicationId,
           api_key: wizardConfig.apiKey,
           webhook_secret: wizardConfig.webhookSecret,
@@ -587,7 +608,7 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
         setTtnApiKeyPreview(data.api_key_preview || `****${wizardConfig.apiKey.slice(-4)}`);
         setTtnApiKeySet(true);
         setTtnApiKey('');
-        updateTTN({ enabled: true, applicationId: wizardConfig.applicationId, cluster: wizardConfig.cluster });
+        updateTTN({ enabled: true, applicationId: wizardConfig.applicationId, cluster: wizardConfig.cluster, ...wizardHosts });
         if (wizardConfig.webhookSecret) {
           update({ ttnWebhookSecret: wizardConfig.webhookSecret });
         }
@@ -770,7 +791,7 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
       // ====== STEP 2: Load from ttn_settings (gateway owner config) ======
       const { data: ttnSettings, error: ttnSettingsError } = await supabase
         .from('ttn_settings')
-        .select('gateway_owner_type, gateway_owner_id, gateway_api_key, webhook_secret, cluster, enabled, application_id, api_key')
+        .select('gateway_owner_type, gateway_owner_id, gateway_api_key, webhook_secret, webhook_auth_mode, previous_webhook_secrets, cluster, base_url, identity_server_url, network_server_url, application_server_url, join_server_url, enabled, application_id, api_key')
         .eq('org_id', orgId)
         .limit(1)
         .maybeSingle();
@@ -779,6 +800,10 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
         console.error('[WebhookSettings] Failed to load from ttn_settings:', ttnSettingsError);
       }
 
+      const loadedAuthMode: WebhookAuthMode = ttnSettings?.webhook_auth_mode === 'hmac' ? 'hmac' : 'secret';
+      setWebhookAuthMode(loadedAuthMode);
+      setPreviousWebhookSecrets(summarizePreviousWebhookSecrets(ttnSettings?.previous_webhook_secrets));
+
       console.log('[WebhookSettings] Data sources loaded:', {
         synced_users_ttn: syncedUser?.ttn,
         ttn_settings: ttnSettings ? {
@@ -817,6 +842,10 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
       const freshPullCluster = config.ttnConfig?.cluster || null;
       const clusterSource: TTNConfigSource = freshPullCluster ? 'user' : (rawUserTTN?.cluster ? 'user' : (rawOrgSettings?.cluster ? 'org' : 'not_set'));
       const effectiveCluster = freshPullCluster || (rawUserTTN?.cluster as string) || rawOrgSettings?.cluster || 'nam1';
+      // A user's self-hosted base URL takes its component hosts along; otherwise the org's apply
+      const effectiveHosts = ttnHostFromSettings(
+        rawUserTTN?.base_url ? rawUserTTN as Partial<TTNHostFields> : rawOrgSettings
+      );
       
       // Determine app ID source
       // Priority: fresh FrostGuard pull (config.ttnConfig) > synced_users.ttn > ttn_settings
@@ -929,6 +958,7 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
       // ====== STEP 4: Apply values to form state ======
       setTtnEnabled(effectiveEnabled);
       setTtnCluster(effectiveCluster);
+      setTtnHosts(effectiveHosts);
       setTtnApplicationId(effectiveAppId);
       setTtnApiKeyPreview(resolvedApiKeyLast4 ? `****${resolvedApiKeyLast4}` : null);
       setTtnApiKeySet(!!resolvedApiKeyLast4);
@@ -1098,11 +1128,12 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
           enabled: effectiveEnabled,
           applicationId: effectiveAppId,
           cluster: effectiveCluster,
+          ...effectiveHosts,
         });
       }
 
       if (rawUserTTN?.webhook_secret) {
-        update({ ttnWebhookSecret: rawUserTTN.webhook_secret as string });
+        update({ ttnWebhookSecret: rawUserTTN.webhook_secret as string, ttnWebhookAuthMode: loadedAuthMode });
       }
       
       // Show info if no data found at all
@@ -1207,11 +1238,12 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
           org_id: orgId,
           user_id: config.selectedUserId || undefined, // Include user_id to update synced_users.ttn
           enabled: ttnEnabled,
-          cluster: ttnCluster,
+          ...ttnHostFields(ttnHost),
           application_id: ttnApplicationId,
           api_key: ttnApiKey || undefined, // Only send if new value provided
           gateway_api_key: gatewayApiKey || undefined, // Gateway-specific key for provisioning
           webhook_secret: ttnWebhookSecret || undefined,
+          webhook_auth_mode: webhookAuthMode,
           gateway_owner_type: gatewayOwnerType,
           gateway_owner_id: gatewayOwnerId || undefined,
         },
@@ -1275,12 +1307,11 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
         enabled: ttnEnabled, 
         applicationId: ttnApplicationId, 
         cluster: ttnCluster,
+        ...ttnHosts,
         api_key_last4: savedApiKeyLast4 || undefined,
         updated_at: savedUpdatedAt,
       });
-      if (ttnWebhookSecret) {
-        update({ ttnWebhookSecret });
-      }
+      update(ttnWebhookSecret ? { ttnWebhookSecret, ttnWebhookAuthMode: webhookAuthMode } : { ttnWebhookAuthMode: webhookAuthMode });
 
       // Update centralized TTN config store with LOCAL saved values
       setCanonicalConfig({
@@ -1361,6 +1392,61 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
     }
   };
 
+  // Rotate the webhook secret; the old one keeps working for the grace period
+  const rotateWebhookSecret = async () => {
+    if (!orgId) {
+      toast({ title: 'No Organization', description: 'Select an organization first', variant: 'destructive' });
+      return;
+    }
+
+    setIsRotatingSecret(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('manage-ttn-settings', {
+        body: {
+          action: 'rotate_webhook_secret',
+          org_id: orgId,
+          user_id: config.selectedUserId || undefined,
+          grace_period_hours: Number(webhookGraceHours),
+          webhook_secret: ttnWebhookSecret || undefined, // Generated server-side when blank
+        },
+      });
+
+      if (error || !data?.ok) {
+        toast({ title: 'Rotation Failed', description: data?.error || error?.message || 'Failed to rotate webhook secret', variant: 'destructive' });
+        return;
+      }
+
+      setRotatedWebhookSecret(data.webhook_secret);
+      setPreviousWebhookSecrets(data.previous_webhook_secrets || []);
+      setCanonicalWebhookSecretLast4(data.webhook_secret_last4);
+      setTtnWebhookSecretSet(true);
+      setTtnWebhookSecret('');
+      update({ ttnWebhookSecret: data.webhook_secret, ttnWebhookAuthMode: webhookAuthMode });
+      toast({ title: 'Webhook Secret Rotated', description: `Update the TTN webhook to ****${data.webhook_secret_last4}` });
+    } catch (err: unknown) {
+      const message = err instanceof Error ? err.message : String(err);
+      toast({ title: 'Rotation Error', description: message || 'Network error', variant: 'destructive' });
+    } finally {
+      setIsRotatingSecret(false);
+    }
+  };
+
+  // Stop accepting previous webhook secrets before their grace period ends
+  const endWebhookSecretGrace = async () => {
+    if (!orgId) return;
+
+    const { data, error } = await supabase.functions.invoke('manage-ttn-settings', {
+      body: { action: 'end_webhook_secret_grace', org_id: orgId },
+    });
+
+    if (error || !data?.ok) {
+      toast({ title: 'Failed', description: data?.error || error?.message || 'Failed to revoke previous secrets', variant: 'destructive' });
+      return;
+    }
+    setPreviousWebhookSecrets([]);
+    toast({ title: 'Grace Period Ended', description: 'Only the current webhook secret is accepted' });
+  };
+
   // Test connection using stored API key (no key in request)
   const testTTNConnectionStored = async () => {
     if (!orgId) {
@@ -1377,7 +1463,7 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
         org_id: orgId,
         // Include user context so backend tests the correct user-specific app
         selected_user_id: config.selectedUserId || undefined,
-        cluster: ttnCluster,
+        ...ttnHostFields(ttnHost),
         application_id: ttnApplicationId,
       };
 
@@ -1490,7 +1576,7 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
         body: {
           action: 'test',
           org_id: orgId,
-          cluster: ttnCluster,
+          ...ttnHostFields(ttnHost),
           application_id: ttnApplicationId,
           api_key: ttnApiKey,
         },
@@ -1626,7 +1712,7 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
       const { data, error } = await supabase.functions.invoke('manage-ttn-settings', {
         body: {
           action: 'check_app_permissions',
-          cluster: ttnCluster,
+          ...ttnHostFields(ttnHost),
           application_id: ttnApplicationId,
           api_key: apiKeyToUse,
         },
@@ -1749,9 +1835,11 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
       );
 
       if (!config.enabled || !config.targetUrl) {
-        const { data, error } = await supabase.functions.invoke('ttn-webhook', {
-          body: payload,
-        });
+        const { data, error } = await supabase.functions.invoke('ttn-webhook', await buildWebhookRequest(
+          payload,
+          config.ttnWebhookSecret,
+          config.ttnWebhookAuthMode
+        ));
 
         const lastStatus = {
           code: error ? 500 : 200,
@@ -1910,7 +1998,7 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
         devices={devices}
         onComplete={handleWizardComplete}
         initialConfig={{
-          cluster: ttnCluster,
+          ...ttnHost,
           applicationId: ttnApplicationId,
         }}
       />
@@ -2041,7 +2129,7 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
                   <Globe className="h-4 w-4 text-muted-foreground" />
                   <span className="text-sm text-muted-foreground">Active TTN Host</span>
                 </div>
-                <code className="text-sm font-mono">{ttnCluster}.cloud.thethings.network</code>
+                <code className="text-sm font-mono">{getTTNHostLabel(ttnHost)}</code>
               </div>
 
               <div className="grid gap-4 sm:grid-cols-2">
@@ -2111,6 +2199,57 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
                 </div>
               </div>
 
+              {/* Self-hosted The Things Stack */}
+              <Collapsible defaultOpen={!!ttnHosts.baseUrl}>
+                <CollapsibleTrigger asChild>
+                  <Button variant="ghost" size="sm" className="w-full justify-between text-muted-foreground hover:text-foreground">
+                    <span className="flex items-center gap-2">
+                      <HardDrive className="h-4 w-4" />
+                      Self-hosted The Things Stack
+                    </span>
+                    <ChevronDown className="h-4 w-4 transition-transform duration-200 [&[data-state=open]]:rotate-180" />
+                  </Button>
+                </CollapsibleTrigger>
+                <CollapsibleContent>
+                  <div className="rounded-md border bg-muted/30 p-3 mt-2 space-y-3">
+                    <div className="space-y-2">
+                      <Label htmlFor="ttnBaseUrl">Base URL</Label>
+                      <Input
+                        id="ttnBaseUrl"
+                        placeholder="https://tts.example.com"
+                        value={ttnHosts.baseUrl || ''}
+                        onChange={e => setTtnHosts(prev => ({ ...prev, baseUrl: e.target.value }))}
+                        disabled={disabled || isLoading}
+                      />
+                      {ttnHosts.baseUrl && !normalizeTTNBaseUrl(ttnHosts.baseUrl)
+                        ? <p className="text-xs text-destructive">Enter an http(s) URL, e.g. https://tts.example.com</p>
+                        : <p className="text-xs text-muted-foreground">Replaces the cluster for every TTN call. Leave empty for TTN Cloud.</p>
+                      }
+                    </div>
+                    {ttnHosts.baseUrl && (
+                      <div className="grid gap-3 sm:grid-cols-2">
+                        {TTN_COMPONENT_HOSTS.map(({ key, label }) => (
+                          <div key={key} className="space-y-1">
+                            <Label htmlFor={key} className="text-xs">{label}</Label>
+                            <Input
+                              id={key}
+                              placeholder={normalizeTTNBaseUrl(ttnHosts.baseUrl!) || 'Same as base URL'}
+                              value={ttnHosts[key] || ''}
+                              onChange={e => setTtnHosts(prev => ({ ...prev, [key]: e.target.value }))}
+                              disabled={disabled || isLoading}
+                              className="text-xs"
+                            />
+                          </div>
+                        ))}
+                        <p className="text-xs text-muted-foreground sm:col-span-2">
+                          Only set hosts that differ from the base URL.
+                        </p>
+                      </div>
+                    )}
+                  </div>
+                </CollapsibleContent>
+              </Collapsible>
+
               <div className="grid gap-4 sm:grid-cols-2">
                 <div className="space-y-2">
                   <Label htmlFor="ttnApiKey" className="flex items-center gap-2">
@@ -2203,7 +2342,7 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
 
                 <div className="space-y-2">
                   <Label htmlFor="ttnWebhookSecret" className="flex items-center gap-2">
-                    Webhook Secret (optional)
+                    Webhook Secret
                     {ttnWebhookSecretSet && (
                       <Badge variant="outline" className="text-green-600 border-green-600 text-xs">
                         Saved
@@ -2213,19 +2352,103 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
                   <Input
                     id="ttnWebhookSecret"
                     type="password"
-                    placeholder={ttnWebhookSecretSet ? "Enter new to replace..." : "Optional"}
+                    placeholder={ttnWebhookSecretSet ? "Enter new to replace..." : "Required to accept uplinks"}
                     value={ttnWebhookSecret}
                     onChange={e => setTtnWebhookSecret(e.target.value)}
                     disabled={disabled || isLoading}
                   />
-                  {canonicalWebhookSecretLast4 
+                  {canonicalWebhookSecretLast4
                     ? <CurrentValueBadge value={canonicalWebhookSecretLast4} isMasked source={resolvedConfig?.webhook_secret_source} />
-                    : <p className="text-xs text-muted-foreground">For webhook signature verification. Leave blank if not set.</p>
+                    : <p className="text-xs text-muted-foreground">ttn-webhook rejects uplinks until a secret is set.</p>
                   }
                   {ttnWebhookSecretSet && !canonicalWebhookSecretLast4 && (
                     <p className="text-xs text-muted-foreground">Leave blank to keep, enter new to replace</p>
                   )}
                 </div>
+
+                <div className="space-y-2">
+                  <Label>Webhook Authentication</Label>
+                  <Select
+                    value={webhookAuthMode}
+                    onValueChange={(v) => setWebhookAuthMode(v as WebhookAuthMode)}
+                    disabled={disabled || isLoading}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="secret">Secret header (X-TTN-Webhook-Secret)</SelectItem>
+                      <SelectItem value="hmac">HMAC-SHA256 body signature (X-TTN-Webhook-Signature)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    {webhookAuthMode === 'hmac'
+                      ? 'Requests must carry sha256=<hex HMAC of the body> signed with the secret.'
+                      : 'Add the secret as an X-TTN-Webhook-Secret header on the TTN webhook.'}
+                  </p>
+                </div>
+
+                {ttnWebhookSecretSet && (
+                  <div className="space-y-2 rounded-md border p-3">
+                    <div className="flex items-center gap-2">
+                      <KeyRound className="h-4 w-4 text-muted-foreground" />
+                      <Label className="text-sm font-medium">Rotate Webhook Secret</Label>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Select value={webhookGraceHours} onValueChange={setWebhookGraceHours} disabled={disabled || isRotatingSecret}>
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="0">No grace period</SelectItem>
+                          <SelectItem value="1">Old secret valid 1 hour</SelectItem>
+                          <SelectItem value="24">Old secret valid 24 hours</SelectItem>
+                          <SelectItem value="168">Old secret valid 7 days</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={rotateWebhookSecret}
+                        disabled={disabled || isRotatingSecret || !orgId}
+                      >
+                        {isRotatingSecret ? <Loader2 className="h-3 w-3 animate-spin" /> : <RefreshCw className="h-3 w-3" />}
+                        Rotate
+                      </Button>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      Uses the secret entered above, or generates one. The old secret keeps working until TTN is updated.
+                    </p>
+                    {rotatedWebhookSecret && (
+                      <Alert>
+                        <AlertTitle className="text-sm">New webhook secret</AlertTitle>
+                        <AlertDescription className="space-y-2">
+                          <code className="block break-all text-xs">{rotatedWebhookSecret}</code>
+                          <div className="flex gap-2">
+                            <Button size="sm" variant="outline" onClick={() => navigator.clipboard.writeText(rotatedWebhookSecret)}>
+                              <Copy className="h-3 w-3" /> Copy
+                            </Button>
+                            <Button size="sm" variant="ghost" onClick={() => setRotatedWebhookSecret(null)}>
+                              Hide
+                            </Button>
+                          </div>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+                    {previousWebhookSecrets.length > 0 && (
+                      <div className="space-y-1">
+                        {previousWebhookSecrets.map(entry => (
+                          <p key={`${entry.last4}-${entry.expires_at}`} className="text-xs text-muted-foreground">
+                            Previous ****{entry.last4} accepted until {new Date(entry.expires_at).toLocaleString()}
+                          </p>
+                        ))}
+                        <Button size="sm" variant="ghost" className="h-6 text-xs" onClick={endWebhookSecretGrace} disabled={disabled}>
+                          End grace period
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                )}
               </div>
 
               {/* Gateway Owner Configuration */}
@@ -2438,7 +2661,7 @@ export default function WebhookSettings({ config, onConfigChange, disabled, curr
                         size="sm"
                         className="gap-2 w-full"
                         onClick={() => {
-                          const url = getGatewayApiKeyUrl(ttnCluster, gatewayOwnerType, gatewayOwnerId || undefined);
+                          const url = getGatewayApiKeyUrl(ttnHost, gatewayOwnerType, gatewayOwnerId || undefined);
                           window.open(url, '_blank', 'noopener,noreferrer');
                         }}
                         disabled={gatewayOwnerType === 'organization' && !gatewayOwnerId}
@@ -2,6 +2,7 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent } from '@/components/ui/card';
 import { CheckCircle2, Play, Radio, ExternalLink, Copy, Download } from 'lucide-react';
 import { TTNConfig } from '@/lib/ttn-payload';
+import { getTTNConsoleUrl } from '@/lib/ttnEndpoints';
 import { ProvisioningSummary, ProvisioningMode, ProvisionResult } from '../TTNProvisioningWizard';
 import { getEntriesByCategory } from '@/lib/debugLogger';
 import { buildSupportSnapshot, downloadSnapshot } from '@/lib/supportSnapshot';
@@ -26,8 +27,8 @@ export default function StepCompletion({
   const entityLabelPlural = isGatewayMode ? 'gateway(s)' : 'device(s)';
   
   const ttnConsoleUrl = isGatewayMode
-    ? `https://${ttnConfig?.cluster || 'eu1'}.cloud.thethings.network/console/gateways`
-    : `https://${ttnConfig?.cluster || 'eu1'}.cloud.thethings.network/console/applications/${ttnConfig?.applicationId}/devices`;
+    ? `${getTTNConsoleUrl(ttnConfig ?? 'eu1')}/gateways`
+    : `${getTTNConsoleUrl(ttnConfig ?? 'eu1')}/applications/${ttnConfig?.applicationId}/devices`;
 
   const successCount = summary.created + summary.already_exists;
   const hasFailures = summary.failed > 0;
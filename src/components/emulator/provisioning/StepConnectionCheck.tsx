@@ -6,6 +6,7 @@ import { Loader2, CheckCircle2, XCircle, AlertTriangle, Settings, ExternalLink,
 import { supabase } from '@/integrations/supabase/client';
 import { TTNConfig } from '@/lib/ttn-payload';
 import { getGatewayApiKeyUrl, getKeyTypeLabel, GATEWAY_PERMISSIONS } from '@/lib/ttnConsoleLinks';
+import { getTTNHostLabel, isSelfHostedTTN, ttnHostFields } from '@/lib/ttnEndpoints';
 
 interface StepConnectionCheckProps {
   ttnConfig?: TTNConfig;
@@ -83,7 +84,7 @@ export default function StepConnectionCheck({
     newChecks[1] = {
       name: 'Cluster Configured',
       status: ttnConfig?.cluster ? 'passed' : 'failed',
-      message: ttnConfig?.cluster ? `Using ${ttnConfig.cluster}` : 'Select a TTN cluster',
+      message: ttnConfig?.cluster ? `Using ${isSelfHostedTTN(ttnConfig) ? getTTNHostLabel(ttnConfig) : ttnConfig.cluster}` : 'Select a TTN cluster',
     };
     setChecks([...newChecks]);
 
@@ -122,7 +123,7 @@ export default function StepConnectionCheck({
           org_id: orgId,
           selected_user_id: selectedUserId,
           // Pass user's TTN settings so edge function uses them
-          cluster: ttnConfig?.cluster,
+          ...(ttnConfig && ttnHostFields(ttnConfig)),
           application_id: ttnConfig?.applicationId,
         },
       });
@@ -343,7 +344,7 @@ export default function StepConnectionCheck({
                   className="gap-2"
                   onClick={() => {
                     const url = getGatewayApiKeyUrl(
-                      ttnConfig?.cluster || 'eu1', 
+                      ttnConfig ?? 'eu1', 
                       gatewayOwnerType, 
                       gatewayOwnerId || undefined
                     );
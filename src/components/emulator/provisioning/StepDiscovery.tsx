@@ -8,6 +8,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { Loader2, RefreshCw, CheckCircle2, AlertCircle, Clock, RotateCcw } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { LoRaWANDevice, GatewayConfig, TTNConfig, generateTTNDeviceId, generateTTNGatewayId } from '@/lib/ttn-payload';
+import { ttnHostFields } from '@/lib/ttnEndpoints';
 import { ProvisioningMode } from '../TTNProvisioningWizard';
 
 interface StepDiscoveryProps {
@@ -46,7 +47,7 @@ export default function StepDiscovery({
       const { data, error } = await supabase.functions.invoke('manage-ttn-settings', {
         body: {
           action: 'check_device',
-          cluster: ttnConfig?.cluster,
+          ...(ttnConfig && ttnHostFields(ttnConfig)),
           application_id: ttnConfig?.applicationId,
           device_id: ttnDeviceId,
         },
@@ -71,7 +72,7 @@ export default function StepDiscovery({
       const { data, error } = await supabase.functions.invoke('manage-ttn-settings', {
         body: {
           action: 'check_gateway',
-          cluster: ttnConfig?.cluster,
+          ...(ttnConfig && ttnHostFields(ttnConfig)),
           gateway_id: ttnGatewayId,
         },
       });
@@ -11,6 +11,7 @@ import { LoRaWANDevice, GatewayConfig, TTNConfig, generateTTNDeviceId, generateT
 import { ProvisionResult, ProvisioningSummary, ProvisioningMode } from '../TTNProvisioningWizard';
 import { debug, log } from '@/lib/debugLogger';
 import { logProvisioningEvent } from '@/lib/supportSnapshot';
+import { getTTNConsoleUrl } from '@/lib/ttnEndpoints';
 
 // Extended result with debug info from backend
 interface ProvisionDebug {
@@ -600,7 +601,7 @@ export default function StepExecution({
     return isGatewayMode ? result.eui : result.dev_eui;
   };
 
-  const ttnConsoleUrl = `https://${cluster}.cloud.thethings.network/console`;
+  const ttnConsoleUrl = getTTNConsoleUrl(ttnConfig ?? cluster);
 
   return (
     <div className="space-y-4">
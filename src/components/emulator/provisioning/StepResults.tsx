@@ -22,6 +22,7 @@ import {
   Settings,
 } from 'lucide-react';
 import { ProvisionResult, ProvisioningSummary, ProvisioningMode } from '../TTNProvisioningWizard';
+import { getTTNConsoleUrl, type TTNHostRef } from '@/lib/ttnEndpoints';
 import { useState } from 'react';
 
 interface StepResultsProps {
@@ -29,7 +30,7 @@ interface StepResultsProps {
   summary: ProvisioningSummary;
   onRetryFailed: (filter?: 'all' | 'retryable') => void;
   mode?: ProvisioningMode;
-  cluster?: string;
+  cluster?: TTNHostRef;
   onOpenSettings?: () => void;
 }
 
@@ -102,7 +103,7 @@ export default function StepResults({
 
   const overallSuccess = summary.failed === 0;
   const partialSuccess = summary.failed > 0 && (summary.created > 0 || summary.already_exists > 0);
-  const ttnConsoleUrl = `https://${cluster}.cloud.thethings.network/console`;
+  const ttnConsoleUrl = getTTNConsoleUrl(cluster);
 
   const renderFailureCard = (
     failures: ProvisionResult[], 
@@ -7,6 +7,7 @@ import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@
 import { AlertTriangle, Info, Radio, CheckCircle2, RefreshCw, PlusCircle, MinusCircle } from 'lucide-react';
 import { LoRaWANDevice, GatewayConfig, TTNConfig, generateTTNDeviceId, generateTTNGatewayId, validateGatewayEui } from '@/lib/ttn-payload';
 import { StepStatus, ProvisioningMode } from '../TTNProvisioningWizard';
+import { getTTNHostLabel, isSelfHostedTTN } from '@/lib/ttnEndpoints';
 
 interface StepStrategyProps {
   selectedDevices: LoRaWANDevice[];
@@ -46,6 +47,8 @@ export default function StepStrategy({
   const entityLabel = isGatewayMode ? 'gateway' : 'device';
   const entityLabelPlural = isGatewayMode ? 'gateways' : 'devices';
 
+  const hostLabel = ttnConfig && isSelfHostedTTN(ttnConfig) ? getTTNHostLabel(ttnConfig) : ttnConfig?.cluster;
+
   const getFrequencyPlan = () => {
     switch (ttnConfig?.cluster) {
       case 'nam1':
@@ -155,11 +158,11 @@ export default function StepStrategy({
             </div>
             <div>
               <p className="text-muted-foreground">{isGatewayMode ? 'Target Cluster' : 'Target Application'}</p>
-              <p className="font-medium">{isGatewayMode ? ttnConfig?.cluster : ttnConfig?.applicationId}</p>
+              <p className="font-medium">{isGatewayMode ? hostLabel : ttnConfig?.applicationId}</p>
             </div>
             <div>
-              <p className="text-muted-foreground">Cluster</p>
-              <p className="font-medium">{ttnConfig?.cluster}</p>
+              <p className="text-muted-foreground">{ttnConfig && isSelfHostedTTN(ttnConfig) ? 'Host' : 'Cluster'}</p>
+              <p className="font-medium">{hostLabel}</p>
             </div>
             <div>
               <p className="text-muted-foreground">Frequency Plan</p>
@@ -232,7 +235,7 @@ export default function StepStrategy({
             <ul className="space-y-1 text-sm text-muted-foreground">
               {isGatewayMode ? (
                 <>
-                  <li>• Gateway Server: {ttnConfig?.cluster}.cloud.thethings.network</li>
+                  <li>• Gateway Server: {getTTNHostLabel(ttnConfig ?? 'eu1')}</li>
                   <li>• Frequency Plan: {getFrequencyPlan()}</li>
                   <li>• Status/Location: Private</li>
                   {reprovisionMode && <li>• Mode: Re-provision (will update existing)</li>}
@@ -6,6 +6,7 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Badge } from '@/components/ui/badge';
 import { ExternalLink, Loader2, Check, X, Key, ShieldCheck, Eye, ListChecks, Settings, Radio } from 'lucide-react';
 import { WizardConfig, StepStatus } from '../TTNSetupWizard';
+import { getTTNConsoleUrl, ttnHostFields } from '@/lib/ttnEndpoints';
 import { supabase } from '@/integrations/supabase/client';
 
 interface StepApiKeyProps {
@@ -63,7 +64,7 @@ export default function StepApiKey({
       const { data: connData, error: connError } = await supabase.functions.invoke('manage-ttn-settings', {
         body: {
           action: 'test',
-          cluster: config.cluster,
+          ...ttnHostFields(config),
           application_id: config.applicationId,
           api_key: config.apiKey,
         },
@@ -90,7 +91,7 @@ export default function StepApiKey({
       const { data: permData, error: permError } = await supabase.functions.invoke('manage-ttn-settings', {
         body: {
           action: 'check_app_permissions',
-          cluster: config.cluster,
+          ...ttnHostFields(config),
           application_id: config.applicationId,
           api_key: config.apiKey,
         },
@@ -141,7 +142,7 @@ export default function StepApiKey({
     markStepPassed(3, false);
   };
 
-  const ttnApiKeysUrl = `https://${config.cluster}.cloud.thethings.network/console/applications/${config.applicationId}/api-keys`;
+  const ttnApiKeysUrl = `${getTTNConsoleUrl(config)}/applications/${config.applicationId}/api-keys`;
 
   // Get icon component for a permission
   const getPermissionIcon = (key: string) => {
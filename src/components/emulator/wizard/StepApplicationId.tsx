@@ -5,6 +5,7 @@ import { Button } from '@/components/ui/button';
 import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { ExternalLink, Loader2, Check, X, AppWindow } from 'lucide-react';
 import { WizardConfig, StepStatus } from '../TTNSetupWizard';
+import { getTTNConsoleUrl, ttnHostFields } from '@/lib/ttnEndpoints';
 import { supabase } from '@/integrations/supabase/client';
 
 interface StepApplicationIdProps {
@@ -44,7 +45,7 @@ export default function StepApplicationId({
       const { data, error } = await supabase.functions.invoke('manage-ttn-settings', {
         body: {
           action: 'test',
-          cluster: config.cluster,
+          ...ttnHostFields(config),
           application_id: config.applicationId,
           api_key: config.apiKey,
         },
@@ -84,7 +85,7 @@ export default function StepApplicationId({
     }
   };
 
-  const ttnConsoleUrl = `https://${config.cluster}.cloud.thethings.network/console/applications`;
+  const ttnConsoleUrl = `${getTTNConsoleUrl(config)}/applications`;
 
   return (
     <div className="space-y-6">
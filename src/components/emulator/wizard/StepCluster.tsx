@@ -1,8 +1,10 @@
+import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Globe, Info } from 'lucide-react';
 import { WizardConfig, StepStatus } from '../TTNSetupWizard';
+import { getTTNBaseUrl, isSelfHostedTTN } from '@/lib/ttnEndpoints';
 
 interface StepClusterProps {
   config: WizardConfig;
@@ -26,18 +28,34 @@ const CLUSTERS = [
   },
 ];
 
+// Radio value of a self-hosted The Things Stack deployment
+const SELF_HOSTED = 'self-hosted';
+
 export default function StepCluster({
   config,
   updateConfig,
   markStepPassed,
 }: StepClusterProps) {
-  const selectedCluster = CLUSTERS.find(c => c.value === config.cluster);
+  // An empty base URL means self-hosted was picked but not entered yet
+  const selfHosted = typeof config.baseUrl === 'string';
+  const selectedCluster = selfHosted ? undefined : CLUSTERS.find(c => c.value === config.cluster);
+  const baseUrlInvalid = selfHosted && !!config.baseUrl && !isSelfHostedTTN(config);
 
   const handleSelect = (value: string) => {
-    updateConfig({ cluster: value });
+    if (value === SELF_HOSTED) {
+      updateConfig({ baseUrl: config.baseUrl || '' });
+      markStepPassed(1, isSelfHostedTTN(config));
+      return;
+    }
+    updateConfig({ cluster: value, baseUrl: null });
     markStepPassed(1, true);
   };
 
+  const handleBaseUrlChange = (baseUrl: string) => {
+    updateConfig({ baseUrl });
+    markStepPassed(1, isSelfHostedTTN({ ...config, baseUrl }));
+  };
+
   return (
     <div className="space-y-6">
       <div className="space-y-2">
@@ -51,7 +69,7 @@ export default function StepCluster({
       </div>
 
       <RadioGroup
-        value={config.cluster}
+        value={selfHosted ? SELF_HOSTED : config.cluster}
         onValueChange={handleSelect}
         className="grid gap-4"
       >
@@ -72,13 +90,42 @@ export default function StepCluster({
             </Label>
           </div>
         ))}
+        <div className="relative">
+          <RadioGroupItem
+            value={SELF_HOSTED}
+            id={SELF_HOSTED}
+            className="peer sr-only"
+          />
+          <Label
+            htmlFor={SELF_HOSTED}
+            className="flex flex-col p-4 border rounded-lg cursor-pointer hover:bg-accent peer-data-[state=checked]:border-primary peer-data-[state=checked]:bg-primary/5"
+          >
+            <span className="font-medium">Self-hosted The Things Stack</span>
+            <span className="text-sm text-muted-foreground">Your own deployment or another TTS host</span>
+          </Label>
+        </div>
       </RadioGroup>
 
-      {selectedCluster && (
+      {selfHosted && (
+        <div className="space-y-2">
+          <Label htmlFor="ttn-base-url">Base URL</Label>
+          <Input
+            id="ttn-base-url"
+            placeholder="https://tts.example.com"
+            value={config.baseUrl || ''}
+            onChange={(e) => handleBaseUrlChange(e.target.value)}
+          />
+          {baseUrlInvalid && (
+            <p className="text-xs text-destructive">Enter an http(s) URL, e.g. https://tts.example.com</p>
+          )}
+        </div>
+      )}
+
+      {(selectedCluster || isSelfHostedTTN(config)) && (
         <Alert>
           <Info className="h-4 w-4" />
           <AlertDescription className="text-sm">
-            API calls will use: <code className="bg-muted px-1 rounded">{selectedCluster.baseUrl}</code>
+            API calls will use: <code className="bg-muted px-1 rounded">{getTTNBaseUrl(config)}</code>
           </AlertDescription>
         </Alert>
       )}
@@ -7,6 +7,7 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { ExternalLink, Loader2, Check, X, Copy, Radio, AlertCircle } from 'lucide-react';
 import { WizardConfig, StepStatus } from '../TTNSetupWizard';
+import { getTTNConsoleUrl, ttnHostFields } from '@/lib/ttnEndpoints';
 import { LoRaWANDevice, normalizeDevEui } from '@/lib/ttn-payload';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/hooks/use-toast';
@@ -70,7 +71,7 @@ export default function StepDeviceRegistration({
         const { data, error } = await supabase.functions.invoke('manage-ttn-settings', {
           body: {
             action: 'check_device',
-            cluster: config.cluster,
+            ...ttnHostFields(config),
             application_id: config.applicationId,
             api_key: config.apiKey,
             device_id: deviceId,
@@ -115,7 +116,7 @@ export default function StepDeviceRegistration({
     toast({ title: 'Copied', description: `${label} copied to clipboard` });
   };
 
-  const ttnDevicesUrl = `https://${config.cluster}.cloud.thethings.network/console/applications/${config.applicationId}/devices/add`;
+  const ttnDevicesUrl = `${getTTNConsoleUrl(config)}/applications/${config.applicationId}/devices/add`;
 
   return (
     <div className="space-y-6">
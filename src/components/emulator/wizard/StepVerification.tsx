@@ -5,6 +5,7 @@ import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { Loader2, Check, X, Play, ShieldCheck, Radio, Webhook, Globe, Key } from 'lucide-react';
 import { WizardConfig, StepStatus } from '../TTNSetupWizard';
+import { getTTNHostLabel, isSelfHostedTTN, ttnHostFields } from '@/lib/ttnEndpoints';
 import { LoRaWANDevice, normalizeDevEui } from '@/lib/ttn-payload';
 import { supabase } from '@/integrations/supabase/client';
 
@@ -56,7 +57,7 @@ export default function StepVerification({
     setItems(prev => prev.map(item => ({ ...item, status: 'checking' as const, message: undefined })));
 
     // Step 1: Cluster
-    updateItem('cluster', { status: 'passed', message: `${config.cluster} cluster selected` });
+    updateItem('cluster', { status: 'passed', message: isSelfHostedTTN(config) ? `${getTTNHostLabel(config)} selected` : `${config.cluster} cluster selected` });
     await new Promise(r => setTimeout(r, 300));
 
     // Step 2 & 3: Test connection (validates app + api key)
@@ -67,7 +68,7 @@ export default function StepVerification({
       const { data, error } = await supabase.functions.invoke('manage-ttn-settings', {
         body: {
           action: 'test',
-          cluster: config.cluster,
+          ...ttnHostFields(config),
           application_id: config.applicationId,
           api_key: config.apiKey,
         },
@@ -109,7 +110,7 @@ export default function StepVerification({
           const { data } = await supabase.functions.invoke('manage-ttn-settings', {
             body: {
               action: 'check_device',
-              cluster: config.cluster,
+              ...ttnHostFields(config),
               application_id: config.applicationId,
               api_key: config.apiKey,
               device_id: deviceId,
@@ -184,8 +185,8 @@ export default function StepVerification({
       <Card>
         <CardContent className="p-4 space-y-2">
           <div className="flex justify-between text-sm">
-            <span className="text-muted-foreground">Cluster:</span>
-            <code className="bg-muted px-2 rounded">{config.cluster}</code>
+            <span className="text-muted-foreground">{isSelfHostedTTN(config) ? 'Host:' : 'Cluster:'}</span>
+            <code className="bg-muted px-2 rounded">{isSelfHostedTTN(config) ? getTTNHostLabel(config) : config.cluster}</code>
           </div>
           <div className="flex justify-between text-sm">
             <span className="text-muted-foreground">Application:</span>
@@ -6,6 +6,7 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Checkbox } from '@/components/ui/checkbox';
 import { ExternalLink, Copy, Check, Webhook, Info } from 'lucide-react';
 import { WizardConfig, StepStatus } from '../TTNSetupWizard';
+import { getTTNConsoleUrl } from '@/lib/ttnEndpoints';
 import { toast } from '@/hooks/use-toast';
 
 interface StepWebhookProps {
@@ -26,7 +27,7 @@ export default function StepWebhook({
 
   const webhookUrl = `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/ttn-webhook`;
   
-  const ttnWebhooksUrl = `https://${config.cluster}.cloud.thethings.network/console/applications/${config.applicationId}/integrations/webhooks/add`;
+  const ttnWebhooksUrl = `${getTTNConsoleUrl(config)}/applications/${config.applicationId}/integrations/webhooks/add`;
 
   const copyUrl = () => {
     navigator.clipboard.writeText(webhookUrl);
@@ -0,0 +1,156 @@
+/**
+ * Headless CLI
+ *
+ * Usage:
+ *   npm run build:headless
+ *   npm run headless -- --fleet fleet.yaml --target https://…/ttn-webhook
+ *
+ * Options:
+ *   --fleet <path>        Fleet manifest (YAML or JSON, required)
+ *   --library <path>      Device library JSON (default: bundled library)
+ *   --target <url>        Webhook URL; omit together with --dry-run to print envelopes
+ *   --header <k:v>        Extra request header (repeatable)
+ *   --state <spec>        memory | file:<path> | sqlite:<path> (default: memory)
+ *   --count <n>           Emit n uplinks per device and exit instead of running on schedule
+ *   --clock <spec>        real | x<speed> (e.g. x10, x100) | virtual (default: real)
+ *   --start <iso>         Simulated start time (default: now)
+ *   --duration <sec>      Simulated run length; required with --clock virtual
+ *   --dry-run             Build envelopes without POSTing them
+ */
+
+import { readFileSync } from 'node:fs';
+import { parseArgs } from 'node:util';
+import { loadDeviceLibrary } from '@/lib/deviceLibrary/loader';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import { parseFleetManifest } from '@/lib/deviceLibrary/fleetManifest';
+import { createHeadlessRunner, type HeadlessTarget } from './runner';
+import { createStateBackendFromSpec } from './stateBackends';
+import { createClockFromSpec } from '@/lib/deviceLibrary/clock';
+
+function readJson(path: string): unknown {
+  return JSON.parse(readFileSync(path, 'utf8'));
+}
+
+function parseHeaders(values: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const value of values) {
+    const separator = value.indexOf(':');
+    if (separator <= 0) throw new Error(`Invalid header "${value}" (expected Name: value)`);
+    headers[value.slice(0, separator).trim()] = value.slice(separator + 1).trim();
+  }
+  return headers;
+}
+
+function loadLibrary(path?: string): void {
+  const result = loadDeviceLibrary(path ? readJson(path) : defaultDeviceLibrary);
+  if (!result.valid) {
+    const details = result.errors.map(e => `${e.path || '(root)'}: ${e.message}`).join('; ');
+    throw new Error(`Invalid device library ${path}: ${details}`);
+  }
+}
+
+function readFleet(path: string) {
+  const { manifest, result } = parseFleetManifest(readFileSync(path, 'utf8'));
+  for (const warning of result.warnings) {
+    console.error(`[headless] Warning: ${warning.path}: ${warning.message}`);
+  }
+  if (!manifest) {
+    const details = result.errors.map(e => `${e.path || '(root)'}: ${e.message}`).join('; ');
+    throw new Error(`Invalid fleet manifest ${path}: ${details}`);
+  }
+  return manifest;
+}
+
+async function main(): Promise<void> {
+  // Library logging goes to stderr so stdout carries only dry-run envelopes
+  console.log = console.error;
+
+  const { values } = parseArgs({
+    options: {
+      fleet: { type: 'string' },
+      library: { type: 'string' },
+      target: { type: 'string' },
+      header: { type: 'string', multiple: true, default: [] },
+      state: { type: 'string', default: 'memory' },
+      count: { type: 'string' },
+      clock: { type: 'string', default: 'real' },
+      start: { type: 'string' },
+      duration: { type: 'string' },
+      'dry-run': { type: 'boolean', default: false },
+    },
+  });
+
+  if (!values.fleet) throw new Error('--fleet is required');
+  if (!values.target && !values['dry-run']) throw new Error('--target is required unless --dry-run is set');
+
+  const target: HeadlessTarget | undefined = values['dry-run'] || !values.target
+    ? undefined
+    : { url: values.target, headers: parseHeaders(values.header) };
+
+  const startAt = values.start !== undefined ? Date.parse(values.start) : undefined;
+  if (startAt !== undefined && Number.isNaN(startAt)) throw new Error(`Invalid --start time "${values.start}"`);
+  const clock = createClockFromSpec(values.clock, startAt);
+
+  const durationSec = values.duration !== undefined ? Number(values.duration) : undefined;
+  if (durationSec !== undefined && !(durationSec > 0)) throw new Error('--duration must be a positive number of seconds');
+  if (clock.mode === 'virtual' && durationSec === undefined && values.count === undefined) {
+    throw new Error('--clock virtual requires --duration or --count');
+  }
+
+  loadLibrary(values.library);
+  const runner = createHeadlessRunner({
+    fleet: readFleet(values.fleet),
+    target,
+    backend: createStateBackendFromSpec(values.state),
+    clock,
+    onEmission: (emission) => {
+      if (!target) {
+        process.stdout.write(JSON.stringify(emission.envelope) + '\n');
+      } else if (emission.ok) {
+        console.error(`[headless] ${emission.devEui} f_cnt=${emission.fCnt} → ${emission.status}`);
+      } else {
+        console.error(`[headless] ${emission.devEui} f_cnt=${emission.fCnt} failed: ${emission.error}`);
+      }
+    },
+  });
+
+  const finish = (verb: string) => {
+    const { sent, failed } = runner.stats;
+    console.error(`[headless] ${verb}: ${sent} sent, ${failed} failed`);
+    process.exitCode = failed > 0 ? 1 : 0;
+  };
+
+  if (values.count !== undefined) {
+    const count = Number(values.count);
+    if (!Number.isInteger(count) || count < 1) throw new Error('--count must be a positive integer');
+    await runner.runCount(count);
+    finish('Done');
+    return;
+  }
+
+  if (clock.mode === 'virtual') {
+    await runner.runFor(durationSec! * 1000);
+    finish('Done');
+    return;
+  }
+
+  runner.start();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const stop = () => {
+    clearTimeout(timer);
+    runner.stop();
+    finish('Stopped');
+  };
+  if (durationSec !== undefined) {
+    timer = setTimeout(stop, (durationSec * 1000) / clock.speed);
+    console.error(`[headless] Running on schedule for ${durationSec}s of simulated time`);
+  } else {
+    console.error('[headless] Running on schedule, Ctrl+C to stop');
+  }
+  process.once('SIGINT', stop);
+}
+
+main().catch((error) => {
+  console.error(`[headless] ${(error as Error).message}`);
+  process.exit(1);
+});
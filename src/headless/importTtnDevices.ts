@@ -0,0 +1,88 @@
+/**
+ * TTN Device Repository Import CLI
+ *
+ * Usage:
+ *   npm run build:import-ttn
+ *   npm run import-ttn -- --repo ../lorawan-devices --vendor milesight-iot --out library.json
+ *
+ * Options:
+ *   --repo <path>         Checkout of TheThingsNetwork/lorawan-devices (required)
+ *   --vendor <id>         Vendor to import (repeatable; default: all vendors)
+ *   --model <id>          Model id within the vendors (repeatable; default: all)
+ *   --base <path>         Library JSON to merge into (default: bundled library)
+ *   --out <path>          Write the merged library here (default: stdout)
+ *   --replace             Replace existing devices with the same id instead of reporting a conflict
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import { validateDeviceLibrary } from '@/lib/deviceLibrary/schema';
+import { serializeDeviceLibrary } from '@/lib/deviceLibrary/libraryEditor';
+import {
+  importTtnRepository,
+  mergeImportedDevices,
+  type TtnRepositoryReader,
+} from '@/lib/deviceLibrary/ttnDeviceRepository';
+import type { DeviceLibrary } from '@/lib/deviceLibrary/types';
+
+function createFsRepositoryReader(root: string): TtnRepositoryReader {
+  return {
+    readText: async (path) => {
+      try {
+        return await readFile(join(root, path), 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+        throw error;
+      }
+    },
+  };
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      repo: { type: 'string' },
+      vendor: { type: 'string', multiple: true },
+      model: { type: 'string', multiple: true },
+      base: { type: 'string' },
+      out: { type: 'string' },
+      replace: { type: 'boolean', default: false },
+    },
+  });
+
+  if (!values.repo) throw new Error('--repo is required');
+
+  const base = values.base
+    ? JSON.parse(await readFile(values.base, 'utf8')) as DeviceLibrary
+    : defaultDeviceLibrary as DeviceLibrary;
+
+  const { devices, skipped } = await importTtnRepository(createFsRepositoryReader(values.repo), {
+    vendors: values.vendor,
+    models: values.model,
+  });
+  const { library, report } = mergeImportedDevices(base, devices, { replaceExisting: values.replace });
+
+  for (const issue of skipped) console.error(`[import-ttn] Skipped ${issue.path}: ${issue.message}`);
+  for (const conflict of report.conflicts) console.error(`[import-ttn] Conflict ${conflict.path}: ${conflict.message}`);
+  console.error(
+    `[import-ttn] ${devices.length} converted, ${report.added.length} added, ` +
+    `${report.replaced.length} replaced, ${report.conflicts.length} conflicts, ${skipped.length} skipped`
+  );
+
+  const result = validateDeviceLibrary(library);
+  if (!result.valid) {
+    const details = result.errors.map(e => `${e.path || '(root)'}: ${e.message}`).join('; ');
+    throw new Error(`Merged library is invalid: ${details}`);
+  }
+
+  const json = serializeDeviceLibrary(library);
+  if (values.out) await writeFile(values.out, json);
+  else process.stdout.write(json);
+}
+
+main().catch((error) => {
+  console.error(`[import-ttn] ${(error as Error).message}`);
+  process.exit(1);
+});
@@ -0,0 +1,296 @@
+/**
+ * Headless Runner
+ *
+ * Runs the device library simulation without a browser: generates each
+ * fleet device's payload, wraps it in a TTN v3 envelope and POSTs it to a
+ * webhook, either on the devices' intervals or for a fixed number of
+ * emissions (CI / soak tests). Devices with event rules are sampled
+ * between uplinks and send event frames when a rule fires.
+ */
+
+import type { DeviceSimulationState, FleetDevice, FleetManifest, SimulationContext } from '@/lib/deviceLibrary/types';
+import { loadDeviceLibrary, getDevice, isLibraryLoaded } from '@/lib/deviceLibrary/loader';
+import { defaultDeviceLibrary } from '@/lib/deviceLibrary/defaultLibrary';
+import { generateDevicePayload } from '@/lib/deviceLibrary/simulationEngine';
+import { composeMessagePayload, composeScenarioPayload } from '@/lib/deviceLibrary/scenarioComposer';
+import { getEventMessageTypes, getMessageStreams, hasMessageTypes } from '@/lib/deviceLibrary/messageTypes';
+import { getDeviceSimState, updateDeviceSimState } from '@/lib/deviceLibrary/deviceStateStore';
+import { reconcileSimState } from '@/lib/deviceLibrary/libraryMigration';
+import { buildLibraryEnvelope, type TTNEnvelope } from '@/lib/deviceLibrary/envelopeBuilder';
+import { DEFAULT_SAMPLE_INTERVAL_SEC, hasEventRules, sampleEventRules, type EventTrigger } from '@/lib/deviceLibrary/eventRules';
+import { EmissionScheduler, type DeviceEmissionStatus } from '@/lib/deviceLibrary/emissionScheduler';
+import { setStateBackend, type StateBackend } from '@/lib/deviceLibrary/stateBackend';
+import { setSimulationClock, VirtualClock, type SimulationClock } from '@/lib/deviceLibrary/clock';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Where envelopes are delivered
+ */
+export interface HeadlessTarget {
+  url: string;
+  headers?: Record<string, string>;
+}
+
+export interface HeadlessRunnerOptions {
+  fleet: FleetManifest;
+  library?: unknown;               // Default: the active library, else the bundled one
+  target?: HeadlessTarget;         // Omit for a dry run
+  backend?: StateBackend;          // Default: in-memory or localStorage
+  clock?: SimulationClock;         // Default: wall clock
+  fetch?: typeof fetch;
+  onEmission?: (emission: HeadlessEmission) => void;
+}
+
+/**
+ * Outcome of one emission
+ */
+export interface HeadlessEmission {
+  devEui: string;
+  messageType?: string;
+  fCnt: number;
+  envelope: TTNEnvelope;
+  status: number | null;   // HTTP status; null for dry runs and network errors
+  ok: boolean;
+  error?: string;
+}
+
+// ============================================
+// HeadlessRunner Class
+// ============================================
+
+export class HeadlessRunner {
+  private fleet: FleetManifest;
+  private target?: HeadlessTarget;
+  private fetchFn: typeof fetch;
+  private onEmission?: (emission: HeadlessEmission) => void;
+  private scheduler = new EmissionScheduler();
+  private clock?: SimulationClock;
+  private sent = 0;
+  private failed = 0;
+
+  constructor(options: HeadlessRunnerOptions) {
+    if (options.backend) setStateBackend(options.backend);
+    if (options.clock) setSimulationClock(options.clock);
+    if (options.library !== undefined || !isLibraryLoaded()) {
+      const result = loadDeviceLibrary(options.library ?? defaultDeviceLibrary);
+      if (!result.valid) {
+        const details = result.errors.map(e => `${e.path}: ${e.message}`).join('; ');
+        throw new Error(`Invalid device library: ${details}`);
+      }
+    }
+
+    for (const device of options.fleet.devices) {
+      if (!getDevice(device.model)) {
+        throw new Error(`Device ${device.devEui} uses unknown library model "${device.model}"`);
+      }
+    }
+
+    this.fleet = options.fleet;
+    this.target = options.target;
+    this.clock = options.clock;
+    this.fetchFn = options.fetch ?? fetch;
+    this.onEmission = options.onEmission;
+  }
+
+  /**
+   * Generate, envelope and deliver one uplink for a device. With a message
+   * type, only that frame is sent; null when an on_change sample saw no change.
+   */
+  async emit(
+    devEui: string,
+    messageType?: string,
+    overrides?: Record<string, unknown>
+  ): Promise<HeadlessEmission | null> {
+    const { device, libraryDevice, state, context } = this.prepare(devEui);
+
+    if (messageType) {
+      const frame = composeMessagePayload(libraryDevice, messageType, state, context, { scenario: device.scenario, overrides });
+      updateDeviceSimState(frame.updatedState);
+      if (!frame.send) return null;
+      return this.deliverFrame(device, frame.fields, frame.updatedState, context, messageType, frame.metadata.fport);
+    }
+
+    const { fields, updatedState } = device.scenario && device.scenario !== 'normal'
+      ? composeScenarioPayload(libraryDevice, device.scenario, state, context)
+      : generateDevicePayload(libraryDevice, state, context);
+    updateDeviceSimState(updatedState);
+    return this.deliverFrame(device, fields, updatedState, context);
+  }
+
+  /**
+   * Sample a device's sensors without sending and return the event rules
+   * that fired
+   */
+  async sample(devEui: string): Promise<EventTrigger[]> {
+    const { device, libraryDevice, state, context } = this.prepare(devEui);
+    const { updatedState, triggers } = sampleEventRules(libraryDevice, state, context, { scenario: device.scenario });
+    updateDeviceSimState(updatedState);
+    return triggers;
+  }
+
+  private prepare(devEui: string) {
+    const device = this.fleet.devices.find(d => d.devEui === devEui);
+    if (!device) throw new Error(`Device ${devEui} is not in the fleet`);
+    const libraryDevice = getDevice(device.model)!;
+
+    // Persisted state may predate a library change: drop counters and values the model no longer has
+    const { state } = reconcileSimState(getDeviceSimState(device.devEui, device.model), libraryDevice);
+    const context: SimulationContext = {
+      orgId: this.fleet.orgId ?? '',
+      siteId: device.siteId ?? this.fleet.siteId ?? '',
+      unitId: device.unitId ?? this.fleet.unitId ?? '',
+      deviceInstanceId: device.devEui,
+      emissionSequence: state.emissionSequence,
+      seed: this.fleet.seed,
+    };
+    return { device, libraryDevice, state, context };
+  }
+
+  private async deliverFrame(
+    device: FleetDevice,
+    fields: Record<string, unknown>,
+    updatedState: DeviceSimulationState,
+    context: SimulationContext,
+    messageType?: string,
+    fPort?: number
+  ): Promise<HeadlessEmission> {
+    const libraryDevice = getDevice(device.model)!;
+
+    const envelope = buildLibraryEnvelope(
+      { devEui: device.devEui, name: device.name ?? device.devEui, gatewayId: device.gatewayId, location: device.location },
+      this.fleet.gateways,
+      fields,
+      libraryDevice,
+      updatedState,
+      this.fleet.applicationId,
+      { context, region: this.fleet.region, fPort, messageType }
+    );
+
+    const emission = { ...await this.deliver(device.devEui, envelope), ...(messageType && { messageType }) };
+    if (emission.ok) this.sent++;
+    else this.failed++;
+    this.onEmission?.(emission);
+    return emission;
+  }
+
+  private async deliver(devEui: string, envelope: TTNEnvelope): Promise<HeadlessEmission> {
+    const base = { devEui, fCnt: envelope.uplink_message.f_cnt, envelope };
+    if (!this.target) return { ...base, status: null, ok: true };
+
+    try {
+      const response = await this.fetchFn(this.target.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...this.target.headers },
+        body: JSON.stringify(envelope),
+      });
+      return {
+        ...base,
+        status: response.status,
+        ok: response.ok,
+        error: response.ok ? undefined : `Webhook returned ${response.status}`,
+      };
+    } catch (error) {
+      return { ...base, status: null, ok: false, error: (error as Error).message };
+    }
+  }
+
+  /**
+   * Periodic frame types of a fleet device; none for single-frame devices
+   */
+  private getStreams(device: FleetDevice) {
+    const libraryDevice = getDevice(device.model)!;
+    return hasMessageTypes(libraryDevice) ? getMessageStreams(libraryDevice) : undefined;
+  }
+
+  /**
+   * Emit a fixed number of uplinks per device, back to back. Devices with
+   * message types sample each periodic frame type once per round.
+   */
+  async runCount(count: number): Promise<HeadlessEmission[]> {
+    const emissions: HeadlessEmission[] = [];
+    for (let i = 0; i < count; i++) {
+      for (const device of this.fleet.devices) {
+        const streams = this.getStreams(device);
+        for (const messageType of streams?.map(s => s.messageType) ?? [undefined]) {
+          const emission = await this.emit(device.devEui, messageType);
+          if (emission) emissions.push(emission);
+        }
+      }
+    }
+    return emissions;
+  }
+
+  /**
+   * Send a device's frames for an event (e.g. 'door') with optional event
+   * data, counted in the scheduler's status when the device is running
+   */
+  async fireEvent(devEui: string, event: string, data?: Record<string, unknown>): Promise<HeadlessEmission[]> {
+    const device = this.fleet.devices.find(d => d.devEui === devEui);
+    if (!device) throw new Error(`Device ${devEui} is not in the fleet`);
+
+    const emissions: HeadlessEmission[] = [];
+    for (const type of getEventMessageTypes(getDevice(device.model)!, event)) {
+      const emission = await this.emit(devEui, type.id, data);
+      if (!emission) continue;
+      emissions.push(emission);
+      if (this.scheduler.isRunning(devEui)) this.scheduler.recordEmission(devEui);
+    }
+    return emissions;
+  }
+
+  /**
+   * Emit on each device's interval until stop() is called; devices with
+   * event rules are also sampled and send rate-limited event frames
+   */
+  start(): void {
+    for (const device of this.fleet.devices) {
+      const libraryDevice = getDevice(device.model)!;
+      const sampler = hasEventRules(libraryDevice)
+        ? {
+          intervalSec: libraryDevice.sample_interval_sec ?? DEFAULT_SAMPLE_INTERVAL_SEC,
+          sample: (devEui: string) => this.sample(devEui),
+        }
+        : undefined;
+      this.scheduler.startDevice(device.devEui, device.intervalSec, async (devEui, messageType, data) => {
+        await this.emit(devEui, messageType, data);
+      }, { emitImmediately: true, messageStreams: this.getStreams(device), sampler });
+    }
+  }
+
+  /**
+   * Status of a running or stopped device, including event counts
+   */
+  getStatus(devEui: string): DeviceEmissionStatus | null {
+    return this.scheduler.getStatus(devEui);
+  }
+
+  stop(): void {
+    this.scheduler.stopAll();
+  }
+
+  /**
+   * Run on schedule for a span of virtual time, as fast as emissions complete
+   */
+  async runFor(durationMs: number): Promise<void> {
+    if (!(this.clock instanceof VirtualClock)) {
+      throw new Error('runFor requires a virtual clock');
+    }
+    this.start();
+    await this.clock.advance(durationMs);
+    this.stop();
+  }
+
+  get stats(): { sent: number; failed: number } {
+    return { sent: this.sent, failed: this.failed };
+  }
+}
+
+/**
+ * Create a new HeadlessRunner instance
+ */
+export function createHeadlessRunner(options: HeadlessRunnerOptions): HeadlessRunner {
+  return new HeadlessRunner(options);
+}
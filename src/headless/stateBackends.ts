@@ -0,0 +1,105 @@
+/**
+ * Headless State Backends
+ *
+ * Node-only persistence for the device library state store: a JSON file
+ * or a SQLite database. Both are synchronous, matching the store.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { createRequire } from 'node:module';
+import { dirname } from 'node:path';
+import { createMemoryBackend, type StateBackend } from '@/lib/deviceLibrary/stateBackend';
+
+// ============================================
+// JSON File
+// ============================================
+
+/**
+ * All keys in one JSON object, rewritten atomically on every change
+ */
+export function createJsonFileBackend(path: string): StateBackend {
+  const entries: Record<string, string> = existsSync(path)
+    ? JSON.parse(readFileSync(path, 'utf8'))
+    : {};
+
+  const flush = () => {
+    mkdirSync(dirname(path), { recursive: true });
+    const tmp = `${path}.tmp`;
+    writeFileSync(tmp, JSON.stringify(entries, null, 2));
+    renameSync(tmp, path);
+  };
+
+  return {
+    getItem: (key) => entries[key] ?? null,
+    setItem: (key, value) => {
+      entries[key] = value;
+      flush();
+    },
+    removeItem: (key) => {
+      if (!(key in entries)) return;
+      delete entries[key];
+      flush();
+    },
+  };
+}
+
+// ============================================
+// SQLite
+// ============================================
+
+interface SqliteStatement {
+  get(...params: unknown[]): unknown;
+  run(...params: unknown[]): unknown;
+}
+
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): SqliteStatement;
+}
+
+/**
+ * One row per key in a `state` table. Uses the built-in node:sqlite
+ * module (Node 22.5+), so no native dependency is needed.
+ */
+export function createSqliteBackend(path: string): StateBackend {
+  let DatabaseSync: new (path: string) => SqliteDatabase;
+  try {
+    ({ DatabaseSync } = createRequire(import.meta.url)('node:sqlite'));
+  } catch {
+    throw new Error(`SQLite state backend requires Node 22.5+ (node:sqlite is unavailable in ${process.version})`);
+  }
+
+  mkdirSync(dirname(path), { recursive: true });
+  const db = new DatabaseSync(path);
+  db.exec('CREATE TABLE IF NOT EXISTS state (key TEXT PRIMARY KEY, value TEXT NOT NULL)');
+
+  const select = db.prepare('SELECT value FROM state WHERE key = ?');
+  const upsert = db.prepare(
+    'INSERT INTO state (key, value) VALUES (?, ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value'
+  );
+  const remove = db.prepare('DELETE FROM state WHERE key = ?');
+
+  return {
+    getItem: (key) => (select.get(key) as { value: string } | undefined)?.value ?? null,
+    setItem: (key, value) => {
+      upsert.run(key, value);
+    },
+    removeItem: (key) => {
+      remove.run(key);
+    },
+  };
+}
+
+// ============================================
+// Spec Parsing
+// ============================================
+
+/**
+ * Create a backend from a CLI spec: `memory`, `file:<path>` or `sqlite:<path>`
+ */
+export function createStateBackendFromSpec(spec: string): StateBackend {
+  if (spec === 'memory') return createMemoryBackend();
+  if (spec.startsWith('file:')) return createJsonFileBackend(spec.slice('file:'.length));
+  if (spec.startsWith('sqlite:')) return createSqliteBackend(spec.slice('sqlite:'.length));
+  throw new Error(`Unknown state backend "${spec}" (expected memory, file:<path> or sqlite:<path>)`);
+}
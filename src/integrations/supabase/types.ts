@@ -181,10 +181,14 @@ export type Database = {
           app_key: string | null
           created_at: string | null
           description: string | null
+          dev_addr: string | null
           dev_eui: string
           firmware_version: string | null
           id: string
           join_eui: string | null
+          last_join_at: string | null
+          last_location: Json | null
+          last_location_at: string | null
           manufacturer: string | null
           model: string | null
           name: string | null
@@ -202,10 +206,14 @@ export type Database = {
           app_key?: string | null
           created_at?: string | null
           description?: string | null
+          dev_addr?: string | null
           dev_eui: string
           firmware_version?: string | null
           id?: string
           join_eui?: string | null
+          last_join_at?: string | null
+          last_location?: Json | null
+          last_location_at?: string | null
           manufacturer?: string | null
           model?: string | null
           name?: string | null
@@ -223,10 +231,14 @@ export type Database = {
           app_key?: string | null
           created_at?: string | null
           description?: string | null
+          dev_addr?: string | null
           dev_eui?: string
           firmware_version?: string | null
           id?: string
           join_eui?: string | null
+          last_join_at?: string | null
+          last_location?: Json | null
+          last_location_at?: string | null
           manufacturer?: string | null
           model?: string | null
           name?: string | null
@@ -266,6 +278,106 @@ export type Database = {
         }
         Relationships: []
       }
+      sensor_device_events: {
+        Row: {
+          correlation_ids: string[]
+          dev_eui: string | null
+          device_id: string | null
+          event_type: string
+          id: string
+          org_id: string | null
+          payload: Json | null
+          received_at: string
+          sensor_id: string | null
+        }
+        Insert: {
+          correlation_ids?: string[]
+          dev_eui?: string | null
+          device_id?: string | null
+          event_type: string
+          id?: string
+          org_id?: string | null
+          payload?: Json | null
+          received_at?: string
+          sensor_id?: string | null
+        }
+        Update: {
+          correlation_ids?: string[]
+          dev_eui?: string | null
+          device_id?: string | null
+          event_type?: string
+          id?: string
+          org_id?: string | null
+          payload?: Json | null
+          received_at?: string
+          sensor_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sensor_device_events_sensor_id_fkey"
+            columns: ["sensor_id"]
+            isOneToOne: false
+            referencedRelation: "lora_sensors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sensor_downlinks: {
+        Row: {
+          confirmed: boolean
+          created_at: string
+          dev_eui: string
+          downlink_id: string
+          error: Json | null
+          f_cnt: number | null
+          f_port: number | null
+          frm_payload: string | null
+          id: string
+          org_id: string | null
+          sensor_id: string | null
+          status: string
+          updated_at: string
+        }
+        Insert: {
+          confirmed?: boolean
+          created_at?: string
+          dev_eui: string
+          downlink_id: string
+          error?: Json | null
+          f_cnt?: number | null
+          f_port?: number | null
+          frm_payload?: string | null
+          id?: string
+          org_id?: string | null
+          sensor_id?: string | null
+          status: string
+          updated_at?: string
+        }
+        Update: {
+          confirmed?: boolean
+          created_at?: string
+          dev_eui?: string
+          downlink_id?: string
+          error?: Json | null
+          f_cnt?: number | null
+          f_port?: number | null
+          frm_payload?: string | null
+          id?: string
+          org_id?: string | null
+          sensor_id?: string | null
+          status?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sensor_downlinks_sensor_id_fkey"
+            columns: ["sensor_id"]
+            isOneToOne: false
+            referencedRelation: "lora_sensors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       sensor_readings: {
         Row: {
           battery_level: number | null
@@ -305,9 +417,13 @@ export type Database = {
       sensor_uplinks: {
         Row: {
           battery_pct: number | null
+          dedup_key: string | null
           dev_eui: string
+          f_cnt: number | null
+          f_cnt_status: string | null
           f_port: number | null
           id: string
+          ingest_decision: string | null
           org_id: string
           payload_json: Json | null
           received_at: string | null
@@ -317,9 +433,13 @@ export type Database = {
         }
         Insert: {
           battery_pct?: number | null
+          dedup_key?: string | null
           dev_eui: string
+          f_cnt?: number | null
+          f_cnt_status?: string | null
           f_port?: number | null
           id?: string
+          ingest_decision?: string | null
           org_id: string
           payload_json?: Json | null
           received_at?: string | null
@@ -329,9 +449,13 @@ export type Database = {
         }
         Update: {
           battery_pct?: number | null
+          dedup_key?: string | null
           dev_eui?: string
+          f_cnt?: number | null
+          f_cnt_status?: string | null
           f_port?: number | null
           id?: string
+          ingest_decision?: string | null
           org_id?: string
           payload_json?: Json | null
           received_at?: string | null
@@ -390,6 +514,8 @@ export type Database = {
         Row: {
           api_key: string | null
           application_id: string | null
+          application_server_url: string | null
+          base_url: string | null
           cluster: string
           created_at: string
           enabled: boolean
@@ -397,16 +523,23 @@ export type Database = {
           gateway_owner_id: string | null
           gateway_owner_type: string | null
           id: string
+          identity_server_url: string | null
+          join_server_url: string | null
           last_test_at: string | null
           last_test_success: boolean | null
+          network_server_url: string | null
           org_id: string
+          previous_webhook_secrets: Json
           site_id: string | null
           updated_at: string
+          webhook_auth_mode: string
           webhook_secret: string | null
         }
         Insert: {
           api_key?: string | null
           application_id?: string | null
+          application_server_url?: string | null
+          base_url?: string | null
           cluster?: string
           created_at?: string
           enabled?: boolean
@@ -414,16 +547,23 @@ export type Database = {
           gateway_owner_id?: string | null
           gateway_owner_type?: string | null
           id?: string
+          identity_server_url?: string | null
+          join_server_url?: string | null
           last_test_at?: string | null
           last_test_success?: boolean | null
+          network_server_url?: string | null
           org_id: string
+          previous_webhook_secrets?: Json
           site_id?: string | null
           updated_at?: string
+          webhook_auth_mode?: string
           webhook_secret?: string | null
         }
         Update: {
           api_key?: string | null
           application_id?: string | null
+          application_server_url?: string | null
+          base_url?: string | null
           cluster?: string
           created_at?: string
           enabled?: boolean
@@ -431,11 +571,16 @@ export type Database = {
           gateway_owner_id?: string | null
           gateway_owner_type?: string | null
           id?: string
+          identity_server_url?: string | null
+          join_server_url?: string | null
           last_test_at?: string | null
           last_test_success?: boolean | null
+          network_server_url?: string | null
           org_id?: string
+          previous_webhook_secrets?: Json
           site_id?: string | null
           updated_at?: string
+          webhook_auth_mode?: string
           webhook_secret?: string | null
         }
         Relationships: []
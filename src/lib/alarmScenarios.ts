@@ -16,9 +16,11 @@
  *   - Batch "Run All Quick": runs all non-time-dependent scenarios
  *   - Manual pass/fail confirmation by user
  *   - Cancellable runs via AbortSignal
+ *   - Delays and timestamps follow the simulation clock (accelerated/virtual runs)
  */
 
 import { supabase } from "@/integrations/supabase/client";
+import { simNowIso, simSleep } from "@/lib/deviceLibrary/clock";
 
 // ─── Types ──────────────────────────────────────────────────────────────────
 
@@ -289,8 +291,8 @@ export async function runScenario(
   if (!ttnContext) {
     return {
       scenario_id: scenarioId,
-      started_at: new Date().toISOString(),
-      completed_at: new Date().toISOString(),
+      started_at: simNowIso(),
+      completed_at: simNowIso(),
       payloads_sent: 0,
       status: "failed",
       error: "TTN context missing — select a user and ensure TTN is configured",
@@ -303,8 +305,8 @@ export async function runScenario(
   if (!scenario) {
     return {
       scenario_id: scenarioId,
-      started_at: new Date().toISOString(),
-      completed_at: new Date().toISOString(),
+      started_at: simNowIso(),
+      completed_at: simNowIso(),
       payloads_sent: 0,
       status: "failed",
       error: `Scenario not found: ${scenarioId}`,
@@ -313,7 +315,7 @@ export async function runScenario(
     };
   }
 
-  const startedAt = new Date().toISOString();
+  const startedAt = simNowIso();
   const steps: ScenarioResult["steps"] = [];
   const payloads = scenario.payload_sequence;
 
@@ -322,7 +324,7 @@ export async function runScenario(
       return {
         scenario_id: scenarioId,
         started_at: startedAt,
-        completed_at: new Date().toISOString(),
+        completed_at: simNowIso(),
         payloads_sent: steps.filter((s) => s.success).length,
         status: "failed",
         error: "Cancelled",
@@ -347,7 +349,7 @@ export async function runScenario(
         status: "waiting",
       });
 
-      await sleep(effectiveDelay, signal);
+      await simSleep(effectiveDelay, signal);
     }
 
     onProgress?.({
@@ -386,7 +388,7 @@ export async function runScenario(
       steps.push({
         step: i + 1,
         description: step.description,
-        sent_at: new Date().toISOString(),
+        sent_at: simNowIso(),
         success: !ttnError,
         error: ttnError,
       });
@@ -395,7 +397,7 @@ export async function runScenario(
       steps.push({
         step: i + 1,
         description: step.description,
-        sent_at: new Date().toISOString(),
+        sent_at: simNowIso(),
         success: false,
         error: msg,
       });
@@ -403,7 +405,7 @@ export async function runScenario(
       return {
         scenario_id: scenarioId,
         started_at: startedAt,
-        completed_at: new Date().toISOString(),
+        completed_at: simNowIso(),
         payloads_sent: steps.filter((s) => s.success).length,
         status: "failed",
         error: `Step ${i + 1} failed: ${msg}`,
@@ -426,7 +428,7 @@ export async function runScenario(
   return {
     scenario_id: scenarioId,
     started_at: startedAt,
-    completed_at: new Date().toISOString(),
+    completed_at: simNowIso(),
     payloads_sent: steps.filter((s) => s.success).length,
     status: allStepsOk ? "awaiting_confirmation" as const : "failed" as const,
     error: !allStepsOk
@@ -439,14 +441,6 @@ export async function runScenario(
 
 // ─── Helpers ───────────────────────────────────────────────────────────────
 
-function sleep(ms: number, signal?: AbortSignal): Promise<void> {
-  return new Promise((resolve) => {
-    if (signal?.aborted) return resolve();
-    const timeout = setTimeout(resolve, ms);
-    signal?.addEventListener("abort", () => { clearTimeout(timeout); resolve(); }, { once: true });
-  });
-}
-
 function formatDelay(ms: number): string {
   if (ms < 1000) return `${ms}ms`;
   if (ms < 60_000) return `${Math.round(ms / 1000)}s`;
@@ -0,0 +1,195 @@
+/**
+ * LoRa Time-on-Air
+ *
+ * Semtech SX127x time-on-air formula (AN1200.13) for LoRaWAN uplinks,
+ * and the airtime budgets a real network enforces: the EU868 1% duty
+ * cycle, TTN's 30 s/day fair-use policy and per-gateway channel load.
+ */
+
+import type { DeviceDefinition } from './types';
+import type { SpreadingFactor } from './rfModel';
+import { DEFAULT_RF_LINK } from './rfModel';
+import { DEFAULT_REGION, getChannelPlan, RegionId } from './channelPlans';
+import { encodeDeviceFrmPayload, base64ToBytes } from './payloadCodec';
+
+// ============================================
+// Types
+// ============================================
+
+export interface AirtimeParams {
+  spreadingFactor: SpreadingFactor;
+  bandwidthHz: number;
+  codingRate: string;       // '4/5' … '4/8'
+  preambleSymbols?: number; // LoRaWAN: 8
+  explicitHeader?: boolean; // LoRaWAN uplinks: true
+  crc?: boolean;            // LoRaWAN uplinks: true
+}
+
+/**
+ * Airtime limits applied to a fleet
+ */
+export interface AirtimePolicy {
+  dutyCycle: number | null;          // Max fraction of time on air per device
+  fairUseMsPerDay: number | null;    // Max airtime per device per day
+  gatewayOccupancy: number | null;   // Max summed uplink occupancy per gateway
+}
+
+/**
+ * Result of checking one device's interval against a policy
+ */
+export interface AirtimeBudgetCheck {
+  airtimeMs: number;       // Per uplink
+  intervalSec: number;
+  dailyAirtimeMs: number;
+  minIntervalSec: number;  // Shortest interval that satisfies every limit
+  violations: string[];
+}
+
+/** MHDR (1) + FHDR without FOpts (7) + FPort (1) + MIC (4) */
+export const LORAWAN_OVERHEAD_BYTES = 13;
+
+/** TTN Community fair-use policy: 30 s of uplink airtime per device per day */
+export const TTN_FAIR_USE_MS_PER_DAY = 30_000;
+
+/** Frame size assumed for devices without a library codec (LHT65-sized) */
+export const DEFAULT_FRM_PAYLOAD_BYTES = 11;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Gateway occupancy is capped at 10% - well below pure-ALOHA saturation
+ * (18%) so simulated fleets keep a realistic collision rate.
+ */
+export const AIRTIME_POLICIES: Record<RegionId, AirtimePolicy> = {
+  EU868: { dutyCycle: 0.01, fairUseMsPerDay: TTN_FAIR_USE_MS_PER_DAY, gatewayOccupancy: 0.1 },
+  US915: { dutyCycle: null, fairUseMsPerDay: TTN_FAIR_USE_MS_PER_DAY, gatewayOccupancy: 0.1 },
+  AU915: { dutyCycle: null, fairUseMsPerDay: TTN_FAIR_USE_MS_PER_DAY, gatewayOccupancy: 0.1 },
+};
+
+// ============================================
+// Calculation
+// ============================================
+
+/**
+ * Coding rate denominator offset: '4/5' → 1 … '4/8' → 4
+ */
+function codingRateIndex(codingRate: string): number {
+  const match = codingRate.match(/^4\/([5-8])$/);
+  if (!match) throw new Error(`Unsupported coding rate "${codingRate}"`);
+  return Number(match[1]) - 4;
+}
+
+/**
+ * Time on air in milliseconds for a PHY payload of the given length
+ *
+ * @param phyPayloadBytes - Full PHY payload (FRMPayload + LORAWAN_OVERHEAD_BYTES)
+ */
+export function calculateAirtimeMs(phyPayloadBytes: number, params: AirtimeParams): number {
+  const sf = params.spreadingFactor;
+  const symbolMs = (Math.pow(2, sf) / params.bandwidthHz) * 1000;
+  const lowDataRateOptimize = symbolMs > 16 ? 1 : 0;
+  const header = (params.explicitHeader ?? true) ? 0 : 1;
+  const crc = (params.crc ?? true) ? 1 : 0;
+  const cr = codingRateIndex(params.codingRate);
+
+  const preambleMs = ((params.preambleSymbols ?? 8) + 4.25) * symbolMs;
+  const payloadSymbols = 8 + Math.max(
+    Math.ceil((8 * phyPayloadBytes - 4 * sf + 28 + 16 * crc - 20 * header) / (4 * (sf - 2 * lowDataRateOptimize))) * (cr + 4),
+    0
+  );
+  return preambleMs + payloadSymbols * symbolMs;
+}
+
+/**
+ * Time on air for an uplink carrying frmPayloadBytes of application data
+ */
+export function calculateUplinkAirtimeMs(frmPayloadBytes: number, params: AirtimeParams): number {
+  return calculateAirtimeMs(frmPayloadBytes + LORAWAN_OVERHEAD_BYTES, params);
+}
+
+/**
+ * Estimate a device's uplink airtime in its region.
+ * Library devices use the size of their example frame.
+ */
+export function estimateDeviceAirtimeMs(
+  device: DeviceDefinition | undefined,
+  region: RegionId = DEFAULT_REGION,
+  spreadingFactor: SpreadingFactor = DEFAULT_RF_LINK.spreadingFactor
+): number {
+  const plan = getChannelPlan(region);
+  const frmBytes = device
+    ? base64ToBytes(encodeDeviceFrmPayload(device, device.examples.normal)).length
+    : DEFAULT_FRM_PAYLOAD_BYTES;
+  return calculateUplinkAirtimeMs(frmBytes, {
+    spreadingFactor: Math.min(spreadingFactor, plan.maxSpreadingFactor) as SpreadingFactor,
+    bandwidthHz: plan.bandwidthHz,
+    codingRate: plan.codingRate,
+  });
+}
+
+// ============================================
+// Budgets
+// ============================================
+
+export function getAirtimePolicy(region: RegionId = DEFAULT_REGION): AirtimePolicy {
+  return AIRTIME_POLICIES[region];
+}
+
+/**
+ * Airtime per day for a device emitting every intervalSec
+ */
+export function dailyAirtimeMs(airtimeMs: number, intervalSec: number): number {
+  return intervalSec > 0 ? (airtimeMs * MS_PER_DAY) / (intervalSec * 1000) : Infinity;
+}
+
+/**
+ * Check an emission interval against a policy
+ *
+ * @param airtimeMs - Airtime of one uplink
+ * @param intervalSec - Requested emission interval
+ * @param policy - Limits to enforce
+ * @param gatewayLoad - Occupancy already used on the device's gateway by other devices
+ */
+export function checkAirtimeBudget(
+  airtimeMs: number,
+  intervalSec: number,
+  policy: AirtimePolicy,
+  gatewayLoad: number = 0
+): AirtimeBudgetCheck {
+  const daily = dailyAirtimeMs(airtimeMs, intervalSec);
+  const occupancy = intervalSec > 0 ? airtimeMs / (intervalSec * 1000) : Infinity;
+  const violations: string[] = [];
+  const minimums: number[] = [airtimeMs / 1000];
+
+  if (policy.dutyCycle !== null) {
+    minimums.push(airtimeMs / 1000 / policy.dutyCycle);
+    if (occupancy > policy.dutyCycle) {
+      violations.push(`Duty cycle ${(occupancy * 100).toFixed(2)}% exceeds ${policy.dutyCycle * 100}%`);
+    }
+  }
+
+  if (policy.fairUseMsPerDay !== null) {
+    minimums.push((airtimeMs * MS_PER_DAY) / policy.fairUseMsPerDay / 1000);
+    if (daily > policy.fairUseMsPerDay) {
+      violations.push(`Daily airtime ${(daily / 1000).toFixed(1)}s exceeds fair use of ${policy.fairUseMsPerDay / 1000}s`);
+    }
+  }
+
+  if (policy.gatewayOccupancy !== null) {
+    const remaining = policy.gatewayOccupancy - gatewayLoad;
+    minimums.push(remaining > 0 ? airtimeMs / 1000 / remaining : Infinity);
+    if (gatewayLoad + occupancy > policy.gatewayOccupancy) {
+      violations.push(
+        `Gateway occupancy ${((gatewayLoad + occupancy) * 100).toFixed(1)}% exceeds ${policy.gatewayOccupancy * 100}%`
+      );
+    }
+  }
+
+  return {
+    airtimeMs,
+    intervalSec,
+    dailyAirtimeMs: daily,
+    minIntervalSec: Math.ceil(Math.max(...minimums)),
+    violations,
+  };
+}
@@ -0,0 +1,384 @@
+/**
+ * Historical Backfill
+ *
+ * Deterministically generates the full timeline of past uplinks for a set
+ * of devices over a date range, with historical received_at, and pushes it
+ * in batches. Progress is persisted per job so an interrupted run resumes
+ * where it stopped.
+ */
+
+import type { DeviceDefinition, DeviceSimulationState, FleetDevice, FleetGateway, SimulationContext } from './types';
+import type { RegionId } from './channelPlans';
+import { getDevice } from './loader';
+import { createInitialSimulationState, cyrb53, generateDevicePayload } from './simulationEngine';
+import { composeMessagePayload } from './scenarioComposer';
+import { getMessageStreams, getMessageTypes, hasMessageTypes } from './messageTypes';
+import { DEFAULT_SAMPLE_INTERVAL_SEC, hasEventRules, sampleEventRules } from './eventRules';
+import { buildLibraryEnvelope, type TTNEnvelope } from './envelopeBuilder';
+import { getStateBackend } from './stateBackend';
+
+// ============================================
+// Types
+// ============================================
+
+export type BackfillDevice = Pick<FleetDevice, 'devEui' | 'model' | 'gatewayId' | 'name' | 'siteId' | 'unitId' | 'location'>;
+
+export interface BackfillOptions {
+  devices: BackfillDevice[];
+  gateways: FleetGateway[];
+  from: number;                // Epoch ms of the first reading
+  to: number;                  // Epoch ms, inclusive
+  intervalSec: number;
+  seed: string;
+  applicationId: string;
+  orgId?: string;
+  siteId?: string;
+  region?: RegionId;
+}
+
+/**
+ * One generated uplink in the timeline
+ */
+export interface BackfillEntry {
+  index: number;               // Position in the timeline (time-major, then device and frame order)
+  device: BackfillDevice;
+  recordedAt: string;
+  envelope: TTNEnvelope;
+}
+
+export interface BackfillProgress {
+  jobId: string;
+  total: number;
+  completed: number;           // Entries pushed so far; the resume cursor
+  ingested: number;
+  failed: number;
+  startedAt: string;
+  updatedAt: string;
+  finishedAt?: string;
+}
+
+/**
+ * Outcome of pushing one batch. A fatal result (e.g. bad credentials)
+ * stops the run without advancing the cursor, so resuming retries it.
+ */
+export interface BackfillBatchResult {
+  ingested: number;
+  failed: number;
+  error?: string;
+  fatal?: boolean;
+}
+
+export interface BackfillRunOptions {
+  send: (entries: BackfillEntry[]) => Promise<BackfillBatchResult>;
+  batchSize?: number;          // Default: 100
+  resume?: boolean;            // Continue from saved progress (default: true)
+  signal?: AbortSignal;        // Stops after the in-flight batch
+  onProgress?: (progress: BackfillProgress) => void;
+}
+
+export interface BackfillRunResult {
+  progress: BackfillProgress;
+  errors: string[];
+  stopped: boolean;            // Aborted or hit a fatal batch before the end
+}
+
+export const DEFAULT_BACKFILL_BATCH_SIZE = 100;
+
+const STORAGE_KEY_BACKFILL_PROGRESS = 'backfill-progress-v1';
+
+// ============================================
+// Timeline Generation
+// ============================================
+
+/**
+ * A periodic timer of one device: a message type stream, or the event
+ * rule sampler. Streams of devices without message_types send the plain
+ * uplink (no messageType).
+ */
+interface BackfillTimer {
+  device: number;
+  kind: 'stream' | 'sample';
+  messageType?: string;
+  intervalMs: number;
+}
+
+/**
+ * A generated frame before it is wrapped in an envelope
+ */
+interface BackfillFrame {
+  device: number;
+  time: number;
+  messageType?: string;
+  fields: Record<string, unknown>;
+  state: DeviceSimulationState;   // Shallow copy; the frame counters as of this frame
+  context: SimulationContext;
+}
+
+function requireModels(options: BackfillOptions): DeviceDefinition[] {
+  return options.devices.map(device => {
+    const libraryDevice = getDevice(device.model);
+    if (!libraryDevice) throw new Error(`Device ${device.devEui} uses unknown library model "${device.model}"`);
+    return libraryDevice;
+  });
+}
+
+/**
+ * The same timers the emission scheduler runs: one per message type
+ * stream at its own interval (else the job's), plus a sampler for
+ * devices with event rules
+ */
+function getBackfillTimers(options: BackfillOptions, models: DeviceDefinition[]): BackfillTimer[] {
+  const timers: BackfillTimer[] = [];
+  models.forEach((model, device) => {
+    if (hasMessageTypes(model)) {
+      for (const stream of getMessageStreams(model)) {
+        timers.push({ device, kind: 'stream', messageType: stream.messageType, intervalMs: (stream.intervalSec ?? options.intervalSec) * 1000 });
+      }
+    } else {
+      timers.push({ device, kind: 'stream', intervalMs: options.intervalSec * 1000 });
+    }
+    if (hasEventRules(model)) {
+      timers.push({ device, kind: 'sample', intervalMs: (model.sample_interval_sec ?? DEFAULT_SAMPLE_INTERVAL_SEC) * 1000 });
+    }
+  });
+  return timers;
+}
+
+/**
+ * Run the timers over the range in time order (ties in device, then
+ * timer order) and yield every frame that is sent. on_change samples
+ * that saw no change and rate-limited event rules send nothing.
+ */
+function* generateFrames(options: BackfillOptions): Generator<BackfillFrame> {
+  if (!(options.intervalSec > 0)) throw new Error(`Backfill interval must be positive, got ${options.intervalSec}`);
+  if (options.to < options.from) throw new Error('Backfill range ends before it starts');
+
+  const models = requireModels(options);
+  const states: DeviceSimulationState[] = options.devices.map(device => ({
+    ...createInitialSimulationState(device.devEui, device.model),
+    createdAt: new Date(options.from).toISOString(),
+    updatedAt: new Date(options.from).toISOString(),
+  }));
+  const timers = getBackfillTimers(options, models);
+  const due = timers.map(() => options.from);
+  const eventFiredAt = new Map<string, number>();
+
+  const contextOf = (i: number): SimulationContext => ({
+    orgId: options.orgId ?? '',
+    siteId: options.devices[i].siteId ?? options.siteId ?? '',
+    unitId: options.devices[i].unitId ?? '',
+    deviceInstanceId: options.devices[i].devEui,
+    emissionSequence: states[i].emissionSequence,
+    seed: options.seed,
+  });
+
+  for (;;) {
+    let next = -1;
+    for (let t = 0; t < timers.length; t++) {
+      if (due[t] <= options.to && (next < 0 || due[t] < due[next])) next = t;
+    }
+    if (next < 0) return;
+
+    const timer = timers[next];
+    const time = due[next];
+    const i = timer.device;
+    due[next] += timer.intervalMs;
+
+    if (timer.kind === 'sample') {
+      const { updatedState, triggers } = sampleEventRules(models[i], states[i], contextOf(i), { emissionTime: time });
+      states[i] = updatedState;
+      for (const trigger of triggers) {
+        const key = `${i}:${trigger.ruleId}`;
+        const lastFiredAt = eventFiredAt.get(key);
+        if (lastFiredAt !== undefined && time - lastFiredAt < trigger.minIntervalSec * 1000) continue;
+        eventFiredAt.set(key, time);
+
+        const context = contextOf(i);
+        const frame = composeMessagePayload(models[i], trigger.messageType, states[i], context, {
+          emissionTime: time,
+          overrides: trigger.data,
+        });
+        states[i] = frame.updatedState;
+        yield { device: i, time, messageType: trigger.messageType, fields: frame.fields, state: { ...frame.updatedState }, context };
+      }
+      continue;
+    }
+
+    const context = contextOf(i);
+    if (timer.messageType) {
+      const frame = composeMessagePayload(models[i], timer.messageType, states[i], context, { emissionTime: time });
+      states[i] = frame.updatedState;
+      if (frame.send) yield { device: i, time, messageType: timer.messageType, fields: frame.fields, state: { ...frame.updatedState }, context };
+    } else {
+      const { fields, updatedState } = generateDevicePayload(models[i], states[i], context, 'normal', { emissionTime: time });
+      states[i] = updatedState;
+      yield { device: i, time, fields, state: { ...updatedState }, context };
+    }
+  }
+}
+
+/**
+ * Number of uplinks the job produces. Fixed periods are counted
+ * directly; on_change frames and event rules depend on the simulated
+ * values, so those jobs are simulated (without building envelopes).
+ */
+export function countBackfillEntries(options: BackfillOptions): number {
+  if (options.to < options.from || !(options.intervalSec > 0)) return 0;
+
+  const models = requireModels(options);
+  const sampled = models.some(model =>
+    hasEventRules(model) || getMessageTypes(model).some(type => type.trigger === 'on_change'));
+  if (sampled) {
+    let count = 0;
+    for (const _frame of generateFrames(options)) count++;
+    return count;
+  }
+
+  return getBackfillTimers(options, models)
+    .reduce((total, timer) => total + Math.floor((options.to - options.from) / timer.intervalMs) + 1, 0);
+}
+
+/**
+ * Stable id for a job; the same devices, range, interval and seed
+ * always map to the same id (and the same saved progress).
+ */
+export function getBackfillJobId(options: BackfillOptions): string {
+  const key = JSON.stringify([
+    options.seed,
+    options.applicationId,
+    options.orgId ?? '',
+    options.siteId ?? '',
+    options.region ?? '',
+    options.from,
+    options.to,
+    options.intervalSec,
+    options.devices.map(d => [d.devEui.toUpperCase(), d.model, d.gatewayId, d.siteId ?? '', d.unitId ?? '']),
+  ]);
+  return `backfill-${cyrb53(key).toString(36)}`;
+}
+
+/**
+ * Wrap generated frames in envelopes, numbering them from `start`
+ */
+function* frameEntries(options: BackfillOptions, frames: Iterable<BackfillFrame>, start = 0): Generator<BackfillEntry> {
+  let index = start;
+  for (const frame of frames) {
+    const device = options.devices[frame.device];
+    const recordedAt = new Date(frame.time).toISOString();
+    const envelope = buildLibraryEnvelope(
+      { devEui: device.devEui, name: device.name ?? device.devEui, gatewayId: device.gatewayId, location: device.location },
+      options.gateways,
+      frame.fields,
+      getDevice(device.model)!,
+      frame.state,
+      options.applicationId,
+      { context: frame.context, region: options.region, serverTimestamp: recordedAt, messageType: frame.messageType }
+    );
+
+    yield { index: index++, device, recordedAt, envelope };
+  }
+}
+
+/**
+ * Generate the timeline in order. Each device starts from a fresh
+ * simulation state, so live f_cnt and drift are left untouched and the
+ * output depends only on the options. Frames follow the device's message
+ * types (each on its own interval, with its fPort) and event rules.
+ */
+export function generateBackfill(options: BackfillOptions): Generator<BackfillEntry> {
+  return frameEntries(options, generateFrames(options));
+}
+
+// ============================================
+// Progress Persistence
+// ============================================
+
+function loadAllProgress(): Record<string, BackfillProgress> {
+  try {
+    const stored = getStateBackend().getItem(STORAGE_KEY_BACKFILL_PROGRESS);
+    return stored ? JSON.parse(stored) as Record<string, BackfillProgress> : {};
+  } catch (e) {
+    console.warn('[Backfill] Failed to load progress:', e);
+    return {};
+  }
+}
+
+function saveProgress(progress: BackfillProgress): void {
+  try {
+    const all = loadAllProgress();
+    all[progress.jobId] = progress;
+    getStateBackend().setItem(STORAGE_KEY_BACKFILL_PROGRESS, JSON.stringify(all));
+  } catch (e) {
+    console.warn('[Backfill] Failed to save progress:', e);
+  }
+}
+
+/**
+ * Saved progress for a job, if it has been started
+ */
+export function getBackfillProgress(jobId: string): BackfillProgress | null {
+  return loadAllProgress()[jobId] ?? null;
+}
+
+/**
+ * Forget a job's progress so the next run starts from the beginning
+ */
+export function clearBackfillProgress(jobId: string): void {
+  try {
+    const all = loadAllProgress();
+    delete all[jobId];
+    getStateBackend().setItem(STORAGE_KEY_BACKFILL_PROGRESS, JSON.stringify(all));
+  } catch (e) {
+    console.warn('[Backfill] Failed to clear progress:', e);
+  }
+}
+
+// ============================================
+// Batched Delivery
+// ============================================
+
+/**
+ * Push the timeline in batches, saving progress after each one. The
+ * timeline is simulated once up front, which also gives the total;
+ * frames before the saved cursor are not wrapped or sent again.
+ */
+export async function runBackfill(options: BackfillOptions, run: BackfillRunOptions): Promise<BackfillRunResult> {
+  const jobId = getBackfillJobId(options);
+  const frames = [...generateFrames(options)];
+  const total = frames.length;
+  const batchSize = Math.max(1, run.batchSize ?? DEFAULT_BACKFILL_BATCH_SIZE);
+  const now = () => new Date().toISOString();
+
+  const saved = run.resume !== false ? getBackfillProgress(jobId) : null;
+  const progress: BackfillProgress = saved && saved.total === total
+    ? { ...saved }
+    : { jobId, total, completed: 0, ingested: 0, failed: 0, startedAt: now(), updatedAt: now() };
+  const errors: string[] = [];
+  run.onProgress?.({ ...progress });
+
+  let batch: BackfillEntry[] = [];
+  const flush = async (): Promise<boolean> => {
+    const result = await run.send(batch);
+    if (result.error) errors.push(result.error);
+    if (result.fatal) return false;
+
+    progress.completed += batch.length;
+    progress.ingested += result.ingested;
+    progress.failed += result.failed;
+    progress.updatedAt = now();
+    if (progress.completed >= total) progress.finishedAt = progress.updatedAt;
+    saveProgress(progress);
+    run.onProgress?.({ ...progress });
+    batch = [];
+    return true;
+  };
+
+  for (const entry of frameEntries(options, frames.slice(progress.completed), progress.completed)) {
+    if (run.signal?.aborted) return { progress, errors, stopped: true };
+    batch.push(entry);
+    if (batch.length >= batchSize && !(await flush())) return { progress, errors, stopped: true };
+  }
+  if (batch.length > 0 && !run.signal?.aborted && !(await flush())) return { progress, errors, stopped: true };
+
+  return { progress, errors, stopped: progress.completed < total };
+}
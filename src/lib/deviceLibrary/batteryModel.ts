@@ -0,0 +1,102 @@
+/**
+ * Battery Discharge Model
+ *
+ * Tracks remaining charge per device so battery_level declines
+ * monotonically with each uplink and with elapsed time, instead of
+ * being drawn at random per emission.
+ */
+
+import type { BatteryModelConfig, BatteryState, SimulationProfile } from './types';
+
+// ============================================
+// Defaults
+// ============================================
+
+/**
+ * Li-SOCl2 AA-size cell (ER14505) at SF7-SF9 uplink costs
+ */
+export const DEFAULT_BATTERY_MODEL: BatteryModelConfig = {
+  capacityMah: 2400,
+  uplinkCostMah: 0.05,
+  selfDischargePctPerYear: 1,
+  referenceTempC: 20,
+  deratingPctPerDegree: 1.5,
+  initialPct: 100,
+  lowThresholdPct: 10,
+};
+
+/** Field driven by the discharge model */
+export const BATTERY_LEVEL_FIELD = 'battery_level';
+
+const MS_PER_YEAR = 365 * 24 * 60 * 60 * 1000;
+
+// ============================================
+// Model
+// ============================================
+
+/**
+ * Resolve a profile's battery config over the defaults
+ */
+export function resolveBatteryModel(profile?: SimulationProfile): BatteryModelConfig {
+  return { ...DEFAULT_BATTERY_MODEL, ...profile?.battery };
+}
+
+/**
+ * Check whether a profile's battery_level is driven by the discharge model
+ */
+export function usesBatteryModel(profile: SimulationProfile): boolean {
+  const config = profile.fields[BATTERY_LEVEL_FIELD];
+  return !!config && (config.type === 'int' || config.type === 'float') && !config.static;
+}
+
+/**
+ * Create a battery at the config's initial charge
+ */
+export function createBatteryState(config: BatteryModelConfig, initialPct: number = config.initialPct): BatteryState {
+  return {
+    remainingMah: (config.capacityMah * Math.max(0, Math.min(100, initialPct))) / 100,
+    lastDischargeAt: null,
+  };
+}
+
+/**
+ * Remaining charge as a percentage of capacity
+ */
+export function getBatteryPct(battery: BatteryState, config: BatteryModelConfig): number {
+  return (battery.remainingMah / config.capacityMah) * 100;
+}
+
+/**
+ * Check whether the battery is at or below the low threshold
+ */
+export function isBatteryLow(battery: BatteryState, config: BatteryModelConfig): boolean {
+  return getBatteryPct(battery, config) <= config.lowThresholdPct;
+}
+
+/**
+ * Apply one uplink's discharge: self-discharge over the time since the
+ * previous uplink plus the uplink cost, derated below the reference
+ * temperature. Never increases remaining charge.
+ *
+ * @param battery - Current battery state (not mutated)
+ * @param config - Discharge parameters
+ * @param at - Uplink time in Unix ms
+ * @param temperatureC - Device temperature, if known
+ */
+export function dischargeBattery(
+  battery: BatteryState,
+  config: BatteryModelConfig,
+  at: number,
+  temperatureC?: number
+): BatteryState {
+  const elapsedMs = battery.lastDischargeAt === null ? 0 : Math.max(0, at - battery.lastDischargeAt);
+  const selfDischarge = (config.capacityMah * config.selfDischargePctPerYear / 100) * (elapsedMs / MS_PER_YEAR);
+
+  const degreesBelow = temperatureC === undefined ? 0 : Math.max(0, config.referenceTempC - temperatureC);
+  const uplinkCost = config.uplinkCostMah * (1 + (degreesBelow * config.deratingPctPerDegree) / 100);
+
+  return {
+    remainingMah: Math.max(0, battery.remainingMah - selfDischarge - uplinkCost),
+    lastDischargeAt: Math.max(at, battery.lastDischargeAt ?? at),
+  };
+}
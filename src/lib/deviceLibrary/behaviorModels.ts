@@ -0,0 +1,85 @@
+/**
+ * Field Behavior Models
+ *
+ * Time-series shapes for numeric fields, evaluated against emission time
+ * so simulated refrigeration units follow realistic curves: diurnal
+ * cycles, compressor duty cycles, defrost spikes and door-open recovery.
+ */
+
+import type { BehaviorModel, FieldBehavior } from './types';
+
+// ============================================
+// Model Evaluation
+// ============================================
+
+/**
+ * Position within a repeating period, in [0, period)
+ */
+function cyclePosition(timeSeconds: number, periodSeconds: number, offsetSeconds: number = 0): number {
+  const t = (timeSeconds - offsetSeconds) % periodSeconds;
+  return t < 0 ? t + periodSeconds : t;
+}
+
+/**
+ * Evaluate a single model as a deviation from the field baseline
+ */
+export function evaluateBehaviorModel(model: BehaviorModel, timeSeconds: number): number {
+  switch (model.model) {
+    case 'sinusoid': {
+      const t = cyclePosition(timeSeconds, model.periodSeconds, model.phaseSeconds);
+      return model.amplitude * Math.sin((2 * Math.PI * t) / model.periodSeconds);
+    }
+
+    case 'sawtooth': {
+      // Compressor on: fall from +amplitude/2 to -amplitude/2 over dutyCycle
+      // of the period; compressor off: warm back up over the remainder
+      const t = cyclePosition(timeSeconds, model.periodSeconds, model.phaseSeconds);
+      const onSeconds = model.periodSeconds * model.dutyCycle;
+      const half = model.amplitude / 2;
+      if (t < onSeconds) {
+        return half - (model.amplitude * t) / onSeconds;
+      }
+      return -half + (model.amplitude * (t - onSeconds)) / (model.periodSeconds - onSeconds);
+    }
+
+    case 'spike': {
+      // Triangular pulse: ramp to magnitude at mid-duration, then back
+      const t = cyclePosition(timeSeconds, model.intervalSeconds, model.offsetSeconds);
+      if (t >= model.durationSeconds) return 0;
+      const mid = model.durationSeconds / 2;
+      return model.magnitude * (t <= mid ? t / mid : (model.durationSeconds - t) / mid);
+    }
+
+    case 'recovery': {
+      const t = cyclePosition(timeSeconds, model.intervalSeconds, model.offsetSeconds);
+      return model.magnitude * Math.exp(-t / model.timeConstantSeconds);
+    }
+
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Evaluate a field behavior at the given time.
+ * Returns the unclamped, unrounded value: baseline plus the sum of all
+ * model deviations plus seeded noise in [-noise, +noise].
+ *
+ * @param behavior - Behavior from the field config
+ * @param timeSeconds - Emission time in Unix seconds
+ * @param random - Seeded value in [0, 1) for noise
+ */
+export function evaluateFieldBehavior(
+  behavior: FieldBehavior,
+  timeSeconds: number,
+  random: number
+): number {
+  let value = behavior.baseline;
+  for (const model of behavior.models) {
+    value += evaluateBehaviorModel(model, timeSeconds);
+  }
+  if (behavior.noise) {
+    value += (random * 2 - 1) * behavior.noise;
+  }
+  return value;
+}
@@ -0,0 +1,354 @@
+/**
+ * Cayenne LPP Codec
+ *
+ * Encodes and decodes Cayenne Low Power Payload frames for devices with
+ * payload_format: 'cayenne'. Channels and data types are inferred from the
+ * device's simulation_profile.fields, in field order.
+ */
+
+import type {
+  SimulationProfile,
+  FieldConfig,
+  NumericFieldConfig,
+  EnumFieldConfig,
+} from './types';
+
+// ============================================
+// Types
+// ============================================
+
+export type CayenneType =
+  | 'digital_input'
+  | 'digital_output'
+  | 'analog_input'
+  | 'analog_output'
+  | 'illuminance'
+  | 'presence'
+  | 'temperature'
+  | 'humidity'
+  | 'barometer'
+  | 'gps';
+
+/**
+ * One LPP channel mapped onto simulation_profile fields.
+ * GPS channels carry [latitude, longitude, altitude?]; all others one field.
+ */
+export interface CayenneChannel {
+  channel: number;
+  type: CayenneType;
+  fields: string[];
+  /** Enum values, indexed by the digital value on the wire */
+  values?: string[];
+}
+
+export interface CayenneMapping {
+  channels: CayenneChannel[];
+  /** Profile fields that have no LPP representation */
+  unmapped: string[];
+}
+
+/**
+ * A raw channel reading parsed from an LPP frame
+ */
+export interface CayenneReading {
+  channel: number;
+  type: CayenneType;
+  value: number | { latitude: number; longitude: number; altitude: number };
+}
+
+// ============================================
+// LPP Data Types
+// ============================================
+
+interface LppTypeSpec {
+  code: number;
+  size: number;
+  signed: boolean;
+  /** Wire value = round(value * scale) */
+  scale: number;
+}
+
+const LPP_TYPES: Record<Exclude<CayenneType, 'gps'>, LppTypeSpec> = {
+  digital_input: { code: 0x00, size: 1, signed: false, scale: 1 },
+  digital_output: { code: 0x01, size: 1, signed: false, scale: 1 },
+  analog_input: { code: 0x02, size: 2, signed: true, scale: 100 },
+  analog_output: { code: 0x03, size: 2, signed: true, scale: 100 },
+  illuminance: { code: 0x65, size: 2, signed: false, scale: 1 },
+  presence: { code: 0x66, size: 1, signed: false, scale: 1 },
+  temperature: { code: 0x67, size: 2, signed: true, scale: 10 },
+  humidity: { code: 0x68, size: 1, signed: false, scale: 2 },
+  barometer: { code: 0x73, size: 2, signed: false, scale: 10 },
+};
+
+const LPP_GPS = { code: 0x88, size: 9 };
+
+const TYPE_BY_CODE = new Map<number, CayenneType>([
+  ...Object.entries(LPP_TYPES).map(([type, spec]) => [spec.code, type as CayenneType] as const),
+  [LPP_GPS.code, 'gps'],
+]);
+
+/** Analog input range: signed 16-bit at 0.01 resolution */
+const ANALOG_MIN = -327.68;
+const ANALOG_MAX = 327.67;
+
+// ============================================
+// Channel Mapping
+// ============================================
+
+const LATITUDE_RE = /^(gps_)?lat(itude)?$/i;
+const LONGITUDE_RE = /^(gps_)?lon(gitude)?$/i;
+const ALTITUDE_RE = /^(gps_)?alt(itude)?$/i;
+const PRESENCE_RE = /motion|presence|occupancy|pir/i;
+const HUMIDITY_RE = /hum|moisture/i;
+
+/**
+ * Infer the LPP data type for a single field, or null if it has no
+ * LPP representation.
+ */
+function inferCayenneType(fieldName: string, config: FieldConfig): CayenneType | null {
+  switch (config.type) {
+    case 'bool':
+      return PRESENCE_RE.test(fieldName) ? 'presence' : 'digital_input';
+    case 'enum':
+      return (config as EnumFieldConfig).values.length <= 256
+        ? (PRESENCE_RE.test(fieldName) ? 'presence' : 'digital_input')
+        : null;
+    case 'float':
+    case 'int': {
+      const { min, max, unit } = config as NumericFieldConfig;
+      if (unit === '°C') return 'temperature';
+      if (unit === 'hPa') return 'barometer';
+      if (unit === 'lux' && min >= 0 && max <= 0xffff) return 'illuminance';
+      if (unit === '%' && HUMIDITY_RE.test(fieldName) && min >= 0 && max <= 127.5) return 'humidity';
+      if (min >= ANALOG_MIN && max <= ANALOG_MAX) return 'analog_input';
+      return null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Build the LPP channel mapping for a simulation profile.
+ * Channels are numbered from 1 in field order; latitude/longitude(/altitude)
+ * fields collapse into a single GPS channel.
+ */
+export function buildCayenneMapping(profile: SimulationProfile): CayenneMapping {
+  const channels: CayenneChannel[] = [];
+  const unmapped: string[] = [];
+  const names = Object.keys(profile.fields);
+
+  const latField = names.find(n => LATITUDE_RE.test(n));
+  const lonField = names.find(n => LONGITUDE_RE.test(n));
+  const altField = names.find(n => ALTITUDE_RE.test(n));
+  const hasGps = !!latField && !!lonField;
+  const gpsFields = hasGps ? [latField, lonField, ...(altField ? [altField] : [])] : [];
+
+  for (const name of names) {
+    if (gpsFields.includes(name)) {
+      if (name === latField) {
+        channels.push({ channel: channels.length + 1, type: 'gps', fields: gpsFields });
+      }
+      continue;
+    }
+
+    const config = profile.fields[name];
+    const type = inferCayenneType(name, config);
+    if (!type) {
+      unmapped.push(name);
+      continue;
+    }
+
+    channels.push({
+      channel: channels.length + 1,
+      type,
+      fields: [name],
+      values: config.type === 'enum' ? (config as EnumFieldConfig).values : undefined,
+    });
+  }
+
+  return { channels, unmapped };
+}
+
+/**
+ * Wire resolution per mapped field
+ */
+export function getCayenneResolution(mapping: CayenneMapping): Record<string, number> {
+  const resolution: Record<string, number> = {};
+  for (const entry of mapping.channels) {
+    if (entry.type === 'gps') {
+      const [lat, lon, alt] = entry.fields;
+      resolution[lat] = 0.0001;
+      resolution[lon] = 0.0001;
+      if (alt) resolution[alt] = 0.01;
+      continue;
+    }
+    resolution[entry.fields[0]] = 1 / LPP_TYPES[entry.type].scale;
+  }
+  return resolution;
+}
+
+// ============================================
+// Encoding
+// ============================================
+
+function pushInt(bytes: number[], value: number, size: number, signed: boolean): void {
+  const bits = size * 8;
+  const min = signed ? -(2 ** (bits - 1)) : 0;
+  const max = signed ? 2 ** (bits - 1) - 1 : 2 ** bits - 1;
+  let v = Math.max(min, Math.min(max, Math.round(value)));
+  if (v < 0) v += 2 ** bits;
+  for (let i = size - 1; i >= 0; i--) {
+    bytes.push(Math.floor(v / 2 ** (i * 8)) & 0xff);
+  }
+}
+
+function readInt(bytes: Uint8Array, offset: number, size: number, signed: boolean): number {
+  let v = 0;
+  for (let i = 0; i < size; i++) {
+    v = v * 256 + bytes[offset + i];
+  }
+  const bits = size * 8;
+  if (signed && v >= 2 ** (bits - 1)) v -= 2 ** bits;
+  return v;
+}
+
+/**
+ * Convert a decoded field value to its numeric LPP value
+ */
+function toLppNumber(value: unknown, values?: string[]): number {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && values) return Math.max(0, values.indexOf(value));
+  return 0;
+}
+
+/**
+ * Encode decoded fields as a Cayenne LPP frame.
+ * Channels whose fields are missing are omitted.
+ */
+export function encodeCayenneLpp(
+  fields: Record<string, unknown>,
+  mapping: CayenneMapping
+): Uint8Array {
+  const bytes: number[] = [];
+
+  for (const entry of mapping.channels) {
+    if (entry.fields.some(f => fields[f] === undefined)) continue;
+
+    if (entry.type === 'gps') {
+      const [lat, lon, alt] = entry.fields;
+      bytes.push(entry.channel, LPP_GPS.code);
+      pushInt(bytes, toLppNumber(fields[lat]) * 10000, 3, true);
+      pushInt(bytes, toLppNumber(fields[lon]) * 10000, 3, true);
+      pushInt(bytes, alt ? toLppNumber(fields[alt]) * 100 : 0, 3, true);
+      continue;
+    }
+
+    const spec = LPP_TYPES[entry.type];
+    bytes.push(entry.channel, spec.code);
+    pushInt(bytes, toLppNumber(fields[entry.fields[0]], entry.values) * spec.scale, spec.size, spec.signed);
+  }
+
+  return Uint8Array.from(bytes);
+}
+
+// ============================================
+// Decoding
+// ============================================
+
+/**
+ * Parse a Cayenne LPP frame into raw channel readings.
+ * Throws on unknown data types or truncated frames.
+ */
+export function decodeCayenneLpp(bytes: Uint8Array): CayenneReading[] {
+  const readings: CayenneReading[] = [];
+  let offset = 0;
+
+  while (offset < bytes.length) {
+    if (offset + 2 > bytes.length) {
+      throw new Error(`Truncated Cayenne LPP frame at byte ${offset}`);
+    }
+    const channel = bytes[offset];
+    const code = bytes[offset + 1];
+    const type = TYPE_BY_CODE.get(code);
+    if (!type) {
+      throw new Error(`Unknown Cayenne LPP type 0x${code.toString(16).padStart(2, '0')} on channel ${channel}`);
+    }
+    offset += 2;
+
+    const size = type === 'gps' ? LPP_GPS.size : LPP_TYPES[type].size;
+    if (offset + size > bytes.length) {
+      throw new Error(`Truncated Cayenne LPP frame on channel ${channel}`);
+    }
+
+    if (type === 'gps') {
+      readings.push({
+        channel,
+        type,
+        value: {
+          latitude: readInt(bytes, offset, 3, true) / 10000,
+          longitude: readInt(bytes, offset + 3, 3, true) / 10000,
+          altitude: readInt(bytes, offset + 6, 3, true) / 100,
+        },
+      });
+    } else {
+      const spec = LPP_TYPES[type];
+      readings.push({ channel, type, value: readInt(bytes, offset, spec.size, spec.signed) / spec.scale });
+    }
+    offset += size;
+  }
+
+  return readings;
+}
+
+/**
+ * Convert a numeric LPP value back to the field's configured type
+ */
+function fromLppNumber(value: number, config: FieldConfig, values?: string[]): unknown {
+  switch (config.type) {
+    case 'bool':
+      return value !== 0;
+    case 'enum':
+      return values?.[value] ?? null;
+    case 'int':
+      return Math.round(value);
+    case 'float': {
+      const factor = Math.pow(10, (config as NumericFieldConfig).precision ?? 1);
+      return Math.round(value * factor) / factor;
+    }
+    default:
+      return value;
+  }
+}
+
+/**
+ * Decode a Cayenne LPP frame back into decoded_payload fields using the
+ * channel mapping inferred from the simulation profile.
+ */
+export function decodeCayenneFields(
+  bytes: Uint8Array,
+  profile: SimulationProfile
+): Record<string, unknown> {
+  const mapping = buildCayenneMapping(profile);
+  const byChannel = new Map(mapping.channels.map(c => [c.channel, c]));
+  const fields: Record<string, unknown> = {};
+
+  for (const reading of decodeCayenneLpp(bytes)) {
+    const entry = byChannel.get(reading.channel);
+    if (!entry || entry.type !== reading.type) continue;
+
+    if (typeof reading.value === 'object') {
+      const [lat, lon, alt] = entry.fields;
+      fields[lat] = fromLppNumber(reading.value.latitude, profile.fields[lat]);
+      fields[lon] = fromLppNumber(reading.value.longitude, profile.fields[lon]);
+      if (alt) fields[alt] = fromLppNumber(reading.value.altitude, profile.fields[alt]);
+      continue;
+    }
+
+    const name = entry.fields[0];
+    fields[name] = fromLppNumber(reading.value, profile.fields[name], entry.values);
+  }
+
+  return fields;
+}
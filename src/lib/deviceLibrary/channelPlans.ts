@@ -0,0 +1,102 @@
+/**
+ * Regional Channel Plans
+ *
+ * Uplink channels and data rates for the TTN frequency plans we provision
+ * devices against (see ttn-provision-abp). Envelopes take their
+ * settings.frequency and network_ids from the device's plan.
+ */
+
+import type { SimulationContext } from './types';
+import type { SpreadingFactor } from './rfModel';
+import { SeededRandom, createFieldSeed } from './simulationEngine';
+
+// ============================================
+// Types
+// ============================================
+
+export type RegionId = 'US915' | 'EU868' | 'AU915';
+
+export type TTNClusterId = 'nam1' | 'eu1' | 'au1';
+
+/**
+ * Uplink side of a LoRaWAN regional plan
+ */
+export interface ChannelPlan {
+  region: RegionId;
+  frequencyPlanId: string;        // TTN frequency_plan_id
+  cluster: TTNClusterId;          // TTN cluster serving the region
+  uplinkChannelsHz: number[];     // 125 kHz uplink channels
+  bandwidthHz: number;
+  codingRate: string;
+  maxSpreadingFactor: SpreadingFactor;
+}
+
+// ============================================
+// Plans
+// ============================================
+
+/** n channels spaced 200 kHz apart starting at firstHz */
+function channelBlock(firstHz: number, count: number): number[] {
+  return Array.from({ length: count }, (_, i) => firstHz + i * 200_000);
+}
+
+export const CHANNEL_PLANS: Record<RegionId, ChannelPlan> = {
+  US915: {
+    region: 'US915',
+    frequencyPlanId: 'US_902_928_FSB_2',
+    cluster: 'nam1',
+    uplinkChannelsHz: channelBlock(903_900_000, 8),
+    bandwidthHz: 125_000,
+    codingRate: '4/5',
+    maxSpreadingFactor: 10,
+  },
+  EU868: {
+    region: 'EU868',
+    frequencyPlanId: 'EU_863_870_TTN',
+    cluster: 'eu1',
+    uplinkChannelsHz: [...channelBlock(868_100_000, 3), ...channelBlock(867_100_000, 5)],
+    bandwidthHz: 125_000,
+    codingRate: '4/5',
+    maxSpreadingFactor: 12,
+  },
+  AU915: {
+    region: 'AU915',
+    frequencyPlanId: 'AU_915_928_FSB_2',
+    cluster: 'au1',
+    uplinkChannelsHz: channelBlock(916_800_000, 8),
+    bandwidthHz: 125_000,
+    codingRate: '4/5',
+    maxSpreadingFactor: 12,
+  },
+};
+
+/** Matches the emulator's default TTN cluster (nam1) */
+export const DEFAULT_REGION: RegionId = 'US915';
+
+// ============================================
+// Lookup & Channel Selection
+// ============================================
+
+export function getChannelPlan(region: RegionId = DEFAULT_REGION): ChannelPlan {
+  return CHANNEL_PLANS[region];
+}
+
+/**
+ * Region for a TTN cluster, using the same mapping as device provisioning
+ */
+export function regionForCluster(cluster: string): RegionId {
+  return cluster === 'nam1' ? 'US915' : cluster === 'au1' ? 'AU915' : 'EU868';
+}
+
+/**
+ * Pick the uplink channel for an emission. Devices hop pseudo-randomly
+ * across the plan's channels; the hop is seeded so it is reproducible.
+ */
+export function selectUplinkChannel(
+  plan: ChannelPlan,
+  context: SimulationContext
+): { index: number; frequencyHz: number } {
+  const random = new SeededRandom(createFieldSeed(context, 'uplink-channel'));
+  const index = random.nextInt(0, plan.uplinkChannelsHz.length - 1);
+  return { index, frequencyHz: plan.uplinkChannelsHz[index] };
+}
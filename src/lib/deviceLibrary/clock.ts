@@ -0,0 +1,247 @@
+/**
+ * Simulation Clock
+ *
+ * Time source shared by the emission scheduler, simulation engine,
+ * envelope builder, server time sync and alarm scenarios. Swapping in a
+ * scaled or virtual clock replays hours of emissions in seconds with
+ * consistent timestamps.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type ClockMode = 'real' | 'scaled' | 'virtual';
+
+export type ClockTimer = { readonly id: number };
+
+/**
+ * Minimal timer API; all times and delays are in simulated milliseconds
+ */
+export interface SimulationClock {
+  readonly mode: ClockMode;
+  readonly speed: number;   // Simulated ms per real ms (virtual: 0)
+  now(): number;
+  setTimeout(callback: () => void, delayMs: number): ClockTimer;
+  clearTimeout(timer: ClockTimer): void;
+  /** Register async work started by a timer; virtual clocks wait for it before moving on */
+  track?(work: Promise<unknown>): void;
+}
+
+// Captured so virtual clocks can yield to pending promises even when
+// tests replace the global timers
+const realSetTimeout = globalThis.setTimeout.bind(globalThis);
+
+let nextTimerId = 1;
+
+// ============================================
+// Real & Scaled Clocks
+// ============================================
+
+function createTimerClock(mode: ClockMode, speed: number, startAt: number): SimulationClock {
+  const realStart = Date.now();
+  const handles = new Map<number, ReturnType<typeof setTimeout>>();
+
+  return {
+    mode,
+    speed,
+    now: () => startAt + (Date.now() - realStart) * speed,
+    setTimeout: (callback, delayMs) => {
+      const timer = { id: nextTimerId++ };
+      handles.set(timer.id, setTimeout(() => {
+        handles.delete(timer.id);
+        callback();
+      }, Math.max(0, delayMs) / speed));
+      return timer;
+    },
+    clearTimeout: (timer) => {
+      const handle = handles.get(timer.id);
+      if (handle !== undefined) clearTimeout(handle);
+      handles.delete(timer.id);
+    },
+  };
+}
+
+/**
+ * Wall-clock time
+ */
+export function createRealClock(): SimulationClock {
+  return createTimerClock('real', 1, Date.now());
+}
+
+/**
+ * Time that runs `speed` times faster than the wall clock,
+ * starting from startAt (default: now)
+ */
+export function createScaledClock(speed: number, startAt: number = Date.now()): SimulationClock {
+  if (!(speed > 0)) throw new Error(`Clock speed must be positive, got ${speed}`);
+  return createTimerClock('scaled', speed, startAt);
+}
+
+// ============================================
+// Virtual Clock
+// ============================================
+
+interface VirtualTimer {
+  id: number;
+  dueAt: number;
+  callback: () => void;
+}
+
+/**
+ * Step-driven clock: time only moves when advance() or step() is called.
+ * Timers fire in due order, each at its own timestamp.
+ */
+export class VirtualClock implements SimulationClock {
+  readonly mode = 'virtual' as const;
+  readonly speed = 0;
+  private current: number;
+  private timers: VirtualTimer[] = [];
+  private inFlight = new Set<Promise<unknown>>();
+
+  constructor(startAt: number = Date.now()) {
+    this.current = startAt;
+  }
+
+  now(): number {
+    return this.current;
+  }
+
+  setTimeout(callback: () => void, delayMs: number): ClockTimer {
+    const timer = { id: nextTimerId++, dueAt: this.current + Math.max(0, delayMs), callback };
+    this.timers.push(timer);
+    return { id: timer.id };
+  }
+
+  clearTimeout(timer: ClockTimer): void {
+    this.timers = this.timers.filter(t => t.id !== timer.id);
+  }
+
+  track(work: Promise<unknown>): void {
+    this.inFlight.add(work);
+    const done = () => this.inFlight.delete(work);
+    work.then(done, done);
+  }
+
+  /** Number of timers waiting to fire */
+  get pendingTimers(): number {
+    return this.timers.length;
+  }
+
+  /**
+   * Fire the next due timer, moving time to its due time.
+   * Resolves false when no timers are pending.
+   */
+  async step(): Promise<boolean> {
+    await this.settle();
+    const next = this.takeNext(Infinity);
+    if (!next) return false;
+    await this.fire(next);
+    return true;
+  }
+
+  /**
+   * Move time forward, firing every timer that falls due on the way,
+   * including timers scheduled by those callbacks.
+   */
+  async advance(ms: number): Promise<void> {
+    const target = this.current + ms;
+    await this.settle();
+    for (let next = this.takeNext(target); next; next = this.takeNext(target)) {
+      await this.fire(next);
+    }
+    this.current = target;
+  }
+
+  /** Advance to an absolute time */
+  async advanceTo(epochMs: number): Promise<void> {
+    await this.advance(Math.max(0, epochMs - this.current));
+  }
+
+  private takeNext(limit: number): VirtualTimer | undefined {
+    let index = -1;
+    for (let i = 0; i < this.timers.length; i++) {
+      const timer = this.timers[i];
+      if (timer.dueAt <= limit && (index === -1 || timer.dueAt < this.timers[index].dueAt)) index = i;
+    }
+    return index === -1 ? undefined : this.timers.splice(index, 1)[0];
+  }
+
+  private async fire(timer: VirtualTimer): Promise<void> {
+    this.current = Math.max(this.current, timer.dueAt);
+    timer.callback();
+    await this.settle();
+  }
+
+  /**
+   * Let async work (emissions, fetches) finish and re-arm its timers
+   */
+  private async settle(): Promise<void> {
+    do {
+      await Promise.allSettled([...this.inFlight]);
+      await new Promise(resolve => realSetTimeout(resolve, 0));
+    } while (this.inFlight.size > 0);
+  }
+}
+
+export function createVirtualClock(startAt?: number): VirtualClock {
+  return new VirtualClock(startAt);
+}
+
+// ============================================
+// Active Clock
+// ============================================
+
+let activeClock: SimulationClock | null = null;
+let defaultClock: SimulationClock | null = null;
+
+/**
+ * Use a specific clock for all simulation time.
+ * Pass null to return to the wall clock.
+ */
+export function setSimulationClock(clock: SimulationClock | null): void {
+  activeClock = clock;
+}
+
+export function getSimulationClock(): SimulationClock {
+  if (activeClock) return activeClock;
+  defaultClock ??= createRealClock();
+  return defaultClock;
+}
+
+/**
+ * Current simulated time as epoch ms
+ */
+export function simNow(): number {
+  return getSimulationClock().now();
+}
+
+/**
+ * Current simulated time as an ISO string
+ */
+export function simNowIso(): string {
+  return new Date(simNow()).toISOString();
+}
+
+/**
+ * Resolve after delayMs of simulated time, or immediately on abort
+ */
+export function simSleep(delayMs: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const clock = getSimulationClock();
+    const timer = clock.setTimeout(resolve, delayMs);
+    signal?.addEventListener('abort', () => { clock.clearTimeout(timer); resolve(); }, { once: true });
+  });
+}
+
+/**
+ * Create a clock from a spec: `real`, `x<speed>` (e.g. x10, x100) or `virtual`
+ */
+export function createClockFromSpec(spec: string, startAt?: number): SimulationClock {
+  if (spec === 'real') return startAt === undefined ? createRealClock() : createScaledClock(1, startAt);
+  if (spec === 'virtual') return createVirtualClock(startAt);
+  const match = spec.match(/^x(\d+(?:\.\d+)?)$/);
+  if (match) return createScaledClock(Number(match[1]), startAt);
+  throw new Error(`Unknown clock "${spec}" (expected real, x<speed> or virtual)`);
+}
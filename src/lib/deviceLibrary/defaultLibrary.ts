@@ -1,26 +1,30 @@
 /**
  * Default Device Library
  *
- * Contains 40 LoRaWAN device definitions matching the FreshTrack Pro spec.
+ * Contains 43 LoRaWAN device definitions matching the FreshTrack Pro spec.
  * Field names use FreshTrack canonical names:
  *   battery_level (0-100%), battery_voltage (V), temperature (°C),
  *   humidity (%), door_status ('open'|'closed'), door_open (bool), etc.
  * Dragino aliases (TempC_SHT, Hum_SHT, BatV, DOOR_OPEN_STATUS) are
  * resolved at payload generation time in freshtrackExport.ts.
+ * Devices with payload_format 'cayenne' are encoded as Cayenne LPP.
+ * Battery voltages derive from battery_level along the Li-SOCl2 curve;
+ * humidity on cold-chain sensors falls as temperature rises.
  */
 
 import type { DeviceLibrary } from './types';
+import { LI_SOCL2_VOLTAGE_CURVE } from './derivedFields';
 
 export const defaultDeviceLibrary: DeviceLibrary = {
   metadata: {
-    version: '3.0.0',
-    last_updated: '2026-02-16',
+    version: '3.2.0',
+    last_updated: '2026-10-19',
     categories: [
       'temperature', 'temperature_humidity', 'door', 'contact',
       'leak', 'gps', 'meter', 'motion', 'air_quality',
       'multi_sensor',
     ],
-    manufacturers: ['Milesight', 'Dragino', 'Tektelic', 'Netvox', 'Elsys', 'Browan', 'Generic'],
+    manufacturers: ['Milesight', 'Dragino', 'Tektelic', 'Netvox', 'Elsys', 'Browan', 'RAKwireless', 'Generic'],
   },
   devices: [
     // ============================================
@@ -39,7 +43,10 @@ export const defaultDeviceLibrary: DeviceLibrary = {
       simulation_profile: {
         fields: {
           temperature: { type: 'float', min: -40, max: 85, precision: 1, unit: '°C' },
-          humidity: { type: 'float', min: 0, max: 100, precision: 1, unit: '%' },
+          humidity: {
+            type: 'float', min: 0, max: 100, precision: 1, unit: '%',
+            derive: { kind: 'linear', from: 'temperature', scale: -1.2, offset: 80, jitter: 6 },
+          },
           battery_level: { type: 'int', min: 0, max: 100, unit: '%' },
         },
       },
@@ -61,10 +68,16 @@ export const defaultDeviceLibrary: DeviceLibrary = {
       simulation_profile: {
         fields: {
           temperature: { type: 'float', min: -40, max: 60, precision: 1, unit: '°C' },
-          humidity: { type: 'int', min: 0, max: 100, unit: '%' },
+          humidity: {
+            type: 'int', min: 0, max: 100, unit: '%',
+            derive: { kind: 'linear', from: 'temperature', scale: -1.2, offset: 80, jitter: 6 },
+          },
           light: { type: 'int', min: 0, max: 65535, unit: 'lux' },
           motion: { type: 'int', min: 0, max: 255 },
-          battery_voltage: { type: 'float', min: 2.0, max: 3.6, precision: 2, unit: 'V' },
+          battery_voltage: {
+            type: 'float', min: 2.0, max: 3.6, precision: 2, unit: 'V',
+            derive: { kind: 'curve', from: 'battery_level', points: LI_SOCL2_VOLTAGE_CURVE, jitter: 0.02 },
+          },
           battery_level: { type: 'int', min: 0, max: 100, unit: '%' },
         },
       },
@@ -107,8 +120,14 @@ export const defaultDeviceLibrary: DeviceLibrary = {
       simulation_profile: {
         fields: {
           TempC_SHT: { type: 'float', min: -40, max: 85, precision: 1, unit: '°C', description: 'SHT temperature' },
-          Hum_SHT: { type: 'float', min: 0, max: 100, precision: 1, unit: '%', description: 'SHT humidity' },
-          BatV: { type: 'float', min: 2.5, max: 3.6, precision: 2, unit: 'V', description: 'Battery voltage' },
+          Hum_SHT: {
+            type: 'float', min: 0, max: 100, precision: 1, unit: '%', description: 'SHT humidity',
+            derive: { kind: 'linear', from: 'TempC_SHT', scale: -1.2, offset: 80, jitter: 6 },
+          },
+          BatV: {
+            type: 'float', min: 2.5, max: 3.6, precision: 2, unit: 'V', description: 'Battery voltage',
+            derive: { kind: 'curve', from: 'battery_level', points: LI_SOCL2_VOLTAGE_CURVE, jitter: 0.02 },
+          },
           battery_level: { type: 'int', min: 0, max: 100, unit: '%' },
         },
       },
@@ -129,14 +148,36 @@ export const defaultDeviceLibrary: DeviceLibrary = {
       payload_format: 'json',
       simulation_profile: {
         fields: {
-          TempC_DS: { type: 'float', min: -55, max: 125, precision: 1, unit: '°C', description: 'DS18B20 temperature' },
-          TempC_SHT: { type: 'float', min: -40, max: 85, precision: 1, unit: '°C', description: 'SHT temperature' },
-          BatV: { type: 'float', min: 2.5, max: 3.6, precision: 2, unit: 'V', description: 'Battery voltage' },
+          TempC_DS: {
+            type: 'float', min: -55, max: 125, precision: 1, unit: '°C', description: 'DS18B20 freezer probe',
+            // Compressor cycling around -18°C with a defrost every 6 hours
+            behavior: {
+              baseline: -18,
+              models: [
+                { model: 'sawtooth', amplitude: 3, periodSeconds: 2400, dutyCycle: 0.4 },
+                { model: 'spike', magnitude: 14, intervalSeconds: 21600, durationSeconds: 1800 },
+              ],
+              noise: 0.2,
+            },
+          },
+          TempC_SHT: {
+            type: 'float', min: -40, max: 85, precision: 1, unit: '°C', description: 'SHT ambient temperature',
+            // Diurnal ambient cycle peaking mid-afternoon (UTC)
+            behavior: {
+              baseline: 22,
+              models: [{ model: 'sinusoid', amplitude: 3, periodSeconds: 86400, phaseSeconds: 32400 }],
+              noise: 0.3,
+            },
+          },
+          BatV: {
+            type: 'float', min: 2.5, max: 3.6, precision: 2, unit: 'V', description: 'Battery voltage',
+            derive: { kind: 'curve', from: 'battery_level', points: LI_SOCL2_VOLTAGE_CURVE, jitter: 0.02 },
+          },
           battery_level: { type: 'int', min: 0, max: 100, unit: '%' },
         },
       },
       examples: {
-        normal: { TempC_DS: 4.2, TempC_SHT: 22.8, BatV: 3.48, battery_level: 94 },
+        normal: { TempC_DS: -18.2, TempC_SHT: 22.8, BatV: 3.48, battery_level: 94 },
         alarm: { TempC_DS: -45.0, TempC_SHT: -30.0, BatV: 2.55, battery_level: 8 },
       },
     },
@@ -157,9 +198,26 @@ export const defaultDeviceLibrary: DeviceLibrary = {
       simulation_profile: {
         fields: {
           TempC_SHT: { type: 'float', min: -40, max: 85, precision: 1, unit: '°C', description: 'SHT temperature' },
-          Hum_SHT: { type: 'float', min: 0, max: 100, precision: 1, unit: '%', description: 'SHT humidity' },
-          TempC_DS: { type: 'float', min: -55, max: 125, precision: 1, unit: '°C', description: 'External DS18B20' },
-          BatV: { type: 'float', min: 2.5, max: 3.6, precision: 2, unit: 'V', description: 'Battery voltage' },
+          Hum_SHT: {
+            type: 'float', min: 0, max: 100, precision: 1, unit: '%', description: 'SHT humidity',
+            derive: { kind: 'linear', from: 'TempC_SHT', scale: -1.2, offset: 80, jitter: 6 },
+          },
+          TempC_DS: {
+            type: 'float', min: -55, max: 125, precision: 1, unit: '°C', description: 'External DS18B20',
+            // Walk-in cooler: compressor cycling with door-open recovery every 4 hours
+            behavior: {
+              baseline: 3.5,
+              models: [
+                { model: 'sawtooth', amplitude: 2, periodSeconds: 1800, dutyCycle: 0.35 },
+                { model: 'recovery', magnitude: 4, intervalSeconds: 14400, timeConstantSeconds: 420 },
+              ],
+              noise: 0.15,
+            },
+          },
+          BatV: {
+            type: 'float', min: 2.5, max: 3.6, precision: 2, unit: 'V', description: 'Battery voltage',
+            derive: { kind: 'curve', from: 'battery_level', points: LI_SOCL2_VOLTAGE_CURVE, jitter: 0.02 },
+          },
           battery_level: { type: 'int', min: 0, max: 100, unit: '%' },
         },
       },
@@ -167,6 +225,14 @@ export const defaultDeviceLibrary: DeviceLibrary = {
         normal: { TempC_SHT: 22.8, Hum_SHT: 55.0, TempC_DS: 4.2, BatV: 3.48, battery_level: 94 },
         alarm: { TempC_SHT: -30.0, Hum_SHT: 95.0, TempC_DS: -45.0, BatV: 2.55, battery_level: 8 },
       },
+      // Probe alarm: uplink as soon as the cooler leaves or re-enters the cold-chain range
+      sample_interval_sec: 60,
+      event_rules: [
+        {
+          id: 'probe_threshold', field: 'TempC_DS', kind: 'threshold', threshold: 8, direction: 'both',
+          min_interval_sec: 600, description: 'Probe crossed 8 °C',
+        },
+      ],
     },
     {
       id: 'dragino-lht65n',
@@ -181,9 +247,15 @@ export const defaultDeviceLibrary: DeviceLibrary = {
       simulation_profile: {
         fields: {
           TempC_SHT: { type: 'float', min: -40, max: 85, precision: 1, unit: '°C', description: 'SHT temperature' },
-          Hum_SHT: { type: 'float', min: 0, max: 100, precision: 1, unit: '%', description: 'SHT humidity' },
+          Hum_SHT: {
+            type: 'float', min: 0, max: 100, precision: 1, unit: '%', description: 'SHT humidity',
+            derive: { kind: 'linear', from: 'TempC_SHT', scale: -1.2, offset: 80, jitter: 6 },
+          },
           TempC_DS: { type: 'float', min: -55, max: 125, precision: 1, unit: '°C', description: 'External probe' },
-          BatV: { type: 'float', min: 2.5, max: 3.6, precision: 2, unit: 'V', description: 'Battery voltage' },
+          BatV: {
+            type: 'float', min: 2.5, max: 3.6, precision: 2, unit: 'V', description: 'Battery voltage',
+            derive: { kind: 'curve', from: 'battery_level', points: LI_SOCL2_VOLTAGE_CURVE, jitter: 0.02 },
+          },
           battery_level: { type: 'int', min: 0, max: 100, unit: '%' },
         },
       },
@@ -233,7 +305,10 @@ export const defaultDeviceLibrary: DeviceLibrary = {
           DOOR_OPEN_STATUS: { type: 'enum', values: ['open', 'closed'], description: 'Dragino door status' },
           open_count: { type: 'int', min: 0, max: 65535, increment: true },
           last_open_duration: { type: 'int', min: 0, max: 65535, unit: 'sec' },
-          BatV: { type: 'float', min: 2.5, max: 3.6, precision: 2, unit: 'V', description: 'Battery voltage' },
+          BatV: {
+            type: 'float', min: 2.5, max: 3.6, precision: 2, unit: 'V', description: 'Battery voltage',
+            derive: { kind: 'curve', from: 'battery_level', points: LI_SOCL2_VOLTAGE_CURVE, jitter: 0.02 },
+          },
           battery_level: { type: 'int', min: 0, max: 100, unit: '%' },
         },
       },
@@ -241,6 +316,20 @@ export const defaultDeviceLibrary: DeviceLibrary = {
         normal: { DOOR_OPEN_STATUS: 'closed', open_count: 142, last_open_duration: 8, BatV: 3.40, battery_level: 88 },
         alarm: { DOOR_OPEN_STATUS: 'open', open_count: 143, last_open_duration: 3600, BatV: 3.40, battery_level: 88 },
       },
+      message_types: [
+        {
+          id: 'status', fport: 2, trigger: 'interval', description: 'Periodic door status',
+          fields: ['DOOR_OPEN_STATUS', 'open_count', 'last_open_duration', 'BatV', 'battery_level'],
+        },
+        {
+          id: 'door_event', fport: 2, trigger: 'on_event', event: 'door', description: 'Sent on every open or close',
+          fields: ['DOOR_OPEN_STATUS', 'open_count', 'last_open_duration', 'BatV'],
+        },
+        {
+          id: 'device_status', fport: 5, trigger: 'interval', interval_sec: 86400, description: 'Daily device status',
+          fields: ['BatV', 'battery_level'],
+        },
+      ],
     },
     {
       id: 'netvox-r311a',
@@ -255,7 +344,10 @@ export const defaultDeviceLibrary: DeviceLibrary = {
       simulation_profile: {
         fields: {
           door: { type: 'bool', description: 'true = open, false = closed' },
-          battery_voltage: { type: 'float', min: 2.0, max: 3.6, precision: 2, unit: 'V' },
+          battery_voltage: {
+            type: 'float', min: 2.0, max: 3.6, precision: 2, unit: 'V',
+            derive: { kind: 'curve', from: 'battery_level', points: LI_SOCL2_VOLTAGE_CURVE, jitter: 0.02 },
+          },
           battery_level: { type: 'int', min: 0, max: 100, unit: '%' },
         },
       },
@@ -263,6 +355,9 @@ export const defaultDeviceLibrary: DeviceLibrary = {
         normal: { door: false, battery_voltage: 3.0, battery_level: 85 },
         alarm: { door: true, battery_voltage: 3.0, battery_level: 85 },
       },
+      event_rules: [
+        { id: 'door_change', field: 'door', kind: 'change', min_interval_sec: 0, description: 'Sent on every open or close' },
+      ],
     },
     {
       id: 'milesight-ws101',
@@ -305,6 +400,10 @@ export const defaultDeviceLibrary: DeviceLibrary = {
         normal: { door_status: 'closed', battery_level: 94 },
         alarm: { door_status: 'open', battery_level: 94 },
       },
+      message_types: [
+        { id: 'periodic', fport: 85, trigger: 'interval', fields: ['battery_level', 'door_status'], description: 'Periodic report' },
+        { id: 'door_change', fport: 85, trigger: 'on_change', fields: ['door_status'], description: 'Sent when the contact changes state' },
+      ],
     },
     {
       id: 'milesight-ws302',
@@ -390,7 +489,10 @@ export const defaultDeviceLibrary: DeviceLibrary = {
           temperature: { type: 'float', min: -40, max: 60, precision: 1, unit: '°C' },
           humidity: { type: 'int', min: 0, max: 100, unit: '%' },
           light: { type: 'int', min: 0, max: 65535, unit: 'lux' },
-          battery_voltage: { type: 'float', min: 2.0, max: 3.6, precision: 2, unit: 'V' },
+          battery_voltage: {
+            type: 'float', min: 2.0, max: 3.6, precision: 2, unit: 'V',
+            derive: { kind: 'curve', from: 'battery_level', points: LI_SOCL2_VOLTAGE_CURVE, jitter: 0.02 },
+          },
           battery_level: { type: 'int', min: 0, max: 100, unit: '%' },
         },
       },
@@ -618,7 +720,10 @@ export const defaultDeviceLibrary: DeviceLibrary = {
       simulation_profile: {
         fields: {
           distance: { type: 'int', min: 20, max: 750, unit: 'cm' },
-          BatV: { type: 'float', min: 2.5, max: 3.6, precision: 2, unit: 'V', description: 'Battery voltage' },
+          BatV: {
+            type: 'float', min: 2.5, max: 3.6, precision: 2, unit: 'V', description: 'Battery voltage',
+            derive: { kind: 'curve', from: 'battery_level', points: LI_SOCL2_VOLTAGE_CURVE, jitter: 0.02 },
+          },
           battery_level: { type: 'int', min: 0, max: 100, unit: '%' },
           sensor_flag: { type: 'bool' },
         },
@@ -641,7 +746,10 @@ export const defaultDeviceLibrary: DeviceLibrary = {
       simulation_profile: {
         fields: {
           water_leak: { type: 'bool' },
-          battery_voltage: { type: 'float', min: 2.0, max: 3.6, precision: 2, unit: 'V' },
+          battery_voltage: {
+            type: 'float', min: 2.0, max: 3.6, precision: 2, unit: 'V',
+            derive: { kind: 'curve', from: 'battery_level', points: LI_SOCL2_VOLTAGE_CURVE, jitter: 0.02 },
+          },
           battery_level: { type: 'int', min: 0, max: 100, unit: '%' },
         },
       },
@@ -649,6 +757,9 @@ export const defaultDeviceLibrary: DeviceLibrary = {
         normal: { water_leak: false, battery_voltage: 3.25, battery_level: 88 },
         alarm: { water_leak: true, battery_voltage: 3.25, battery_level: 88 },
       },
+      event_rules: [
+        { id: 'leak_alarm', field: 'water_leak', kind: 'flag', min_interval_sec: 300, description: 'Leak detected' },
+      ],
     },
     {
       id: 'milesight-em500-swl',
@@ -766,7 +877,10 @@ export const defaultDeviceLibrary: DeviceLibrary = {
           adc_2: { type: 'float', min: 0, max: 30.0, precision: 2, unit: 'V' },
           digital_1: { type: 'bool' },
           temperature: { type: 'float', min: -55, max: 125, precision: 1, unit: '°C' },
-          BatV: { type: 'float', min: 2.5, max: 3.6, precision: 2, unit: 'V', description: 'Battery voltage' },
+          BatV: {
+            type: 'float', min: 2.5, max: 3.6, precision: 2, unit: 'V', description: 'Battery voltage',
+            derive: { kind: 'curve', from: 'battery_level', points: LI_SOCL2_VOLTAGE_CURVE, jitter: 0.02 },
+          },
           battery_level: { type: 'int', min: 0, max: 100, unit: '%' },
         },
       },
@@ -989,5 +1103,77 @@ export const defaultDeviceLibrary: DeviceLibrary = {
         alarm: { distance: 30, temperature: 22.5, battery_level: 92 },
       },
     },
+
+    // ============================================
+    // Cayenne LPP Devices
+    // ============================================
+    {
+      id: 'rakwireless-rak7204',
+      name: 'RAK7204',
+      manufacturer: 'RAKwireless',
+      category: 'temperature_humidity',
+      model: 'RAK7204',
+      description: 'WisNode Sense Home environmental sensor (Cayenne LPP)',
+      firmware_version: 'v3.0',
+      default_fport: 8,
+      payload_format: 'cayenne',
+      simulation_profile: {
+        fields: {
+          temperature: { type: 'float', min: -40, max: 85, precision: 1, unit: '°C' },
+          humidity: { type: 'float', min: 0, max: 100, precision: 1, unit: '%' },
+          pressure: { type: 'float', min: 300, max: 1100, precision: 1, unit: 'hPa' },
+          battery_voltage: { type: 'float', min: 3.0, max: 4.2, precision: 2, unit: 'V' },
+        },
+      },
+      examples: {
+        normal: { temperature: 4.1, humidity: 62.5, pressure: 1013.2, battery_voltage: 4.05 },
+        alarm: { temperature: 12.0, humidity: 90.0, pressure: 1013.2, battery_voltage: 3.10 },
+      },
+    },
+    {
+      id: 'rakwireless-rak7200',
+      name: 'RAK7200',
+      manufacturer: 'RAKwireless',
+      category: 'gps',
+      model: 'RAK7200',
+      description: 'WisNode Track Lite GPS tracker (Cayenne LPP)',
+      firmware_version: 'v3.0',
+      default_fport: 8,
+      payload_format: 'cayenne',
+      simulation_profile: {
+        fields: {
+          latitude: { type: 'float', min: -90, max: 90, precision: 4 },
+          longitude: { type: 'float', min: -180, max: 180, precision: 4 },
+          altitude: { type: 'int', min: -100, max: 10000, unit: 'm' },
+          battery_voltage: { type: 'float', min: 3.0, max: 4.2, precision: 2, unit: 'V' },
+        },
+      },
+      examples: {
+        normal: { latitude: 41.8781, longitude: -87.6298, altitude: 180, battery_voltage: 3.95 },
+        alarm: { latitude: 0, longitude: 0, altitude: 0, battery_voltage: 3.05 },
+      },
+    },
+    {
+      id: 'generic-lpp-door',
+      name: 'LPP Door Sensor',
+      manufacturer: 'Generic',
+      category: 'door',
+      model: 'LPP-DOOR',
+      description: 'Door contact with temperature (Cayenne LPP)',
+      firmware_version: 'v1.0',
+      default_fport: 1,
+      payload_format: 'cayenne',
+      simulation_profile: {
+        fields: {
+          door_status: { type: 'enum', values: ['closed', 'open'] },
+          temperature: { type: 'float', min: -30, max: 60, precision: 1, unit: '°C' },
+          battery_level: { type: 'int', min: 0, max: 100, unit: '%' },
+        },
+      },
+      examples: {
+        normal: { door_status: 'closed', temperature: 3.5, battery_level: 93 },
+        alarm: { door_status: 'open', temperature: 9.5, battery_level: 93 },
+      },
+    },
   ],
 };
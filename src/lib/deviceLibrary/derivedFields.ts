@@ -0,0 +1,122 @@
+/**
+ * Derived & Correlated Fields
+ *
+ * Fields can declare a derivation from another field in the same profile
+ * (battery voltage from battery percent, humidity tracking temperature).
+ * The engine generates fields in dependency order so sources are always
+ * produced before the fields derived from them.
+ */
+
+import type { FieldDerivation, NumericFieldConfig, SimulationProfile } from './types';
+
+// ============================================
+// Reference Curves
+// ============================================
+
+/**
+ * Li-SOCl2 discharge curve as [percent, volts] points.
+ * Reference: 100%→3.6V, 80%→3.2V, 50%→2.8V, 20%→2.4V, 5%→2.0V, 0%→1.8V
+ */
+export const LI_SOCL2_VOLTAGE_CURVE: [number, number][] = [
+  [0, 1.8], [5, 2.0], [20, 2.4], [50, 2.8], [80, 3.2], [100, 3.6],
+];
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * Piecewise-linear interpolation; x is clamped to the curve's range.
+ * Points must be sorted by x.
+ */
+export function interpolateCurve(points: [number, number][], x: number): number {
+  if (points.length === 0) return 0;
+  if (x <= points[0][0]) return points[0][1];
+
+  for (let i = 0; i < points.length - 1; i++) {
+    const [x0, y0] = points[i];
+    const [x1, y1] = points[i + 1];
+    if (x <= x1) {
+      const t = x1 === x0 ? 1 : (x - x0) / (x1 - x0);
+      return y0 + t * (y1 - y0);
+    }
+  }
+  return points[points.length - 1][1];
+}
+
+/**
+ * Evaluate a derivation against its source value.
+ * Returns the unclamped, unrounded value with seeded jitter in [-jitter, +jitter].
+ *
+ * @param derivation - Derivation from the field config
+ * @param source - Current value of the source field
+ * @param random - Seeded value in [0, 1) for jitter
+ */
+export function evaluateDerivation(derivation: FieldDerivation, source: number, random: number): number {
+  const value = derivation.kind === 'curve'
+    ? interpolateCurve(derivation.points, source)
+    : (derivation.offset ?? 0) + derivation.scale * source;
+
+  return derivation.jitter ? value + (random * 2 - 1) * derivation.jitter : value;
+}
+
+// ============================================
+// Dependency Ordering
+// ============================================
+
+function getDerivation(profile: SimulationProfile, fieldName: string): FieldDerivation | undefined {
+  const config = profile.fields[fieldName];
+  return config && (config.type === 'float' || config.type === 'int')
+    ? (config as NumericFieldConfig).derive
+    : undefined;
+}
+
+/**
+ * Order profile fields so every derived field follows its source.
+ * Otherwise fields keep their declared order.
+ * Throws if a derivation references a missing field or forms a cycle.
+ */
+export function orderFieldsByDependency(profile: SimulationProfile): string[] {
+  const ordered: string[] = [];
+  const visiting = new Set<string>();
+  const done = new Set<string>();
+
+  const visit = (fieldName: string, path: string[]) => {
+    if (done.has(fieldName)) return;
+    if (visiting.has(fieldName)) {
+      throw new Error(`Circular field derivation: ${[...path, fieldName].join(' -> ')}`);
+    }
+
+    visiting.add(fieldName);
+    const derivation = getDerivation(profile, fieldName);
+    if (derivation) {
+      if (!(derivation.from in profile.fields)) {
+        throw new Error(`Field "${fieldName}" derives from unknown field "${derivation.from}"`);
+      }
+      visit(derivation.from, [...path, fieldName]);
+    }
+    visiting.delete(fieldName);
+    done.add(fieldName);
+    ordered.push(fieldName);
+  };
+
+  for (const fieldName of Object.keys(profile.fields)) {
+    visit(fieldName, []);
+  }
+  return ordered;
+}
+
+/**
+ * The given fields plus every field they are (transitively) derived from
+ */
+export function withDerivationSources(profile: SimulationProfile, fieldNames: string[]): Set<string> {
+  const included = new Set<string>();
+  const add = (fieldName: string) => {
+    if (included.has(fieldName) || !(fieldName in profile.fields)) return;
+    included.add(fieldName);
+    const derivation = getDerivation(profile, fieldName);
+    if (derivation) add(derivation.from);
+  };
+  fieldNames.forEach(add);
+  return included;
+}
@@ -6,6 +6,7 @@
  */
 
 import type { DeviceSimulationState } from './types';
+import { getStateBackend } from './stateBackend';
 
 // ============================================
 // Storage Configuration
@@ -19,7 +20,7 @@ const STORAGE_KEY_ALL_DEVICES = 'device-sim-state-index';
 // ============================================
 
 /**
- * Get the localStorage key for a device
+ * Get the storage key for a device
  */
 function getStorageKey(deviceInstanceId: string): string {
   return `${STORAGE_KEY_PREFIX}${deviceInstanceId}`;
@@ -35,7 +36,7 @@ export function getDeviceSimState(
 ): DeviceSimulationState {
   try {
     const key = getStorageKey(deviceInstanceId);
-    const stored = localStorage.getItem(key);
+    const stored = getStateBackend().getItem(key);
     
     if (stored) {
       const parsed = JSON.parse(stored) as DeviceSimulationState;
@@ -77,12 +78,12 @@ function createInitialState(
 }
 
 /**
- * Save device simulation state to localStorage
+ * Save device simulation state to the state backend
  */
 function saveDeviceSimState(state: DeviceSimulationState): void {
   try {
     const key = getStorageKey(state.deviceInstanceId);
-    localStorage.setItem(key, JSON.stringify(state));
+    getStateBackend().setItem(key, JSON.stringify(state));
     
     // Update the device index
     updateDeviceIndex(state.deviceInstanceId, 'add');
@@ -132,7 +133,7 @@ export function resetDeviceSimState(
 export function deleteDeviceSimState(deviceInstanceId: string): void {
   try {
     const key = getStorageKey(deviceInstanceId);
-    localStorage.removeItem(key);
+    getStateBackend().removeItem(key);
     updateDeviceIndex(deviceInstanceId, 'remove');
     console.log('[DeviceStateStore] Deleted state for device:', deviceInstanceId);
   } catch (e) {
@@ -256,7 +257,7 @@ export function clearAllDeviceStates(): void {
   for (const id of deviceIds) {
     deleteDeviceSimState(id);
   }
-  localStorage.removeItem(STORAGE_KEY_ALL_DEVICES);
+  getStateBackend().removeItem(STORAGE_KEY_ALL_DEVICES);
   console.log('[DeviceStateStore] Cleared all device states');
 }
 
@@ -269,7 +270,7 @@ export function clearAllDeviceStates(): void {
  */
 function getDeviceIndex(): string[] {
   try {
-    const stored = localStorage.getItem(STORAGE_KEY_ALL_DEVICES);
+    const stored = getStateBackend().getItem(STORAGE_KEY_ALL_DEVICES);
     if (stored) {
       return JSON.parse(stored) as string[];
     }
@@ -300,7 +301,7 @@ function updateDeviceIndex(
       }
     }
     
-    localStorage.setItem(STORAGE_KEY_ALL_DEVICES, JSON.stringify(index));
+    getStateBackend().setItem(STORAGE_KEY_ALL_DEVICES, JSON.stringify(index));
   } catch (e) {
     console.warn('[DeviceStateStore] Failed to update device index:', e);
   }
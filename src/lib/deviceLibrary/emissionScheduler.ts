@@ -2,9 +2,23 @@
  * Emission Scheduler
  * 
  * Manages independent emission intervals per device for multi-device
- * concurrent emulation with independent state tracking.
+ * concurrent emulation with independent state tracking. Intervals are
+ * checked against the region's airtime budget when a device's uplink
+ * airtime is known. Event uplinks are sent out of cycle, rate limited
+ * per event rule.
  */
 
+import {
+  AirtimeBudgetCheck,
+  AirtimePolicy,
+  checkAirtimeBudget,
+  dailyAirtimeMs,
+  getAirtimePolicy,
+} from './airtime';
+import { getSimulationClock, type ClockTimer, type SimulationClock } from './clock';
+import type { EventTrigger } from './eventRules';
+import type { MessageStream } from './messageTypes';
+
 // ============================================
 // Types
 // ============================================
@@ -21,21 +35,110 @@ export interface DeviceEmissionStatus {
   emissionCount: number;
   errors: number;
   startedAt: string | null;
+  airtimeMs?: number;           // Per uplink, when known
+  dailyAirtimeMs?: number;      // At the effective interval
+  gatewayId?: string;
+  budget?: AirtimeDecision;
+  messageStreams?: Array<{ messageType: string; intervalMs: number }>;
+  eventCount?: number;          // Out-of-cycle uplinks sent
+  rateLimitedEvents?: number;   // Triggers dropped by a rule's rate limit
+}
+
+/**
+ * How the scheduler responds to an interval that breaks the airtime budget
+ * - warn: run as requested and log a warning
+ * - throttle: stretch the interval to the shortest compliant one
+ * - reject: do not start the device
+ */
+export type AirtimeEnforcement = 'warn' | 'throttle' | 'reject';
+
+/**
+ * Airtime budget outcome for a device start
+ */
+export interface AirtimeDecision extends AirtimeBudgetCheck {
+  action: 'ok' | 'warned' | 'throttled' | 'rejected';
+  requestedIntervalSec: number;
+  throttledIntervalSec?: number;  // Interval run at when throttled
+}
+
+/**
+ * Uplink airtime of a device, used for budget checks
+ */
+export interface DeviceAirtime {
+  airtimeMs: number;
+  gatewayId?: string;
+}
+
+/**
+ * Scheduler-wide airtime settings
+ */
+export interface AirtimeBudgetOptions {
+  policy?: AirtimePolicy;
+  enforcement?: AirtimeEnforcement;
+}
+
+/**
+ * Scheduler construction options
+ */
+export interface EmissionSchedulerOptions extends AirtimeBudgetOptions {
+  clock?: SimulationClock;   // Default: the active simulation clock
+}
+
+/**
+ * Emission callback type; messageType is set for devices started with
+ * message streams and for event frames, data for event triggers
+ */
+export type EmissionCallback = (
+  deviceId: string,
+  messageType?: string,
+  data?: Record<string, unknown>
+) => void | Promise<void>;
+
+/**
+ * Samples a device between uplinks and returns the event rules that fired
+ */
+export interface EventSampler {
+  intervalSec: number;
+  sample: (deviceId: string) => EventTrigger[] | Promise<EventTrigger[]>;
 }
 
 /**
- * Emission callback type
+ * Outcome of an event trigger
  */
-export type EmissionCallback = (deviceId: string) => void | Promise<void>;
+export type EventTriggerResult = 'sent' | 'rate_limited' | 'not_running';
 
 /**
- * Device interval entry - using setTimeout for drift correction
+ * Device start options
+ */
+export interface StartDeviceOptions {
+  emitImmediately?: boolean;
+  airtime?: DeviceAirtime;
+  /** Frame types on their own periods; default: one stream at the device interval */
+  messageStreams?: MessageStream[];
+  /** Event rule sampling between uplinks */
+  sampler?: EventSampler;
+}
+
+/**
+ * One periodic frame stream of a device
+ */
+interface StreamEntry {
+  messageType?: string;
+  intervalMs: number;
+  nextDueAt: number;
+}
+
+/**
+ * Device interval entry - using clock timeouts for drift correction
  */
 interface IntervalEntry {
-  timeout: ReturnType<typeof setTimeout>;
+  clock: SimulationClock;
+  timeout: ClockTimer;
   callback: EmissionCallback;
   intervalMs: number;
   nextFireAt: number; // Epoch ms for drift correction
+  messageStreams?: MessageStream[];
+  sampler?: EventSampler;
 }
 
 // ============================================
@@ -54,30 +157,124 @@ interface IntervalEntry {
 export class EmissionScheduler {
   private intervals: Map<string, IntervalEntry> = new Map();
   private status: Map<string, DeviceEmissionStatus> = new Map();
+  private samplers: Map<string, { clock: SimulationClock; timeout: ClockTimer }> = new Map();
+  private eventFiredAt: Map<string, number> = new Map(); // `${deviceId}:${ruleId}` -> epoch ms
+  private airtimePolicy: AirtimePolicy;
+  private airtimeEnforcement: AirtimeEnforcement;
+  private clockOverride?: SimulationClock;
+
+  constructor(options: EmissionSchedulerOptions = {}) {
+    this.airtimePolicy = options.policy ?? getAirtimePolicy();
+    this.airtimeEnforcement = options.enforcement ?? 'warn';
+    this.clockOverride = options.clock;
+  }
 
-  constructor() {
-    // Initialize empty maps
+  private get clock(): SimulationClock {
+    return this.clockOverride ?? getSimulationClock();
+  }
+
+  /**
+   * Change the airtime policy or enforcement for subsequent starts
+   */
+  configureAirtime(options: AirtimeBudgetOptions): void {
+    if (options.policy) this.airtimePolicy = options.policy;
+    if (options.enforcement) this.airtimeEnforcement = options.enforcement;
+  }
+
+  /**
+   * Summed uplink occupancy of other running devices on a gateway
+   */
+  getGatewayLoad(gatewayId: string, excludeDeviceId?: string): number {
+    let load = 0;
+    for (const status of this.status.values()) {
+      if (
+        status.isRunning &&
+        status.deviceId !== excludeDeviceId &&
+        status.gatewayId === gatewayId &&
+        status.airtimeMs !== undefined
+      ) {
+        const intervals = status.messageStreams?.map(s => s.intervalMs) ?? [status.intervalMs];
+        load += intervals.reduce((sum, intervalMs) => sum + status.airtimeMs! / intervalMs, 0);
+      }
+    }
+    return load;
+  }
+
+  /**
+   * Check a requested interval against the airtime budget and decide
+   * the interval to run at, without starting anything
+   */
+  checkAirtime(deviceId: string, intervalSec: number, airtime: DeviceAirtime): AirtimeDecision {
+    const gatewayLoad = airtime.gatewayId ? this.getGatewayLoad(airtime.gatewayId, deviceId) : 0;
+    const check = checkAirtimeBudget(airtime.airtimeMs, intervalSec, this.airtimePolicy, gatewayLoad);
+
+    if (check.violations.length === 0) {
+      return { ...check, action: 'ok', requestedIntervalSec: intervalSec };
+    }
+    if (this.airtimeEnforcement === 'throttle' && Number.isFinite(check.minIntervalSec)) {
+      return {
+        ...check,
+        action: 'throttled',
+        requestedIntervalSec: intervalSec,
+        throttledIntervalSec: check.minIntervalSec,
+      };
+    }
+    return {
+      ...check,
+      action: this.airtimeEnforcement === 'warn' ? 'warned' : 'rejected',
+      requestedIntervalSec: intervalSec,
+    };
   }
 
   /**
    * Start emission for a single device with drift-corrected scheduling
-   * Uses chained setTimeout instead of setInterval to prevent timing drift
+   * Uses chained setTimeout instead of setInterval to prevent timing drift.
+   * With message streams, each frame type keeps its own period and the
+   * callback receives the type that is due.
    */
   startDevice(
     deviceId: string,
-    intervalSec: number,
+    requestedIntervalSec: number,
     callback: EmissionCallback,
-    options?: { emitImmediately?: boolean }
-  ): void {
+    options?: StartDeviceOptions
+  ): AirtimeDecision | null {
     // Stop existing timer if any
     this.stopDevice(deviceId);
 
+    // Airtime is checked at the combined rate of all streams
+    const requestedStreams = options?.messageStreams?.length ? options.messageStreams : undefined;
+    const streamIntervals = requestedStreams?.map(s => s.intervalSec ?? requestedIntervalSec) ?? [requestedIntervalSec];
+    const effectiveSec = 1 / streamIntervals.reduce((sum, sec) => sum + 1 / sec, 0);
+
+    const airtime = options?.airtime;
+    const budget = airtime ? this.checkAirtime(deviceId, effectiveSec, airtime) : null;
+    if (budget && budget.action !== 'ok') {
+      const throttledTo = budget.throttledIntervalSec !== undefined ? ` (running every ${budget.throttledIntervalSec}s)` : '';
+      console.warn(
+        `[EmissionScheduler] Airtime budget ${budget.action} for ${deviceId}: ${budget.violations.join('; ')}${throttledTo}`
+      );
+    }
+    if (budget?.action === 'rejected') {
+      const existing = this.status.get(deviceId);
+      if (existing) this.status.set(deviceId, { ...existing, budget });
+      return budget;
+    }
+
+    const scale = (budget?.throttledIntervalSec ?? effectiveSec) / effectiveSec;
+    const intervalSec = requestedIntervalSec * scale;
     const intervalMs = intervalSec * 1000;
-    const now = Date.now();
+    const clock = this.clock;
+    const now = clock.now();
     const nowIso = new Date(now).toISOString();
 
+    const streams: StreamEntry[] = (requestedStreams ?? [{ messageType: undefined }]).map((stream, i) => ({
+      messageType: stream.messageType,
+      intervalMs: streamIntervals[i] * scale * 1000,
+      nextDueAt: now + streamIntervals[i] * scale * 1000,
+    }));
+
     // Calculate first fire time
-    let nextFireAt = now + intervalMs;
+    let nextFireAt = Math.min(...streams.map(s => s.nextDueAt));
 
     // Initialize or reset status
     const existingStatus = this.status.get(deviceId);
@@ -90,34 +287,55 @@ export class EmissionScheduler {
       emissionCount: existingStatus?.emissionCount || 0,
       errors: existingStatus?.errors || 0,
       startedAt: nowIso,
+      airtimeMs: airtime?.airtimeMs,
+      dailyAirtimeMs: budget ? dailyAirtimeMs(budget.airtimeMs, effectiveSec * scale) : undefined,
+      gatewayId: airtime?.gatewayId,
+      budget: budget ?? undefined,
+      messageStreams: requestedStreams && streams.map(s => ({ messageType: s.messageType!, intervalMs: s.intervalMs })),
     });
 
-    // Drift-corrected scheduling using chained setTimeout
+    const emit = async (messageType: string | undefined, label: string) => {
+      try {
+        await callback(deviceId, messageType);
+        this.recordEmission(deviceId);
+      } catch (error) {
+        this.recordError(deviceId);
+        console.error(`[EmissionScheduler] Error ${label} for ${deviceId}${messageType ? ` (${messageType})` : ''}:`, error);
+      }
+    };
+
+    // Drift-corrected scheduling using chained clock timeouts
     const scheduleNext = () => {
-      const currentTime = Date.now();
+      const currentTime = clock.now();
       const delay = Math.max(0, nextFireAt - currentTime);
 
-      const timeout = setTimeout(async () => {
+      const timeout = clock.setTimeout(() => {
+        const run = tick();
+        clock.track?.(run);
+      }, delay);
+      const tick = async () => {
         // Check if still running (might have been stopped)
         if (!this.intervals.has(deviceId)) return;
 
-        try {
-          await callback(deviceId);
-          this.recordEmission(deviceId);
-        } catch (error) {
-          this.recordError(deviceId);
-          console.error(`[EmissionScheduler] Error emitting for ${deviceId}:`, error);
+        const due = streams.filter(s => s.nextDueAt <= nextFireAt);
+        for (const stream of due) {
+          await emit(stream.messageType, 'emitting');
         }
 
-        // Schedule next tick based on EXPECTED time (drift correction)
-        nextFireAt += intervalMs;
+        // Stopped or restarted while emitting
+        if (this.intervals.get(deviceId)?.timeout !== timeout) return;
 
+        // Schedule next tick based on EXPECTED time (drift correction)
         // If we're behind (e.g., tab was backgrounded), catch up but don't spam
-        const currentNow = Date.now();
-        if (nextFireAt < currentNow) {
-          console.log(`[EmissionScheduler] Drift detected for ${deviceId}, resyncing`);
-          nextFireAt = currentNow + intervalMs;
+        const currentNow = clock.now();
+        for (const stream of due) {
+          stream.nextDueAt += stream.intervalMs;
+          if (stream.nextDueAt < currentNow) {
+            console.log(`[EmissionScheduler] Drift detected for ${deviceId}, resyncing`);
+            stream.nextDueAt = currentNow + stream.intervalMs;
+          }
         }
+        nextFireAt = Math.min(...streams.map(s => s.nextDueAt));
 
         // Update status with next fire time
         const status = this.status.get(deviceId);
@@ -128,43 +346,121 @@ export class EmissionScheduler {
           });
         }
 
-        // Store updated entry and schedule next
-        this.intervals.set(deviceId, {
-          timeout,
-          callback,
-          intervalMs,
-          nextFireAt,
-        });
-
         scheduleNext();
-      }, delay);
+      };
 
-      // Store initial entry
+      // Store entry for this tick
       this.intervals.set(deviceId, {
+        clock,
         timeout,
         callback,
         intervalMs,
         nextFireAt,
+        messageStreams: requestedStreams,
+        sampler: options?.sampler,
       });
     };
 
     // Emit immediately if requested, then start scheduling
     if (options?.emitImmediately) {
-      (async () => {
-        try {
-          await callback(deviceId);
-          this.recordEmission(deviceId);
-        } catch (error) {
-          this.recordError(deviceId);
-          console.error(`[EmissionScheduler] Error on immediate emit for ${deviceId}:`, error);
+      const run = (async () => {
+        for (const stream of streams) {
+          await emit(stream.messageType, 'on immediate emit');
         }
         scheduleNext();
       })();
+      clock.track?.(run);
     } else {
       scheduleNext();
     }
+    if (options?.sampler) this.startSampler(deviceId, options.sampler);
 
     console.log(`[EmissionScheduler] Started device ${deviceId} with ${intervalSec}s interval (drift-corrected)`);
+    return budget;
+  }
+
+  /**
+   * Sample a device on its own period and trigger the events it reports
+   */
+  private startSampler(deviceId: string, sampler: EventSampler): void {
+    const clock = this.clock;
+    const intervalMs = sampler.intervalSec * 1000;
+    let nextSampleAt = clock.now() + intervalMs;
+
+    const scheduleNext = () => {
+      const timeout = clock.setTimeout(() => {
+        const run = tick();
+        clock.track?.(run);
+      }, Math.max(0, nextSampleAt - clock.now()));
+      const tick = async () => {
+        if (this.samplers.get(deviceId)?.timeout !== timeout) return;
+        try {
+          for (const trigger of await sampler.sample(deviceId)) {
+            await this.triggerEvent(deviceId, trigger);
+          }
+        } catch (error) {
+          this.recordError(deviceId);
+          console.error(`[EmissionScheduler] Error sampling ${deviceId}:`, error);
+        }
+        if (this.samplers.get(deviceId)?.timeout !== timeout) return;
+        nextSampleAt = Math.max(nextSampleAt + intervalMs, clock.now());
+        scheduleNext();
+      };
+      this.samplers.set(deviceId, { clock, timeout });
+    };
+    scheduleNext();
+  }
+
+  private stopSampler(deviceId: string): void {
+    const sampler = this.samplers.get(deviceId);
+    if (!sampler) return;
+    sampler.clock.clearTimeout(sampler.timeout);
+    this.samplers.delete(deviceId);
+  }
+
+  /**
+   * Send an event rule's frame now unless the rule fired within its
+   * minimum interval
+   */
+  async triggerEvent(deviceId: string, trigger: EventTrigger): Promise<EventTriggerResult> {
+    if (!this.intervals.has(deviceId)) return 'not_running';
+
+    const key = `${deviceId}:${trigger.ruleId}`;
+    const now = this.clock.now();
+    const lastFiredAt = this.eventFiredAt.get(key);
+    const status = this.status.get(deviceId);
+    if (lastFiredAt !== undefined && now - lastFiredAt < trigger.minIntervalSec * 1000) {
+      if (status) this.status.set(deviceId, { ...status, rateLimitedEvents: (status.rateLimitedEvents ?? 0) + 1 });
+      return 'rate_limited';
+    }
+
+    this.eventFiredAt.set(key, now);
+    await this.emitEvent(deviceId, trigger.messageType, trigger.data);
+    return 'sent';
+  }
+
+  /**
+   * Send an event frame now, outside the device's periods and without
+   * rate limiting. Returns false when the device is not running.
+   */
+  async emitEvent(deviceId: string, messageType: string, data?: Record<string, unknown>): Promise<boolean> {
+    const entry = this.intervals.get(deviceId);
+    if (!entry) return false;
+
+    const run = (async () => {
+      try {
+        await entry.callback(deviceId, messageType, data);
+        this.recordEmission(deviceId);
+        const status = this.status.get(deviceId);
+        if (status) this.status.set(deviceId, { ...status, eventCount: (status.eventCount ?? 0) + 1 });
+      } catch (error) {
+        this.recordError(deviceId);
+        console.error(`[EmissionScheduler] Error emitting event ${messageType} for ${deviceId}:`, error);
+      }
+    })();
+    entry.clock.track?.(run);
+    await run;
+    return true;
   }
 
   /**
@@ -173,9 +469,10 @@ export class EmissionScheduler {
   stopDevice(deviceId: string): void {
     const entry = this.intervals.get(deviceId);
     if (entry) {
-      clearTimeout(entry.timeout);
+      entry.clock.clearTimeout(entry.timeout);
       this.intervals.delete(deviceId);
     }
+    this.stopSampler(deviceId);
 
     const status = this.status.get(deviceId);
     if (status) {
@@ -196,7 +493,8 @@ export class EmissionScheduler {
     const deviceIds = Array.from(this.intervals.keys());
 
     for (const [deviceId, entry] of this.intervals) {
-      clearTimeout(entry.timeout);
+      entry.clock.clearTimeout(entry.timeout);
+      this.stopSampler(deviceId);
 
       const status = this.status.get(deviceId);
       if (status) {
@@ -251,8 +549,15 @@ export class EmissionScheduler {
       return;
     }
 
-    // Restart with new interval
-    this.startDevice(deviceId, intervalSec, entry.callback);
+    // Restart with new interval, keeping the device's airtime
+    const status = this.status.get(deviceId);
+    this.startDevice(deviceId, intervalSec, entry.callback, {
+      airtime: status?.airtimeMs !== undefined
+        ? { airtimeMs: status.airtimeMs, gatewayId: status.gatewayId }
+        : undefined,
+      messageStreams: entry.messageStreams,
+      sampler: entry.sampler,
+    });
   }
 
   /**
@@ -263,7 +568,7 @@ export class EmissionScheduler {
     if (status) {
       this.status.set(deviceId, {
         ...status,
-        lastEmittedAt: new Date().toISOString(),
+        lastEmittedAt: new Date(this.clock.now()).toISOString(),
         emissionCount: status.emissionCount + 1,
       });
     }
@@ -350,6 +655,7 @@ export class EmissionScheduler {
       emissionCount: number;
       errors: number;
       lastEmittedAt: string | null;
+      dailyAirtimeMs?: number;
     }>;
   } {
     return {
@@ -363,6 +669,7 @@ export class EmissionScheduler {
         emissionCount: s.emissionCount,
         errors: s.errors,
         lastEmittedAt: s.lastEmittedAt,
+        dailyAirtimeMs: s.dailyAirtimeMs,
       })),
     };
   }
@@ -371,6 +678,6 @@ export class EmissionScheduler {
 /**
  * Create a new EmissionScheduler instance
  */
-export function createEmissionScheduler(): EmissionScheduler {
-  return new EmissionScheduler();
+export function createEmissionScheduler(options?: EmissionSchedulerOptions): EmissionScheduler {
+  return new EmissionScheduler(options);
 }
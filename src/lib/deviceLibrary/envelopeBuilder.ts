@@ -1,12 +1,20 @@
 /**
  * TTN V3 Envelope Builder
  * 
- * Wraps decoded payloads in proper TTN v3 envelopes with correct
- * f_port, f_cnt, and rx_metadata based on device library configuration.
+ * Wraps decoded payloads in complete TTN v3 `as.up.data.forward` envelopes:
+ * f_port, f_cnt, rx_metadata, radio settings, airtime and network ids
+ * based on device library configuration and the region's channel plan.
  */
 
-import { DeviceDefinition, DeviceSimulationState } from './types';
-import { encodePayload, generateDeviceId, LoRaWANDevice, GatewayConfig } from '../ttn-payload';
+import { DeviceDefinition, DeviceSimulationState, SimulationContext } from './types';
+import { generateDeviceId, generateDevAddr, LoRaWANDevice, GatewayConfig } from '../ttn-payload';
+import { encodeDeviceFrmPayload, encodeLegacyFrmPayload, base64ToBytes } from './payloadCodec';
+import { simulateRfLink, DEFAULT_RF_LINK, GeoPoint, RfLinkConfig } from './rfModel';
+import { DEFAULT_REGION, getChannelPlan, selectUplinkChannel, RegionId } from './channelPlans';
+import { calculateUplinkAirtimeMs } from './airtime';
+import { SeededRandom, createFieldSeed } from './simulationEngine';
+import { simNow, simNowIso } from './clock';
+import { getMessageType } from './messageTypes';
 import { debug } from '../debugLogger';
 
 // ============================================
@@ -22,21 +30,51 @@ export interface RxMetadata {
     eui: string;
   };
   rssi: number;
+  channel_rssi: number;
   snr: number;
   timestamp?: number;
+  channel_index?: number;
 }
 
 /**
- * TTN V3 Uplink Envelope
+ * Radio settings the uplink was transmitted with
+ */
+export interface UplinkSettings {
+  data_rate: {
+    lora: {
+      bandwidth: number;
+      spreading_factor: number;
+      coding_rate: string;
+    };
+  };
+  frequency: string;  // Hz; TTN serializes uint64 as a string
+  timestamp?: number;
+  time?: string;
+}
+
+/**
+ * Network that handled the uplink
+ */
+export interface NetworkIds {
+  net_id: string;
+  tenant_id: string;
+  cluster_id: string;
+  cluster_address: string;
+}
+
+/**
+ * TTN V3 Uplink Envelope (as.up.data.forward)
  */
 export interface TTNEnvelope {
   end_device_ids: {
     device_id: string;
     dev_eui: string;
+    dev_addr: string;
     application_ids: {
       application_id: string;
     };
   };
+  correlation_ids: string[];
   received_at: string;
   uplink_message: {
     f_port: number;
@@ -44,16 +82,22 @@ export interface TTNEnvelope {
     decoded_payload: Record<string, unknown>;
     frm_payload: string;
     rx_metadata: RxMetadata[];
+    settings: UplinkSettings;
+    received_at: string;
+    consumed_airtime: string;  // Protobuf duration, e.g. "0.061696s"
+    network_ids: NetworkIds;
   };
 }
 
 /**
- * Device instance for envelope building
+ * Device instance for envelope building.
+ * gatewayId is the home gateway; other gateways in range also hear it.
  */
 export interface DeviceInstance {
   devEui: string;
   name: string;
   gatewayId: string;
+  location?: GeoPoint;
 }
 
 /**
@@ -62,6 +106,7 @@ export interface DeviceInstance {
 export interface GatewayInstance {
   id: string;
   eui: string;
+  location?: GeoPoint;
 }
 
 /**
@@ -78,6 +123,17 @@ export interface SignalOverrides {
 export interface EnvelopeOptions {
   signalOverrides?: SignalOverrides;
   serverTimestamp?: string;
+  /** Seeds the RF model; defaults to the device's simulation state */
+  context?: SimulationContext;
+  rfLink?: Partial<RfLinkConfig>;
+  /** Channel plan for settings.frequency and network_ids (default US915) */
+  region?: RegionId;
+  /** f_port of the frame (default: the message type's fport, else the device's default_fport) */
+  fPort?: number;
+  /** Message type id of the frame; picks the frame's codec */
+  messageType?: string;
+  /** Frame the caller already encoded (default: the device's codec) */
+  frmPayload?: string;
 }
 
 // ============================================
@@ -85,25 +141,116 @@ export interface EnvelopeOptions {
 // ============================================
 
 /**
- * Generate realistic RSSI value
- * Range: -120 dBm (weak) to -30 dBm (strong)
- * Typical indoor: -60 to -80 dBm
+ * Context used to seed the RF model when the caller has none
  */
-function generateRealisticRssi(baseRssi: number = -65): number {
-  // Add random variance of ±5 dBm
-  const variance = (Math.random() - 0.5) * 10;
-  return Math.round(Math.max(-120, Math.min(-30, baseRssi + variance)));
+const DEFAULT_RF_CONTEXT: SimulationContext = {
+  orgId: '',
+  siteId: '',
+  unitId: '',
+  deviceInstanceId: '',
+  emissionSequence: 0,
+};
+
+/** Max extra delay before a secondary gateway timestamps the frame */
+const SECONDARY_GATEWAY_DELAY_MS = 40;
+
+/**
+ * Seeded per-gateway receive delay relative to the primary gateway
+ */
+function secondaryGatewayDelay(context: SimulationContext, gatewayId: string): number {
+  const random = new SeededRandom(createFieldSeed(context, `rx-delay|${gatewayId}`));
+  return 1 + random.nextInt(0, SECONDARY_GATEWAY_DELAY_MS - 1);
 }
 
+/** The Things Network's NetID */
+const TTN_NET_ID = '000013';
+
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
 /**
- * Generate realistic SNR value
- * Range: -20 dB (poor) to +15 dB (excellent)
- * Typical good signal: 5 to 10 dB
+ * ULID-formatted id: 10 chars of millisecond time + 16 seeded chars
  */
-function generateRealisticSnr(baseSnr: number = 7.5): number {
-  // Add random variance of ±2 dB
-  const variance = (Math.random() - 0.5) * 4;
-  return Math.round((baseSnr + variance) * 10) / 10;
+function generateUlid(timestampMs: number, random: SeededRandom): string {
+  let time = '';
+  let remaining = Math.max(0, Math.floor(timestampMs));
+  for (let i = 0; i < 10; i++) {
+    time = CROCKFORD_BASE32[remaining % 32] + time;
+    remaining = Math.floor(remaining / 32);
+  }
+  let suffix = '';
+  for (let i = 0; i < 16; i++) {
+    suffix += CROCKFORD_BASE32[random.nextInt(0, 31)];
+  }
+  return time + suffix;
+}
+
+/**
+ * Transmission details shared by both envelope builders: channel hop,
+ * data rate, airtime, correlation ids and network ids. All seeded from
+ * the context so the envelope stays reproducible.
+ */
+function buildTransmission(
+  region: RegionId,
+  context: SimulationContext,
+  frmPayload: string,
+  timestamp: number,
+  receivedAt: string,
+  rfLink?: Partial<RfLinkConfig>
+) {
+  const plan = getChannelPlan(region);
+  const channel = selectUplinkChannel(plan, context);
+  const spreadingFactor = Math.min(
+    rfLink?.spreadingFactor ?? DEFAULT_RF_LINK.spreadingFactor,
+    plan.maxSpreadingFactor
+  ) as RfLinkConfig['spreadingFactor'];
+
+  const airtimeMs = calculateUplinkAirtimeMs(base64ToBytes(frmPayload).length, {
+    spreadingFactor,
+    bandwidthHz: plan.bandwidthHz,
+    codingRate: plan.codingRate,
+  });
+
+  const random = new SeededRandom(createFieldSeed(context, 'correlation-ids'));
+  const correlationIds = ['gs:uplink', 'ns:uplink', 'as:up'].map(
+    prefix => `${prefix}:${generateUlid(timestamp, random)}`
+  );
+
+  const settings: UplinkSettings = {
+    data_rate: {
+      lora: {
+        bandwidth: plan.bandwidthHz,
+        spreading_factor: spreadingFactor,
+        coding_rate: plan.codingRate,
+      },
+    },
+    frequency: String(channel.frequencyHz),
+    timestamp,
+    time: receivedAt,
+  };
+
+  const networkIds: NetworkIds = {
+    net_id: TTN_NET_ID,
+    tenant_id: 'ttn',
+    cluster_id: plan.cluster,
+    cluster_address: `${plan.cluster}.cloud.thethings.network`,
+  };
+
+  return {
+    channelIndex: channel.index,
+    rfLink: { ...rfLink, frequencyMhz: channel.frequencyHz / 1e6, spreadingFactor },
+    settings,
+    consumedAirtime: `${(airtimeMs / 1000).toFixed(6)}s`,
+    correlationIds,
+    networkIds,
+  };
+}
+
+/**
+ * Put the device's home gateway first, keeping the others in order
+ */
+function orderByHomeGateway(gateways: GatewayInstance[], homeGatewayId: string): GatewayInstance[] {
+  const home = gateways.filter(g => g.id === homeGatewayId);
+  return home.length > 0 ? [...home, ...gateways.filter(g => g.id !== homeGatewayId)] : gateways;
 }
 
 /**
@@ -119,41 +266,83 @@ function normalizeDevEui(devEui: string): string {
 
 /**
  * Generate rx_metadata array for TTN envelope
+ *
+ * One entry per gateway that hears the uplink. The first gateway is the
+ * primary: it is always included and timestamped at `timestamp`; the
+ * others are included when the RF link model says the frame demodulates,
+ * each with its own RSSI/SNR and a small seeded receive delay.
+ *
+ * RSSI/SNR given explicitly pin the primary gateway's link and suppress
+ * the others, so scenarios fully control the reported signal. Everything
+ * else comes from the seeded RF link model; the same context produces
+ * the same metadata.
  */
 export function generateRxMetadata(
-  gateway: GatewayInstance,
+  gateways: GatewayInstance | GatewayInstance[],
   options?: {
     rssi?: number;
     snr?: number;
     timestamp?: number;
+    context?: SimulationContext;
+    deviceLocation?: GeoPoint;
+    rfLink?: Partial<RfLinkConfig>;
+    channelIndex?: number;
   }
 ): RxMetadata[] {
-  const rssi = options?.rssi ?? generateRealisticRssi();
-  const snr = options?.snr ?? generateRealisticSnr();
-  const timestamp = options?.timestamp ?? Date.now();
+  const [primary, ...secondaries] = Array.isArray(gateways) ? gateways : [gateways];
+  if (!primary) return [];
+
+  const context = options?.context ?? DEFAULT_RF_CONTEXT;
+  const timestamp = options?.timestamp ?? simNow();
+  const pinned = options?.rssi !== undefined || options?.snr !== undefined;
 
-  return [{
+  const simulate = (gateway: GatewayInstance, rssi?: number) => simulateRfLink({
+    context,
+    gatewayId: gateway.id,
+    deviceLocation: options?.deviceLocation,
+    gatewayLocation: gateway.location,
+    rssi,
+    config: options?.rfLink,
+  });
+  const entry = (gateway: GatewayInstance, rssi: number, snr: number, at: number): RxMetadata => ({
     gateway_ids: {
       gateway_id: gateway.id,
       eui: gateway.eui.toUpperCase(),
     },
     rssi,
+    channel_rssi: rssi,
     snr,
-    timestamp,
-  }];
+    timestamp: at,
+    ...(options?.channelIndex !== undefined && { channel_index: options.channelIndex }),
+  });
+
+  const primaryLink = simulate(primary, options?.rssi);
+  const rxMetadata = [
+    entry(primary, options?.rssi ?? primaryLink.rssi, options?.snr ?? primaryLink.snr, timestamp),
+  ];
+  if (pinned) return rxMetadata;
+
+  for (const gateway of secondaries) {
+    const link = simulate(gateway);
+    if (!link.received) continue;
+    rxMetadata.push(entry(gateway, link.rssi, link.snr, timestamp + secondaryGatewayDelay(context, gateway.id)));
+  }
+  return rxMetadata;
 }
 
 /**
  * Build a complete TTN v3 envelope for a device library payload
  * 
  * Uses the device library configuration for:
- * - f_port from device definition
+ * - f_port from the message type or device definition
  * - f_cnt from simulation state
+ * - frm_payload from the device's codec for that port and message type, or Cayenne LPP
  * - proper end_device_ids structure
+ * - rx_metadata from every gateway in range, home gateway first
  */
 export function buildLibraryEnvelope(
   deviceInstance: DeviceInstance,
-  gateway: GatewayInstance,
+  gateways: GatewayInstance | GatewayInstance[],
   decodedPayload: Record<string, unknown>,
   libraryDevice: DeviceDefinition,
   simState: DeviceSimulationState,
@@ -162,39 +351,61 @@ export function buildLibraryEnvelope(
 ): TTNEnvelope {
   const normalizedDevEui = normalizeDevEui(deviceInstance.devEui);
   const deviceId = `sensor-${normalizedDevEui}`;
-  const receivedAt = options?.serverTimestamp || new Date().toISOString();
+  const receivedAt = options?.serverTimestamp || simNowIso();
   const timestamp = options?.serverTimestamp 
     ? new Date(options.serverTimestamp).getTime()
-    : Date.now();
+    : simNow();
 
-  // Get f_port from library device definition
-  const fPort = libraryDevice.default_fport;
+  // Get f_port from the message type or library device definition
+  const messageType = options?.messageType ? getMessageType(libraryDevice, options.messageType) : undefined;
+  const fPort = options?.fPort ?? messageType?.fport ?? libraryDevice.default_fport;
   
   // Get f_cnt from simulation state
   const fCnt = simState.f_cnt;
 
+  const context = options?.context ?? {
+    ...DEFAULT_RF_CONTEXT,
+    deviceInstanceId: simState.deviceInstanceId,
+    emissionSequence: simState.emissionSequence,
+  };
+  const frmPayload = options?.frmPayload ?? encodeDeviceFrmPayload(libraryDevice, decodedPayload, fPort, messageType);
+  const transmission = buildTransmission(
+    options?.region ?? DEFAULT_REGION, context, frmPayload, timestamp, receivedAt, options?.rfLink
+  );
+
   // Build rx_metadata with optional signal overrides
-  const rxMetadata = generateRxMetadata(gateway, {
+  const candidates = Array.isArray(gateways) ? gateways : [gateways];
+  const rxMetadata = generateRxMetadata(orderByHomeGateway(candidates, deviceInstance.gatewayId), {
     rssi: options?.signalOverrides?.rssi,
     snr: options?.signalOverrides?.snr,
     timestamp,
+    context,
+    deviceLocation: deviceInstance.location,
+    rfLink: transmission.rfLink,
+    channelIndex: transmission.channelIndex,
   });
 
   return {
     end_device_ids: {
       device_id: deviceId,
       dev_eui: normalizedDevEui.toUpperCase(),
+      dev_addr: generateDevAddr(normalizedDevEui),
       application_ids: {
         application_id: applicationId,
       },
     },
+    correlation_ids: transmission.correlationIds,
     received_at: receivedAt,
     uplink_message: {
       f_port: fPort,
       f_cnt: fCnt,
       decoded_payload: decodedPayload,
-      frm_payload: encodePayload(decodedPayload),
+      frm_payload: frmPayload,
       rx_metadata: rxMetadata,
+      settings: transmission.settings,
+      received_at: receivedAt,
+      consumed_airtime: transmission.consumedAirtime,
+      network_ids: transmission.networkIds,
     },
   };
 }
@@ -209,14 +420,15 @@ export function buildLegacyEnvelope(
   decodedPayload: Record<string, unknown>,
   applicationId: string,
   fCnt: number,
-  serverTimestamp?: string
+  serverTimestamp?: string,
+  region: RegionId = DEFAULT_REGION
 ): TTNEnvelope {
   const normalizedDevEui = normalizeDevEui(device.devEui);
   const deviceId = generateDeviceId(device.devEui);
-  const receivedAt = serverTimestamp || new Date().toISOString();
+  const receivedAt = serverTimestamp || simNowIso();
   const timestamp = serverTimestamp 
     ? new Date(serverTimestamp).getTime()
-    : Date.now();
+    : simNow();
 
   // Default f_port: 2 (Dragino default; overridden by library device when available)
   const fPort = 2;
@@ -226,26 +438,43 @@ export function buildLegacyEnvelope(
     ? decodedPayload.signal_strength 
     : -65;
 
+  const context = { ...DEFAULT_RF_CONTEXT, deviceInstanceId: normalizedDevEui, emissionSequence: fCnt };
+  const frmPayload = encodeLegacyFrmPayload(decodedPayload);
+  const transmission = buildTransmission(region, context, frmPayload, timestamp, receivedAt);
+
   const rxMetadata = generateRxMetadata(
-    { id: gateway.id, eui: gateway.eui },
-    { rssi: signalStrength, timestamp }
+    { id: gateway.id, eui: gateway.eui, location: gateway.location },
+    {
+      rssi: signalStrength,
+      timestamp,
+      context,
+      deviceLocation: device.location,
+      rfLink: transmission.rfLink,
+      channelIndex: transmission.channelIndex,
+    }
   );
 
   return {
     end_device_ids: {
       device_id: deviceId,
       dev_eui: normalizedDevEui.toUpperCase(),
+      dev_addr: generateDevAddr(normalizedDevEui),
       application_ids: {
         application_id: applicationId,
       },
     },
+    correlation_ids: transmission.correlationIds,
     received_at: receivedAt,
     uplink_message: {
       f_port: fPort,
       f_cnt: fCnt,
       decoded_payload: decodedPayload,
-      frm_payload: encodePayload(decodedPayload),
+      frm_payload: frmPayload,
       rx_metadata: rxMetadata,
+      settings: transmission.settings,
+      received_at: receivedAt,
+      consumed_airtime: transmission.consumedAirtime,
+      network_ids: transmission.networkIds,
     },
   };
 }
@@ -264,5 +493,10 @@ export function getEnvelopeLogData(envelope: TTNEnvelope): Record<string, unknow
     gateway_id: envelope.uplink_message.rx_metadata[0]?.gateway_ids.gateway_id,
     rssi: envelope.uplink_message.rx_metadata[0]?.rssi,
     snr: envelope.uplink_message.rx_metadata[0]?.snr,
+    gateway_count: envelope.uplink_message.rx_metadata.length,
+    dev_addr: envelope.end_device_ids.dev_addr,
+    frequency: envelope.uplink_message.settings.frequency,
+    spreading_factor: envelope.uplink_message.settings.data_rate.lora.spreading_factor,
+    consumed_airtime: envelope.uplink_message.consumed_airtime,
   };
 }
@@ -0,0 +1,149 @@
+/**
+ * Event Rules
+ *
+ * Out-of-cycle uplinks. Between periodic uplinks a device samples its
+ * sensors every sample_interval_sec; when a sampled value changes, crosses
+ * a threshold or raises an alarm flag, a rule's frame is sent right away.
+ * Rules compare consecutive samples, so the first sample only sets the
+ * baseline. Rate limiting per rule is done by the emission scheduler.
+ */
+
+import type {
+  DeviceDefinition,
+  DeviceSimulationState,
+  EventRuleDefinition,
+  FieldConstraint,
+  SimulationContext,
+} from './types';
+import { getMessageType, getMessageTypes } from './messageTypes';
+import { composeScenarioPayload, type ScenarioType } from './scenarioComposer';
+import { generateDevicePayload, withoutUplink } from './simulationEngine';
+
+// ============================================
+// Types
+// ============================================
+
+/** Default period between samples of a device with event rules */
+export const DEFAULT_SAMPLE_INTERVAL_SEC = 60;
+
+/** Default shortest time between two uplinks of the same rule */
+export const DEFAULT_EVENT_MIN_INTERVAL_SEC = 60;
+
+/**
+ * An event rule that fired, ready for the scheduler
+ */
+export interface EventTrigger {
+  ruleId: string;
+  messageType: string;
+  minIntervalSec: number;
+  data?: Record<string, unknown>;  // Sampled values of the frame's fields
+}
+
+/**
+ * Outcome of a device sample
+ */
+export interface EventSample {
+  fields: Record<string, unknown>;
+  updatedState: DeviceSimulationState;
+  triggers: EventTrigger[];
+}
+
+// ============================================
+// Evaluation
+// ============================================
+
+/**
+ * Whether a rule fires between two samples of its field
+ */
+export function matchesEventRule(rule: EventRuleDefinition, previous: unknown, current: unknown): boolean {
+  if (previous === undefined || current === undefined) return false;
+
+  switch (rule.kind) {
+    case 'change':
+      if (typeof previous === 'number' && typeof current === 'number' && rule.min_delta !== undefined) {
+        return Math.abs(current - previous) >= rule.min_delta;
+      }
+      return previous !== current;
+    case 'threshold': {
+      if (typeof previous !== 'number' || typeof current !== 'number') return false;
+      const threshold = rule.threshold!;
+      const direction = rule.direction ?? 'both';
+      const rising = previous < threshold && current >= threshold;
+      const falling = previous >= threshold && current < threshold;
+      return (rising && direction !== 'falling') || (falling && direction !== 'rising');
+    }
+    case 'flag': {
+      const raised = rule.value ?? true;
+      return current === raised && previous !== raised;
+    }
+  }
+}
+
+/**
+ * Rules that fire between two samples of a device's fields
+ */
+export function evaluateEventRules(
+  rules: EventRuleDefinition[],
+  previous: Record<string, unknown>,
+  current: Record<string, unknown>
+): EventRuleDefinition[] {
+  return rules.filter(rule => matchesEventRule(rule, previous[rule.field], current[rule.field]));
+}
+
+/**
+ * Turn a fired rule into a trigger carrying the sampled values of the
+ * frame it sends (the rule's message type, else the device's first one)
+ */
+export function toEventTrigger(
+  device: DeviceDefinition,
+  rule: EventRuleDefinition,
+  fields: Record<string, unknown>
+): EventTrigger {
+  const messageType = (rule.message_type && getMessageType(device, rule.message_type)) || getMessageTypes(device)[0];
+  const data: Record<string, unknown> = {};
+  for (const field of messageType.fields) {
+    if (field in fields) data[field] = fields[field];
+  }
+  return {
+    ruleId: rule.id,
+    messageType: messageType.id,
+    minIntervalSec: rule.min_interval_sec ?? DEFAULT_EVENT_MIN_INTERVAL_SEC,
+    data,
+  };
+}
+
+// ============================================
+// Sampling
+// ============================================
+
+/**
+ * Whether a device has event rules to sample
+ */
+export function hasEventRules(device: DeviceDefinition): boolean {
+  return !!device.event_rules && device.event_rules.length > 0;
+}
+
+/**
+ * Sample a device's sensors without sending: values and the emission
+ * sequence advance, the frame counter does not. Returns the triggers of
+ * rules that fired against the previous values.
+ */
+export function sampleEventRules(
+  device: DeviceDefinition,
+  state: DeviceSimulationState,
+  context: SimulationContext,
+  options: { scenario?: ScenarioType; emissionTime?: number; constraints?: Record<string, FieldConstraint> } = {}
+): EventSample {
+  const previous = structuredClone(state);
+  const { emissionTime, constraints } = options;
+  const result = options.scenario && options.scenario !== 'normal'
+    ? composeScenarioPayload(device, options.scenario, state, context, { emissionTime, constraints })
+    : generateDevicePayload(device, state, context, 'normal', { emissionTime, constraints });
+
+  const fired = evaluateEventRules(device.event_rules ?? [], previous.lastValues, result.fields);
+  return {
+    fields: result.fields,
+    updatedState: withoutUplink(result.updatedState, previous),
+    triggers: fired.map(rule => toEventTrigger(device, rule, result.fields)),
+  };
+}
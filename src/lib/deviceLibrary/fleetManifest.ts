@@ -0,0 +1,248 @@
+/**
+ * Fleet Manifest
+ *
+ * Reads and writes fleet manifests (YAML or JSON) and converts them to
+ * and from the emulator's gateways, devices and model assignments, so a
+ * whole test bench can be committed to git and recreated exactly.
+ */
+
+import { parse as parseYaml, stringify as stringifyYaml } from 'yaml';
+import type { GatewayConfig, LoRaWANDevice } from '../ttn-payload';
+import { generateAppKey, generateEUI } from '../ttn-payload';
+import type { FleetDevice, FleetManifest, ValidationResult, ValidationWarning } from './types';
+import type { RegionId } from './channelPlans';
+import type { ScenarioType } from './scenarioComposer';
+import { validateFleetManifest } from './schema';
+import { getDevice, getRecommendedDevice, isLibraryLoaded } from './loader';
+import { deviceSupportsScenario } from './scenarioComposer';
+import { getDeviceModel, setDeviceModel } from './store';
+import { getStateBackend } from './stateBackend';
+
+// ============================================
+// Types
+// ============================================
+
+export type FleetManifestFormat = 'yaml' | 'json';
+
+/**
+ * Manifest-level settings the emulator has no other home for
+ */
+export interface FleetSettings {
+  name?: string;
+  seed: string;
+  region?: RegionId;
+}
+
+/**
+ * Current emulator state to capture in a manifest
+ */
+export interface FleetSnapshot {
+  gateways: GatewayConfig[];
+  devices: LoRaWANDevice[];
+  applicationId: string;
+  orgId?: string;
+  intervals?: Record<string, number>;            // Emulator device id → seconds
+  scenarios?: Record<string, ScenarioType>;      // Emulator device id → scenario
+  settings?: FleetSettings;
+  includeCredentials?: boolean;                  // Export joinEui/appKey (default: false)
+}
+
+export const FLEET_MANIFEST_VERSION = 1;
+
+/** Used for devices without an interval in the snapshot */
+export const DEFAULT_FLEET_INTERVAL_SEC = 60;
+
+const STORAGE_KEY_FLEET_SETTINGS = 'fleet-settings-v1';
+
+// ============================================
+// Parsing & Serialization
+// ============================================
+
+/**
+ * Parse a YAML or JSON manifest and validate it.
+ * Unknown library models and unsupported scenarios in the active library
+ * are reported as warnings.
+ */
+export function parseFleetManifest(text: string): { manifest: FleetManifest | null; result: ValidationResult } {
+  let json: unknown;
+  try {
+    json = parseYaml(text);
+  } catch (e) {
+    return {
+      manifest: null,
+      result: {
+        valid: false,
+        errors: [{
+          path: '',
+          message: `Invalid YAML/JSON: ${e instanceof Error ? e.message : 'parse error'}`,
+          code: 'parse_error',
+        }],
+        warnings: [],
+      },
+    };
+  }
+
+  const { manifest, result } = validateFleetManifest(json);
+  if (!manifest) return { manifest, result };
+
+  const warnings: ValidationWarning[] = [];
+  if (!isLibraryLoaded()) return { manifest, result };
+
+  manifest.devices.forEach((device, index) => {
+    const libraryDevice = getDevice(device.model);
+    if (!libraryDevice) {
+      warnings.push({
+        path: `devices.${index}.model`,
+        message: `Unknown library model '${device.model}'`,
+        suggestion: 'Load a library that contains this model or change the assignment',
+      });
+    } else if (device.scenario && !deviceSupportsScenario(libraryDevice, device.scenario)) {
+      warnings.push({
+        path: `devices.${index}.scenario`,
+        message: `Scenario '${device.scenario}' does not apply to ${libraryDevice.category} devices`,
+      });
+    }
+  });
+
+  return { manifest, result: { ...result, warnings } };
+}
+
+export function serializeFleetManifest(manifest: FleetManifest, format: FleetManifestFormat = 'yaml'): string {
+  return format === 'json'
+    ? JSON.stringify(manifest, null, 2) + '\n'
+    : stringifyYaml(manifest);
+}
+
+// ============================================
+// Fleet Settings Persistence
+// ============================================
+
+/**
+ * Settings from the last imported manifest, or a fresh random seed
+ */
+export function getFleetSettings(): FleetSettings {
+  try {
+    const stored = getStateBackend().getItem(STORAGE_KEY_FLEET_SETTINGS);
+    if (stored) return JSON.parse(stored) as FleetSettings;
+  } catch (e) {
+    console.warn('[FleetManifest] Failed to load fleet settings:', e);
+  }
+  const settings: FleetSettings = { seed: crypto.randomUUID().slice(0, 8) };
+  saveFleetSettings(settings);
+  return settings;
+}
+
+export function saveFleetSettings(settings: FleetSettings): void {
+  try {
+    getStateBackend().setItem(STORAGE_KEY_FLEET_SETTINGS, JSON.stringify(settings));
+  } catch (e) {
+    console.warn('[FleetManifest] Failed to save fleet settings:', e);
+  }
+}
+
+// ============================================
+// Emulator Conversion
+// ============================================
+
+function libraryModelFor(device: LoRaWANDevice): string | null {
+  return getDeviceModel(device.id)
+    ?? getRecommendedDevice(device.type === 'door' ? 'door' : 'temp')?.id
+    ?? null;
+}
+
+function deviceTypeFor(device: FleetDevice): 'temperature' | 'door' {
+  if (device.type) return device.type;
+  const category = getDevice(device.model)?.category;
+  return category === 'door' || category === 'contact' ? 'door' : 'temperature';
+}
+
+/**
+ * Capture the emulator's gateways, devices and model assignments.
+ * Devices without an assigned or recommended library model are skipped.
+ */
+export function createFleetManifest(snapshot: FleetSnapshot): { manifest: FleetManifest; skipped: string[] } {
+  const settings = snapshot.settings ?? getFleetSettings();
+  const skipped: string[] = [];
+  const devices: FleetDevice[] = [];
+
+  for (const device of snapshot.devices) {
+    const model = libraryModelFor(device);
+    if (!model) {
+      skipped.push(device.name);
+      continue;
+    }
+    devices.push({
+      id: device.id,
+      devEui: device.devEui,
+      name: device.name,
+      type: device.type,
+      model,
+      gatewayId: device.gatewayId,
+      siteId: device.siteId,
+      unitId: device.unitId,
+      intervalSec: snapshot.intervals?.[device.id] ?? DEFAULT_FLEET_INTERVAL_SEC,
+      scenario: snapshot.scenarios?.[device.id],
+      location: device.location,
+      ...(snapshot.includeCredentials ? { joinEui: device.joinEui, appKey: device.appKey } : {}),
+    });
+  }
+
+  const manifest: FleetManifest = {
+    version: FLEET_MANIFEST_VERSION,
+    name: settings.name,
+    seed: settings.seed,
+    region: settings.region,
+    applicationId: snapshot.applicationId,
+    orgId: snapshot.orgId,
+    gateways: snapshot.gateways.map(g => ({ id: g.id, eui: g.eui, name: g.name, location: g.location })),
+    devices,
+  };
+
+  // Drop undefined keys so YAML output stays clean
+  return { manifest: JSON.parse(JSON.stringify(manifest)) as FleetManifest, skipped };
+}
+
+/**
+ * Recreate emulator gateways and devices from a manifest.
+ * Persists model assignments and fleet settings; devices without
+ * credentials in the manifest get freshly generated ones.
+ */
+export function applyFleetManifest(manifest: FleetManifest): {
+  gateways: GatewayConfig[];
+  devices: LoRaWANDevice[];
+  intervals: Record<string, number>;
+  scenarios: Record<string, ScenarioType>;
+} {
+  const intervals: Record<string, number> = {};
+  const scenarios: Record<string, ScenarioType> = {};
+
+  const gateways: GatewayConfig[] = manifest.gateways.map(g => ({
+    id: g.id,
+    eui: g.eui.toUpperCase(),
+    name: g.name ?? g.id,
+    location: g.location,
+    isOnline: true,
+  }));
+
+  const devices: LoRaWANDevice[] = manifest.devices.map(d => {
+    const id = d.id ?? d.devEui.toUpperCase();
+    setDeviceModel(id, d.model);
+    intervals[id] = d.intervalSec;
+    if (d.scenario) scenarios[id] = d.scenario;
+    return {
+      id,
+      devEui: d.devEui.toUpperCase(),
+      joinEui: d.joinEui?.toUpperCase() ?? generateEUI(),
+      appKey: d.appKey?.toUpperCase() ?? generateAppKey(),
+      name: d.name ?? d.devEui.toUpperCase(),
+      type: deviceTypeFor(d),
+      gatewayId: d.gatewayId,
+      siteId: d.siteId ?? manifest.siteId,
+      unitId: d.unitId ?? manifest.unitId,
+      location: d.location,
+    };
+  });
+
+  saveFleetSettings({ name: manifest.name, seed: manifest.seed, region: manifest.region });
+  return { gateways, devices, intervals, scenarios };
+}
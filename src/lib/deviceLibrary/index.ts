@@ -12,6 +12,17 @@ export type {
   BoolFieldConfig,
   EnumFieldConfig,
   StringFieldConfig,
+  BehaviorModel,
+  SinusoidBehavior,
+  SawtoothBehavior,
+  SpikeBehavior,
+  RecoveryBehavior,
+  FieldBehavior,
+  LinearDerivation,
+  CurveDerivation,
+  FieldDerivation,
+  BatteryModelConfig,
+  BatteryState,
   SimulationProfile,
   DeviceExamples,
   DeviceDefinition,
@@ -24,18 +35,28 @@ export type {
   ValidationError,
   ValidationWarning,
   DeviceModelAssignment,
+  MessageTrigger,
+  MessageTypeDefinition,
+  EventRuleKind,
+  EventRuleDefinition,
   // Simulation types
   SimulationContext,
   DeviceSimulationState,
   GenerationMode,
   GenerationOptions,
   GenerationResult,
+  FieldConstraint,
+  FleetGateway,
+  FleetDevice,
+  FleetManifest,
 } from './types';
 
 // Schema & Validation
 export { 
   validateDeviceLibrary, 
-  parseDeviceLibrary 
+  parseDeviceLibrary,
+  fleetManifestSchema,
+  validateFleetManifest,
 } from './schema';
 
 // Loader
@@ -68,6 +89,7 @@ export {
   setDeviceModel,
   clearDeviceModel,
   clearAllModelAssignments,
+  replaceModelAssignments,
   initializeDeviceLibrary,
 } from './store';
 
@@ -77,9 +99,35 @@ export {
   generateFields,
   generateDevicePayload,
   createInitialSimulationState,
+  withoutUplink,
   verifyDeterminism,
+  createFieldSeed,
 } from './simulationEngine';
 
+// Behavior Models
+export { evaluateBehaviorModel, evaluateFieldBehavior } from './behaviorModels';
+
+// Derived Fields
+export {
+  LI_SOCL2_VOLTAGE_CURVE,
+  interpolateCurve,
+  evaluateDerivation,
+  orderFieldsByDependency,
+  withDerivationSources,
+} from './derivedFields';
+
+// Battery Discharge Model
+export {
+  DEFAULT_BATTERY_MODEL,
+  BATTERY_LEVEL_FIELD,
+  resolveBatteryModel,
+  usesBatteryModel,
+  createBatteryState,
+  getBatteryPct,
+  isBatteryLow,
+  dischargeBattery,
+} from './batteryModel';
+
 // Device State Store
 export {
   getDeviceSimState,
@@ -98,6 +146,14 @@ export {
   getStateSummary,
 } from './deviceStateStore';
 
+// State Backend
+export type { StateBackend } from './stateBackend';
+export {
+  createMemoryBackend,
+  setStateBackend,
+  getStateBackend,
+} from './stateBackend';
+
 // Alarm Triggers
 export type { AlarmTrigger, AlarmTriggerId } from './alarmTriggers';
 export {
@@ -111,12 +167,37 @@ export {
   getSeverityIconBg,
 } from './alarmTriggers';
 
+// Message Types
+export type { MessageStream } from './messageTypes';
+export {
+  DEFAULT_MESSAGE_TYPE_ID,
+  getMessageTypes,
+  getMessageType,
+  hasMessageTypes,
+  getEventMessageTypes,
+  getMessageStreams,
+  selectMessageFields,
+} from './messageTypes';
+
+// Event Rules
+export type { EventTrigger, EventSample } from './eventRules';
+export {
+  DEFAULT_SAMPLE_INTERVAL_SEC,
+  DEFAULT_EVENT_MIN_INTERVAL_SEC,
+  matchesEventRule,
+  evaluateEventRules,
+  toEventTrigger,
+  hasEventRules,
+  sampleEventRules,
+} from './eventRules';
+
 // Scenario Composer
 export type { ScenarioType, ScenarioDefinition } from './scenarioComposer';
 export {
   SCENARIOS,
   composeScenarioPayload,
   composeAlarmPayload,
+  composeMessagePayload,
   getDeviceAlarms,
   deviceSupportsScenario,
   getDeviceScenarios,
@@ -128,6 +209,8 @@ export {
 export type { 
   RxMetadata, 
   TTNEnvelope, 
+  UplinkSettings,
+  NetworkIds,
   DeviceInstance, 
   GatewayInstance,
   SignalOverrides,
@@ -140,16 +223,168 @@ export {
   getEnvelopeLogData,
 } from './envelopeBuilder';
 
+// RF Link Model
+export type { SpreadingFactor, GeoPoint, RfLinkConfig, RfLinkInput, RfLinkResult } from './rfModel';
+export {
+  DEFAULT_RF_LINK,
+  SNR_FLOOR_DB,
+  distanceMeters,
+  pathLossDb,
+  resolveLinkDistance,
+  simulateRfLink,
+} from './rfModel';
+
+// Channel Plans
+export type { RegionId, TTNClusterId, ChannelPlan } from './channelPlans';
+export {
+  CHANNEL_PLANS,
+  DEFAULT_REGION,
+  getChannelPlan,
+  regionForCluster,
+  selectUplinkChannel,
+} from './channelPlans';
+
+// Airtime
+export type { AirtimeParams, AirtimePolicy, AirtimeBudgetCheck } from './airtime';
+export {
+  LORAWAN_OVERHEAD_BYTES,
+  TTN_FAIR_USE_MS_PER_DAY,
+  DEFAULT_FRM_PAYLOAD_BYTES,
+  AIRTIME_POLICIES,
+  calculateAirtimeMs,
+  calculateUplinkAirtimeMs,
+  estimateDeviceAirtimeMs,
+  getAirtimePolicy,
+  dailyAirtimeMs,
+  checkAirtimeBudget,
+} from './airtime';
+
+// Payload Codecs
+export type { PayloadCodec } from './payloadCodec';
+export {
+  PAYLOAD_CODECS,
+  getPayloadCodec,
+  hasPayloadCodec,
+  encodeFrmPayload,
+  encodeDeviceFrmPayload,
+  decodeFrmPayload,
+  decodeDeviceFrmPayload,
+  getFrameResolution,
+  encodeLegacyFrmPayload,
+  bytesToBase64,
+  base64ToBytes,
+  bytesToHex,
+} from './payloadCodec';
+
+// Cayenne LPP
+export type { CayenneType, CayenneChannel, CayenneMapping, CayenneReading } from './cayenneLpp';
+export {
+  buildCayenneMapping,
+  encodeCayenneLpp,
+  decodeCayenneLpp,
+  decodeCayenneFields,
+  getCayenneResolution,
+} from './cayenneLpp';
+
+// Simulation Clock
+export type { ClockMode, ClockTimer, SimulationClock } from './clock';
+export {
+  VirtualClock,
+  createRealClock,
+  createScaledClock,
+  createVirtualClock,
+  createClockFromSpec,
+  setSimulationClock,
+  getSimulationClock,
+  simNow,
+  simNowIso,
+  simSleep,
+} from './clock';
+
 // Emission Scheduler
-export type { DeviceEmissionStatus, EmissionCallback } from './emissionScheduler';
+export type {
+  EmissionSchedulerOptions,
+  DeviceEmissionStatus,
+  EmissionCallback,
+  AirtimeEnforcement,
+  AirtimeDecision,
+  DeviceAirtime,
+  AirtimeBudgetOptions,
+  StartDeviceOptions,
+  EventSampler,
+  EventTriggerResult,
+} from './emissionScheduler';
 export { EmissionScheduler, createEmissionScheduler } from './emissionScheduler';
 
+// Fleet Manifest
+export type { FleetManifestFormat, FleetSettings, FleetSnapshot } from './fleetManifest';
+export {
+  FLEET_MANIFEST_VERSION,
+  DEFAULT_FLEET_INTERVAL_SEC,
+  parseFleetManifest,
+  serializeFleetManifest,
+  getFleetSettings,
+  saveFleetSettings,
+  createFleetManifest,
+  applyFleetManifest,
+} from './fleetManifest';
+
+// Library Editor
+export type { DevicePreview } from './libraryEditor';
+export {
+  createDeviceDraft,
+  createFieldConfig,
+  withDevice,
+  withoutDevice,
+  bumpLibraryVersion,
+  serializeDeviceLibrary,
+  validateDeviceDraft,
+  previewDevicePayloads,
+} from './libraryEditor';
+
+// TTN Device Repository Import
+export type {
+  TtnRepositoryReader,
+  TtnImportOptions,
+  TtnImportIssue,
+  TtnImportResult,
+  TtnMergeReport,
+} from './ttnDeviceRepository';
+export {
+  inferFieldConfig,
+  inferCategory,
+  convertTtnDevice,
+  importTtnRepository,
+  mergeImportedDevices,
+} from './ttnDeviceRepository';
+
+// Historical Backfill
+export type {
+  BackfillDevice,
+  BackfillOptions,
+  BackfillEntry,
+  BackfillProgress,
+  BackfillBatchResult,
+  BackfillRunOptions,
+  BackfillRunResult,
+} from './backfill';
+export {
+  DEFAULT_BACKFILL_BATCH_SIZE,
+  countBackfillEntries,
+  getBackfillJobId,
+  generateBackfill,
+  getBackfillProgress,
+  clearBackfillProgress,
+  runBackfill,
+} from './backfill';
+
 // Test Harness
 export type { TestResult, TestSuiteResult } from './testHarness';
 export {
   testSchemaValidation,
   testDeterminism,
   testBounds,
+  testPayloadRoundTrip,
   testIncrementPersistence,
   runTestSuite,
   runTestsWithOutput,
@@ -157,3 +392,24 @@ export {
 
 // Default Library
 export { defaultDeviceLibrary } from './defaultLibrary';
+
+// Library Migration
+export type {
+  LibraryVersionChange,
+  FieldChanges,
+  DeviceDiff,
+  LibraryDiff,
+  DiffOptions,
+  AssignmentMigration,
+  StateMigration,
+  MigrationWarning,
+  LibraryMigrationPlan,
+} from './libraryMigration';
+export {
+  compareLibraryVersions,
+  diffDeviceLibraries,
+  reconcileSimState,
+  planLibraryMigration,
+  planActiveLibraryMigration,
+  applyLibraryMigration,
+} from './libraryMigration';
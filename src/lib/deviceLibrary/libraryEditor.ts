@@ -0,0 +1,211 @@
+/**
+ * Library Editor
+ *
+ * Pure helpers behind the device library editor: drafting device
+ * definitions and fields, validating a draft in the context of its
+ * library, previewing generated payloads and producing a versioned
+ * library for export.
+ */
+
+import type {
+  DeviceDefinition,
+  DeviceLibrary,
+  FieldConfig,
+  FieldType,
+  SimulationContext,
+  ValidationError,
+  ValidationResult,
+  ValidationWarning,
+} from './types';
+import { validateDeviceLibrary } from './schema';
+import { createInitialSimulationState, generateDevicePayload } from './simulationEngine';
+import { simNow } from './clock';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Sample payloads for a draft device
+ */
+export interface DevicePreview {
+  normal: Record<string, unknown>[];
+  alarm?: Record<string, unknown>;
+  error?: string;
+}
+
+/** Spacing between preview samples, so behavior models visibly move */
+const PREVIEW_STEP_MS = 10 * 60 * 1000;
+
+// ============================================
+// Drafting
+// ============================================
+
+/**
+ * A minimal valid device definition to start editing from
+ */
+export function createDeviceDraft(id: string = 'new-device'): DeviceDefinition {
+  return {
+    id,
+    name: 'New Device',
+    manufacturer: 'Custom',
+    category: 'temperature',
+    default_fport: 1,
+    payload_format: 'json',
+    simulation_profile: {
+      fields: {
+        temperature: { type: 'float', min: -20, max: 10, precision: 1, unit: '°C' },
+      },
+    },
+    examples: {
+      normal: { temperature: 3.5 },
+    },
+  };
+}
+
+/**
+ * Default config for a field type, keeping the unit and description
+ * (and numeric range between float and int) of the field it replaces
+ */
+export function createFieldConfig(type: FieldType, previous?: FieldConfig): FieldConfig {
+  const common = { unit: previous?.unit, description: previous?.description };
+  switch (type) {
+    case 'float':
+    case 'int': {
+      const range = previous && (previous.type === 'float' || previous.type === 'int')
+        ? { min: previous.min, max: previous.max }
+        : { min: 0, max: 100 };
+      return type === 'float'
+        ? { type, ...range, precision: 1, ...common }
+        : { type, ...range, ...common };
+    }
+    case 'bool':
+      return { type, default: false, ...common };
+    case 'enum':
+      return { type, values: ['a', 'b'], ...common };
+    case 'string':
+      return { type, default: '', ...common };
+  }
+}
+
+// ============================================
+// Library Updates
+// ============================================
+
+/**
+ * Keep metadata.categories and metadata.manufacturers in step with the devices
+ */
+function syncMetadata(library: DeviceLibrary): DeviceLibrary {
+  const categories = [...library.metadata.categories];
+  const manufacturers = [...library.metadata.manufacturers];
+  for (const device of library.devices) {
+    if (!categories.includes(device.category)) categories.push(device.category);
+    if (device.manufacturer && !manufacturers.includes(device.manufacturer)) manufacturers.push(device.manufacturer);
+  }
+  return { ...library, metadata: { ...library.metadata, categories, manufacturers } };
+}
+
+/**
+ * Append a new device, or replace the one with replaceId (its id may have changed)
+ */
+export function withDevice(library: DeviceLibrary, device: DeviceDefinition, replaceId?: string): DeviceLibrary {
+  const index = replaceId === undefined ? -1 : library.devices.findIndex(d => d.id === replaceId);
+  const devices = index === -1
+    ? [...library.devices, device]
+    : library.devices.map((d, i) => (i === index ? device : d));
+  return syncMetadata({ ...library, devices });
+}
+
+export function withoutDevice(library: DeviceLibrary, deviceId: string): DeviceLibrary {
+  return { ...library, devices: library.devices.filter(d => d.id !== deviceId) };
+}
+
+/**
+ * Bump the patch version and stamp last_updated for export
+ */
+export function bumpLibraryVersion(library: DeviceLibrary, today: Date = new Date()): DeviceLibrary {
+  const [major, minor, patch] = library.metadata.version.split('.').map(Number);
+  const version = [major || 0, minor || 0, (patch || 0) + 1].join('.');
+  return {
+    ...library,
+    metadata: { ...library.metadata, version, last_updated: today.toISOString().slice(0, 10) },
+  };
+}
+
+export function serializeDeviceLibrary(library: DeviceLibrary): string {
+  return JSON.stringify(library, null, 2) + '\n';
+}
+
+// ============================================
+// Validation
+// ============================================
+
+/**
+ * Validate a draft device as part of its library. Paths in the result are
+ * relative to the device (e.g. `simulation_profile.fields.temperature.min`);
+ * library-wide issues such as duplicate ids keep their library path.
+ */
+export function validateDeviceDraft(
+  library: DeviceLibrary,
+  device: DeviceDefinition,
+  replaceId?: string
+): ValidationResult {
+  const draft = withDevice(library, device, replaceId);
+  const index = draft.devices.indexOf(device);
+  const result = validateDeviceLibrary(draft);
+
+  const devicePrefix = `devices.${index}.`;
+  const errors: ValidationError[] = [];
+  for (const error of result.errors) {
+    if (error.path.startsWith(devicePrefix)) {
+      errors.push({ ...error, path: error.path.slice(devicePrefix.length) });
+    } else if (!/^devices\.\d+\./.test(error.path)) {
+      errors.push(error);
+    }
+  }
+
+  const warningPrefix = `devices.${device.id}.`;
+  const warnings: ValidationWarning[] = result.warnings
+    .filter(w => w.path.startsWith(warningPrefix))
+    .map(w => ({ ...w, path: w.path.slice(warningPrefix.length) }));
+
+  return { valid: errors.length === 0, errors, warnings };
+}
+
+// ============================================
+// Preview
+// ============================================
+
+/**
+ * Generate consecutive sample payloads (and one alarm payload when the
+ * device has an alarm example) from a fresh simulation state
+ */
+export function previewDevicePayloads(device: DeviceDefinition, count: number = 3, seed: string = 'preview'): DevicePreview {
+  try {
+    let state = createInitialSimulationState(`preview-${device.id}`, device.id);
+    const start = simNow();
+    const contextFor = (): SimulationContext => ({
+      orgId: '',
+      siteId: '',
+      unitId: '',
+      deviceInstanceId: state.deviceInstanceId,
+      emissionSequence: state.emissionSequence,
+      seed,
+    });
+
+    const normal: Record<string, unknown>[] = [];
+    for (let i = 0; i < count; i++) {
+      const result = generateDevicePayload(device, state, contextFor(), 'normal', { emissionTime: start + i * PREVIEW_STEP_MS });
+      normal.push(result.fields);
+      state = result.updatedState;
+    }
+
+    const alarm = device.examples.alarm
+      ? generateDevicePayload(device, state, contextFor(), 'alarm', { emissionTime: start + count * PREVIEW_STEP_MS }).fields
+      : undefined;
+
+    return { normal, alarm };
+  } catch (e) {
+    return { normal: [], error: e instanceof Error ? e.message : String(e) };
+  }
+}
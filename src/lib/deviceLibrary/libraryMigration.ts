@@ -0,0 +1,384 @@
+/**
+ * Library Migration
+ *
+ * Compares two device library releases and migrates what points into
+ * them: model assignments of emulator devices and per-device simulation
+ * state. A plan is computed first so affected devices can be reviewed
+ * before the new library is activated.
+ */
+
+import type {
+  DeviceDefinition,
+  DeviceLibrary,
+  DeviceModelAssignment,
+  DeviceSimulationState,
+  FieldConfig,
+} from './types';
+import { getActiveLibrary } from './loader';
+import { getModelAssignments, replaceModelAssignments } from './store';
+import { getAllDeviceStates, updateDeviceSimState } from './deviceStateStore';
+import { usesBatteryModel } from './batteryModel';
+
+// ============================================
+// Types
+// ============================================
+
+export type LibraryVersionChange = 'major' | 'minor' | 'patch' | 'none' | 'downgrade';
+
+export interface FieldChanges {
+  added: string[];
+  removed: string[];
+  changed: string[];
+}
+
+/**
+ * A device present in both releases (possibly under a new id)
+ */
+export interface DeviceDiff {
+  id: string;
+  previousId?: string;       // Set when the device was renamed
+  properties: string[];      // Changed definition keys other than fields
+  fields: FieldChanges;
+}
+
+export interface LibraryDiff {
+  fromVersion: string;
+  toVersion: string;
+  versionChange: LibraryVersionChange;
+  added: string[];
+  removed: string[];
+  renamed: Array<{ from: string; to: string }>;
+  changed: DeviceDiff[];
+  breaking: boolean;         // Devices or fields removed, or field types changed
+}
+
+export interface DiffOptions {
+  /** Explicit old id → new id renames; same manufacturer/model pairs are detected otherwise */
+  renames?: Record<string, string>;
+}
+
+export interface AssignmentMigration {
+  emulatorDeviceId: string;
+  from: string;
+  to: string | null;         // null when the model was removed
+  action: 'keep' | 'remap' | 'orphan';
+}
+
+export interface StateMigration {
+  deviceInstanceId: string;
+  from: string;
+  to: string | null;
+  droppedCounters: string[];
+  droppedValues: string[];
+  droppedBattery: boolean;
+}
+
+export interface MigrationWarning {
+  deviceId?: string;         // Emulator device the warning is about
+  message: string;
+}
+
+export interface LibraryMigrationPlan {
+  diff: LibraryDiff;
+  assignments: AssignmentMigration[];
+  states: StateMigration[];
+  warnings: MigrationWarning[];
+}
+
+// ============================================
+// Versions
+// ============================================
+
+function parseVersion(version: string): number[] {
+  return version.split('.').map(part => parseInt(part, 10) || 0);
+}
+
+/**
+ * Compare two semver strings: negative if a < b, 0 if equal, positive if a > b
+ */
+export function compareLibraryVersions(a: string, b: string): number {
+  const [pa, pb] = [parseVersion(a), parseVersion(b)];
+  for (let i = 0; i < 3; i++) {
+    const delta = (pa[i] ?? 0) - (pb[i] ?? 0);
+    if (delta !== 0) return delta;
+  }
+  return 0;
+}
+
+function classifyVersionChange(from: string, to: string): LibraryVersionChange {
+  const [pf, pt] = [parseVersion(from), parseVersion(to)];
+  const order = compareLibraryVersions(to, from);
+  if (order < 0) return 'downgrade';
+  if (order === 0) return 'none';
+  if (pt[0] !== pf[0]) return 'major';
+  return pt[1] !== pf[1] ? 'minor' : 'patch';
+}
+
+// ============================================
+// Diffing
+// ============================================
+
+function isEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  const ka = Object.keys(a).filter(k => (a as Record<string, unknown>)[k] !== undefined);
+  const kb = Object.keys(b).filter(k => (b as Record<string, unknown>)[k] !== undefined);
+  if (ka.length !== kb.length) return false;
+  return ka.every(k => isEqual((a as Record<string, unknown>)[k], (b as Record<string, unknown>)[k]));
+}
+
+const modelKey = (d: DeviceDefinition) => `${d.manufacturer}|${d.model ?? d.name}`.toLowerCase();
+
+function diffFields(before: Record<string, FieldConfig>, after: Record<string, FieldConfig>): FieldChanges {
+  return {
+    added: Object.keys(after).filter(name => !(name in before)),
+    removed: Object.keys(before).filter(name => !(name in after)),
+    changed: Object.keys(after).filter(name => name in before && !isEqual(before[name], after[name])),
+  };
+}
+
+function diffDevice(before: DeviceDefinition, after: DeviceDefinition): DeviceDiff {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+  keys.delete('id');
+  keys.delete('simulation_profile');
+
+  const properties = [...keys].filter(
+    key => !isEqual(before[key as keyof DeviceDefinition], after[key as keyof DeviceDefinition])
+  );
+  if (!isEqual(before.simulation_profile.battery, after.simulation_profile.battery)) {
+    properties.push('simulation_profile.battery');
+  }
+
+  return {
+    id: after.id,
+    ...(before.id !== after.id && { previousId: before.id }),
+    properties,
+    fields: diffFields(before.simulation_profile.fields, after.simulation_profile.fields),
+  };
+}
+
+function hasChanges(diff: DeviceDiff): boolean {
+  const { added, removed, changed } = diff.fields;
+  return diff.properties.length + added.length + removed.length + changed.length > 0;
+}
+
+/**
+ * Added, removed, renamed and changed devices between two library releases
+ */
+export function diffDeviceLibraries(from: DeviceLibrary, to: DeviceLibrary, options: DiffOptions = {}): LibraryDiff {
+  const before = new Map(from.devices.map(d => [d.id, d]));
+  const after = new Map(to.devices.map(d => [d.id, d]));
+
+  const renamed: LibraryDiff['renamed'] = [];
+  const claimed = new Set<string>();
+  for (const [oldId, newId] of Object.entries(options.renames ?? {})) {
+    if (before.has(oldId) && !after.has(oldId) && after.has(newId) && !before.has(newId)) {
+      renamed.push({ from: oldId, to: newId });
+      claimed.add(newId);
+    }
+  }
+
+  const removedIds = from.devices.filter(d => !after.has(d.id) && !renamed.some(r => r.from === d.id));
+  const addedIds = to.devices.filter(d => !before.has(d.id) && !claimed.has(d.id));
+  for (const device of removedIds) {
+    const match = addedIds.find(d => !claimed.has(d.id) && modelKey(d) === modelKey(device));
+    if (match) {
+      renamed.push({ from: device.id, to: match.id });
+      claimed.add(match.id);
+    }
+  }
+
+  const changed: DeviceDiff[] = [];
+  for (const device of to.devices) {
+    const previousId = renamed.find(r => r.to === device.id)?.from ?? device.id;
+    const previous = before.get(previousId);
+    if (!previous) continue;
+    const diff = diffDevice(previous, device);
+    if (hasChanges(diff) || diff.previousId) changed.push(diff);
+  }
+
+  const removed = removedIds.map(d => d.id).filter(id => !renamed.some(r => r.from === id));
+  const breaking = removed.length > 0 || changed.some(d =>
+    d.fields.removed.length > 0 ||
+    d.fields.changed.some(name => {
+      const old = before.get(d.previousId ?? d.id)?.simulation_profile.fields[name];
+      return old?.type !== after.get(d.id)?.simulation_profile.fields[name]?.type;
+    })
+  );
+
+  return {
+    fromVersion: from.metadata.version,
+    toVersion: to.metadata.version,
+    versionChange: classifyVersionChange(from.metadata.version, to.metadata.version),
+    added: addedIds.map(d => d.id).filter(id => !claimed.has(id)),
+    removed,
+    renamed,
+    changed,
+    breaking,
+  };
+}
+
+// ============================================
+// Simulation State
+// ============================================
+
+function matchesFieldType(value: unknown, config: FieldConfig): boolean {
+  switch (config.type) {
+    case 'float':
+    case 'int':
+      return typeof value === 'number';
+    case 'bool':
+      return typeof value === 'boolean';
+    default:
+      return typeof value === 'string';
+  }
+}
+
+/**
+ * Drop counters, last values and battery state that no longer fit the
+ * device definition. With no definition (removed model) all of them go;
+ * f_cnt and the emission sequence are always kept.
+ */
+export function reconcileSimState(
+  state: DeviceSimulationState,
+  device: DeviceDefinition | undefined
+): { state: DeviceSimulationState; droppedCounters: string[]; droppedValues: string[]; droppedBattery: boolean } {
+  const fields = device?.simulation_profile.fields ?? {};
+  const keepCounter = (name: string) => {
+    const config = fields[name];
+    return !!config && (config.type === 'int' || config.type === 'float') && !!config.increment;
+  };
+  const keepValue = (name: string) => !!fields[name] && matchesFieldType(state.lastValues[name], fields[name]);
+
+  const droppedCounters = Object.keys(state.incrementCounters).filter(name => !keepCounter(name));
+  const droppedValues = Object.keys(state.lastValues).filter(name => !keepValue(name));
+  const droppedBattery = !!state.battery && !(device && usesBatteryModel(device.simulation_profile));
+
+  if (droppedCounters.length === 0 && droppedValues.length === 0 && !droppedBattery) {
+    return { state, droppedCounters, droppedValues, droppedBattery };
+  }
+
+  const next: DeviceSimulationState = {
+    ...state,
+    incrementCounters: Object.fromEntries(Object.entries(state.incrementCounters).filter(([k]) => keepCounter(k))),
+    lastValues: Object.fromEntries(Object.entries(state.lastValues).filter(([k]) => keepValue(k))),
+  };
+  if (droppedBattery) delete next.battery;
+  return { state: next, droppedCounters, droppedValues, droppedBattery };
+}
+
+// ============================================
+// Migration Planning
+// ============================================
+
+function describeFieldChanges(fields: FieldChanges): string {
+  const parts = [
+    fields.removed.length > 0 && `removed ${fields.removed.join(', ')}`,
+    fields.changed.length > 0 && `changed ${fields.changed.join(', ')}`,
+    fields.added.length > 0 && `added ${fields.added.join(', ')}`,
+  ].filter(Boolean);
+  return parts.join('; ');
+}
+
+/**
+ * Work out how assignments and simulation state follow a library change
+ */
+export function planLibraryMigration(
+  from: DeviceLibrary,
+  to: DeviceLibrary,
+  input: { assignments: DeviceModelAssignment[]; states: DeviceSimulationState[] } & DiffOptions
+): LibraryMigrationPlan {
+  const diff = diffDeviceLibraries(from, to, input);
+  const targets = new Map(to.devices.map(d => [d.id, d]));
+  const resolve = (id: string): string | null =>
+    targets.has(id) ? id : diff.renamed.find(r => r.from === id)?.to ?? null;
+
+  const warnings: MigrationWarning[] = [];
+  if (diff.versionChange === 'downgrade') {
+    warnings.push({ message: `Library version goes back from ${diff.fromVersion} to ${diff.toVersion}` });
+  } else if (diff.breaking && diff.versionChange !== 'major' && compareLibraryVersions(diff.fromVersion, '1.0.0') >= 0) {
+    warnings.push({ message: `Removes devices or fields without a major version bump (${diff.fromVersion} → ${diff.toVersion})` });
+  }
+
+  const assignments = input.assignments.map((assignment): AssignmentMigration => {
+    const to = resolve(assignment.libraryDeviceId);
+    const action = to === null ? 'orphan' : to === assignment.libraryDeviceId ? 'keep' : 'remap';
+    const change = diff.changed.find(d => d.id === to);
+
+    if (action === 'orphan') {
+      warnings.push({
+        deviceId: assignment.emulatorDeviceId,
+        message: `Model "${assignment.libraryDeviceId}" is removed; the assignment will be cleared`,
+      });
+    } else if (action === 'remap') {
+      warnings.push({
+        deviceId: assignment.emulatorDeviceId,
+        message: `Model "${assignment.libraryDeviceId}" is renamed to "${to}"`,
+      });
+    }
+    if (change && (change.fields.removed.length > 0 || change.fields.changed.length > 0)) {
+      warnings.push({
+        deviceId: assignment.emulatorDeviceId,
+        message: `Model "${to}" fields change: ${describeFieldChanges(change.fields)}`,
+      });
+    }
+
+    return { emulatorDeviceId: assignment.emulatorDeviceId, from: assignment.libraryDeviceId, to, action };
+  });
+
+  const states: StateMigration[] = [];
+  for (const state of input.states) {
+    if (!state.libraryDeviceId) continue;
+    const to = resolve(state.libraryDeviceId);
+    const { droppedCounters, droppedValues, droppedBattery } = reconcileSimState(state, to ? targets.get(to) : undefined);
+    if (to === state.libraryDeviceId && droppedCounters.length + droppedValues.length === 0 && !droppedBattery) continue;
+    states.push({ deviceInstanceId: state.deviceInstanceId, from: state.libraryDeviceId, to, droppedCounters, droppedValues, droppedBattery });
+  }
+
+  return { diff, assignments, states, warnings };
+}
+
+/**
+ * Plan a migration from the active library to the given one, using the
+ * persisted assignments and simulation states
+ */
+export function planActiveLibraryMigration(next: DeviceLibrary, options: DiffOptions = {}): LibraryMigrationPlan | null {
+  const current = getActiveLibrary();
+  if (!current) return null;
+  return planLibraryMigration(current, next, {
+    ...options,
+    assignments: getModelAssignments(),
+    states: getAllDeviceStates(),
+  });
+}
+
+/**
+ * Persist a plan: remap or clear assignments and reconcile simulation
+ * state. Activate the new library first so lookups resolve against it.
+ */
+export function applyLibraryMigration(plan: LibraryMigrationPlan, library: DeviceLibrary): void {
+  const existing = getModelAssignments();
+  const next: DeviceModelAssignment[] = [];
+  for (const assignment of existing) {
+    const migration = plan.assignments.find(m => m.emulatorDeviceId === assignment.emulatorDeviceId);
+    if (!migration || migration.action === 'keep') next.push(assignment);
+    else if (migration.action === 'remap' && migration.to) next.push({ ...assignment, libraryDeviceId: migration.to });
+  }
+  replaceModelAssignments(next);
+
+  const targets = new Map(library.devices.map(d => [d.id, d]));
+  const states = new Map(getAllDeviceStates().map(s => [s.deviceInstanceId, s]));
+  for (const migration of plan.states) {
+    const current = states.get(migration.deviceInstanceId);
+    if (!current) continue;
+    const { state } = reconcileSimState(current, migration.to ? targets.get(migration.to) : undefined);
+    updateDeviceSimState({ ...state, libraryDeviceId: migration.to ?? '' });
+  }
+
+  console.log(
+    `[LibraryMigration] ${plan.diff.fromVersion} → ${plan.diff.toVersion}: ` +
+    `${plan.assignments.filter(a => a.action !== 'keep').length} assignments, ${plan.states.length} states migrated`
+  );
+}
@@ -0,0 +1,92 @@
+/**
+ * Message Types
+ *
+ * Resolves the uplink frame types a device definition declares: which
+ * fport and fields each frame carries and what triggers it. Devices
+ * without message_types send a single interval frame carrying every
+ * profile field on default_fport.
+ */
+
+import type { DeviceDefinition, MessageTypeDefinition } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * A periodically scheduled frame type (interval and on_change triggers)
+ */
+export interface MessageStream {
+  messageType: string;
+  intervalSec?: number;      // Default: the device's interval
+}
+
+/** Id of the implicit frame type of devices without message_types */
+export const DEFAULT_MESSAGE_TYPE_ID = 'uplink';
+
+// ============================================
+// Lookup
+// ============================================
+
+/**
+ * Frame types of a device, or the implicit single interval frame
+ */
+export function getMessageTypes(device: DeviceDefinition): MessageTypeDefinition[] {
+  if (device.message_types && device.message_types.length > 0) return device.message_types;
+  return [{
+    id: DEFAULT_MESSAGE_TYPE_ID,
+    fport: device.default_fport,
+    fields: Object.keys(device.simulation_profile.fields),
+    trigger: 'interval',
+  }];
+}
+
+/**
+ * Look up a frame type by id
+ */
+export function getMessageType(device: DeviceDefinition, id: string): MessageTypeDefinition | undefined {
+  return getMessageTypes(device).find(type => type.id === id);
+}
+
+/**
+ * Whether the device declares its own frame types
+ */
+export function hasMessageTypes(device: DeviceDefinition): boolean {
+  return !!device.message_types && device.message_types.length > 0;
+}
+
+/**
+ * Frame types sent when an event is fired for the device
+ */
+export function getEventMessageTypes(device: DeviceDefinition, event: string): MessageTypeDefinition[] {
+  return getMessageTypes(device).filter(type => type.trigger === 'on_event' && type.event === event);
+}
+
+/**
+ * Frame types the scheduler runs on a period: interval frames are always
+ * sent, on_change frames are sampled and sent when a watched field changed
+ */
+export function getMessageStreams(device: DeviceDefinition): MessageStream[] {
+  return getMessageTypes(device)
+    .filter(type => type.trigger !== 'on_event')
+    .map(type => ({ messageType: type.id, ...(type.interval_sec !== undefined && { intervalSec: type.interval_sec }) }));
+}
+
+// ============================================
+// Frames
+// ============================================
+
+/**
+ * Cut a full payload down to a frame type's fields, in declared order,
+ * with its fixed overrides applied
+ */
+export function selectMessageFields(
+  fields: Record<string, unknown>,
+  messageType: MessageTypeDefinition
+): Record<string, unknown> {
+  const selected: Record<string, unknown> = {};
+  for (const field of messageType.fields) {
+    if (field in fields) selected[field] = fields[field];
+  }
+  return { ...selected, ...messageType.overrides };
+}
@@ -0,0 +1,203 @@
+/**
+ * RF Link Model
+ *
+ * Derives rx_metadata RSSI/SNR from device-to-gateway distance:
+ * log-distance path loss, log-normal shadowing, a receiver-limited SNR over
+ * thermal noise plus interference and a spreading-factor dependent SNR
+ * floor. Randomness is seeded from the SimulationContext
+ * so an envelope is reproducible, RF metadata included.
+ */
+
+import type { SimulationContext } from './types';
+import { SeededRandom, createFieldSeed } from './simulationEngine';
+
+// ============================================
+// Types
+// ============================================
+
+export type SpreadingFactor = 7 | 8 | 9 | 10 | 11 | 12;
+
+/**
+ * Geographic position in decimal degrees
+ */
+export interface GeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
+/**
+ * Radio parameters for the link budget
+ */
+export interface RfLinkConfig {
+  txPowerDbm: number;
+  antennaGainDbi: number;     // Combined device + gateway gain
+  frequencyMhz: number;
+  pathLossExponent: number;   // 2.0 free space, 2.7-3.5 urban/indoor
+  shadowingSigmaDb: number;   // Log-normal shadowing std deviation
+  noiseFloorDbm: number;      // Thermal noise over the channel + receiver NF
+  interferenceDbm: number;    // In-band interference from other ISM-band traffic
+  snrSigmaDb: number;         // Per-frame SNR estimate noise
+  spreadingFactor: SpreadingFactor;
+}
+
+/**
+ * One device-to-gateway link to simulate
+ */
+export interface RfLinkInput {
+  context: SimulationContext;
+  gatewayId: string;
+  deviceLocation?: GeoPoint;
+  gatewayLocation?: GeoPoint;
+  /** Fixed RSSI (e.g. from a legacy payload); only SNR is simulated */
+  rssi?: number;
+  config?: Partial<RfLinkConfig>;
+}
+
+export interface RfLinkResult {
+  rssi: number;
+  snr: number;
+  distanceMeters: number;
+  /** Whether the frame demodulates (SNR at or above the SF floor) */
+  received: boolean;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+/**
+ * EU868 end device at 14 dBm, 125 kHz channel with a 6 dB receiver noise
+ * figure and the interference level of an urban gateway
+ */
+export const DEFAULT_RF_LINK: RfLinkConfig = {
+  txPowerDbm: 14,
+  antennaGainDbi: 2,
+  frequencyMhz: 868.1,
+  pathLossExponent: 2.7,
+  shadowingSigmaDb: 6,
+  noiseFloorDbm: -117,
+  interferenceDbm: -95,
+  snrSigmaDb: 1.5,
+  spreadingFactor: 7,
+};
+
+/**
+ * Demodulation SNR floor per spreading factor (Semtech SX1276 datasheet)
+ */
+export const SNR_FLOOR_DB: Record<SpreadingFactor, number> = {
+  7: -7.5,
+  8: -10,
+  9: -12.5,
+  10: -15,
+  11: -17.5,
+  12: -20,
+};
+
+const RSSI_MIN_DBM = -120;
+const RSSI_MAX_DBM = -30;
+/** Demodulator self-noise limits the SNR strong signals can report */
+const SNR_RECEIVER_LIMIT_DB = 13.5;
+const EARTH_RADIUS_M = 6_371_000;
+
+/** Placement range for links without both locations */
+const VIRTUAL_DISTANCE_MIN_M = 20;
+const VIRTUAL_DISTANCE_MAX_M = 500;
+
+// ============================================
+// Geometry & Path Loss
+// ============================================
+
+/**
+ * Great-circle (haversine) distance between two points in meters
+ */
+export function distanceMeters(a: GeoPoint, b: GeoPoint): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_M * Math.asin(Math.min(1, Math.sqrt(h)));
+}
+
+/**
+ * Log-distance path loss without shadowing.
+ * Free-space loss at a 1 m reference plus 10·n·log10(d).
+ */
+export function pathLossDb(distance: number, config: RfLinkConfig = DEFAULT_RF_LINK): number {
+  const referenceLoss = 20 * Math.log10(config.frequencyMhz) - 27.55;
+  return referenceLoss + 10 * config.pathLossExponent * Math.log10(Math.max(1, distance));
+}
+
+/**
+ * Device-to-gateway distance. Links missing either location get a
+ * seeded placement that is stable across emissions.
+ */
+export function resolveLinkDistance(input: RfLinkInput): number {
+  if (input.deviceLocation && input.gatewayLocation) {
+    return Math.max(1, distanceMeters(input.deviceLocation, input.gatewayLocation));
+  }
+  const placement = new SeededRandom(
+    createFieldSeed({ ...input.context, emissionSequence: 0 }, `rf-distance|${input.gatewayId}`)
+  );
+  return VIRTUAL_DISTANCE_MIN_M + placement.next() * (VIRTUAL_DISTANCE_MAX_M - VIRTUAL_DISTANCE_MIN_M);
+}
+
+// ============================================
+// Noise & SNR
+// ============================================
+
+/**
+ * Noise the gateway receives: the thermal floor plus interference, summed
+ * as powers
+ */
+export function effectiveNoiseDbm(config: RfLinkConfig = DEFAULT_RF_LINK): number {
+  return 10 * Math.log10(10 ** (config.noiseFloorDbm / 10) + 10 ** (config.interferenceDbm / 10));
+}
+
+/**
+ * SNR the demodulator reports for a signal-to-noise ratio. The receiver's
+ * own noise adds to the channel's, so strong signals approach the limit
+ * gradually instead of clipping at it.
+ */
+export function receiverSnrDb(channelSnrDb: number): number {
+  return -10 * Math.log10(10 ** (-channelSnrDb / 10) + 10 ** (-SNR_RECEIVER_LIMIT_DB / 10));
+}
+
+// ============================================
+// Link Simulation
+// ============================================
+
+/**
+ * Standard normal sample (Box-Muller)
+ */
+function nextGaussian(random: SeededRandom): number {
+  const u1 = 1 - random.next();
+  const u2 = random.next();
+  return Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+}
+
+/**
+ * Simulate one uplink's RSSI and SNR at a gateway.
+ * Same context and gateway = same result.
+ */
+export function simulateRfLink(input: RfLinkInput): RfLinkResult {
+  const config = { ...DEFAULT_RF_LINK, ...input.config };
+  const random = new SeededRandom(createFieldSeed(input.context, `rf|${input.gatewayId}`));
+  const distance = resolveLinkDistance(input);
+
+  const shadowing = nextGaussian(random) * config.shadowingSigmaDb;
+  const signalDbm = input.rssi ??
+    config.txPowerDbm + config.antennaGainDbi - pathLossDb(distance, config) - shadowing;
+  const rssi = Math.round(Math.max(RSSI_MIN_DBM, Math.min(RSSI_MAX_DBM, signalDbm)));
+
+  const snrFloor = SNR_FLOOR_DB[config.spreadingFactor];
+  const snrEstimate = receiverSnrDb(signalDbm - effectiveNoiseDbm(config)) + nextGaussian(random) * config.snrSigmaDb;
+  const snr = Math.max(snrFloor, Math.min(SNR_RECEIVER_LIMIT_DB, snrEstimate));
+
+  return {
+    rssi,
+    snr: Math.round(snr * 10) / 10,
+    distanceMeters: distance,
+    received: snrEstimate >= snrFloor,
+  };
+}
@@ -12,13 +12,16 @@ import type {
   DeviceDefinition,
   SimulationProfile,
   FieldConfig,
+  FieldConstraint,
   NumericFieldConfig,
   SimulationContext,
   DeviceSimulationState,
   GenerationMode,
   GenerationResult,
+  MessageTypeDefinition,
 } from './types';
-import { generateFields } from './simulationEngine';
+import { generateDevicePayload, generateFields, withoutUplink } from './simulationEngine';
+import { getMessageType } from './messageTypes';
 import type { AlarmTrigger, AlarmTriggerId } from './alarmTriggers';
 import { ALARM_TRIGGERS, getAlarmsForCategory } from './alarmTriggers';
 
@@ -137,6 +140,9 @@ export const SCENARIOS: Record<ScenarioType, ScenarioDefinition> = {
  * 2. If alarm mode and device has examples.alarm, use as base
  * 3. Apply scenario overrides
  * 4. Clamp values to profile constraints
+ *
+ * With a messageType, only that frame's fields are generated and its
+ * overrides applied last; metadata carries its id and fport.
  */
 export function composeScenarioPayload(
   device: DeviceDefinition,
@@ -146,10 +152,14 @@ export function composeScenarioPayload(
   options: {
     enableDrift?: boolean;
     driftMaxStep?: number;
+    messageType?: string;
+    emissionTime?: number;
+    constraints?: Record<string, FieldConstraint>;
   } = {}
 ): GenerationResult {
   const scenario = SCENARIOS[scenarioType];
   const mode: GenerationMode = scenarioType === 'normal' ? 'normal' : 'alarm';
+  const messageType = options.messageType ? requireMessageType(device, options.messageType) : undefined;
   
   // Step 1: Start with alarm example if available and in alarm mode
   let baseOverrides: Record<string, unknown> = {};
@@ -173,21 +183,105 @@ export function composeScenarioPayload(
       enableDrift: options.enableDrift,
       driftMaxStep: options.driftMaxStep,
       alarmOverrides: combinedOverrides,
+      emissionTime: options.emissionTime,
+      fields: messageType?.fields,
+      constraints: options.constraints,
     }
   );
   
   // Step 4: Clamp all numeric values to profile constraints
   const clampedFields = clampToConstraints(
-    result.fields,
+    { ...result.fields, ...messageType?.overrides },
     device.simulation_profile
   );
   
   return {
     ...result,
     fields: clampedFields,
+    metadata: messageType
+      ? { ...result.metadata, messageType: messageType.id, fport: messageType.fport }
+      : result.metadata,
   };
 }
 
+// ============================================
+// Message Type Composition
+// ============================================
+
+function requireMessageType(device: DeviceDefinition, id: string): MessageTypeDefinition {
+  const messageType = getMessageType(device, id);
+  if (!messageType) {
+    throw new Error(`Device ${device.id} has no message type "${id}"`);
+  }
+  return messageType;
+}
+
+/**
+ * Compose one frame of a device's message type.
+ *
+ * Normal frames go through generateDevicePayload (drift by category),
+ * other scenarios through composeScenarioPayload. An on_change frame is
+ * a sample: when none of its watched fields differ from the last sample,
+ * `send` is false and the frame counter, increment counters and battery
+ * are left as they were, so only the sample itself advances.
+ * Event data overrides are applied last.
+ */
+export function composeMessagePayload(
+  device: DeviceDefinition,
+  messageTypeId: string,
+  state: DeviceSimulationState,
+  context: SimulationContext,
+  options: {
+    scenario?: ScenarioType;
+    emissionTime?: number;
+    overrides?: Record<string, unknown>;  // Event data, e.g. the door state of a door event
+    constraints?: Record<string, FieldConstraint>;
+  } = {}
+): GenerationResult & { send: boolean } {
+  const messageType = requireMessageType(device, messageTypeId);
+  const previous = messageType.trigger === 'on_change' ? structuredClone(state) : null;
+
+  let result: GenerationResult;
+  if (options.scenario && options.scenario !== 'normal') {
+    result = composeScenarioPayload(device, options.scenario, state, context, {
+      messageType: messageType.id,
+      emissionTime: options.emissionTime,
+      constraints: options.constraints,
+    });
+  } else {
+    const generated = generateDevicePayload(device, state, context, 'normal', {
+      emissionTime: options.emissionTime,
+      fields: messageType.fields,
+      constraints: options.constraints,
+    });
+    result = {
+      ...generated,
+      fields: { ...generated.fields, ...messageType.overrides },
+      metadata: { ...generated.metadata, messageType: messageType.id, fport: messageType.fport },
+    };
+  }
+
+  // Event data is the device's current state, so later samples compare against it
+  if (options.overrides) {
+    result = { ...result, fields: { ...result.fields, ...options.overrides } };
+    for (const [field, value] of Object.entries(options.overrides)) {
+      if (field in device.simulation_profile.fields) result.updatedState.lastValues[field] = value;
+    }
+  }
+  if (!previous) return { ...result, send: true };
+
+  // Watched values are remembered per sample so the next one compares against them
+  const watched = messageType.watch ?? messageType.fields;
+  const changed = watched.some(field => previous.lastValues[field] === undefined || previous.lastValues[field] !== result.fields[field]);
+  for (const field of watched) {
+    result.updatedState.lastValues[field] = result.fields[field];
+  }
+  if (changed) return { ...result, send: true };
+
+  const updatedState = withoutUplink(result.updatedState, previous);
+  return { ...result, updatedState, metadata: { ...result.metadata, f_cnt: previous.f_cnt }, send: false };
+}
+
 /**
  * Compose payload with a specific alarm trigger
  */
@@ -5,6 +5,67 @@
  */
 
 import { z } from 'zod';
+import { orderFieldsByDependency } from './derivedFields';
+
+// ============================================
+// Behavior Model Schemas
+// ============================================
+
+const behaviorModelSchema = z.discriminatedUnion('model', [
+  z.object({
+    model: z.literal('sinusoid'),
+    amplitude: z.number(),
+    periodSeconds: z.number().positive(),
+    phaseSeconds: z.number().optional(),
+  }),
+  z.object({
+    model: z.literal('sawtooth'),
+    amplitude: z.number(),
+    periodSeconds: z.number().positive(),
+    dutyCycle: z.number().gt(0).lt(1),
+    phaseSeconds: z.number().optional(),
+  }),
+  z.object({
+    model: z.literal('spike'),
+    magnitude: z.number(),
+    intervalSeconds: z.number().positive(),
+    durationSeconds: z.number().positive(),
+    offsetSeconds: z.number().optional(),
+  }),
+  z.object({
+    model: z.literal('recovery'),
+    magnitude: z.number(),
+    intervalSeconds: z.number().positive(),
+    timeConstantSeconds: z.number().positive(),
+    offsetSeconds: z.number().optional(),
+  }),
+]);
+
+const fieldBehaviorSchema = z.object({
+  baseline: z.number(),
+  models: z.array(behaviorModelSchema),
+  noise: z.number().min(0).optional(),
+});
+
+// ============================================
+// Derivation Schemas
+// ============================================
+
+const fieldDerivationSchema = z.discriminatedUnion('kind', [
+  z.object({
+    kind: z.literal('linear'),
+    from: z.string().min(1),
+    scale: z.number(),
+    offset: z.number().optional(),
+    jitter: z.number().min(0).optional(),
+  }),
+  z.object({
+    kind: z.literal('curve'),
+    from: z.string().min(1),
+    points: z.array(z.tuple([z.number(), z.number()])).min(2, 'curve must have at least two points'),
+    jitter: z.number().min(0).optional(),
+  }),
+]);
 
 // ============================================
 // Field Configuration Schemas
@@ -18,6 +79,8 @@ const floatFieldSchema = z.object({
   increment: z.boolean().optional(),
   static: z.boolean().optional(),
   default: z.number().optional(),
+  behavior: fieldBehaviorSchema.optional(),
+  derive: fieldDerivationSchema.optional(),
   unit: z.string().optional(),
   description: z.string().optional(),
 });
@@ -30,6 +93,8 @@ const intFieldSchema = z.object({
   increment: z.boolean().optional(),
   static: z.boolean().optional(),
   default: z.number().optional(),
+  behavior: fieldBehaviorSchema.optional(),
+  derive: fieldDerivationSchema.optional(),
   unit: z.string().optional(),
   description: z.string().optional(),
 });
@@ -72,12 +137,38 @@ const fieldConfigSchema = z.discriminatedUnion('type', [
 // Simulation Profile Schema
 // ============================================
 
+/**
+ * Check that every derivation references an existing field without cycles
+ */
+function hasValidDerivations(profile: SimulationProfile): boolean {
+  try {
+    orderFieldsByDependency(profile);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const batteryModelSchema = z.object({
+  capacityMah: z.number().positive(),
+  uplinkCostMah: z.number().min(0),
+  selfDischargePctPerYear: z.number().min(0),
+  referenceTempC: z.number(),
+  deratingPctPerDegree: z.number().min(0),
+  initialPct: z.number().min(0).max(100),
+  lowThresholdPct: z.number().min(0).max(100),
+}).partial();
+
 const simulationProfileSchema = z.object({
   fields: z.record(z.string(), fieldConfigSchema).refine(
     data => Object.keys(data).length > 0,
     { message: 'simulation_profile must have at least one field' }
   ),
-});
+  battery: batteryModelSchema.optional(),
+}).refine(
+  profile => hasValidDerivations(profile as SimulationProfile),
+  { message: 'derived fields must reference existing fields without cycles', path: ['fields'] }
+);
 
 // ============================================
 // Device Examples Schema
@@ -107,6 +198,45 @@ const deviceCategorySchema = z.enum([
   'multi_sensor',
 ]);
 
+// ============================================
+// Message Type Schema
+// ============================================
+
+const messageTypeSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]+$/, 'message type id must be lowercase alphanumeric with underscores'),
+  fport: z.number().int().min(1).max(255),
+  fields: z.array(z.string()).min(1, 'message type must carry at least one field'),
+  trigger: z.enum(['interval', 'on_change', 'on_event']),
+  interval_sec: z.number().int().positive().optional(),
+  watch: z.array(z.string()).min(1).optional(),
+  event: z.string().min(1).optional(),
+  overrides: z.record(z.string(), z.unknown()).optional(),
+  description: z.string().optional(),
+}).refine(
+  type => type.trigger !== 'on_event' || !!type.event,
+  { message: 'on_event message types need an event name', path: ['event'] }
+);
+
+// ============================================
+// Event Rules
+// ============================================
+
+const eventRuleSchema = z.object({
+  id: z.string().regex(/^[a-z0-9_]+$/, 'event rule id must be lowercase alphanumeric with underscores'),
+  field: z.string().min(1),
+  kind: z.enum(['change', 'threshold', 'flag']),
+  threshold: z.number().optional(),
+  direction: z.enum(['rising', 'falling', 'both']).optional(),
+  min_delta: z.number().positive().optional(),
+  value: z.union([z.string(), z.number(), z.boolean()]).optional(),
+  message_type: z.string().optional(),
+  min_interval_sec: z.number().min(0).optional(),
+  description: z.string().optional(),
+}).refine(
+  rule => rule.kind !== 'threshold' || rule.threshold !== undefined,
+  { message: 'threshold rules need a threshold', path: ['threshold'] }
+);
+
 // ============================================
 // Device Definition Schema
 // ============================================
@@ -125,6 +255,52 @@ const deviceDefinitionSchema = z.object({
   description: z.string().optional(),
   firmware_version: z.string().optional(),
   model: z.string().optional(),
+  message_types: z.array(messageTypeSchema).min(1).optional(),
+  event_rules: z.array(eventRuleSchema).optional(),
+  sample_interval_sec: z.number().int().positive().optional(),
+}).superRefine((device, ctx) => {
+  // Message types must use profile fields and unique ids
+  const profileFields = device.simulation_profile.fields;
+  const seen = new Set<string>();
+  device.message_types?.forEach((type, i) => {
+    if (seen.has(type.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `duplicate message type id '${type.id}'`, path: ['message_types', i, 'id'] });
+    }
+    seen.add(type.id);
+    for (const key of ['fields', 'watch'] as const) {
+      const unknown = (type[key] ?? []).filter(field => !(field in profileFields));
+      if (unknown.length > 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `message type '${type.id}' ${key} not in simulation_profile: ${unknown.join(', ')}`,
+          path: ['message_types', i, key],
+        });
+      }
+    }
+  });
+
+  // Event rules must sample profile fields and send declared frame types
+  const ruleIds = new Set<string>();
+  device.event_rules?.forEach((rule, i) => {
+    if (ruleIds.has(rule.id)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `duplicate event rule id '${rule.id}'`, path: ['event_rules', i, 'id'] });
+    }
+    ruleIds.add(rule.id);
+    if (!(rule.field in profileFields)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `event rule '${rule.id}' field '${rule.field}' not in simulation_profile`,
+        path: ['event_rules', i, 'field'],
+      });
+    }
+    if (rule.message_type && !seen.has(rule.message_type)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        message: `event rule '${rule.id}' sends unknown message type '${rule.message_type}'`,
+        path: ['event_rules', i, 'message_type'],
+      });
+    }
+  });
 });
 
 // ============================================
@@ -169,11 +345,85 @@ export const deviceLibrarySchema = z.object({
   path: ['devices'],
 });
 
+// ============================================
+// Fleet Manifest Schema
+// ============================================
+
+const geoPointSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+});
+
+const euiSchema = (label: string) =>
+  z.string().regex(/^[0-9A-Fa-f]{16}$/, `${label} must be 16 hex characters`);
+
+const fleetGatewaySchema = z.object({
+  id: z.string().min(1, 'gateway id is required'),
+  eui: euiSchema('gateway eui'),
+  name: z.string().optional(),
+  location: geoPointSchema.optional(),
+});
+
+const fleetDeviceSchema = z.object({
+  id: z.string().min(1).optional(),
+  devEui: euiSchema('devEui'),
+  name: z.string().optional(),
+  type: z.enum(['temperature', 'door']).optional(),
+  model: z.string().min(1, 'device model is required'),
+  gatewayId: z.string().min(1, 'device gatewayId is required'),
+  siteId: z.string().optional(),
+  unitId: z.string().optional(),
+  intervalSec: z.number().int().positive(),
+  scenario: z.enum([
+    'normal',
+    'alarm',
+    'temp_excursion',
+    'door_left_open',
+    'leak',
+    'low_battery',
+    'poor_signal',
+  ]).optional(),
+  location: geoPointSchema.optional(),
+  joinEui: euiSchema('joinEui').optional(),
+  appKey: z.string().regex(/^[0-9A-Fa-f]{32}$/, 'appKey must be 32 hex characters').optional(),
+});
+
+export const fleetManifestSchema = z.object({
+  version: z.literal(1),
+  name: z.string().optional(),
+  seed: z.union([z.string().min(1), z.number()]).transform(String),
+  region: z.enum(['US915', 'EU868', 'AU915']).optional(),
+  applicationId: z.string().min(1, 'applicationId is required'),
+  orgId: z.string().optional(),
+  siteId: z.string().optional(),
+  unitId: z.string().optional(),
+  gateways: z.array(fleetGatewaySchema).min(1, 'fleet must have at least one gateway'),
+  devices: z.array(fleetDeviceSchema),
+}).refine(data => {
+  const ids = data.gateways.map(g => g.id);
+  return ids.length === new Set(ids).size;
+}, {
+  message: 'all gateway ids must be unique',
+  path: ['gateways'],
+}).refine(data => {
+  const euis = data.devices.map(d => d.devEui.toUpperCase());
+  return euis.length === new Set(euis).size;
+}, {
+  message: 'all device devEuis must be unique',
+  path: ['devices'],
+}).refine(data => {
+  const gatewayIds = new Set(data.gateways.map(g => g.id));
+  return data.devices.every(d => gatewayIds.has(d.gatewayId));
+}, {
+  message: 'every device gatewayId must match a gateway in the fleet',
+  path: ['devices'],
+});
+
 // ============================================
 // Validation Functions
 // ============================================
 
-import type { DeviceLibrary, ValidationResult, ValidationError, ValidationWarning } from './types';
+import type { DeviceLibrary, FleetManifest, SimulationProfile, ValidationResult, ValidationError, ValidationWarning } from './types';
 
 /**
  * Validate a device library JSON object.
@@ -260,3 +510,22 @@ export function parseDeviceLibrary(jsonString: string): { library: DeviceLibrary
   
   return { library: null, result };
 }
+
+/**
+ * Validate a fleet manifest object.
+ * Returns the normalized manifest (string seed) when valid.
+ */
+export function validateFleetManifest(json: unknown): { manifest: FleetManifest | null; result: ValidationResult } {
+  const parsed = fleetManifestSchema.safeParse(json);
+
+  if (!parsed.success) {
+    const errors: ValidationError[] = parsed.error.issues.map(issue => ({
+      path: issue.path.join('.'),
+      message: issue.message,
+      code: issue.code,
+    }));
+    return { manifest: null, result: { valid: false, errors, warnings: [] } };
+  }
+
+  return { manifest: parsed.data as FleetManifest, result: { valid: true, errors: [], warnings: [] } };
+}
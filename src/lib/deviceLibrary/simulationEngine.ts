@@ -9,6 +9,7 @@ import type {
   DeviceDefinition,
   SimulationProfile,
   FieldConfig,
+  FieldConstraint,
   NumericFieldConfig,
   EnumFieldConfig,
   StringFieldConfig,
@@ -18,6 +19,18 @@ import type {
   GenerationOptions,
   GenerationResult,
 } from './types';
+import { evaluateFieldBehavior } from './behaviorModels';
+import { simNow, simNowIso } from './clock';
+import { evaluateDerivation, orderFieldsByDependency, withDerivationSources } from './derivedFields';
+import {
+  BATTERY_LEVEL_FIELD,
+  usesBatteryModel,
+  resolveBatteryModel,
+  createBatteryState,
+  getBatteryPct,
+  isBatteryLow,
+  dischargeBattery,
+} from './batteryModel';
 
 // ============================================
 // Deterministic Hash Function (cyrb53)
@@ -27,7 +40,7 @@ import type {
  * cyrb53 hash - fast, deterministic, good distribution
  * Returns a 53-bit hash as a number
  */
-function cyrb53(str: string, seed = 0): number {
+export function cyrb53(str: string, seed = 0): number {
   let h1 = 0xdeadbeef ^ seed;
   let h2 = 0x41c6ce57 ^ seed;
   for (let i = 0; i < str.length; i++) {
@@ -45,8 +58,9 @@ function cyrb53(str: string, seed = 0): number {
 /**
  * Create deterministic seed from context + field name
  */
-function createFieldSeed(context: SimulationContext, fieldName: string): number {
+export function createFieldSeed(context: SimulationContext, fieldName: string): number {
   const seedString = [
+    ...(context.seed ? [context.seed] : []),
     context.orgId,
     context.siteId,
     context.unitId,
@@ -117,6 +131,74 @@ export class SeededRandom {
 // Field Value Generation
 // ============================================
 
+/**
+ * Clamp a computed value to the field's bounds and round to its precision
+ */
+function finalizeNumeric(config: NumericFieldConfig, raw: number): number {
+  const clamped = Math.max(config.min, Math.min(config.max, raw));
+  if (config.type === 'int') {
+    return Math.round(clamped);
+  }
+  const factor = Math.pow(10, config.precision ?? 1);
+  return Math.round(clamped * factor) / factor;
+}
+
+function isNumericField(config: FieldConfig): config is NumericFieldConfig {
+  return config.type === 'float' || config.type === 'int';
+}
+
+/**
+ * Narrow a numeric field's range to a constraint's min/max, staying
+ * inside the profile's own range
+ */
+function constrainConfig(config: FieldConfig, constraint: FieldConstraint): FieldConfig {
+  if (!isNumericField(config) || (constraint.min === undefined && constraint.max === undefined)) return config;
+  const min = Math.min(config.max, Math.max(config.min, constraint.min ?? config.min));
+  const max = Math.max(min, Math.min(config.max, constraint.max ?? config.max));
+  return { ...config, min, max };
+}
+
+/**
+ * Apply a constraint to a generated value: pin it, or pull it into range
+ */
+function applyConstraint(config: FieldConfig, constraint: FieldConstraint, value: unknown): unknown {
+  if (constraint.value !== undefined) {
+    return isNumericField(config) && typeof constraint.value === 'number'
+      ? finalizeNumeric(config, constraint.value)
+      : constraint.value;
+  }
+  if (typeof value === 'number' && isNumericField(config)) {
+    return finalizeNumeric(constrainConfig(config, constraint) as NumericFieldConfig, value);
+  }
+  return value;
+}
+
+/**
+ * Evaluate a numeric field's behavior model at the emission time
+ */
+function generateBehaviorValue(
+  config: NumericFieldConfig,
+  rng: SeededRandom,
+  emissionTime: number
+): number {
+  return finalizeNumeric(config, evaluateFieldBehavior(config.behavior!, emissionTime / 1000, rng.next()));
+}
+
+/**
+ * Evaluate a derived field from its already-generated source.
+ * Returns undefined when the source is missing or non-numeric.
+ */
+function generateDerivedValue(
+  config: NumericFieldConfig,
+  rng: SeededRandom,
+  fields: Record<string, unknown>
+): number | undefined {
+  const source = fields[config.derive!.from];
+  const numeric = typeof source === 'boolean' ? (source ? 1 : 0) : source;
+  if (typeof numeric !== 'number' || !Number.isFinite(numeric)) return undefined;
+  return finalizeNumeric(config, evaluateDerivation(config.derive!, numeric, rng.next()));
+}
+
 /**
  * Generate a single field value based on its configuration
  */
@@ -125,13 +207,23 @@ function generateFieldValue(
   config: FieldConfig,
   rng: SeededRandom,
   state: DeviceSimulationState,
-  options: GenerationOptions
+  options: GenerationOptions,
+  fields: Record<string, unknown>
 ): unknown {
   // Handle static fields - always return default value
   if (config.static && config.default !== undefined) {
     return config.default;
   }
   
+  // Handle derived fields - computed from a source generated earlier
+  if ((config.type === 'float' || config.type === 'int') && (config as NumericFieldConfig).derive) {
+    const value = generateDerivedValue(config as NumericFieldConfig, rng, fields);
+    if (value !== undefined) {
+      state.lastValues[fieldName] = value;
+      return value;
+    }
+  }
+  
   // Handle increment fields - persist counter per device
   if ('increment' in config && (config as NumericFieldConfig).increment) {
     const currentCount = state.incrementCounters[fieldName] ?? 0;
@@ -140,6 +232,13 @@ function generateFieldValue(
     return newCount;
   }
   
+  // Handle behavior models - shape is a function of emission time
+  if ((config.type === 'float' || config.type === 'int') && (config as NumericFieldConfig).behavior) {
+    const value = generateBehaviorValue(config as NumericFieldConfig, rng, options.emissionTime ?? simNow());
+    state.lastValues[fieldName] = value;
+    return value;
+  }
+  
   switch (config.type) {
     case 'float': {
       const numConfig = config as NumericFieldConfig;
@@ -199,6 +298,26 @@ function generateFieldValue(
   }
 }
 
+/** Fields consulted (in order) for battery temperature derating */
+const BATTERY_TEMPERATURE_FIELDS = ['temperature', 'TempC_SHT', 'TempC_DS'];
+
+/**
+ * Temperature the battery is derated against: the first temperature
+ * field that is constrained or follows a behavior model. Free random
+ * values span the sensor's whole range, so they would make the drain
+ * random too.
+ */
+function getDeratingTemperature(
+  profile: SimulationProfile,
+  generated: Record<string, unknown>,
+  constraints?: Record<string, FieldConstraint>
+): number | undefined {
+  const field = BATTERY_TEMPERATURE_FIELDS.find(f =>
+    typeof generated[f] === 'number' &&
+    (constraints?.[f] !== undefined || (profile.fields[f] as NumericFieldConfig).behavior !== undefined));
+  return field ? (generated[field] as number) : undefined;
+}
+
 // ============================================
 // Main Generation Function
 // ============================================
@@ -210,7 +329,7 @@ function generateFieldValue(
  * @param state - Current device simulation state (will be mutated)
  * @param context - Simulation context for deterministic seeding
  * @param mode - Generation mode ('normal' or 'alarm')
- * @param options - Optional generation options (drift, alarm overrides)
+ * @param options - Optional generation options (drift, alarm overrides, emission time)
  * @returns Generated fields and updated state
  */
 export function generateFields(
@@ -220,36 +339,93 @@ export function generateFields(
   mode: GenerationMode = 'normal',
   options: GenerationOptions = {}
 ): GenerationResult {
-  const fields: Record<string, unknown> = {};
-  const { enableDrift = false, driftMaxStep = 2.0, alarmOverrides } = options;
+  const generated: Record<string, unknown> = {};
+  const {
+    enableDrift = false,
+    driftMaxStep = 2.0,
+    alarmOverrides,
+    emissionTime = simNow(),
+  } = options;
+  
+  // A message type frame generates only its fields (and their derivation sources)
+  const included = options.fields ? withDerivationSources(profile, options.fields) : null;
+  const emitted = options.fields
+    ? Object.keys(profile.fields).filter(f => options.fields!.includes(f))
+    : Object.keys(profile.fields);
+  
+  // Battery level reports the charge left before this uplink's discharge
+  const batteryConfig = usesBatteryModel(profile) ? resolveBatteryModel(profile) : null;
+  if (batteryConfig && !state.battery) {
+    state.battery = createBatteryState(batteryConfig);
+  }
   
-  // Generate each field
-  for (const [fieldName, fieldConfig] of Object.entries(profile.fields)) {
+  // Generate each field, sources before the fields derived from them
+  for (const fieldName of orderFieldsByDependency(profile)) {
+    if (included && !included.has(fieldName)) continue;
+    const fieldConfig = profile.fields[fieldName];
+    
+    const constraint = options.constraints?.[fieldName];
+    
+    if (batteryConfig && state.battery && fieldName === BATTERY_LEVEL_FIELD) {
+      let value: unknown = finalizeNumeric(
+        fieldConfig as NumericFieldConfig,
+        getBatteryPct(state.battery, batteryConfig)
+      );
+      if (constraint) value = applyConstraint(fieldConfig, constraint, value);
+      state.lastValues[fieldName] = value;
+      generated[fieldName] = value;
+      continue;
+    }
+    
     // Create deterministic seed for this field
     const seed = createFieldSeed(context, fieldName);
     const rng = new SeededRandom(seed);
     
-    // Generate the field value
-    const value = generateFieldValue(
+    // Generate the field value (within a constrained range)
+    let value = generateFieldValue(
       fieldName,
-      fieldConfig,
+      constraint ? constrainConfig(fieldConfig, constraint) : fieldConfig,
       rng,
       state,
-      { enableDrift, driftMaxStep }
+      { enableDrift, driftMaxStep, emissionTime },
+      generated
     );
+    if (constraint) {
+      value = applyConstraint(fieldConfig, constraint, value);
+      state.lastValues[fieldName] = value;
+    }
     
-    fields[fieldName] = value;
+    generated[fieldName] = value;
+  }
+  
+  // Emit fields in declared order
+  const fields: Record<string, unknown> = {};
+  for (const fieldName of emitted) {
+    fields[fieldName] = generated[fieldName];
+  }
+  
+  // Drain the battery for this uplink
+  let batteryLow: boolean | undefined;
+  if (batteryConfig && state.battery) {
+    state.battery = dischargeBattery(
+      state.battery,
+      batteryConfig,
+      emissionTime,
+      getDeratingTemperature(profile, generated, options.constraints)
+    );
+    batteryLow = isBatteryLow(state.battery, batteryConfig);
   }
   
   // Apply alarm overrides if in alarm mode
   if (mode === 'alarm' && alarmOverrides) {
     for (const [key, value] of Object.entries(alarmOverrides)) {
+      if (included && key in profile.fields && !emitted.includes(key)) continue;
       fields[key] = value;
     }
   }
   
   // Update state metadata
-  const now = new Date().toISOString();
+  const now = new Date(emissionTime).toISOString();
   state.emissionSequence++;
   state.f_cnt++;
   state.lastEmittedAt = now;
@@ -263,6 +439,7 @@ export function generateFields(
       emissionSequence: state.emissionSequence,
       mode,
       generatedAt: now,
+      batteryLow,
     },
   };
 }
@@ -305,6 +482,24 @@ export function generateDevicePayload(
   );
 }
 
+/**
+ * State after a generation that was sampled but not sent: the values and
+ * emission sequence move on, the frame counter, increment counters,
+ * battery and last emission stay as they were
+ */
+export function withoutUplink(
+  generated: DeviceSimulationState,
+  previous: DeviceSimulationState
+): DeviceSimulationState {
+  return {
+    ...generated,
+    f_cnt: previous.f_cnt,
+    incrementCounters: previous.incrementCounters,
+    battery: previous.battery,
+    lastEmittedAt: previous.lastEmittedAt,
+  };
+}
+
 /**
  * Create initial simulation state for a device
  */
@@ -312,7 +507,7 @@ export function createInitialSimulationState(
   deviceInstanceId: string,
   libraryDeviceId: string
 ): DeviceSimulationState {
-  const now = new Date().toISOString();
+  const now = simNowIso();
   return {
     deviceInstanceId,
     libraryDeviceId,
@@ -327,7 +522,8 @@ export function createInitialSimulationState(
 }
 
 /**
- * Verify determinism: generate N payloads with same context, should be identical
+ * Verify determinism: generate N payloads with same context, should be identical.
+ * Behavior models are evaluated at a single fixed emission time.
  */
 export function verifyDeterminism(
   profile: SimulationProfile,
@@ -335,6 +531,7 @@ export function verifyDeterminism(
   iterations: number = 10
 ): boolean {
   const results: string[] = [];
+  const emissionTime = simNow();
   
   for (let i = 0; i < iterations; i++) {
     // Create fresh state each time
@@ -344,7 +541,7 @@ export function verifyDeterminism(
     );
     state.emissionSequence = context.emissionSequence;
     
-    const result = generateFields(profile, state, context, 'normal');
+    const result = generateFields(profile, state, context, 'normal', { emissionTime });
     results.push(JSON.stringify(result.fields));
   }
   
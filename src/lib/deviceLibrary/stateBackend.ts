@@ -0,0 +1,66 @@
+/**
+ * State Backend
+ *
+ * Key-value storage used by the device state store and library store.
+ * Defaults to localStorage in the browser; headless runs plug in an
+ * in-memory, JSON file or SQLite backend instead.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Synchronous key-value storage (the subset of the Web Storage API we use)
+ */
+export interface StateBackend {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+}
+
+// ============================================
+// Backends
+// ============================================
+
+/**
+ * Non-persistent backend, optionally seeded with entries
+ */
+export function createMemoryBackend(initial: Record<string, string> = {}): StateBackend {
+  const entries = new Map(Object.entries(initial));
+  return {
+    getItem: (key) => entries.get(key) ?? null,
+    setItem: (key, value) => {
+      entries.set(key, value);
+    },
+    removeItem: (key) => {
+      entries.delete(key);
+    },
+  };
+}
+
+// ============================================
+// Active Backend
+// ============================================
+
+let activeBackend: StateBackend | null = null;
+let fallbackBackend: StateBackend | null = null;
+
+/**
+ * Use a specific backend for all state persistence.
+ * Pass null to return to the default.
+ */
+export function setStateBackend(backend: StateBackend | null): void {
+  activeBackend = backend;
+}
+
+/**
+ * Current backend: the configured one, else localStorage when available,
+ * else a process-wide in-memory backend.
+ */
+export function getStateBackend(): StateBackend {
+  if (activeBackend) return activeBackend;
+  if (typeof localStorage !== 'undefined') return localStorage;
+  fallbackBackend ??= createMemoryBackend();
+  return fallbackBackend;
+}
@@ -1,7 +1,7 @@
 /**
  * Device Library Persistence Store
  * 
- * Handles localStorage persistence for:
+ * Handles persistence (localStorage or the configured state backend) for:
  * - Active device library
  * - Device model assignments (emulator device → library device)
  */
@@ -9,6 +9,7 @@
 import type { DeviceLibrary, DeviceModelAssignment } from './types';
 import { loadDeviceLibrary, getActiveLibrary } from './loader';
 import { defaultDeviceLibrary } from './defaultLibrary';
+import { getStateBackend } from './stateBackend';
 
 // ============================================
 // Storage Keys
@@ -25,7 +26,7 @@ const STORAGE_KEYS = {
 // ============================================
 
 /**
- * Save the active library to localStorage.
+ * Save the active library to the state backend.
  */
 export function persistActiveLibrary(): void {
   const library = getActiveLibrary();
@@ -35,7 +36,7 @@ export function persistActiveLibrary(): void {
   }
   
   try {
-    localStorage.setItem(STORAGE_KEYS.LIBRARY, JSON.stringify(library));
+    getStateBackend().setItem(STORAGE_KEYS.LIBRARY, JSON.stringify(library));
     console.log(`[DeviceLibraryStore] Persisted library v${library.metadata.version}`);
   } catch (e) {
     console.error('[DeviceLibraryStore] Failed to persist library:', e);
@@ -43,12 +44,12 @@ export function persistActiveLibrary(): void {
 }
 
 /**
- * Load library from localStorage, falling back to default.
+ * Load library from the state backend, falling back to default.
  */
 export function loadPersistedLibrary(): boolean {
   try {
     // Try to load persisted library first
-    const stored = localStorage.getItem(STORAGE_KEYS.LIBRARY);
+    const stored = getStateBackend().getItem(STORAGE_KEYS.LIBRARY);
     if (stored) {
       const json = JSON.parse(stored);
       const result = loadDeviceLibrary(json);
@@ -82,8 +83,8 @@ export function loadPersistedLibrary(): boolean {
  */
 export function saveCustomLibrary(library: DeviceLibrary): void {
   try {
-    localStorage.setItem(STORAGE_KEYS.CUSTOM_LIBRARY, JSON.stringify(library));
-    localStorage.setItem(STORAGE_KEYS.LIBRARY, JSON.stringify(library));
+    getStateBackend().setItem(STORAGE_KEYS.CUSTOM_LIBRARY, JSON.stringify(library));
+    getStateBackend().setItem(STORAGE_KEYS.LIBRARY, JSON.stringify(library));
     console.log('[DeviceLibraryStore] Saved custom library');
   } catch (e) {
     console.error('[DeviceLibraryStore] Failed to save custom library:', e);
@@ -95,7 +96,7 @@ export function saveCustomLibrary(library: DeviceLibrary): void {
  */
 export function resetToDefaultLibrary(): boolean {
   try {
-    localStorage.removeItem(STORAGE_KEYS.CUSTOM_LIBRARY);
+    getStateBackend().removeItem(STORAGE_KEYS.CUSTOM_LIBRARY);
     const result = loadDeviceLibrary(defaultDeviceLibrary);
     if (result.valid) {
       persistActiveLibrary();
@@ -118,7 +119,7 @@ export function resetToDefaultLibrary(): boolean {
  */
 export function getModelAssignments(): DeviceModelAssignment[] {
   try {
-    const stored = localStorage.getItem(STORAGE_KEYS.MODEL_ASSIGNMENTS);
+    const stored = getStateBackend().getItem(STORAGE_KEYS.MODEL_ASSIGNMENTS);
     if (!stored) return [];
     return JSON.parse(stored) as DeviceModelAssignment[];
   } catch (e) {
@@ -153,7 +154,7 @@ export function setDeviceModel(emulatorDeviceId: string, libraryDeviceId: string
       assignedAt: new Date().toISOString(),
     });
     
-    localStorage.setItem(STORAGE_KEYS.MODEL_ASSIGNMENTS, JSON.stringify(filtered));
+    getStateBackend().setItem(STORAGE_KEYS.MODEL_ASSIGNMENTS, JSON.stringify(filtered));
     console.log(`[DeviceLibraryStore] Assigned model ${libraryDeviceId} to device ${emulatorDeviceId}`);
   } catch (e) {
     console.error('[DeviceLibraryStore] Failed to set device model:', e);
@@ -167,19 +168,30 @@ export function clearDeviceModel(emulatorDeviceId: string): void {
   try {
     const assignments = getModelAssignments();
     const filtered = assignments.filter(a => a.emulatorDeviceId !== emulatorDeviceId);
-    localStorage.setItem(STORAGE_KEYS.MODEL_ASSIGNMENTS, JSON.stringify(filtered));
+    getStateBackend().setItem(STORAGE_KEYS.MODEL_ASSIGNMENTS, JSON.stringify(filtered));
     console.log(`[DeviceLibraryStore] Cleared model for device ${emulatorDeviceId}`);
   } catch (e) {
     console.error('[DeviceLibraryStore] Failed to clear device model:', e);
   }
 }
 
+/**
+ * Replace all model assignments (used by library migrations).
+ */
+export function replaceModelAssignments(assignments: DeviceModelAssignment[]): void {
+  try {
+    getStateBackend().setItem(STORAGE_KEYS.MODEL_ASSIGNMENTS, JSON.stringify(assignments));
+  } catch (e) {
+    console.error('[DeviceLibraryStore] Failed to save model assignments:', e);
+  }
+}
+
 /**
  * Clear all model assignments.
  */
 export function clearAllModelAssignments(): void {
   try {
-    localStorage.removeItem(STORAGE_KEYS.MODEL_ASSIGNMENTS);
+    getStateBackend().removeItem(STORAGE_KEYS.MODEL_ASSIGNMENTS);
     console.log('[DeviceLibraryStore] Cleared all model assignments');
   } catch (e) {
     console.error('[DeviceLibraryStore] Failed to clear assignments:', e);
@@ -15,6 +15,8 @@ import {
   incrementFCnt,
   incrementCounter,
 } from './deviceStateStore';
+import { encodeDeviceFrmPayload, decodeDeviceFrmPayload, getFrameResolution } from './payloadCodec';
+import { getMessageTypes, hasMessageTypes, selectMessageFields } from './messageTypes';
 import type { 
   DeviceLibrary, 
   SimulationContext, 
@@ -251,6 +253,76 @@ export function testBounds(samples: number = 1000): TestResult[] {
   return results;
 }
 
+// ============================================
+// Payload Round-Trip Tests
+// ============================================
+
+/**
+ * Test that decode(encode(fields)) matches fields for every frame-carried
+ * field of every message type, within the coarser of the field precision
+ * and the wire resolution
+ */
+export function testPayloadRoundTrip(samples: number = 50): TestResult[] {
+  const results: TestResult[] = [];
+
+  for (const device of defaultDeviceLibrary.devices) {
+    for (const messageType of getMessageTypes(device)) {
+      const resolution = getFrameResolution(device, messageType.fport, messageType);
+      const mismatches: Array<{ field: string; sent: unknown; decoded: unknown; sequence: number }> = [];
+
+      for (let i = 0; i < samples; i++) {
+        const context: SimulationContext = {
+          orgId: 'roundtrip-test-org',
+          siteId: 'roundtrip-test-site',
+          unitId: 'roundtrip-test-unit',
+          deviceInstanceId: `roundtrip-test-${device.id}`,
+          emissionSequence: i,
+        };
+
+        const state = createInitialSimulationState(context.deviceInstanceId, device.id);
+        state.emissionSequence = i;
+
+        const generated = generateFields(device.simulation_profile, state, context, 'normal');
+        const fields = selectMessageFields(generated.fields, messageType);
+        const frmPayload = encodeDeviceFrmPayload(device, fields, messageType.fport, messageType);
+        const decoded = decodeDeviceFrmPayload(device, frmPayload, messageType.fport, messageType);
+
+        for (const [fieldName, step] of Object.entries(resolution)) {
+          const sent = fields[fieldName];
+          const received = decoded[fieldName];
+          if (sent === undefined) continue;
+
+          let matches: boolean;
+          if (typeof sent === 'number' && typeof received === 'number') {
+            const config = device.simulation_profile.fields[fieldName] as NumericFieldConfig;
+            const precisionStep = config.type === 'float' ? Math.pow(10, -(config.precision ?? 1)) : 1;
+            const tolerance = Math.max(step, precisionStep) / 2 + 1e-9;
+            matches = Math.abs(received - sent) <= tolerance;
+          } else {
+            matches = received === sent;
+          }
+
+          if (!matches) {
+            mismatches.push({ field: fieldName, sent, decoded: received, sequence: i });
+          }
+        }
+      }
+
+      const frame = hasMessageTypes(device) ? ` ${messageType.id} (fport ${messageType.fport})` : '';
+      results.push({
+        name: `Device ${device.id}${frame} payload round-trips`,
+        passed: mismatches.length === 0,
+        message: mismatches.length === 0
+          ? `${samples} frames decoded back to ${Object.keys(resolution).length} fields`
+          : `${mismatches.length} field mismatches after decode(encode(fields))`,
+        details: mismatches.length > 0 ? mismatches.slice(0, 10) : undefined,
+      });
+    }
+  }
+
+  return results;
+}
+
 // ============================================
 // Increment Persistence Tests
 // ============================================
@@ -363,6 +435,16 @@ export function runTestSuite(): TestSuiteResult {
     });
   }
   
+  try {
+    allResults.push(...testPayloadRoundTrip(20)); // Reduced for speed
+  } catch (error) {
+    allResults.push({
+      name: 'Payload round-trip tests',
+      passed: false,
+      message: `Test threw error: ${error instanceof Error ? error.message : String(error)}`,
+    });
+  }
+  
   try {
     allResults.push(...testIncrementPersistence());
   } catch (error) {
@@ -0,0 +1,352 @@
+/**
+ * TTN Device Repository Importer
+ *
+ * Converts vendor models from a checkout of TheThingsNetwork/lorawan-devices
+ * into DeviceDefinitions. Field types and ranges are inferred from the
+ * codec's uplink decoder examples (input/output pairs); each definition is
+ * validated with deviceLibrarySchema and merged into a library with
+ * conflict reporting.
+ *
+ * Repository layout read:
+ *   vendor/index.yaml                 vendors: [{ id, name }]
+ *   vendor/<vendor>/index.yaml        endDevices: [<model>]
+ *   vendor/<vendor>/<model>.yaml      name, description, sensors, firmwareVersions[].profiles[].codec
+ *   vendor/<vendor>/<codec>.yaml      uplinkDecoder.examples[{ description, input.fPort, output.data }]
+ */
+
+import { parse as parseYaml } from 'yaml';
+import type { DeviceCategory, DeviceDefinition, DeviceLibrary, FieldConfig } from './types';
+import { deviceLibrarySchema } from './schema';
+import { withDevice } from './libraryEditor';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Reads files by path relative to the repository root; null when missing
+ */
+export interface TtnRepositoryReader {
+  readText(path: string): Promise<string | null>;
+}
+
+export interface TtnImportOptions {
+  vendors?: string[];          // Vendor ids (default: every vendor in vendor/index.yaml)
+  models?: string[];           // Model ids within those vendors (default: all)
+}
+
+export interface TtnImportIssue {
+  path: string;
+  message: string;
+}
+
+export interface TtnImportResult {
+  devices: DeviceDefinition[];
+  skipped: TtnImportIssue[];
+}
+
+export interface TtnMergeReport {
+  added: string[];
+  replaced: string[];
+  conflicts: TtnImportIssue[];
+}
+
+interface TtnCodecExample {
+  description?: string;
+  input?: { fPort?: number };
+  output?: { data?: Record<string, unknown>; errors?: unknown[] };
+}
+
+interface TtnDeviceYaml {
+  name?: string;
+  description?: string;
+  sensors?: string[];
+  firmwareVersions?: Array<{
+    version?: string;
+    profiles?: Record<string, { codec?: string }>;
+  }>;
+}
+
+/** Enum inference cutoff: more distinct strings than this become a string field */
+const MAX_ENUM_VALUES = 8;
+
+const ALARM_EXAMPLE_PATTERN = /alarm|alert|leak|open|tamper|low battery/i;
+
+// ============================================
+// Field Inference
+// ============================================
+
+/**
+ * Flatten nested decoder output one level per object (a.b → a_b),
+ * dropping arrays and nulls, which the simulation can't generate
+ */
+function flattenOutput(data: Record<string, unknown>, prefix = ''): Record<string, unknown> {
+  const flat: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(data)) {
+    const name = prefix ? `${prefix}_${key}` : key;
+    if (value === null || value === undefined || Array.isArray(value)) continue;
+    if (typeof value === 'object') Object.assign(flat, flattenOutput(value as Record<string, unknown>, name));
+    else flat[name] = value;
+  }
+  return flat;
+}
+
+function decimals(value: number): number {
+  const text = String(value);
+  const dot = text.indexOf('.');
+  return dot === -1 ? 0 : Math.min(10, text.length - dot - 1);
+}
+
+/**
+ * Infer a field config from every value a decoder produced for it:
+ * numbers get the observed range widened by a margin, few distinct
+ * strings become an enum. Returns null for mixed or unusable values.
+ */
+export function inferFieldConfig(name: string, values: unknown[]): FieldConfig | null {
+  if (values.length === 0) return null;
+
+  if (values.every(v => typeof v === 'number' && Number.isFinite(v))) {
+    const numbers = values as number[];
+    const isInt = numbers.every(Number.isInteger);
+    const precision = Math.max(...numbers.map(decimals));
+    const observedMin = Math.min(...numbers);
+    const observedMax = Math.max(...numbers);
+    const span = observedMax - observedMin;
+    const margin = span > 0 ? span * 0.25 : Math.max(1, Math.abs(observedMin) * 0.1);
+
+    let min = observedMin - margin;
+    let max = observedMax + margin;
+    if (observedMin >= 0) min = Math.max(0, min);
+    if (observedMax <= 100 && /battery|humidity|percent/i.test(name)) max = Math.min(100, max);
+
+    if (isInt) return { type: 'int', min: Math.floor(min), max: Math.ceil(max) };
+    const factor = 10 ** precision;
+    return {
+      type: 'float',
+      min: Math.floor(min * factor) / factor,
+      max: Math.ceil(max * factor) / factor,
+      precision,
+    };
+  }
+
+  if (values.every(v => typeof v === 'boolean')) {
+    return { type: 'bool', default: values[0] as boolean };
+  }
+
+  if (values.every(v => typeof v === 'string')) {
+    const distinct = [...new Set(values as string[])];
+    return distinct.length <= MAX_ENUM_VALUES
+      ? { type: 'enum', values: distinct, default: distinct[0] }
+      : { type: 'string', default: distinct[0] };
+  }
+
+  return null;
+}
+
+/**
+ * Map TTN sensor ids and decoded field names to a library category
+ */
+export function inferCategory(sensors: string[], fieldNames: string[]): DeviceCategory {
+  const haystack = [...sensors, ...fieldNames].map(s => s.toLowerCase());
+  const has = (...needles: string[]) => needles.some(n => haystack.some(h => h.includes(n)));
+
+  if (has('door', 'contact', 'magnet')) return 'door';
+  if (has('leak', 'water_leak', 'water leak')) return 'leak';
+  if (has('co2')) return 'co2';
+  if (has('gps', 'latitude')) return 'gps';
+  if (has('motion', 'pir', 'occupancy')) return 'motion';
+  if (has('tvoc', 'pm2', 'pm10')) return 'air_quality';
+  if (has('temperature', 'temp')) return has('humidity') ? 'temperature_humidity' : 'temperature';
+  if (has('pulse', 'meter', 'energy', 'counter')) return 'meter';
+  return 'multi_sensor';
+}
+
+// ============================================
+// Conversion
+// ============================================
+
+function toLibraryId(vendorId: string, modelId: string): string {
+  return `${vendorId}-${modelId}`.toLowerCase().replace(/[^a-z0-9-]+/g, '-').replace(/-+/g, '-').replace(/^-|-$/g, '');
+}
+
+function findCodecId(device: TtnDeviceYaml): string | null {
+  for (const firmware of device.firmwareVersions ?? []) {
+    for (const profile of Object.values(firmware.profiles ?? {})) {
+      if (profile?.codec) return profile.codec;
+    }
+  }
+  return null;
+}
+
+/**
+ * Build a device definition from a repository device and its codec examples
+ */
+export function convertTtnDevice(
+  vendor: { id: string; name: string },
+  modelId: string,
+  device: TtnDeviceYaml,
+  examples: TtnCodecExample[]
+): { device: DeviceDefinition | null; reason?: string } {
+  const usable = examples.filter(e => e.output?.data && typeof e.output.data === 'object' && !e.output.errors?.length);
+  if (usable.length === 0) return { device: null, reason: 'no decoder examples with output data' };
+
+  const outputs = usable.map(e => flattenOutput(e.output!.data!));
+  const names = [...new Set(outputs.flatMap(o => Object.keys(o)))];
+  const fields: Record<string, FieldConfig> = {};
+  for (const name of names) {
+    const config = inferFieldConfig(name, outputs.map(o => o[name]).filter(v => v !== undefined));
+    if (config) fields[name] = config;
+  }
+  if (Object.keys(fields).length === 0) return { device: null, reason: 'no fields could be inferred from decoder examples' };
+
+  const pick = (output: Record<string, unknown>) =>
+    Object.fromEntries(Object.entries(output).filter(([key]) => key in fields));
+  const alarmIndex = usable.findIndex((e, i) => i > 0 && ALARM_EXAMPLE_PATTERN.test(e.description ?? ''));
+  const fPort = usable[0].input?.fPort;
+
+  return {
+    device: {
+      id: toLibraryId(vendor.id, modelId),
+      name: device.name ?? modelId,
+      manufacturer: vendor.name,
+      category: inferCategory(device.sensors ?? [], Object.keys(fields)),
+      default_fport: fPort && fPort >= 1 && fPort <= 255 ? fPort : 1,
+      payload_format: 'custom',
+      simulation_profile: { fields },
+      examples: {
+        normal: pick(outputs[0]),
+        ...(alarmIndex > 0 ? { alarm: pick(outputs[alarmIndex]) } : {}),
+      },
+      ...(device.description ? { description: device.description.trim() } : {}),
+      ...(device.firmwareVersions?.[0]?.version ? { firmware_version: String(device.firmwareVersions[0].version) } : {}),
+      model: device.name ?? modelId,
+    },
+  };
+}
+
+/**
+ * Check one definition against deviceLibrarySchema
+ */
+function validateImportedDevice(device: DeviceDefinition): string | null {
+  const parsed = deviceLibrarySchema.safeParse({
+    metadata: { version: '1.0.0', last_updated: '1970-01-01', categories: [device.category], manufacturers: [device.manufacturer] },
+    devices: [device],
+  });
+  if (parsed.success) return null;
+  return parsed.error.issues
+    .map(issue => `${issue.path.slice(2).join('.') || '(device)'}: ${issue.message}`)
+    .join('; ');
+}
+
+// ============================================
+// Repository Import
+// ============================================
+
+async function readYaml<T>(reader: TtnRepositoryReader, path: string, skipped: TtnImportIssue[]): Promise<T | null> {
+  const text = await reader.readText(path);
+  if (text === null) {
+    skipped.push({ path, message: 'file not found' });
+    return null;
+  }
+  try {
+    return parseYaml(text) as T;
+  } catch (e) {
+    skipped.push({ path, message: `invalid YAML: ${e instanceof Error ? e.message : String(e)}` });
+    return null;
+  }
+}
+
+/**
+ * Import vendor models from a lorawan-devices checkout. Models that can't
+ * be converted or fail validation are listed in `skipped` with the reason.
+ */
+export async function importTtnRepository(
+  reader: TtnRepositoryReader,
+  options: TtnImportOptions = {}
+): Promise<TtnImportResult> {
+  const skipped: TtnImportIssue[] = [];
+  const devices: DeviceDefinition[] = [];
+
+  const index = await readYaml<{ vendors?: Array<{ id: string; name?: string }> }>(reader, 'vendor/index.yaml', skipped);
+  const known = new Map((index?.vendors ?? []).map(v => [v.id, v.name ?? v.id]));
+  const vendorIds = options.vendors ?? [...known.keys()];
+
+  for (const vendorId of vendorIds) {
+    const vendor = { id: vendorId, name: known.get(vendorId) ?? vendorId };
+    const vendorIndex = await readYaml<{ endDevices?: string[] }>(reader, `vendor/${vendorId}/index.yaml`, skipped);
+    const modelIds = (vendorIndex?.endDevices ?? []).filter(id => !options.models || options.models.includes(id));
+
+    for (const modelId of modelIds) {
+      const path = `vendor/${vendorId}/${modelId}.yaml`;
+      const device = await readYaml<TtnDeviceYaml>(reader, path, skipped);
+      if (!device) continue;
+
+      const codecId = findCodecId(device);
+      if (!codecId) {
+        skipped.push({ path, message: 'no codec referenced by any firmware profile' });
+        continue;
+      }
+      const codec = await readYaml<{ uplinkDecoder?: { examples?: TtnCodecExample[] } }>(
+        reader, `vendor/${vendorId}/${codecId}.yaml`, skipped
+      );
+      if (!codec) continue;
+
+      const { device: definition, reason } = convertTtnDevice(vendor, modelId, device, codec.uplinkDecoder?.examples ?? []);
+      if (!definition) {
+        skipped.push({ path, message: reason! });
+        continue;
+      }
+      const invalid = validateImportedDevice(definition);
+      if (invalid) {
+        skipped.push({ path, message: `failed validation: ${invalid}` });
+        continue;
+      }
+      devices.push(definition);
+    }
+  }
+
+  return { devices, skipped };
+}
+
+// ============================================
+// Merge
+// ============================================
+
+/**
+ * Merge imported devices into a library. Devices whose id already exists
+ * are conflicts unless replaceExisting is set; devices matching an existing
+ * manufacturer and model under another id are always reported and skipped.
+ */
+export function mergeImportedDevices(
+  base: DeviceLibrary,
+  devices: DeviceDefinition[],
+  options: { replaceExisting?: boolean } = {}
+): { library: DeviceLibrary; report: TtnMergeReport } {
+  const report: TtnMergeReport = { added: [], replaced: [], conflicts: [] };
+  const modelKey = (d: DeviceDefinition) => `${d.manufacturer}|${d.model ?? d.name}`.toLowerCase();
+  let library = base;
+
+  for (const device of devices) {
+    const existing = library.devices.find(d => d.id === device.id);
+    if (existing) {
+      if (options.replaceExisting) {
+        library = withDevice(library, device, device.id);
+        report.replaced.push(device.id);
+      } else {
+        report.conflicts.push({ path: device.id, message: `id already used by ${existing.manufacturer} ${existing.name}` });
+      }
+      continue;
+    }
+
+    const sameModel = library.devices.find(d => modelKey(d) === modelKey(device));
+    if (sameModel) {
+      report.conflicts.push({ path: device.id, message: `same model as existing device "${sameModel.id}"` });
+      continue;
+    }
+
+    library = withDevice(library, device);
+    report.added.push(device.id);
+  }
+
+  return { library, report };
+}
@@ -5,6 +5,9 @@
  * deterministic TTN v3 payload generation for many device types.
  */
 
+import type { RegionId } from './channelPlans';
+import type { ScenarioType } from './scenarioComposer';
+
 // ============================================
 // Field Configuration Types
 // ============================================
@@ -25,6 +28,96 @@ export interface NumericFieldConfig extends BaseFieldConfig {
   increment?: boolean; // persists counter per device
   static?: boolean; // fixed value
   default?: number;
+  behavior?: FieldBehavior; // time-series shape instead of uniform random
+  derive?: FieldDerivation; // computed from another field in the profile
+}
+
+// ============================================
+// Derived Fields
+// ============================================
+
+/**
+ * value = offset + scale * source, e.g. humidity falling as temperature rises
+ */
+export interface LinearDerivation {
+  kind: 'linear';
+  from: string;
+  scale: number;
+  offset?: number;
+  jitter?: number; // seeded uniform jitter amplitude
+}
+
+/**
+ * Piecewise-linear lookup of [source, value] points, e.g. a battery
+ * discharge curve mapping percent to volts
+ */
+export interface CurveDerivation {
+  kind: 'curve';
+  from: string;
+  points: [number, number][];
+  jitter?: number;
+}
+
+export type FieldDerivation = LinearDerivation | CurveDerivation;
+
+// ============================================
+// Behavior Models
+// ============================================
+
+/**
+ * Periodic wave, e.g. a diurnal ambient cycle (periodSeconds: 86400)
+ */
+export interface SinusoidBehavior {
+  model: 'sinusoid';
+  amplitude: number;
+  periodSeconds: number;
+  phaseSeconds?: number;
+}
+
+/**
+ * Compressor duty cycle: falls by amplitude while running (dutyCycle
+ * fraction of the period), then warms back up while idle
+ */
+export interface SawtoothBehavior {
+  model: 'sawtooth';
+  amplitude: number;
+  periodSeconds: number;
+  dutyCycle: number; // 0..1
+  phaseSeconds?: number;
+}
+
+/**
+ * Scheduled triangular spike, e.g. a defrost cycle every 6 hours
+ */
+export interface SpikeBehavior {
+  model: 'spike';
+  magnitude: number;
+  intervalSeconds: number;
+  durationSeconds: number;
+  offsetSeconds?: number;
+}
+
+/**
+ * Periodic disturbance that decays exponentially, e.g. door-open recovery
+ */
+export interface RecoveryBehavior {
+  model: 'recovery';
+  magnitude: number;
+  intervalSeconds: number;
+  timeConstantSeconds: number;
+  offsetSeconds?: number;
+}
+
+export type BehaviorModel = SinusoidBehavior | SawtoothBehavior | SpikeBehavior | RecoveryBehavior;
+
+/**
+ * Numeric field behavior: baseline plus the sum of each model's deviation,
+ * plus seeded noise, clamped to the field's min/max.
+ */
+export interface FieldBehavior {
+  baseline: number;
+  models: BehaviorModel[];
+  noise?: number; // uniform jitter amplitude
 }
 
 export interface BoolFieldConfig extends BaseFieldConfig {
@@ -55,6 +148,33 @@ export type FieldConfig = NumericFieldConfig | BoolFieldConfig | EnumFieldConfig
 
 export interface SimulationProfile {
   fields: Record<string, FieldConfig>;
+  battery?: Partial<BatteryModelConfig>; // overrides DEFAULT_BATTERY_MODEL
+}
+
+// ============================================
+// Battery Discharge Model
+// ============================================
+
+/**
+ * Battery discharge parameters. Applied to any profile with a
+ * non-static battery_level field.
+ */
+export interface BatteryModelConfig {
+  capacityMah: number;
+  uplinkCostMah: number;            // charge drawn per uplink at reference temperature
+  selfDischargePctPerYear: number;  // of full capacity
+  referenceTempC: number;           // no derating at or above this temperature
+  deratingPctPerDegree: number;     // extra uplink cost per °C below reference
+  initialPct: number;
+  lowThresholdPct: number;          // battery_low at or below this level
+}
+
+/**
+ * Remaining charge, persisted in DeviceSimulationState
+ */
+export interface BatteryState {
+  remainingMah: number;
+  lastDischargeAt: number | null;  // Unix ms of the last uplink
 }
 
 // ============================================
@@ -66,6 +186,60 @@ export interface DeviceExamples {
   alarm?: Record<string, unknown>;
 }
 
+// ============================================
+// Message Types
+// ============================================
+
+/**
+ * When a message type is sent
+ * - interval: on its own period (default: the device's interval)
+ * - on_change: sampled like an interval frame, sent only when a watched field changed
+ * - on_event: when the named event is fired for the device (e.g. 'door')
+ */
+export type MessageTrigger = 'interval' | 'on_change' | 'on_event';
+
+/**
+ * One uplink frame type of a device, e.g. periodic status, door event or
+ * device-status heartbeat, each on its own fport with a subset of fields.
+ */
+export interface MessageTypeDefinition {
+  id: string;
+  fport: number;
+  fields: string[];                      // Subset of simulation_profile.fields
+  trigger: MessageTrigger;
+  interval_sec?: number;                 // interval / on_change sampling period
+  watch?: string[];                      // on_change: fields compared (default: fields)
+  event?: string;                        // on_event: event name
+  overrides?: Record<string, unknown>;   // Fixed values in this frame
+  description?: string;
+}
+
+/**
+ * What makes an event rule fire, comparing a field's previous sample to
+ * the current one:
+ * - change: the value changed (numbers by at least min_delta)
+ * - threshold: the value crossed threshold in the given direction
+ * - flag: the value became `value` (default true), e.g. an alarm bit
+ */
+export type EventRuleKind = 'change' | 'threshold' | 'flag';
+
+/**
+ * Rule for an out-of-cycle uplink, sent between periodic ones when the
+ * device's sampled values match it
+ */
+export interface EventRuleDefinition {
+  id: string;
+  field: string;                         // simulation_profile field sampled
+  kind: EventRuleKind;
+  threshold?: number;                    // threshold: crossing value
+  direction?: 'rising' | 'falling' | 'both';  // threshold: default 'both'
+  min_delta?: number;                    // change: smallest numeric change
+  value?: string | number | boolean;     // flag: value that raises the flag
+  message_type?: string;                 // Frame sent; default: the device's first frame type
+  min_interval_sec?: number;             // Rate limit per rule (default 60)
+  description?: string;
+}
+
 // ============================================
 // Device Definition
 // ============================================
@@ -82,6 +256,9 @@ export interface DeviceDefinition {
   description?: string;
   firmware_version?: string;
   model?: string;
+  message_types?: MessageTypeDefinition[];  // Default: one interval frame on default_fport
+  event_rules?: EventRuleDefinition[];
+  sample_interval_sec?: number;             // How often event_rules are evaluated (default 60)
 }
 
 export type DeviceCategory =
@@ -173,6 +350,50 @@ export interface DeviceModelAssignment {
   assignedAt: string;
 }
 
+// ============================================
+// Fleet Manifest
+// ============================================
+
+export interface FleetGateway {
+  id: string;
+  eui: string;
+  name?: string;
+  location?: { latitude: number; longitude: number };
+}
+
+export interface FleetDevice {
+  id?: string;               // Emulator device id (default: devEui)
+  devEui: string;
+  name?: string;
+  type?: 'temperature' | 'door';
+  model: string;             // Library device id
+  gatewayId: string;         // Home gateway
+  siteId?: string;
+  unitId?: string;
+  intervalSec: number;
+  scenario?: ScenarioType;
+  location?: { latitude: number; longitude: number };
+  joinEui?: string;
+  appKey?: string;
+}
+
+/**
+ * Versioned description of a complete test bench: gateways, devices
+ * and the seed that makes their payloads reproducible.
+ */
+export interface FleetManifest {
+  version: 1;
+  name?: string;
+  seed: string;
+  region?: RegionId;
+  applicationId: string;
+  orgId?: string;
+  siteId?: string;           // Default for devices without one
+  unitId?: string;
+  gateways: FleetGateway[];
+  devices: FleetDevice[];
+}
+
 // ============================================
 // Simulation Context & State
 // ============================================
@@ -187,6 +408,7 @@ export interface SimulationContext {
   unitId: string;
   deviceInstanceId: string;  // devEui or emulator device id
   emissionSequence: number;  // 0, 1, 2, ... per device
+  seed?: string;             // Fleet-wide seed; varies every sequence when set
 }
 
 /**
@@ -199,6 +421,7 @@ export interface DeviceSimulationState {
   emissionSequence: number;                   // For deterministic generation
   incrementCounters: Record<string, number>;  // door_open_count, pulse_count, etc.
   lastValues: Record<string, unknown>;        // For drift smoothing
+  battery?: BatteryState;                     // Discharge model state
   lastEmittedAt: string | null;
   createdAt: string;
   updatedAt: string;
@@ -212,10 +435,24 @@ export type GenerationMode = 'normal' | 'alarm';
 /**
  * Options for field generation.
  */
+/**
+ * Constraint on a generated field, e.g. from the emulator's sensor state:
+ * `value` pins the field, `min`/`max` narrow its numeric range. Fields
+ * derived from a constrained field follow it.
+ */
+export interface FieldConstraint {
+  value?: unknown;
+  min?: number;
+  max?: number;
+}
+
 export interface GenerationOptions {
   enableDrift?: boolean;      // Gradual changes for temp/humidity
   driftMaxStep?: number;      // Max change per emission (default: 2.0)
   alarmOverrides?: Record<string, unknown>;  // From examples.alarm
+  emissionTime?: number;      // Unix ms for behavior models (default: now)
+  fields?: string[];          // Only generate and emit these (message type frames)
+  constraints?: Record<string, FieldConstraint>;
 }
 
 /**
@@ -231,5 +468,8 @@ export interface GenerationResult {
     generatedAt: string;
     seed?: number;
     context?: SimulationContext;
+    batteryLow?: boolean;  // Discharge model at or below its low threshold
+    messageType?: string;  // Frame type, when composed for a message type
+    fport?: number;
   };
 }
@@ -0,0 +1,349 @@
+/**
+ * Emulator Payload Pipeline
+ *
+ * The one place an emulator uplink's decoded payload is built. A sensor's
+ * SensorState (temperature range, humidity, door, battery, signal) becomes
+ * field constraints on its library model, or on a built-in emulator model
+ * when none is assigned, and the simulation engine generates the frame.
+ * ttn-simulate, the external and local webhooks and the FreshTrack export
+ * all send what this returns for an emission, in the same envelope.
+ */
+
+import type { SensorState } from './emulatorSensorState';
+import type { GatewayConfig, LoRaWANDevice } from './ttn-payload';
+import {
+  buildLibraryEnvelope,
+  composeMessagePayload,
+  composeScenarioPayload,
+  encodeDeviceFrmPayload,
+  encodeLegacyFrmPayload,
+  generateDevicePayload,
+  getDevice,
+  getDeviceSimState,
+  getEventMessageTypes,
+  getMessageType,
+  hasEventRules,
+  LI_SOCL2_VOLTAGE_CURVE,
+  reconcileSimState,
+  sampleEventRules,
+  updateDeviceSimState,
+  type DeviceDefinition,
+  type DeviceSimulationState,
+  type EnvelopeOptions,
+  type EventTrigger,
+  type FieldConfig,
+  type FieldConstraint,
+  type GatewayInstance,
+  type GenerationResult,
+  type SimulationContext,
+  type TTNEnvelope,
+} from './deviceLibrary';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * One emulator uplink, identical for every transport
+ */
+export interface EmulatorUplink {
+  decodedPayload: Record<string, unknown>;
+  frmPayload: string;         // Base64 frame a TTN payload formatter decodes
+  fPort: number;
+  fCnt: number;
+  messageType?: string;
+  send: boolean;              // false for an on_change sample that saw no change
+}
+
+export interface EmulatorUplinkOptions {
+  messageType?: string;       // Frame type of the model (default: the full frame)
+  emissionTime?: number;      // Unix ms (default: now)
+  overrides?: Record<string, unknown>;  // Event trigger values sent as sampled
+}
+
+// ============================================
+// Emulator Models
+// ============================================
+
+const EMULATOR_BATTERY_FIELDS: Record<string, FieldConfig> = {
+  battery_level: { type: 'int', min: 0, max: 100, unit: '%' },
+  battery_voltage: {
+    type: 'float', min: 2.0, max: 3.6, precision: 2, unit: 'V',
+    derive: { kind: 'curve', from: 'battery_level', points: LI_SOCL2_VOLTAGE_CURVE },
+  },
+};
+
+/**
+ * Models of sensors without a library assignment, carrying the emulator's
+ * original payload fields on fport 2
+ */
+export const EMULATOR_DEVICE_MODELS: Record<SensorState['type'], DeviceDefinition> = {
+  temperature: {
+    id: 'emulator-temperature',
+    name: 'Emulator Temperature Sensor',
+    manufacturer: 'Emulator',
+    category: 'temperature_humidity',
+    default_fport: 2,
+    payload_format: 'json',
+    simulation_profile: {
+      fields: {
+        temperature: { type: 'float', min: -40, max: 85, precision: 1, unit: '°C' },
+        humidity: { type: 'int', min: 0, max: 100, unit: '%' },
+        ...EMULATOR_BATTERY_FIELDS,
+      },
+    },
+    examples: { normal: { temperature: 3.3, humidity: 45, battery_level: 95, battery_voltage: 3.6 } },
+  },
+  door: {
+    id: 'emulator-door',
+    name: 'Emulator Door Sensor',
+    manufacturer: 'Emulator',
+    category: 'door',
+    default_fport: 2,
+    payload_format: 'json',
+    simulation_profile: {
+      fields: {
+        door_status: { type: 'enum', values: ['closed', 'open'] },
+        door_open: { type: 'bool' },
+        ...EMULATOR_BATTERY_FIELDS,
+      },
+    },
+    examples: { normal: { door_status: 'closed', door_open: false, battery_level: 90, battery_voltage: 3.6 } },
+  },
+};
+
+/**
+ * The model a sensor's payload is generated from
+ */
+export function resolveEmulatorModel(state: SensorState): DeviceDefinition {
+  return (state.libraryDeviceId && getDevice(state.libraryDeviceId)) || EMULATOR_DEVICE_MODELS[state.type];
+}
+
+/**
+ * The frame type a sensor's door events go out as, when its model declares one
+ */
+export function doorEventMessageType(state: SensorState): string | undefined {
+  return getEventMessageTypes(resolveEmulatorModel(state), 'door')[0]?.id;
+}
+
+// ============================================
+// Constraints
+// ============================================
+
+// Field names (including Dragino aliases) driven by the emulator controls
+const TEMPERATURE_FIELDS = new Set(['temperature', 'ext_temperature', 'soil_temperature', 'TempC_SHT', 'TempC_DS']);
+const HUMIDITY_FIELDS = new Set(['humidity', 'Hum_SHT']);
+const DOOR_FIELDS = new Set(['door_status', 'DOOR_OPEN_STATUS', 'door_open', 'door', 'contact']);
+const SIGNAL_FIELDS = new Set(['signal_strength', 'rssi']);
+
+/** Fields without an emulator control report their quiet state */
+const QUIET_VALUES: Record<string, unknown> = { water_leak: false, sensor_flag: false, motion_detected: false, gps_fix: true };
+
+function fahrenheitToCelsius(tempF: number): number {
+  return Math.round(((tempF - 32) * 5 / 9) * 10) / 10;
+}
+
+/**
+ * Constraints a sensor's state puts on its model's fields: temperatures
+ * stay within the configured range, the other controls pin their fields
+ */
+export function sensorStateConstraints(state: SensorState, model: DeviceDefinition): Record<string, FieldConstraint> {
+  const constraints: Record<string, FieldConstraint> = {};
+  for (const [field, config] of Object.entries(model.simulation_profile.fields)) {
+    if (TEMPERATURE_FIELDS.has(field)) {
+      constraints[field] = {
+        min: fahrenheitToCelsius(Math.min(state.minTempF, state.maxTempF)),
+        max: fahrenheitToCelsius(Math.max(state.minTempF, state.maxTempF)),
+      };
+    } else if (HUMIDITY_FIELDS.has(field)) {
+      constraints[field] = { value: Math.round(state.humidity) };
+    } else if (field === 'battery_level') {
+      constraints[field] = { value: Math.round(state.batteryPct) };
+    } else if (DOOR_FIELDS.has(field)) {
+      if (config.type === 'bool') constraints[field] = { value: state.doorOpen };
+      else if (config.type === 'enum' && config.values.includes('open')) constraints[field] = { value: state.doorOpen ? 'open' : 'closed' };
+    } else if (SIGNAL_FIELDS.has(field)) {
+      constraints[field] = { value: Math.round(state.signalStrength) };
+    } else if (field in QUIET_VALUES) {
+      constraints[field] = { value: QUIET_VALUES[field] };
+    }
+  }
+  return constraints;
+}
+
+/**
+ * Values a sensor's state stands for: pinned values, and range midpoints
+ * for temperatures. Used to evaluate event rules on state changes.
+ */
+export function sensorStateValues(state: SensorState): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [field, constraint] of Object.entries(sensorStateConstraints(state, resolveEmulatorModel(state)))) {
+    values[field] = constraint.value !== undefined
+      ? constraint.value
+      : Math.round(((constraint.min! + constraint.max!) / 2) * 10) / 10;
+  }
+  return values;
+}
+
+// ============================================
+// Composition
+// ============================================
+
+/**
+ * Wire frame of an uplink: the library model's codec for the frame's port
+ * and type, or for the built-in emulator models the legacy Dragino frame
+ * matching the payload's shape
+ */
+function encodeUplinkFrame(
+  model: DeviceDefinition,
+  fields: Record<string, unknown>,
+  fPort: number,
+  messageType?: string
+): string {
+  if (Object.values(EMULATOR_DEVICE_MODELS).includes(model)) return encodeLegacyFrmPayload(fields);
+  return encodeDeviceFrmPayload(model, fields, fPort, messageType ? getMessageType(model, messageType) : undefined);
+}
+
+function sensorContext(state: SensorState, simState: DeviceSimulationState): SimulationContext {
+  return {
+    orgId: '',
+    siteId: '',
+    unitId: '',
+    deviceInstanceId: state.sensorId,
+    emissionSequence: simState.emissionSequence,
+  };
+}
+
+function composeFrame(
+  state: SensorState,
+  simState: DeviceSimulationState,
+  model: DeviceDefinition,
+  options: EmulatorUplinkOptions
+): { uplink: EmulatorUplink; updatedState: DeviceSimulationState } {
+  const context = sensorContext(state, simState);
+  const constraints = sensorStateConstraints(state, model);
+  const { emissionTime } = options;
+
+  // A frame type the model no longer declares (reassigned mid-schedule) sends the full frame
+  if (options.messageType && getMessageType(model, options.messageType)) {
+    const frame = composeMessagePayload(model, options.messageType, simState, context, {
+      scenario: state.scenario,
+      constraints,
+      emissionTime,
+      overrides: options.overrides,
+    });
+    const fPort = frame.metadata.fport ?? model.default_fport;
+    return {
+      uplink: {
+        decodedPayload: frame.fields,
+        frmPayload: encodeUplinkFrame(model, frame.fields, fPort, options.messageType),
+        fPort,
+        fCnt: frame.updatedState.f_cnt,
+        messageType: options.messageType,
+        send: frame.send,
+      },
+      updatedState: frame.updatedState,
+    };
+  }
+
+  const result: GenerationResult = state.scenario && state.scenario !== 'normal'
+    ? composeScenarioPayload(model, state.scenario, simState, context, { constraints, emissionTime })
+    : generateDevicePayload(model, simState, context, 'normal', { constraints, emissionTime });
+  return {
+    uplink: {
+      decodedPayload: result.fields,
+      frmPayload: encodeUplinkFrame(model, result.fields, model.default_fport),
+      fPort: model.default_fport,
+      fCnt: result.updatedState.f_cnt,
+      send: true,
+    },
+    updatedState: result.updatedState,
+  };
+}
+
+/**
+ * Persisted simulation state of a sensor, reconciled with its current model
+ */
+function loadSimState(state: SensorState, model: DeviceDefinition): DeviceSimulationState {
+  const stored = getDeviceSimState(state.sensorId, model.id);
+  return reconcileSimState({ ...stored, libraryDeviceId: model.id }, model).state;
+}
+
+/**
+ * Compose a sensor's next uplink and advance its simulation state
+ * (frame counter, counters, battery)
+ */
+export function composeEmulatorUplink(state: SensorState, options: EmulatorUplinkOptions = {}): EmulatorUplink {
+  const model = resolveEmulatorModel(state);
+  const { uplink, updatedState } = composeFrame(state, loadSimState(state, model), model, options);
+  updateDeviceSimState(updatedState);
+  return uplink;
+}
+
+/**
+ * The payload a sensor's next uplink would carry, without advancing its
+ * simulation state
+ */
+export function previewEmulatorPayload(state: SensorState, options: EmulatorUplinkOptions = {}): Record<string, unknown> {
+  const model = resolveEmulatorModel(state);
+  return composeFrame(state, structuredClone(loadSimState(state, model)), model, options).uplink.decodedPayload;
+}
+
+// ============================================
+// Envelope
+// ============================================
+
+function toGatewayInstance(gateway: GatewayConfig): GatewayInstance {
+  return { id: gateway.ttnGatewayId || gateway.id, eui: gateway.eui, location: gateway.location };
+}
+
+/**
+ * The TTN v3 envelope of a composed uplink, the same for every transport:
+ * the uplink's frame and fport, with RF-modelled rx_metadata from the
+ * sending gateway and every other online gateway in range
+ */
+export function buildEmulatorEnvelope(
+  state: SensorState,
+  uplink: EmulatorUplink,
+  device: LoRaWANDevice,
+  gateway: GatewayConfig,
+  gateways: GatewayConfig[],
+  applicationId: string,
+  options: Pick<EnvelopeOptions, 'region' | 'serverTimestamp'> = {}
+): TTNEnvelope {
+  const model = resolveEmulatorModel(state);
+  const home = toGatewayInstance(gateway);
+  const inRange = gateways.filter(g => g.isOnline && g.id !== gateway.id).map(toGatewayInstance);
+
+  return buildLibraryEnvelope(
+    { devEui: device.devEui, name: device.name, gatewayId: home.id, location: device.location },
+    [home, ...inRange],
+    uplink.decodedPayload,
+    model,
+    { ...getDeviceSimState(state.sensorId, model.id), f_cnt: uplink.fCnt },
+    applicationId,
+    { ...options, fPort: uplink.fPort, messageType: uplink.messageType, frmPayload: uplink.frmPayload }
+  );
+}
+
+// ============================================
+// Event Rules
+// ============================================
+
+/**
+ * Sample a sensor's model under its controls without sending and return
+ * the event rules that fired; the scheduler sends each one out of cycle
+ */
+export function sampleEmulatorEventRules(state: SensorState, emissionTime?: number): EventTrigger[] {
+  const model = resolveEmulatorModel(state);
+  if (!hasEventRules(model)) return [];
+
+  const simState = loadSimState(state, model);
+  const { updatedState, triggers } = sampleEventRules(model, simState, sensorContext(state, simState), {
+    scenario: state.scenario,
+    constraints: sensorStateConstraints(state, model),
+    emissionTime,
+  });
+  updateDeviceSimState(updatedState);
+  return triggers;
+}
@@ -6,6 +6,9 @@
  */
 
 import { LoRaWANDevice } from './ttn-payload';
+import type { ScenarioType } from './deviceLibrary/scenarioComposer';
+import { DEFAULT_BATTERY_MODEL, createBatteryState, dischargeBattery, getBatteryPct } from './deviceLibrary/batteryModel';
+import { simNow } from './deviceLibrary/clock';
 
 // Per-sensor state
 export interface SensorState {
@@ -27,6 +30,7 @@ export interface SensorState {
   isOnline: boolean;
   // Device Library integration
   libraryDeviceId?: string;  // Which library device model
+  scenario?: ScenarioType;   // From an imported fleet manifest
   f_cnt?: number;            // TTN frame counter (synced from deviceStateStore)
 }
 
@@ -194,9 +198,24 @@ export function saveSelectedSensorIds(ids: string[]): void {
  */
 export function getSensorSummary(sensor: SensorState): string {
   if (sensor.type === 'door') {
-    return `${sensor.doorOpen ? 'Open' : 'Closed'} | ${sensor.batteryPct}%`;
+    return `${sensor.doorOpen ? 'Open' : 'Closed'} | ${Math.round(sensor.batteryPct)}%`;
   }
-  return `${sensor.tempF.toFixed(1)}°F | ${sensor.humidity}% RH | ${sensor.batteryPct}%`;
+  return `${sensor.tempF.toFixed(1)}°F | ${sensor.humidity}% RH | ${Math.round(sensor.batteryPct)}%`;
+}
+
+/**
+ * Battery level after an uplink sent at `at`, using the device library's
+ * discharge model (uplink cost, self-discharge since lastSentAt, cold derating).
+ * Unrounded, so per-uplink drain accumulates across sends.
+ */
+export function dischargeSensorBattery(sensor: SensorState, at: Date = new Date(simNow())): number {
+  const battery = {
+    ...createBatteryState(DEFAULT_BATTERY_MODEL, sensor.batteryPct),
+    lastDischargeAt: sensor.lastSentAt ? sensor.lastSentAt.getTime() : null,
+  };
+  const temperatureC = sensor.type === 'temperature' ? (sensor.tempF - 32) * 5 / 9 : undefined;
+  const next = dischargeBattery(battery, DEFAULT_BATTERY_MODEL, at.getTime(), temperatureC);
+  return getBatteryPct(next, DEFAULT_BATTERY_MODEL);
 }
 
 /**
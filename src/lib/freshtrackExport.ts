@@ -10,7 +10,15 @@
 import { supabase } from '@/integrations/supabase/client';
 import { GatewayConfig, LoRaWANDevice, WebhookConfig } from './ttn-payload';
 import { SensorState } from './emulatorSensorState';
-import { getDevice } from './deviceLibrary';
+import { composeEmulatorUplink, previewEmulatorPayload } from './emulatorPayload';
+import {
+  getDevice,
+  runBackfill,
+  type BackfillEntry,
+  type BackfillOptions,
+  type BackfillRunOptions,
+  type BackfillRunResult,
+} from './deviceLibrary';
 import { getEffectiveConfig, isDirectModeAvailable } from './freshtrackConnectionStore';
 import type { FreshTrackOrgState } from './freshtrackOrgStateStore';
 
@@ -161,33 +169,6 @@ function mapCategory(category: string): string {
   return map[category] || 'temperature';
 }
 
-// ============================================
-// Battery Voltage Estimation
-// ============================================
-
-/**
- * Estimate battery voltage from percentage using piecewise Li-SOCl2 chemistry curve.
- * Reference points: 100%→3.6V, 80%→3.2V, 50%→2.8V, 20%→2.4V, 5%→2.0V, 0%→1.8V
- */
-function estimateBatteryVoltage(batteryPct: number): number {
-  const pct = Math.max(0, Math.min(100, batteryPct));
-  // Piecewise linear interpolation between reference points
-  const points: [number, number][] = [
-    [0, 1.8], [5, 2.0], [20, 2.4], [50, 2.8], [80, 3.2], [100, 3.6],
-  ];
-  // Find the two surrounding points
-  for (let i = 0; i < points.length - 1; i++) {
-    const [p0, v0] = points[i];
-    const [p1, v1] = points[i + 1];
-    if (pct >= p0 && pct <= p1) {
-      const t = (pct - p0) / (p1 - p0);
-      const voltage = v0 + t * (v1 - v0);
-      return Math.round(voltage * 100) / 100;
-    }
-  }
-  return 3.6; // fallback
-}
-
 // ============================================
 // Sensor Status Calculation
 // ============================================
@@ -212,122 +193,6 @@ function calculateGatewayStatus(gw: GatewayConfig): 'online' | 'offline' | 'pend
   return gw.isOnline ? 'online' : 'offline';
 }
 
-// ============================================
-// Decoded Payload Builder (library-aware)
-// ============================================
-
-/**
- * Build decoded_payload using the device library's field definitions.
- * Maps emulator state values to canonical field names from the library,
- * and generates realistic simulated values for fields not in emulator state.
- */
-export function buildDecodedPayload(
-  state: SensorState,
-  devType: 'temperature' | 'door',
-): Record<string, unknown> {
-  const payload: Record<string, unknown> = {};
-
-  // Try library-aware path
-  if (state.libraryDeviceId) {
-    const libDevice = getDevice(state.libraryDeviceId);
-    if (libDevice) {
-      const fields = libDevice.simulation_profile.fields;
-      for (const [fieldName, fieldConfig] of Object.entries(fields)) {
-        payload[fieldName] = resolveFieldValue(fieldName, fieldConfig, state, libDevice.examples?.normal);
-      }
-      return payload;
-    }
-  }
-
-  // Legacy fallback: map from emulator state based on device type
-  const tempC = Math.round(((state.tempF - 32) * 5 / 9) * 10) / 10;
-
-  if (devType === 'temperature') {
-    payload.temperature = tempC;
-    payload.humidity = Math.round(state.humidity);
-    payload.battery_level = Math.round(state.batteryPct);
-    payload.battery_voltage = estimateBatteryVoltage(state.batteryPct);
-  } else {
-    payload.door_status = state.doorOpen ? 'open' : 'closed';
-    payload.door_open = state.doorOpen;
-    payload.battery_level = Math.round(state.batteryPct);
-    payload.battery_voltage = estimateBatteryVoltage(state.batteryPct);
-  }
-
-  return payload;
-}
-
-/**
- * Resolve a single field value from emulator state or field config.
- */
-function resolveFieldValue(
-  fieldName: string,
-  fieldConfig: { type: string; min?: number; max?: number; precision?: number; values?: string[] },
-  state: SensorState,
-  normalExample?: Record<string, unknown>,
-): unknown {
-  // Map well-known canonical field names to emulator state
-  // Includes Dragino-specific aliases (TempC_SHT, TempC_DS, Hum_SHT, BatV, DOOR_OPEN_STATUS)
-  switch (fieldName) {
-    case 'temperature':
-    case 'ext_temperature':
-    case 'soil_temperature':
-    case 'TempC_SHT':
-    case 'TempC_DS':
-      return Math.round(((state.tempF - 32) * 5 / 9) * 10) / 10;
-    case 'humidity':
-    case 'Hum_SHT':
-      return Math.round(state.humidity);
-    case 'battery_level':
-      return Math.round(state.batteryPct);
-    case 'battery_voltage':
-    case 'BatV':
-      return estimateBatteryVoltage(state.batteryPct);
-    case 'door_status':
-    case 'DOOR_OPEN_STATUS':
-      return state.doorOpen ? 'open' : 'closed';
-    case 'door_open':
-    case 'door':
-    case 'contact':
-      return state.doorOpen;
-    case 'water_leak':
-    case 'sensor_flag':
-      return false;
-    case 'motion_detected':
-      return false;
-    case 'gps_fix':
-      return true;
-    case 'signal_strength':
-    case 'rssi':
-      return Math.round(state.signalStrength);
-    default:
-      break;
-  }
-
-  // Use normal example value if available
-  if (normalExample && fieldName in normalExample) {
-    return normalExample[fieldName];
-  }
-
-  // Generate from field config
-  if (fieldConfig.type === 'float' && fieldConfig.min != null && fieldConfig.max != null) {
-    const mid = (fieldConfig.min + fieldConfig.max) / 2;
-    const precision = fieldConfig.precision ?? 1;
-    return parseFloat(mid.toFixed(precision));
-  }
-  if (fieldConfig.type === 'int' && fieldConfig.min != null && fieldConfig.max != null) {
-    return Math.round((fieldConfig.min + fieldConfig.max) / 2);
-  }
-  if (fieldConfig.type === 'bool') {
-    return false;
-  }
-  if (fieldConfig.type === 'enum' && fieldConfig.values && fieldConfig.values.length > 0) {
-    return fieldConfig.values[0];
-  }
-
-  return null;
-}
-
 // ============================================
 // Pre-Send Validation
 // ============================================
@@ -465,9 +330,9 @@ export async function syncDevicesToFreshTrack(
       intervalSec: 60, lastSentAt: null, isOnline: true,
     });
 
-    // Build decoded_payload using library-aware builder
+    // Preview of the next uplink, without consuming a frame
     const decodedPayload = state
-      ? buildDecodedPayload(state, dev.type)
+      ? previewEmulatorPayload(state)
       : {};
 
     return {
@@ -593,6 +458,58 @@ export async function syncDevicesToFreshTrack(
 // Send Readings
 // ============================================
 
+interface ReadingBatchResult {
+  ingested: number;
+  failed: number;
+  results?: Array<{ unit_id: string; success: boolean; error?: string }>;
+  error?: string;
+  authStatus?: number;
+}
+
+/**
+ * Send one batch of readings via ingest-readings (direct) or export-readings (proxy).
+ */
+async function sendReadingBatch(batch: Array<Record<string, unknown>>): Promise<ReadingBatchResult> {
+  try {
+    let data: Record<string, unknown> | null;
+    let fetchError: Error | null;
+
+    if (isDirectModeAvailable()) {
+      const cfg = getEffectiveConfig();
+      ({ data, error: fetchError } = await directFetch('ingest-readings', 'POST', {
+        'X-Device-API-Key': cfg.deviceIngestApiKey,
+      }, { readings: batch }));
+    } else {
+      const result = await supabase.functions.invoke('export-readings', { body: { readings: batch } });
+      data = result.data;
+      fetchError = result.error;
+    }
+
+    if (fetchError) {
+      const httpStatus = (fetchError as unknown as Record<string, unknown>)?._http_status as number | undefined;
+      if (httpStatus === 401 || httpStatus === 403) {
+        return { ingested: 0, failed: 0, error: fetchError.message, authStatus: httpStatus };
+      }
+      return { ingested: 0, failed: batch.length, error: fetchError.message };
+    }
+
+    // Handle 401/403 from directFetch
+    const httpStatus = data?._http_status as number | undefined;
+    if (httpStatus === 401 || httpStatus === 403) {
+      return { ingested: 0, failed: 0, error: `Authentication failed (${httpStatus})`, authStatus: httpStatus };
+    }
+
+    return {
+      ingested: (data?.ingested as number) ?? 0,
+      failed: (data?.failed as number) ?? 0,
+      results: data?.results as ReadingBatchResult['results'],
+      error: data?.success ? undefined : ((data?.error as string) || 'Batch failed'),
+    };
+  } catch (err) {
+    return { ingested: 0, failed: batch.length, error: err instanceof Error ? err.message : 'Network error' };
+  }
+}
+
 export async function sendReadingsToFreshTrack(
   devices: LoRaWANDevice[],
   sensorStates: Record<string, SensorState>,
@@ -608,33 +525,32 @@ export async function sendReadingsToFreshTrack(
 
       const modelInfo = getDeviceModelInfo(state);
 
-      // Core reading fields — temperature in Celsius to match LoRaWAN decoded payload
-      const tempC = Math.round(((state.tempF - 32) * 5 / 9) * 10) / 10;
+      // One uplink through the emulator pipeline; core fields come from its payload
+      const { decodedPayload } = composeEmulatorUplink(state);
       const reading: Record<string, unknown> = {
         unit_id: dev.unitId,
-        temperature: tempC,
         temperature_unit: 'C',
         source: 'simulator',
         device_serial: dev.devEui,
         device_model: modelInfo.model,
         recorded_at: new Date().toISOString(),
+        decoded_payload: decodedPayload,
       };
 
-      // Type-specific fields
-      if (state.type === 'temperature' || dev.type === 'temperature') {
-        reading.humidity = Math.round(state.humidity);
-      }
-      if (state.type === 'door' || dev.type === 'door') {
-        reading.door_open = state.doorOpen;
+      const temperature = firstNumber(decodedPayload, TEMPERATURE_FIELDS);
+      if (temperature !== undefined) reading.temperature = temperature;
+      const humidity = firstNumber(decodedPayload, HUMIDITY_FIELDS);
+      if (humidity !== undefined) reading.humidity = Math.round(humidity);
+      const doorField = DOOR_FIELDS.find(name => name in decodedPayload);
+      if (doorField) {
+        const value = decodedPayload[doorField];
+        reading.door_open = value === true || value === 1 || value === 'open';
       }
 
-      // Library-aware: include decoded_payload fields
-      const decodedPayload = buildDecodedPayload(state, dev.type);
-      reading.decoded_payload = decodedPayload;
-
       // Battery & signal
-      reading.battery_level = Math.round(state.batteryPct);
-      reading.battery_voltage = estimateBatteryVoltage(state.batteryPct);
+      reading.battery_level = firstNumber(decodedPayload, ['battery_level']) ?? Math.round(state.batteryPct);
+      const batteryVoltage = firstNumber(decodedPayload, ['battery_voltage', 'BatV']);
+      if (batteryVoltage !== undefined) reading.battery_voltage = batteryVoltage;
       reading.signal_strength = Math.round(state.signalStrength);
 
       // Source metadata
@@ -682,49 +598,14 @@ export async function sendReadingsToFreshTrack(
   const errors: string[] = [];
 
   for (const batch of batches) {
-    try {
-      let data: Record<string, unknown> | null;
-      let fetchError: Error | null;
-
-      if (isDirectModeAvailable()) {
-        const cfg = getEffectiveConfig();
-        ({ data, error: fetchError } = await directFetch('ingest-readings', 'POST', {
-          'X-Device-API-Key': cfg.deviceIngestApiKey,
-        }, { readings: batch }));
-      } else {
-        const result = await supabase.functions.invoke('export-readings', { body: { readings: batch } });
-        data = result.data;
-        fetchError = result.error;
-      }
-
-      if (fetchError) {
-        const httpStatus = (fetchError as unknown as Record<string, unknown>)?._http_status;
-        if (httpStatus === 401 || httpStatus === 403) {
-          return { success: false, error: `Authentication failed (${httpStatus}). Check your API keys.`, error_code: 'AUTH_ERROR', ingested: totalIngested, failed: totalFailed + batch.length, sentReadings: allReadings };
-        }
-        errors.push(fetchError.message);
-        totalFailed += batch.length;
-        continue;
-      }
-
-      // Handle 401/403 from directFetch
-      const httpStatus = data?._http_status as number | undefined;
-      if (httpStatus === 401 || httpStatus === 403) {
-        return { success: false, error: `Authentication failed (${httpStatus}). Check your API keys.`, error_code: 'AUTH_ERROR', ingested: totalIngested, failed: totalFailed + batch.length, sentReadings: allReadings };
-      }
-
-      totalIngested += (data?.ingested as number) ?? 0;
-      totalFailed += (data?.failed as number) ?? 0;
-      if (data?.results) {
-        allResults.push(...(data.results as Array<{ unit_id: string; success: boolean; error?: string }>));
-      }
-      if (!data?.success) {
-        errors.push((data?.error as string) || 'Batch failed');
-      }
-    } catch (err) {
-      errors.push(err instanceof Error ? err.message : 'Network error');
-      totalFailed += batch.length;
+    const result = await sendReadingBatch(batch);
+    if (result.authStatus) {
+      return { success: false, error: `Authentication failed (${result.authStatus}). Check your API keys.`, error_code: 'AUTH_ERROR', ingested: totalIngested, failed: totalFailed + batch.length, sentReadings: allReadings };
     }
+    totalIngested += result.ingested;
+    totalFailed += result.failed;
+    if (result.results) allResults.push(...result.results);
+    if (result.error) errors.push(result.error);
   }
 
   const hasErrors = errors.length > 0;
@@ -739,6 +620,97 @@ export async function sendReadingsToFreshTrack(
   };
 }
 
+// ============================================
+// Historical Backfill
+// ============================================
+
+const TEMPERATURE_FIELDS = ['temperature', 'TempC_SHT', 'TempC_DS', 'ext_temperature'];
+const HUMIDITY_FIELDS = ['humidity', 'Hum_SHT'];
+const DOOR_FIELDS = ['door_open', 'door', 'contact', 'door_status', 'DOOR_OPEN_STATUS'];
+
+function firstNumber(fields: Record<string, unknown>, names: string[]): number | undefined {
+  for (const name of names) {
+    if (typeof fields[name] === 'number') return fields[name] as number;
+  }
+  return undefined;
+}
+
+/**
+ * Map a generated backfill uplink to the ingest-readings reading shape,
+ * stamped with its historical time.
+ */
+export function buildBackfillReading(entry: BackfillEntry): Record<string, unknown> {
+  const { device, envelope } = entry;
+  const fields = envelope.uplink_message.decoded_payload;
+  const libDevice = getDevice(device.model);
+
+  const reading: Record<string, unknown> = {
+    unit_id: device.unitId,
+    temperature_unit: 'C',
+    source: 'simulator',
+    device_serial: envelope.end_device_ids.dev_eui,
+    device_model: libDevice?.model || device.model,
+    recorded_at: entry.recordedAt,
+    decoded_payload: fields,
+  };
+
+  const temperature = firstNumber(fields, TEMPERATURE_FIELDS);
+  if (temperature !== undefined) reading.temperature = temperature;
+  const humidity = firstNumber(fields, HUMIDITY_FIELDS);
+  if (humidity !== undefined) reading.humidity = Math.round(humidity);
+
+  const doorField = DOOR_FIELDS.find(name => name in fields);
+  if (doorField) {
+    const value = fields[doorField];
+    reading.door_open = value === true || value === 1 || value === 'open';
+  }
+
+  const batteryLevel = firstNumber(fields, ['battery_level']);
+  if (batteryLevel !== undefined) reading.battery_level = Math.round(batteryLevel);
+  const batteryVoltage = firstNumber(fields, ['battery_voltage', 'BatV']);
+  if (batteryVoltage !== undefined) reading.battery_voltage = batteryVoltage;
+  reading.signal_strength = envelope.uplink_message.rx_metadata[0]?.rssi;
+
+  reading.source_metadata = {
+    emulator_version: '2.0.0',
+    library_device_id: device.model,
+    device_model: libDevice?.model || device.model,
+    manufacturer: libDevice?.manufacturer,
+    sensor_type: libDevice ? mapCategory(libDevice.category) : undefined,
+    emission_mode: 'backfill',
+    f_cnt: envelope.uplink_message.f_cnt,
+  };
+
+  return reading;
+}
+
+/**
+ * Generate and push a historical backfill through ingest-readings (direct)
+ * or export-readings (proxy). Authentication failures stop the run with
+ * the cursor on the failed batch, so it can be resumed after fixing keys.
+ */
+export async function backfillReadingsToFreshTrack(
+  options: BackfillOptions,
+  run: Omit<BackfillRunOptions, 'send'> = {},
+): Promise<BackfillRunResult> {
+  return runBackfill(options, {
+    ...run,
+    send: async (entries) => {
+      const readings = entries.map(buildBackfillReading);
+      const issues = validateReadings(readings);
+      if (issues.length > 0) {
+        console.warn('[FreshTrackExport] Backfill reading validation warnings:', issues.slice(0, 5));
+      }
+
+      const result = await sendReadingBatch(readings);
+      if (result.authStatus) {
+        return { ingested: 0, failed: 0, error: `Authentication failed (${result.authStatus}). Check your API keys.`, fatal: true };
+      }
+      return { ingested: result.ingested, failed: result.failed, error: result.error };
+    },
+  });
+}
+
 // ============================================
 // Test Connection
 // ============================================
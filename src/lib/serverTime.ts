@@ -3,8 +3,12 @@
  * 
  * Tracks the offset between browser time and server time to ensure
  * consistent timestamps across the emulator, payloads, and database.
+ * The offset is measured against the wall clock and applied on top of
+ * the simulation clock, so accelerated runs keep the server skew.
  */
 
+import { simNow } from './deviceLibrary/clock';
+
 // Offset in milliseconds: serverTime - browserTime
 let serverTimeOffset = 0;
 
@@ -32,7 +36,7 @@ export function updateServerOffset(serverTimestamp: string): void {
  * Get the current server-synchronized time as a Date object.
  */
 export function getServerTime(): Date {
-  return new Date(Date.now() + serverTimeOffset);
+  return new Date(simNow() + serverTimeOffset);
 }
 
 /**
@@ -1,5 +1,11 @@
 // TTN (The Things Network) Webhook Payload Utilities
 
+import type { WebhookAuthMode } from './webhookAuth';
+import type { DeviceDefinition } from './deviceLibrary/types';
+import { encodeDeviceFrmPayload, encodeLegacyFrmPayload } from './deviceLibrary/payloadCodec';
+import { getMessageType } from './deviceLibrary/messageTypes';
+import { simNow, simNowIso } from './deviceLibrary/clock';
+
 export interface TTNUplinkPayload {
   end_device_ids: {
     device_id: string;
@@ -53,15 +59,31 @@ export interface LoRaWANDevice {
   // Location assignment
   siteId?: string;
   unitId?: string;
+  location?: {
+    latitude: number;
+    longitude: number;
+  };
   // Credential source tracking
   credentialSource?: 'frostguard_pull' | 'frostguard_generated' | 'local_generated' | 'manual_override';
   credentialsLockedFromFrostguard?: boolean;
 }
 
-export interface TTNConfig {
+/**
+ * Where TTN is hosted: a TTN Cloud cluster, or a self-hosted The Things
+ * Stack base URL with optional per-component hosts (see ttnEndpoints.ts)
+ */
+export interface TTNHostConfig {
+  cluster: string; // e.g., 'eu1', 'nam1', 'au1'
+  baseUrl?: string | null; // Self-hosted deployment root, replaces cluster
+  identityServerUrl?: string | null;
+  networkServerUrl?: string | null;
+  applicationServerUrl?: string | null;
+  joinServerUrl?: string | null;
+}
+
+export interface TTNConfig extends TTNHostConfig {
   enabled: boolean;
   applicationId: string;
-  cluster: string; // e.g., 'eu1', 'nam1', 'au1'
   // Masked credentials for display (from synced_users.ttn)
   api_key_last4?: string | null;
   webhook_secret_last4?: string | null;
@@ -86,6 +108,7 @@ export interface WebhookConfig {
   // TTN integration config
   ttnConfig?: TTNConfig;
   ttnWebhookSecret?: string | null;
+  ttnWebhookAuthMode?: WebhookAuthMode;
   lastStatus?: {
     code: number;
     message: string;
@@ -284,6 +307,13 @@ export function generateDeviceId(devEui: string, prefix: string = 'sensor'): str
   return `${prefix}-${normalized}`;
 }
 
+// ABP session DevAddr: '260C' + last 4 hex chars of the DevEUI.
+// Must match generateAbpDevAddr in supabase/functions/_shared/ttn-utils.ts
+export function generateDevAddr(devEui: string): string {
+  const normalized = devEui.replace(/[:\s-]/g, '').toUpperCase();
+  return `260C${normalized.slice(-4)}`;
+}
+
 // Encode payload data to base64 (simulating raw LoRaWAN payload)
 export function encodePayload(data: Record<string, unknown>): string {
   const json = JSON.stringify(data);
@@ -293,6 +323,8 @@ export function encodePayload(data: Record<string, unknown>): string {
 // Build TTN uplink webhook payload
 // Optionally accepts a server timestamp for consistent time sync
 // f_cnt parameter allows passing frame counter from device library simulation
+// frm_payload uses the library model's codec for the port and message type,
+// or the legacy Dragino frame matching the payload's shape
 export function buildTTNPayload(
   device: LoRaWANDevice,
   gateway: GatewayConfig,
@@ -300,16 +332,21 @@ export function buildTTNPayload(
   applicationId: string,
   serverTimestamp?: string,
   f_cnt?: number,
-  f_port?: number
+  f_port?: number,
+  libraryDevice?: DeviceDefinition,
+  messageType?: string
 ): TTNUplinkPayload {
   const signalStrength = decodedPayload.signal_strength as number ?? -65;
-  const receivedAt = serverTimestamp || new Date().toISOString();
+  const receivedAt = serverTimestamp || simNowIso();
   const timestampMs = serverTimestamp 
     ? new Date(serverTimestamp).getTime() 
-    : Date.now();
+    : simNow();
   
   // Use provided f_port, or default to 2 (Dragino default)
-  const port = f_port ?? 2;
+  const port = f_port ?? libraryDevice?.default_fport ?? 2;
+  const frmPayload = libraryDevice
+    ? encodeDeviceFrmPayload(libraryDevice, decodedPayload, port, messageType ? getMessageType(libraryDevice, messageType) : undefined)
+    : encodeLegacyFrmPayload(decodedPayload);
   
   // Use provided f_cnt or generate a random one for backward compatibility
   const frameCount = f_cnt ?? Math.floor(Math.random() * 65535);
@@ -338,7 +375,7 @@ export function buildTTNPayload(
       ],
       f_port: port,
       f_cnt: frameCount,
-      frm_payload: encodePayload(decodedPayload),
+      frm_payload: frmPayload,
     },
   };
 }
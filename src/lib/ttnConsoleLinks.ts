@@ -5,46 +5,48 @@
  * to help users create API keys with the right permissions.
  */
 
+import { getTTNConsoleUrl, type TTNHostRef } from './ttnEndpoints';
+
 /**
  * Get URL to create a Personal API Key in TTN Console
  */
-export function getPersonalApiKeyUrl(cluster: string): string {
-  return `https://${cluster}.cloud.thethings.network/console/user/api-keys/add`;
+export function getPersonalApiKeyUrl(host: TTNHostRef): string {
+  return `${getTTNConsoleUrl(host)}/user/api-keys/add`;
 }
 
 /**
  * Get URL to create an Organization API Key in TTN Console
  */
-export function getOrganizationApiKeyUrl(cluster: string, orgId: string): string {
-  return `https://${cluster}.cloud.thethings.network/console/organizations/${orgId}/api-keys/add`;
+export function getOrganizationApiKeyUrl(host: TTNHostRef, orgId: string): string {
+  return `${getTTNConsoleUrl(host)}/organizations/${orgId}/api-keys/add`;
 }
 
 /**
  * Get URL to the API Keys list page for a user
  */
-export function getPersonalApiKeysListUrl(cluster: string): string {
-  return `https://${cluster}.cloud.thethings.network/console/user/api-keys`;
+export function getPersonalApiKeysListUrl(host: TTNHostRef): string {
+  return `${getTTNConsoleUrl(host)}/user/api-keys`;
 }
 
 /**
  * Get URL to the API Keys list page for an organization
  */
-export function getOrganizationApiKeysListUrl(cluster: string, orgId: string): string {
-  return `https://${cluster}.cloud.thethings.network/console/organizations/${orgId}/api-keys`;
+export function getOrganizationApiKeysListUrl(host: TTNHostRef, orgId: string): string {
+  return `${getTTNConsoleUrl(host)}/organizations/${orgId}/api-keys`;
 }
 
 /**
  * Get the appropriate API Key creation URL based on owner type
  */
 export function getGatewayApiKeyUrl(
-  cluster: string, 
+  host: TTNHostRef, 
   ownerType: 'user' | 'organization', 
   ownerId?: string
 ): string {
   if (ownerType === 'organization' && ownerId) {
-    return getOrganizationApiKeyUrl(cluster, ownerId);
+    return getOrganizationApiKeyUrl(host, ownerId);
   }
-  return getPersonalApiKeyUrl(cluster);
+  return getPersonalApiKeyUrl(host);
 }
 
 /**
@@ -0,0 +1,104 @@
+/**
+ * TTN Endpoint Resolution
+ *
+ * Resolves TTN hosts from a cluster (TTN Cloud) or from a self-hosted The
+ * Things Stack base URL. Mirrors resolveTTNEndpoints in the edge functions'
+ * _shared/ttn-utils.ts, which makes the API calls; the frontend needs the
+ * same hosts for Console links, labels and request bodies.
+ */
+
+import type { TTNHostConfig } from './ttn-payload';
+
+/** A cluster id, or full host settings */
+export type TTNHostRef = string | TTNHostConfig;
+
+/**
+ * Host settings as stored in ttn_settings and sent to edge functions
+ */
+export interface TTNHostFields {
+  cluster: string;
+  base_url: string | null;
+  identity_server_url: string | null;
+  network_server_url: string | null;
+  application_server_url: string | null;
+  join_server_url: string | null;
+}
+
+function toHostConfig(host: TTNHostRef): TTNHostConfig {
+  return typeof host === 'string' ? { cluster: host } : host;
+}
+
+/**
+ * Normalize a TTN URL to its root: http(s) only, no trailing slash and no
+ * trailing /api/v3 or /console (pasted API or Console URLs are accepted).
+ * @returns Root URL or null if invalid
+ */
+export function normalizeTTNBaseUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+    const path = parsed.pathname.replace(/\/+$/, '').replace(/\/(api\/v3|console)$/, '');
+    return `${parsed.origin}${path}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether TTN is self-hosted (a valid base URL is set)
+ */
+export function isSelfHostedTTN(host: TTNHostRef): boolean {
+  const { baseUrl } = toHostConfig(host);
+  return !!baseUrl && !!normalizeTTNBaseUrl(baseUrl);
+}
+
+/**
+ * Deployment root, e.g. https://eu1.cloud.thethings.network
+ */
+export function getTTNBaseUrl(host: TTNHostRef): string {
+  const config = toHostConfig(host);
+  return (config.baseUrl && normalizeTTNBaseUrl(config.baseUrl))
+    || `https://${config.cluster || 'eu1'}.cloud.thethings.network`;
+}
+
+/**
+ * TTN Console root of the deployment
+ */
+export function getTTNConsoleUrl(host: TTNHostRef): string {
+  return `${getTTNBaseUrl(host)}/console`;
+}
+
+/**
+ * Host name TTN calls go to, for display
+ */
+export function getTTNHostLabel(host: TTNHostRef): string {
+  return new URL(getTTNBaseUrl(host)).host;
+}
+
+/**
+ * Host settings for edge function request bodies
+ */
+export function ttnHostFields(host: TTNHostRef): TTNHostFields {
+  const config = toHostConfig(host);
+  return {
+    cluster: config.cluster,
+    base_url: config.baseUrl || null,
+    identity_server_url: config.identityServerUrl || null,
+    network_server_url: config.networkServerUrl || null,
+    application_server_url: config.applicationServerUrl || null,
+    join_server_url: config.joinServerUrl || null,
+  };
+}
+
+/**
+ * Host settings of a ttn_settings row or synced_users.ttn payload
+ */
+export function ttnHostFromSettings(settings: Partial<TTNHostFields> | null | undefined): Omit<TTNHostConfig, 'cluster'> {
+  return {
+    baseUrl: settings?.base_url ?? null,
+    identityServerUrl: settings?.identity_server_url ?? null,
+    networkServerUrl: settings?.network_server_url ?? null,
+    applicationServerUrl: settings?.application_server_url ?? null,
+    joinServerUrl: settings?.join_server_url ?? null,
+  };
+}
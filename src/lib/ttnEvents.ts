@@ -0,0 +1,144 @@
+/**
+ * TTN Webhook Events
+ *
+ * Builds the non-uplink application up messages TTN delivers to webhooks
+ * (join accepts, downlink status, location solved, service data and
+ * normalized uplinks) so the emulator can exercise each ttn-webhook route.
+ * Message types mirror TTN_MESSAGE_TYPES in the edge functions'
+ * _shared/ttnEventProcessor.ts.
+ */
+
+import { generateDevAddr, generateDeviceId, type LoRaWANDevice } from './ttn-payload';
+
+// ============================================
+// Types
+// ============================================
+
+export type TTNEventType =
+  | 'join_accept'
+  | 'downlink_queued'
+  | 'downlink_sent'
+  | 'downlink_ack'
+  | 'downlink_nack'
+  | 'downlink_failed'
+  | 'downlink_queue_invalidated'
+  | 'location_solved'
+  | 'service_data'
+  | 'uplink_normalized';
+
+export interface TTNEventOptions {
+  receivedAt?: string;
+  /** Downlink events with the same id describe the same downlink */
+  downlinkId?: string;
+  fPort?: number;
+  fCnt?: number;
+  /** Base64 downlink payload */
+  frmPayload?: string;
+  location?: { latitude: number; longitude: number; altitude?: number; accuracy?: number };
+  service?: string;
+  data?: Record<string, unknown>;
+  /** uplink_normalized air measurements */
+  temperature?: number;
+  humidity?: number;
+}
+
+export const TTN_EVENT_TYPES: Array<{ value: TTNEventType; label: string }> = [
+  { value: 'join_accept', label: 'Join accept' },
+  { value: 'downlink_queued', label: 'Downlink queued' },
+  { value: 'downlink_sent', label: 'Downlink sent' },
+  { value: 'downlink_ack', label: 'Downlink ack' },
+  { value: 'downlink_nack', label: 'Downlink nack' },
+  { value: 'downlink_failed', label: 'Downlink failed' },
+  { value: 'downlink_queue_invalidated', label: 'Downlink queue invalidated' },
+  { value: 'location_solved', label: 'Location solved' },
+  { value: 'service_data', label: 'Service data' },
+  { value: 'uplink_normalized', label: 'Normalized uplink' },
+];
+
+// ============================================
+// Builders
+// ============================================
+
+function randomHex(bytes: number): string {
+  return Array.from(crypto.getRandomValues(new Uint8Array(bytes)), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Id for a new emulated downlink, shared by its queued/sent/ack events
+ */
+export function newDownlinkId(): string {
+  return randomHex(13).toUpperCase();
+}
+
+function buildDownlink(options: TTNEventOptions): Record<string, unknown> {
+  return {
+    f_port: options.fPort ?? 10,
+    f_cnt: options.fCnt ?? 1,
+    frm_payload: options.frmPayload ?? 'AQ==',
+    confirmed: true,
+    priority: 'NORMAL',
+    correlation_ids: [`as:downlink:${options.downlinkId ?? newDownlinkId()}`],
+  };
+}
+
+function eventMessage(type: TTNEventType, device: LoRaWANDevice, options: TTNEventOptions, receivedAt: string): Record<string, unknown> {
+  switch (type) {
+    case 'join_accept':
+      return { session_key_id: randomHex(16), received_at: receivedAt };
+    case 'downlink_queued':
+    case 'downlink_sent':
+    case 'downlink_ack':
+    case 'downlink_nack':
+      return buildDownlink(options);
+    case 'downlink_failed':
+      return {
+        downlink: buildDownlink(options),
+        error: { namespace: 'pkg/networkserver', name: 'no_downlink_path', message_format: 'no downlink path available', code: 9 },
+      };
+    case 'downlink_queue_invalidated':
+      return { downlinks: [buildDownlink(options)], last_f_cnt_down: options.fCnt ?? 1, session_key_id: randomHex(16) };
+    case 'location_solved': {
+      const location = options.location ?? device.location ?? { latitude: 0, longitude: 0 };
+      return {
+        service: options.service ?? 'lora-cloud-device-management-v1-wifi',
+        location: { altitude: 0, accuracy: 25, ...location, source: 'SOURCE_WIFI_RSSI_GEOLOCATION' },
+      };
+    }
+    case 'service_data':
+      return { service: options.service ?? 'lora-cloud-device-management-v1', data: options.data ?? { status: 'ok' } };
+    case 'uplink_normalized':
+      return {
+        f_port: options.fPort ?? 2,
+        f_cnt: options.fCnt ?? 1,
+        normalized_payload: [{ air: { temperature: options.temperature ?? 3.5, relativeHumidity: options.humidity ?? 45 } }],
+        rx_metadata: [],
+        received_at: receivedAt,
+      };
+  }
+}
+
+/**
+ * A TTN webhook body for one event type
+ */
+export function buildTTNEvent(
+  type: TTNEventType,
+  device: LoRaWANDevice,
+  applicationId: string,
+  options: TTNEventOptions = {}
+): Record<string, unknown> {
+  const receivedAt = options.receivedAt ?? new Date().toISOString();
+  const correlationPrefix = type === 'uplink_normalized' ? 'as:up' : type === 'join_accept' ? 'js:join' : 'as:event';
+
+  return {
+    end_device_ids: {
+      device_id: generateDeviceId(device.devEui),
+      dev_eui: device.devEui,
+      join_eui: device.joinEui,
+      dev_addr: generateDevAddr(device.devEui),
+      application_ids: { application_id: applicationId },
+    },
+    correlation_ids: [`${correlationPrefix}:${randomHex(13).toUpperCase()}`],
+    received_at: receivedAt,
+    [type]: eventMessage(type, device, options, receivedAt),
+  };
+}
@@ -0,0 +1,72 @@
+/**
+ * Webhook Authentication
+ *
+ * Builds authenticated requests for the local ttn-webhook function. Mirrors
+ * the header and signature format verified by the edge functions'
+ * _shared/ttnWebhookAuth.ts.
+ */
+
+/** secret: shared secret header; hmac: HMAC-SHA256 signature of the body */
+export type WebhookAuthMode = 'secret' | 'hmac';
+
+export const WEBHOOK_SECRET_HEADER = 'X-TTN-Webhook-Secret';
+export const WEBHOOK_SIGNATURE_HEADER = 'X-TTN-Webhook-Signature';
+
+/**
+ * A rotated-out secret as returned by manage-ttn-settings
+ */
+export interface PreviousWebhookSecretSummary {
+  last4: string;
+  expires_at: string;
+}
+
+/**
+ * sha256=<hex HMAC-SHA256 of body>
+ */
+export async function signWebhookBody(secret: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return `sha256=${Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Serialize a payload and add the secret header or body signature.
+ * Without a secret the request is sent unauthenticated.
+ */
+export async function buildWebhookRequest(
+  payload: unknown,
+  secret: string | null | undefined,
+  mode: WebhookAuthMode = 'secret'
+): Promise<{ body: string; headers: Record<string, string> }> {
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (secret) {
+    if (mode === 'hmac') {
+      headers[WEBHOOK_SIGNATURE_HEADER] = await signWebhookBody(secret, body);
+    } else {
+      headers[WEBHOOK_SECRET_HEADER] = secret;
+    }
+  }
+  return { body, headers };
+}
+
+/**
+ * Last 4 characters and expiry of stored previous secrets still in their grace period
+ */
+export function summarizePreviousWebhookSecrets(
+  previous: unknown,
+  now: Date = new Date()
+): PreviousWebhookSecretSummary[] {
+  if (!Array.isArray(previous)) return [];
+  return previous
+    .filter((entry): entry is { secret: string; expires_at: string } =>
+      typeof entry?.secret === 'string' && Date.parse(entry?.expires_at) > now.getTime())
+    .map(entry => ({ last4: entry.secret.slice(-4), expires_at: entry.expires_at }));
+}
@@ -0,0 +1,103 @@
+/**
+ * Mock TTN CLI
+ *
+ * Serves the mock TTN v3 API over HTTP, e.g. for `supabase functions serve`
+ * with ttn_settings.base_url pointing at it.
+ *
+ * Usage:
+ *   npm run build:mock-ttn
+ *   npm run mock-ttn -- --app frostguard --api-key NNSXS.LOCAL \
+ *     --webhook http://127.0.0.1:54321/functions/v1/ttn-webhook
+ *
+ * Options:
+ *   --port <n>            Listen port (default: 1885)
+ *   --host <name>         Listen host (default: 127.0.0.1)
+ *   --app <id>            Application to create (repeatable, default: frostguard)
+ *   --api-key <key>       API key with every application right (default: NNSXS.MOCK)
+ *   --user <id>           User owning the key; adds gateway rights (optional)
+ *   --webhook <url>       Webhook base URL registered for every application
+ *   --webhook-header <k:v> Webhook request header (repeatable)
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { parseArgs } from 'node:util';
+import { createMockTtnServer, TTN_APPLICATION_RIGHTS, TTN_GATEWAY_RIGHTS, type MockTtnServer } from './mockTtnServer';
+
+function parseHeaders(values: string[]): Record<string, string> {
+  const headers: Record<string, string> = {};
+  for (const value of values) {
+    const separator = value.indexOf(':');
+    if (separator <= 0) throw new Error(`Invalid header "${value}" (expected Name: value)`);
+    headers[value.slice(0, separator).trim()] = value.slice(separator + 1).trim();
+  }
+  return headers;
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  return Buffer.concat(chunks);
+}
+
+async function serveRequest(ttn: MockTtnServer, origin: string, req: IncomingMessage, res: ServerResponse): Promise<void> {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (typeof value === 'string') headers.set(name, value);
+  }
+  const method = req.method ?? 'GET';
+  const body = method === 'GET' || method === 'HEAD' ? undefined : await readBody(req);
+  const response = await ttn.handle(new Request(`${origin}${req.url ?? '/'}`, { method, headers, body }));
+
+  res.writeHead(response.status, Object.fromEntries(response.headers));
+  res.end(await response.text());
+  console.error(`[mock-ttn] ${method} ${req.url} → ${response.status}`);
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string', default: '1885' },
+      host: { type: 'string', default: '127.0.0.1' },
+      app: { type: 'string', multiple: true, default: [] },
+      'api-key': { type: 'string', default: 'NNSXS.MOCK' },
+      user: { type: 'string' },
+      webhook: { type: 'string' },
+      'webhook-header': { type: 'string', multiple: true, default: [] },
+    },
+  });
+
+  const port = Number(values.port);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) throw new Error('--port must be a port number');
+
+  const origin = `http://${values.host}:${port}`;
+  const applications = values.app.length > 0 ? values.app : ['frostguard'];
+  const webhookHeaders = parseHeaders(values['webhook-header']);
+  const ttn = createMockTtnServer({
+    hosts: [origin],
+    applications,
+    apiKeys: [{
+      key: values['api-key'],
+      rights: values.user ? [...TTN_APPLICATION_RIGHTS, ...TTN_GATEWAY_RIGHTS] : TTN_APPLICATION_RIGHTS,
+      userId: values.user,
+    }],
+    webhooks: values.webhook
+      ? applications.map(applicationId => ({ applicationId, webhookId: 'frostguard', baseUrl: values.webhook!, headers: webhookHeaders }))
+      : [],
+  });
+
+  const server = createServer((req, res) => {
+    serveRequest(ttn, origin, req, res).catch((error) => {
+      console.error(`[mock-ttn] ${req.method} ${req.url} failed: ${(error as Error).message}`);
+      res.writeHead(500).end();
+    });
+  });
+  server.listen(port, values.host, () => {
+    console.error(`[mock-ttn] Serving ${applications.join(', ')} at ${origin} (set it as the TTN base URL), Ctrl+C to stop`);
+  });
+  process.once('SIGINT', () => server.close());
+}
+
+main().catch((error) => {
+  console.error(`[mock-ttn] ${(error as Error).message}`);
+  process.exit(1);
+});
@@ -0,0 +1,71 @@
+/**
+ * Deno Runtime Shim
+ *
+ * Just enough of the Deno globals for edge functions to load under Node:
+ * Deno.serve / std serve capture the request handler instead of listening,
+ * and Deno.env reads an in-memory map. Also the alias target for the
+ * std http server and xhr polyfill imports.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type EdgeHandler = (request: Request) => Response | Promise<Response>;
+
+interface DenoShim {
+  serve(handler: EdgeHandler): void;
+  env: {
+    get(name: string): string | undefined;
+    set(name: string, value: string): void;
+    delete(name: string): void;
+  };
+}
+
+// ============================================
+// Runtime
+// ============================================
+
+const env = new Map<string, string>();
+let servedHandler: EdgeHandler | null = null;
+
+/**
+ * std@0.168.0 http/server.ts serve(); captures the handler
+ */
+export function serve(handler: EdgeHandler): void {
+  servedHandler = handler;
+}
+
+/**
+ * Install globalThis.Deno (idempotent)
+ */
+export function installDenoRuntime(): void {
+  const shim: DenoShim = {
+    serve,
+    env: {
+      get: name => env.get(name),
+      set: (name, value) => { env.set(name, value); },
+      delete: name => { env.delete(name); },
+    },
+  };
+  (globalThis as unknown as { Deno: DenoShim }).Deno = shim;
+}
+
+/**
+ * Replace the environment edge functions read through Deno.env
+ */
+export function setDenoEnv(values: Record<string, string>): void {
+  env.clear();
+  for (const [name, value] of Object.entries(values)) {
+    env.set(name, value);
+  }
+}
+
+/**
+ * Handler passed to the last serve() call, cleared once taken
+ */
+export function takeServedHandler(): EdgeHandler | null {
+  const handler = servedHandler;
+  servedHandler = null;
+  return handler;
+}
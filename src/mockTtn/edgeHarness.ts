@@ -0,0 +1,123 @@
+/**
+ * Edge Function Harness
+ *
+ * Runs the Supabase edge functions in-process against the mock TTN server
+ * and an in-memory database. Requires the vitest aliases that map the
+ * functions' esm.sh / deno.land imports onto this directory's shims.
+ *
+ * While installed, fetch is routed offline: mock TTN hosts go to the mock
+ * server, ${SUPABASE_URL}/functions/v1/<name> invokes that edge function
+ * (so simulated uplinks forwarded to a ttn-webhook webhook are ingested),
+ * and anything else fails as a network error.
+ */
+
+import { installDenoRuntime, setDenoEnv, takeServedHandler, type EdgeHandler } from './denoRuntime';
+import { createMemoryDatabase, setMemoryDatabase, type MemoryDatabase, type MemoryRow } from './memorySupabase';
+import type { MockTtnServer } from './mockTtnServer';
+
+// ============================================
+// Types
+// ============================================
+
+export interface EdgeHarnessOptions {
+  ttn: MockTtnServer;
+  /** Seed rows per table */
+  tables?: Record<string, MemoryRow[]>;
+  /** Deno.env for the functions (SUPABASE_URL etc. have defaults) */
+  env?: Record<string, string>;
+}
+
+export interface EdgeInvocation<T> {
+  status: number;
+  body: T;
+}
+
+export interface EdgeHarness {
+  db: MemoryDatabase;
+  /** Base URL edge functions are reachable at through fetch */
+  functionsUrl: string;
+  invoke<T = Record<string, unknown>>(name: string, body: unknown, headers?: Record<string, string>): Promise<EdgeInvocation<T>>;
+  /** Put the original fetch back */
+  restore(): void;
+}
+
+// ============================================
+// Function Loading
+// ============================================
+
+export const HARNESS_SUPABASE_URL = 'http://supabase.local';
+
+// Module imports are cached, so each function registers its handler once
+const handlers = new Map<string, EdgeHandler>();
+
+async function loadFunction(name: string): Promise<EdgeHandler> {
+  const cached = handlers.get(name);
+  if (cached) return cached;
+
+  if (!/^[a-z0-9-]+$/.test(name)) {
+    throw new Error(`Invalid edge function name: ${name}`);
+  }
+  takeServedHandler();
+  await import(`../../supabase/functions/${name}/index.ts`);
+  const handler = takeServedHandler();
+  if (!handler) {
+    throw new Error(`Edge function ${name} did not call serve()`);
+  }
+  handlers.set(name, handler);
+  return handler;
+}
+
+// ============================================
+// Harness
+// ============================================
+
+/**
+ * Install the Deno shim, database and offline fetch router
+ */
+export function createEdgeHarness(options: EdgeHarnessOptions): EdgeHarness {
+  const { ttn } = options;
+  const env = {
+    SUPABASE_URL: HARNESS_SUPABASE_URL,
+    SUPABASE_SERVICE_ROLE_KEY: 'harness-service-role-key',
+    ...options.env,
+  };
+  const functionsUrl = `${env.SUPABASE_URL}/functions/v1`;
+
+  installDenoRuntime();
+  setDenoEnv(env);
+  const db = createMemoryDatabase(options.tables);
+  setMemoryDatabase(db);
+
+  async function call(name: string, request: Request): Promise<Response> {
+    const handler = await loadFunction(name);
+    return handler(request);
+  }
+
+  const originalFetch = globalThis.fetch;
+  globalThis.fetch = async (input: RequestInfo | URL, init?: RequestInit) => {
+    const request = new Request(input, init);
+    if (ttn.handles(request.url)) {
+      return ttn.handle(request);
+    }
+    if (request.url.startsWith(`${functionsUrl}/`)) {
+      return call(request.url.slice(functionsUrl.length + 1).split(/[/?]/)[0], request);
+    }
+    throw new TypeError(`fetch failed: ${request.url} is not reachable from the edge function harness`);
+  };
+
+  return {
+    db,
+    functionsUrl,
+    async invoke<T>(name: string, body: unknown, headers: Record<string, string> = {}) {
+      const response = await call(name, new Request(`${functionsUrl}/${name}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+      }));
+      return { status: response.status, body: await response.json() as T };
+    },
+    restore() {
+      globalThis.fetch = originalFetch;
+    },
+  };
+}
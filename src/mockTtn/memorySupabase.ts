@@ -0,0 +1,263 @@
+/**
+ * In-Memory Supabase Client
+ *
+ * Stands in for https://esm.sh/@supabase/supabase-js@2 when edge functions
+ * run under the mock TTN harness (vitest aliases the import here). Covers
+ * the query builder subset the functions use: select/insert/update/upsert/
+ * delete with eq/neq/in/gte/lte filters, order, limit, maybeSingle and single. Every client
+ * reads and writes the active MemoryDatabase.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export type MemoryRow = Record<string, unknown>;
+
+export interface MemoryDatabase {
+  tables: Record<string, MemoryRow[]>;
+}
+
+export interface MemoryError {
+  message: string;
+  code?: string;
+}
+
+export interface MemoryResult<T> {
+  data: T;
+  error: MemoryError | null;
+}
+
+type Operation = 'select' | 'insert' | 'update' | 'upsert' | 'delete';
+
+type Filter = (row: MemoryRow) => boolean;
+
+// ============================================
+// Database
+// ============================================
+
+/**
+ * Create a database, optionally seeded with rows per table (rows are copied)
+ */
+export function createMemoryDatabase(seed: Record<string, MemoryRow[]> = {}): MemoryDatabase {
+  const tables: Record<string, MemoryRow[]> = {};
+  for (const [table, rows] of Object.entries(seed)) {
+    tables[table] = rows.map(row => ({ ...row }));
+  }
+  return { tables };
+}
+
+let activeDatabase: MemoryDatabase = createMemoryDatabase();
+
+/**
+ * Database every client created afterwards (and already created) reads
+ */
+export function setMemoryDatabase(database: MemoryDatabase): void {
+  activeDatabase = database;
+}
+
+export function getMemoryDatabase(): MemoryDatabase {
+  return activeDatabase;
+}
+
+function tableRows(table: string): MemoryRow[] {
+  activeDatabase.tables[table] ??= [];
+  return activeDatabase.tables[table];
+}
+
+// ============================================
+// Query Builder
+// ============================================
+
+function pickColumns(row: MemoryRow, columns: string): MemoryRow {
+  const names = columns.split(',').map(c => c.trim()).filter(Boolean);
+  if (names.length === 0 || names.includes('*')) return { ...row };
+  const picked: MemoryRow = {};
+  for (const name of names) {
+    picked[name] = row[name] ?? null;
+  }
+  return picked;
+}
+
+class MemoryQueryBuilder implements PromiseLike<MemoryResult<unknown>> {
+  private operation: Operation = 'select';
+  private columns = '*';
+  private returning = false;
+  private filters: Filter[] = [];
+  private rowLimit: number | null = null;
+  private sort: { column: string; ascending: boolean } | null = null;
+  private mode: 'many' | 'single' | 'maybeSingle' = 'many';
+  private payload: MemoryRow[] = [];
+  private values: MemoryRow = {};
+  private conflictColumns: string[] = ['id'];
+
+  constructor(private readonly table: string) {}
+
+  select(columns = '*'): this {
+    if (this.operation === 'select') {
+      this.columns = columns;
+    } else {
+      this.returning = true;
+      this.columns = columns;
+    }
+    return this;
+  }
+
+  insert(rows: MemoryRow | MemoryRow[]): this {
+    this.operation = 'insert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    return this;
+  }
+
+  upsert(rows: MemoryRow | MemoryRow[], options: { onConflict?: string } = {}): this {
+    this.operation = 'upsert';
+    this.payload = Array.isArray(rows) ? rows : [rows];
+    if (options.onConflict) {
+      this.conflictColumns = options.onConflict.split(',').map(c => c.trim());
+    }
+    return this;
+  }
+
+  update(values: MemoryRow): this {
+    this.operation = 'update';
+    this.values = values;
+    return this;
+  }
+
+  delete(): this {
+    this.operation = 'delete';
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push(row => row[column] === value);
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push(row => row[column] !== value);
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push(row => values.includes(row[column]));
+    return this;
+  }
+
+  gte(column: string, value: unknown): this {
+    this.filters.push(row => row[column] !== null && row[column] !== undefined && (row[column] as number) >= (value as number));
+    return this;
+  }
+
+  lte(column: string, value: unknown): this {
+    this.filters.push(row => row[column] !== null && row[column] !== undefined && (row[column] as number) <= (value as number));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.sort = { column, ascending: options.ascending ?? true };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.rowLimit = count;
+    return this;
+  }
+
+  maybeSingle(): this {
+    this.mode = 'maybeSingle';
+    return this;
+  }
+
+  single(): this {
+    this.mode = 'single';
+    return this;
+  }
+
+  then<TResult1 = MemoryResult<unknown>, TResult2 = never>(
+    onfulfilled?: ((value: MemoryResult<unknown>) => TResult1 | PromiseLike<TResult1>) | null,
+    onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+  ): PromiseLike<TResult1 | TResult2> {
+    return Promise.resolve().then(() => this.execute()).then(onfulfilled, onrejected);
+  }
+
+  private matches(row: MemoryRow): boolean {
+    return this.filters.every(filter => filter(row));
+  }
+
+  private execute(): MemoryResult<unknown> {
+    const rows = tableRows(this.table);
+    let affected: MemoryRow[];
+
+    switch (this.operation) {
+      case 'select':
+        affected = rows.filter(row => this.matches(row));
+        break;
+      case 'insert':
+        affected = this.payload.map(row => ({ id: crypto.randomUUID(), ...row }));
+        rows.push(...affected);
+        break;
+      case 'upsert':
+        affected = this.payload.map(row => {
+          const existing = rows.find(r => this.conflictColumns.every(c => r[c] === row[c]));
+          if (existing) return Object.assign(existing, row);
+          const inserted = { id: crypto.randomUUID(), ...row };
+          rows.push(inserted);
+          return inserted;
+        });
+        break;
+      case 'update':
+        affected = rows.filter(row => this.matches(row));
+        affected.forEach(row => Object.assign(row, this.values));
+        break;
+      case 'delete':
+        affected = rows.filter(row => this.matches(row));
+        activeDatabase.tables[this.table] = rows.filter(row => !affected.includes(row));
+        break;
+    }
+
+    if (this.operation !== 'select' && !this.returning) {
+      return { data: null, error: null };
+    }
+
+    if (this.sort) {
+      const { column, ascending } = this.sort;
+      // Nulls sort last
+      affected = [...affected].sort((a, b) => {
+        if (a[column] === b[column]) return 0;
+        if (a[column] === null || a[column] === undefined) return 1;
+        if (b[column] === null || b[column] === undefined) return -1;
+        return ((a[column] as number) < (b[column] as number) ? -1 : 1) * (ascending ? 1 : -1);
+      });
+    }
+    const limited = this.rowLimit === null ? affected : affected.slice(0, this.rowLimit);
+    const data = limited.map(row => pickColumns(row, this.columns));
+    if (this.mode === 'many') return { data, error: null };
+    if (data.length > 1) {
+      return { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' } };
+    }
+    if (data.length === 0 && this.mode === 'single') {
+      return { data: null, error: { message: 'JSON object requested, multiple (or no) rows returned', code: 'PGRST116' } };
+    }
+    return { data: data[0] ?? null, error: null };
+  }
+}
+
+// ============================================
+// Client
+// ============================================
+
+export interface MemorySupabaseClient {
+  from(table: string): MemoryQueryBuilder;
+}
+
+/**
+ * Same signature as supabase-js createClient; url and key are ignored
+ */
+export function createClient(_url?: string, _key?: string, _options?: unknown): MemorySupabaseClient {
+  return {
+    from: (table: string) => new MemoryQueryBuilder(table),
+  };
+}
+
+export type SupabaseClient = MemorySupabaseClient;
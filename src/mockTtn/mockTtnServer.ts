@@ -0,0 +1,665 @@
+/**
+ * Mock TTN v3 API Server
+ *
+ * In-memory stand-in for the The Things Stack endpoints the edge functions
+ * call: Identity Server (applications, rights, end devices, gateways, auth
+ * info), Join/Network/Application Server device registries, AS webhooks and
+ * up/simulate with webhook forwarding. Requests are plain fetch Requests, so
+ * the same server backs the edge function harness and the standalone CLI.
+ *
+ * The Identity Server is shared by every served host (as on TTN Cloud, where
+ * eu1 is the IS of record); JS/NS/AS registries and webhooks are per host, so
+ * a device provisioned on nam1 is not visible to the eu1 Application Server.
+ */
+
+// ============================================
+// Types
+// ============================================
+
+export interface MockApiKey {
+  key: string;
+  rights: string[];
+  /** Applications an application key may act on; omitted = all */
+  applicationIds?: string[];
+  /** User owning a personal key */
+  userId?: string;
+  /** Organization owning an organization key */
+  organizationId?: string;
+}
+
+export interface MockOrganization {
+  id: string;
+  /** Users whose personal keys may act for the organization */
+  members?: string[];
+}
+
+export interface MockWebhook {
+  applicationId: string;
+  webhookId: string;
+  baseUrl: string;
+  headers?: Record<string, string>;
+  /** Path appended to baseUrl for uplink messages (default '') */
+  uplinkPath?: string;
+}
+
+export interface MockTtnOptions {
+  /** Origins served (default: TTN Cloud eu1, nam1 and au1) */
+  hosts?: string[];
+  applications?: string[];
+  apiKeys?: MockApiKey[];
+  users?: string[];
+  organizations?: MockOrganization[];
+  /** Webhooks registered on every host's Application Server */
+  webhooks?: MockWebhook[];
+  /** Delivers webhook requests (default: global fetch at call time) */
+  forward?: (url: string, init: RequestInit) => Promise<Response>;
+}
+
+type Json = Record<string, unknown>;
+
+/** Device registries of one host's JS, NS and AS */
+export interface MockClusterState {
+  js: Map<string, Json>;
+  ns: Map<string, Json>;
+  as: Map<string, Json>;
+  webhooks: Map<string, Json>;
+}
+
+export interface MockTtnState {
+  applications: Map<string, Json>;
+  apiKeys: Map<string, MockApiKey>;
+  users: Set<string>;
+  organizations: Map<string, MockOrganization>;
+  gateways: Map<string, { gateway: Json; owner: Json }>;
+  /** Identity Server end devices by "{application}/{device}" */
+  devices: Map<string, Json>;
+  clusters: Map<string, MockClusterState>;
+}
+
+export interface MockRequestLog {
+  method: string;
+  url: string;
+  status: number;
+}
+
+export interface MockWebhookDelivery {
+  applicationId: string;
+  webhookId: string;
+  url: string;
+  event: Json;               // The uplink event as forwarded
+  status: number;
+  error?: string;
+}
+
+export interface MockDeviceView {
+  is: Json | null;
+  js: Json | null;
+  ns: Json | null;
+  as: Json | null;
+}
+
+export interface MockTtnServer {
+  hosts: string[];
+  state: MockTtnState;
+  requests: MockRequestLog[];
+  deliveries: MockWebhookDelivery[];
+  /** Whether the URL belongs to a served host */
+  handles(url: string): boolean;
+  handle(request: Request): Promise<Response>;
+  /** A device's registry entries (components on the given host, default the first) */
+  device(applicationId: string, deviceId: string, host?: string): MockDeviceView;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const DEFAULT_MOCK_TTN_HOSTS = [
+  'https://eu1.cloud.thethings.network',
+  'https://nam1.cloud.thethings.network',
+  'https://au1.cloud.thethings.network',
+];
+
+/** Every right an application key can hold that the edge functions use */
+export const TTN_APPLICATION_RIGHTS = [
+  'RIGHT_APPLICATION_INFO',
+  'RIGHT_APPLICATION_SETTINGS_BASIC',
+  'RIGHT_APPLICATION_DEVICES_READ',
+  'RIGHT_APPLICATION_DEVICES_WRITE',
+  'RIGHT_APPLICATION_DEVICES_READ_KEYS',
+  'RIGHT_APPLICATION_DEVICES_WRITE_KEYS',
+  'RIGHT_APPLICATION_TRAFFIC_READ',
+  'RIGHT_APPLICATION_TRAFFIC_DOWN_WRITE',
+];
+
+/** Gateway rights of a personal or organization key */
+export const TTN_GATEWAY_RIGHTS = [
+  'RIGHT_USER_GATEWAYS_LIST',
+  'RIGHT_USER_GATEWAYS_CREATE',
+  'RIGHT_ORGANIZATION_GATEWAYS_LIST',
+  'RIGHT_ORGANIZATION_GATEWAYS_CREATE',
+  'RIGHT_GATEWAY_INFO',
+];
+
+// gRPC status codes TTN puts in error bodies
+const GRPC = {
+  INVALID_ARGUMENT: 3,
+  NOT_FOUND: 5,
+  ALREADY_EXISTS: 6,
+  PERMISSION_DENIED: 7,
+  UNAUTHENTICATED: 16,
+} as const;
+
+// ============================================
+// Helpers
+// ============================================
+
+class TTNError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: number,
+    readonly namespace: string,
+    readonly name: string,
+    readonly description: string
+  ) {
+    super(`error:${namespace}:${name} (${description})`);
+  }
+}
+
+function notFound(name: string, description: string, namespace = 'pkg/identityserver/store'): TTNError {
+  return new TTNError(404, GRPC.NOT_FOUND, namespace, name, description);
+}
+
+function entityNotFound(): TTNError {
+  return notFound('not_found', 'entity not found', 'pkg/redis');
+}
+
+function noRights(entity: string, id: string): TTNError {
+  return new TTNError(403, GRPC.PERMISSION_DENIED, 'pkg/auth/rights', `no_${entity}_rights`, `no rights for ${entity} \`${id}\``);
+}
+
+function invalid(field: string): TTNError {
+  return new TTNError(400, GRPC.INVALID_ARGUMENT, 'pkg/ttnpb', 'validation', `invalid \`${field}\`: value is required`);
+}
+
+function errorResponse(error: TTNError): Response {
+  return json(error.status, {
+    code: error.code,
+    message: error.message,
+    details: [{
+      '@type': 'type.googleapis.com/ttn.lorawan.v3.ErrorDetails',
+      namespace: error.namespace,
+      name: error.name,
+      message_format: error.description,
+      correlation_id: crypto.randomUUID().replace(/-/g, ''),
+    }],
+  });
+}
+
+function json(status: number, body: unknown): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  });
+}
+
+function originOf(url: string): string | null {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return null;
+  }
+}
+
+function deviceKey(applicationId: string, deviceId: string): string {
+  return `${applicationId}/${deviceId}`;
+}
+
+/** Shallow-merge an end device, keeping nested ids */
+function mergeDevice(existing: Json | undefined, update: Json, applicationId: string): Json {
+  const ids = {
+    ...(existing?.ids as Json | undefined),
+    ...(update.ids as Json | undefined),
+    application_ids: { application_id: applicationId },
+  };
+  const now = new Date().toISOString();
+  return {
+    ...existing,
+    ...update,
+    ids,
+    created_at: existing?.created_at ?? now,
+    updated_at: now,
+  };
+}
+
+// ============================================
+// Server
+// ============================================
+
+/**
+ * Create a mock TTN deployment serving the given hosts
+ */
+export function createMockTtnServer(options: MockTtnOptions = {}): MockTtnServer {
+  const hosts = (options.hosts ?? DEFAULT_MOCK_TTN_HOSTS).map(host => originOf(host) ?? host);
+  const forward = options.forward ?? ((url: string, init: RequestInit) => fetch(url, init));
+
+  const state: MockTtnState = {
+    applications: new Map(),
+    apiKeys: new Map(),
+    users: new Set(options.users ?? []),
+    organizations: new Map(),
+    gateways: new Map(),
+    devices: new Map(),
+    clusters: new Map(),
+  };
+
+  for (const applicationId of options.applications ?? []) {
+    state.applications.set(applicationId, { ids: { application_id: applicationId }, name: applicationId });
+  }
+  for (const apiKey of options.apiKeys ?? []) {
+    state.apiKeys.set(apiKey.key, apiKey);
+    if (apiKey.userId) state.users.add(apiKey.userId);
+  }
+  for (const organization of options.organizations ?? []) {
+    state.organizations.set(organization.id, organization);
+  }
+  for (const host of hosts) {
+    const cluster: MockClusterState = { js: new Map(), ns: new Map(), as: new Map(), webhooks: new Map() };
+    for (const webhook of options.webhooks ?? []) {
+      cluster.webhooks.set(deviceKey(webhook.applicationId, webhook.webhookId), {
+        ids: { webhook_id: webhook.webhookId, application_ids: { application_id: webhook.applicationId } },
+        base_url: webhook.baseUrl,
+        headers: webhook.headers ?? {},
+        uplink_message: { path: webhook.uplinkPath ?? '' },
+      });
+    }
+    state.clusters.set(host, cluster);
+  }
+
+  const requests: MockRequestLog[] = [];
+  const deliveries: MockWebhookDelivery[] = [];
+
+  // ------------------------------------------
+  // Authorization
+  // ------------------------------------------
+
+  function authenticate(request: Request): MockApiKey {
+    const header = request.headers.get('authorization') ?? '';
+    const key = state.apiKeys.get(header.replace(/^Bearer\s+/i, ''));
+    if (!key) {
+      throw new TTNError(401, GRPC.UNAUTHENTICATED, 'pkg/identityserver', 'api_key_not_found', 'API key not found');
+    }
+    return key;
+  }
+
+  function requireApplicationRight(key: MockApiKey, applicationId: string, right: string | null): void {
+    if (key.applicationIds && !key.applicationIds.includes(applicationId)) {
+      throw noRights('application', applicationId);
+    }
+    if (!state.applications.has(applicationId)) {
+      throw notFound('application_not_found', `application \`${applicationId}\` not found`);
+    }
+    if (right && !key.rights.includes(right)) {
+      throw noRights('application', applicationId);
+    }
+  }
+
+  function canActFor(key: MockApiKey, ownerType: 'users' | 'organizations', ownerId: string): boolean {
+    if (ownerType === 'users') return key.userId === ownerId;
+    if (key.organizationId === ownerId) return true;
+    return !!key.userId && !!state.organizations.get(ownerId)?.members?.includes(key.userId);
+  }
+
+  function ownerOf(gateway: { owner: Json }): ['users' | 'organizations', string] {
+    const owner = gateway.owner as { user_ids?: { user_id: string }; organization_ids?: { organization_id: string } };
+    return owner.organization_ids
+      ? ['organizations', owner.organization_ids.organization_id]
+      : ['users', owner.user_ids!.user_id];
+  }
+
+  function visibleGateways(key: MockApiKey): Json[] {
+    return [...state.gateways.values()]
+      .filter(gateway => canActFor(key, ...ownerOf(gateway)))
+      .map(gateway => gateway.gateway);
+  }
+
+  // ------------------------------------------
+  // Identity Server
+  // ------------------------------------------
+
+  function authInfo(key: MockApiKey): Response {
+    const entityIds = key.organizationId
+      ? { organization_ids: { organization_id: key.organizationId } }
+      : key.userId
+      ? { user_ids: { user_id: key.userId } }
+      : { application_ids: { application_id: key.applicationIds?.[0] ?? '' } };
+    return json(200, {
+      api_key: { api_key: { id: key.key.slice(-8), rights: key.rights }, entity_ids: entityIds },
+      universal_rights: [],
+      is_admin: false,
+    });
+  }
+
+  function listOrganizations(key: MockApiKey): Response {
+    const organizations = [...state.organizations.values()]
+      .filter(organization => canActFor(key, 'organizations', organization.id))
+      .map(organization => ({ ids: { organization_id: organization.id } }));
+    return json(200, { organizations });
+  }
+
+  async function createDevice(request: Request, key: MockApiKey, applicationId: string): Promise<Response> {
+    requireApplicationRight(key, applicationId, 'RIGHT_APPLICATION_DEVICES_WRITE');
+    const body = await request.json() as { end_device?: Json };
+    const ids = body.end_device?.ids as { device_id?: string; dev_eui?: string; join_eui?: string } | undefined;
+    if (!ids?.device_id) throw invalid('end_device.ids.device_id');
+
+    const id = deviceKey(applicationId, ids.device_id);
+    if (state.devices.has(id)) {
+      throw new TTNError(409, GRPC.ALREADY_EXISTS, 'pkg/identityserver/store', 'id_taken', 'ID already taken');
+    }
+    const euiTaken = ids.dev_eui && [...state.devices.values()].some(device => {
+      const existing = device.ids as { dev_eui?: string; join_eui?: string };
+      return existing.dev_eui?.toUpperCase() === ids.dev_eui!.toUpperCase()
+        && (existing.join_eui ?? '').toUpperCase() === (ids.join_eui ?? '').toUpperCase();
+    });
+    if (euiTaken) {
+      throw new TTNError(409, GRPC.ALREADY_EXISTS, 'pkg/identityserver/store', 'end_device_euis_taken', 'an end device with JoinEUI and DevEUI is already registered');
+    }
+
+    const device = mergeDevice(undefined, body.end_device!, applicationId);
+    state.devices.set(id, device);
+    return json(200, device);
+  }
+
+  async function identityDevice(request: Request, key: MockApiKey, applicationId: string, deviceId: string): Promise<Response> {
+    const id = deviceKey(applicationId, deviceId);
+    const existing = state.devices.get(id);
+    const write = request.method !== 'GET';
+    requireApplicationRight(key, applicationId, write ? 'RIGHT_APPLICATION_DEVICES_WRITE' : 'RIGHT_APPLICATION_DEVICES_READ');
+    if (!existing) throw notFound('end_device_not_found', `end device \`${id}\` not found`);
+
+    if (request.method === 'DELETE') {
+      state.devices.delete(id);
+      return json(200, {});
+    }
+    if (request.method === 'PUT') {
+      const body = await request.json() as { end_device?: Json };
+      const device = mergeDevice(existing, body.end_device ?? {}, applicationId);
+      state.devices.set(id, device);
+      return json(200, device);
+    }
+    return json(200, existing);
+  }
+
+  function getGateway(key: MockApiKey, gatewayId: string): Response {
+    const gateway = state.gateways.get(gatewayId);
+    if (!gateway) throw notFound('gateway_not_found', `gateway \`${gatewayId}\` not found`);
+    if (!canActFor(key, ...ownerOf(gateway)) || !key.rights.includes('RIGHT_GATEWAY_INFO')) {
+      throw noRights('gateway', gatewayId);
+    }
+    return json(200, gateway.gateway);
+  }
+
+  function listGateways(key: MockApiKey): Response {
+    if (!key.userId && !key.organizationId) throw noRights('user', key.applicationIds?.[0] ?? 'unknown');
+    return json(200, { gateways: visibleGateways(key) });
+  }
+
+  async function ownerGateways(
+    request: Request,
+    key: MockApiKey,
+    ownerType: 'users' | 'organizations',
+    ownerId: string
+  ): Promise<Response> {
+    const entity = ownerType === 'users' ? 'user' : 'organization';
+    const exists = ownerType === 'users' ? state.users.has(ownerId) : state.organizations.has(ownerId);
+    if (!exists) throw notFound(`${entity}_not_found`, `${entity} \`${ownerId}\` not found`);
+
+    const right = ownerType === 'users'
+      ? (request.method === 'POST' ? 'RIGHT_USER_GATEWAYS_CREATE' : 'RIGHT_USER_GATEWAYS_LIST')
+      : (request.method === 'POST' ? 'RIGHT_ORGANIZATION_GATEWAYS_CREATE' : 'RIGHT_ORGANIZATION_GATEWAYS_LIST');
+    if (!canActFor(key, ownerType, ownerId) || !key.rights.includes(right)) {
+      throw noRights(entity, ownerId);
+    }
+
+    if (request.method !== 'POST') {
+      const gateways = [...state.gateways.values()]
+        .filter(gateway => ownerOf(gateway)[1] === ownerId)
+        .map(gateway => gateway.gateway);
+      return json(200, { gateways });
+    }
+
+    const body = await request.json() as { gateway?: Json };
+    const ids = body.gateway?.ids as { gateway_id?: string; eui?: string } | undefined;
+    if (!ids?.gateway_id) throw invalid('gateway.ids.gateway_id');
+    if (state.gateways.has(ids.gateway_id)) {
+      throw new TTNError(409, GRPC.ALREADY_EXISTS, 'pkg/identityserver/store', 'id_taken', 'ID already taken');
+    }
+    if (ids.eui && [...state.gateways.values()].some(g => (g.gateway.ids as { eui?: string }).eui?.toUpperCase() === ids.eui!.toUpperCase())) {
+      throw new TTNError(409, GRPC.ALREADY_EXISTS, 'pkg/identityserver/store', 'gateway_eui_taken', `gateway EUI \`${ids.eui}\` is already registered`);
+    }
+    if (!body.gateway!.frequency_plan_id) throw invalid('gateway.frequency_plan_id');
+
+    const owner = ownerType === 'users'
+      ? { user_ids: { user_id: ownerId } }
+      : { organization_ids: { organization_id: ownerId } };
+    const gateway = { ...body.gateway!, administrative_contact: owner, technical_contact: owner, created_at: new Date().toISOString() };
+    state.gateways.set(ids.gateway_id, { gateway, owner });
+    return json(200, gateway);
+  }
+
+  // ------------------------------------------
+  // Join, Network and Application Servers
+  // ------------------------------------------
+
+  async function componentDevice(
+    request: Request,
+    key: MockApiKey,
+    registry: Map<string, Json>,
+    component: 'js' | 'ns' | 'as',
+    applicationId: string,
+    deviceId: string
+  ): Promise<Response> {
+    const id = deviceKey(applicationId, deviceId);
+
+    if (request.method === 'GET') {
+      requireApplicationRight(key, applicationId, 'RIGHT_APPLICATION_DEVICES_READ');
+      const device = registry.get(id);
+      if (!device) throw entityNotFound();
+      return json(200, device);
+    }
+
+    requireApplicationRight(key, applicationId, 'RIGHT_APPLICATION_DEVICES_WRITE');
+    if (request.method === 'DELETE') {
+      if (!registry.delete(id)) throw entityNotFound();
+      return json(200, {});
+    }
+
+    const body = await request.json() as { end_device?: Json };
+    const update = body.end_device ?? {};
+    if (component === 'js' && update.root_keys && !key.rights.includes('RIGHT_APPLICATION_DEVICES_WRITE_KEYS')) {
+      throw noRights('application', applicationId);
+    }
+    if (!state.devices.has(id)) {
+      throw notFound('end_device_not_found', `end device \`${id}\` not found`);
+    }
+    const device = mergeDevice(registry.get(id), update, applicationId);
+    registry.set(id, device);
+    return json(200, device);
+  }
+
+  async function simulateUplink(
+    request: Request,
+    key: MockApiKey,
+    cluster: MockClusterState,
+    applicationId: string,
+    deviceId: string
+  ): Promise<Response> {
+    requireApplicationRight(key, applicationId, 'RIGHT_APPLICATION_TRAFFIC_DOWN_WRITE');
+    const device = cluster.as.get(deviceKey(applicationId, deviceId));
+    if (!device) throw entityNotFound();
+
+    const body = await request.json() as { end_device_ids?: Json; uplink_message?: Json };
+    const receivedAt = new Date().toISOString();
+    const event = {
+      end_device_ids: {
+        ...body.end_device_ids,
+        device_id: deviceId,
+        application_ids: { application_id: applicationId },
+      },
+      correlation_ids: [`as:up:${crypto.randomUUID().replace(/-/g, '')}`],
+      received_at: receivedAt,
+      uplink_message: { ...body.uplink_message, received_at: receivedAt },
+      simulated: true,
+    };
+
+    const webhooks = [...cluster.webhooks.values()].filter(webhook =>
+      (webhook.ids as { application_ids: { application_id: string } }).application_ids.application_id === applicationId
+      && (webhook.uplink_message as Json | undefined)
+    );
+    for (const webhook of webhooks) {
+      const webhookId = (webhook.ids as { webhook_id: string }).webhook_id;
+      const url = `${webhook.base_url as string}${(webhook.uplink_message as { path?: string }).path ?? ''}`;
+      try {
+        const response = await forward(url, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', ...(webhook.headers as Record<string, string>) },
+          body: JSON.stringify(event),
+        });
+        await response.text();
+        deliveries.push({ applicationId, webhookId, url, event, status: response.status });
+      } catch (err) {
+        deliveries.push({ applicationId, webhookId, url, event, status: 0, error: (err as Error).message });
+      }
+    }
+
+    return json(200, {});
+  }
+
+  async function webhookRegistry(
+    request: Request,
+    key: MockApiKey,
+    cluster: MockClusterState,
+    applicationId: string,
+    webhookId: string | undefined
+  ): Promise<Response> {
+    requireApplicationRight(key, applicationId, 'RIGHT_APPLICATION_SETTINGS_BASIC');
+
+    if (!webhookId) {
+      const webhooks = [...cluster.webhooks.entries()]
+        .filter(([id]) => id.startsWith(`${applicationId}/`))
+        .map(([, webhook]) => webhook);
+      return json(200, { webhooks });
+    }
+
+    const id = deviceKey(applicationId, webhookId);
+    if (request.method === 'DELETE') {
+      if (!cluster.webhooks.delete(id)) throw entityNotFound();
+      return json(200, {});
+    }
+    if (request.method === 'PUT') {
+      const body = await request.json() as { webhook?: Json };
+      if (!body.webhook?.base_url) throw invalid('webhook.base_url');
+      const webhook = {
+        ...cluster.webhooks.get(id),
+        ...body.webhook,
+        ids: { webhook_id: webhookId, application_ids: { application_id: applicationId } },
+      };
+      cluster.webhooks.set(id, webhook);
+      return json(200, webhook);
+    }
+    const webhook = cluster.webhooks.get(id);
+    if (!webhook) throw entityNotFound();
+    return json(200, webhook);
+  }
+
+  // ------------------------------------------
+  // Routing
+  // ------------------------------------------
+
+  async function route(request: Request, cluster: MockClusterState, path: string): Promise<Response> {
+    const key = authenticate(request);
+    const { method } = request;
+    let m: RegExpMatchArray | null;
+
+    if (method === 'GET' && path === '/auth_info') return authInfo(key);
+    if (method === 'GET' && path === '/organizations') return listOrganizations(key);
+    if (method === 'GET' && path === '/gateways') return listGateways(key);
+    if (method === 'GET' && (m = path.match(/^\/gateways\/([^/]+)$/))) return getGateway(key, m[1]);
+    if ((m = path.match(/^\/(users|organizations)\/([^/]+)\/gateways$/)) && (method === 'GET' || method === 'POST')) {
+      return ownerGateways(request, key, m[1] as 'users' | 'organizations', m[2]);
+    }
+
+    if (method === 'GET' && (m = path.match(/^\/applications\/([^/]+)$/))) {
+      requireApplicationRight(key, m[1], 'RIGHT_APPLICATION_INFO');
+      return json(200, state.applications.get(m[1]));
+    }
+    if (method === 'GET' && (m = path.match(/^\/applications\/([^/]+)\/rights$/))) {
+      requireApplicationRight(key, m[1], null);
+      return json(200, { rights: key.rights.filter(right => right.startsWith('RIGHT_APPLICATION')) });
+    }
+    if (method === 'POST' && (m = path.match(/^\/applications\/([^/]+)\/devices$/))) {
+      return createDevice(request, key, m[1]);
+    }
+    if (['GET', 'PUT', 'DELETE'].includes(method) && (m = path.match(/^\/applications\/([^/]+)\/devices\/([^/]+)$/))) {
+      return identityDevice(request, key, m[1], m[2]);
+    }
+
+    if (method === 'POST' && (m = path.match(/^\/as\/applications\/([^/]+)\/devices\/([^/]+)\/up\/simulate$/))) {
+      return simulateUplink(request, key, cluster, m[1], m[2]);
+    }
+    if (['GET', 'PUT', 'DELETE'].includes(method) && (m = path.match(/^\/(js|ns|as)\/applications\/([^/]+)\/devices\/([^/]+)$/))) {
+      const component = m[1] as 'js' | 'ns' | 'as';
+      return componentDevice(request, key, cluster[component], component, m[2], m[3]);
+    }
+    if ((m = path.match(/^\/as\/webhooks\/([^/]+)(?:\/([^/]+))?$/)) && (m[2] ? ['GET', 'PUT', 'DELETE'] : ['GET']).includes(method)) {
+      return webhookRegistry(request, key, cluster, m[1], m[2]);
+    }
+
+    throw notFound('route_not_found', `no route for ${method} ${path}`, 'pkg/webui');
+  }
+
+  async function handle(request: Request): Promise<Response> {
+    const url = new URL(request.url);
+    const cluster = state.clusters.get(url.origin);
+    let response: Response;
+
+    if (!cluster || !url.pathname.startsWith('/api/v3/')) {
+      response = errorResponse(notFound('route_not_found', `no route for ${request.method} ${url.pathname}`, 'pkg/webui'));
+    } else {
+      try {
+        response = await route(request, cluster, url.pathname.slice('/api/v3'.length));
+      } catch (err) {
+        if (!(err instanceof TTNError)) throw err;
+        response = errorResponse(err);
+      }
+    }
+
+    requests.push({ method: request.method, url: request.url, status: response.status });
+    return response;
+  }
+
+  function device(applicationId: string, deviceId: string, host = hosts[0]): MockDeviceView {
+    const id = deviceKey(applicationId, deviceId);
+    const cluster = state.clusters.get(originOf(host) ?? host);
+    return {
+      is: state.devices.get(id) ?? null,
+      js: cluster?.js.get(id) ?? null,
+      ns: cluster?.ns.get(id) ?? null,
+      as: cluster?.as.get(id) ?? null,
+    };
+  }
+
+  return {
+    hosts,
+    state,
+    requests,
+    deliveries,
+    handles: url => {
+      const origin = originOf(url);
+      return !!origin && state.clusters.has(origin);
+    },
+    handle,
+    device,
+  };
+}
@@ -0,0 +1,80 @@
+/**
+ * Fallback frm_payload for simulated uplinks sent without one: the legacy
+ * Dragino frame matching the payload's shape, LDS02 for door payloads and
+ * LHT65 otherwise, so TTN payload formatters can decode it.
+ * Must match encodeLegacyFrmPayload in src/lib/deviceLibrary/payloadCodec.ts
+ */
+
+/** Dragino "no external probe" marker */
+const DRAGINO_NO_PROBE = 0x7fff;
+
+function clamp(value: number, min: number, max: number): number {
+  return Math.max(min, Math.min(max, value));
+}
+
+function readNumber(value: unknown): number {
+  if (typeof value === 'number' && Number.isFinite(value)) return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  return 0;
+}
+
+function readFlag(value: unknown): boolean {
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string') return value === 'open' || value === 'true';
+  return false;
+}
+
+function u16be(value: number): number[] {
+  const v = clamp(Math.round(value), 0, 0xffff);
+  return [(v >> 8) & 0xff, v & 0xff];
+}
+
+function i16be(value: number): number[] {
+  const v = clamp(Math.round(value), -0x8000, 0x7fff) & 0xffff;
+  return [(v >> 8) & 0xff, v & 0xff];
+}
+
+function u24be(value: number): number[] {
+  const v = clamp(Math.round(value), 0, 0xffffff);
+  return [(v >> 16) & 0xff, (v >> 8) & 0xff, v & 0xff];
+}
+
+/**
+ * Dragino BAT word: bits 15:14 battery status, bits 13:0 voltage in mV
+ */
+function draginoBatteryWord(batV: number): number {
+  const mv = clamp(Math.round(batV * 1000), 0, 0x3fff);
+  const status = mv >= 2650 ? 3 : mv >= 2550 ? 2 : mv > 2500 ? 1 : 0;
+  return (status << 14) | mv;
+}
+
+function toBase64(bytes: number[]): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+/**
+ * Encode a decoded payload as the Dragino frame matching its shape
+ */
+export function encodeLegacyFrmPayload(fields: Record<string, unknown>): string {
+  if ('door_status' in fields || 'door_open' in fields) {
+    const doorBit = readFlag(fields.door_status) || readFlag(fields.door_open) ? 0x8000 : 0;
+    const mv = clamp(Math.round(readNumber(fields.battery_voltage) * 1000), 0, 0x3fff);
+    return toBase64([
+      ...u16be(doorBit | mv),
+      0x01,
+      ...u24be(readNumber(fields.open_count)),
+      ...u24be(readNumber(fields.open_duration) / 60),
+      0x00,
+    ]);
+  }
+
+  return toBase64([
+    ...u16be(draginoBatteryWord(readNumber(fields.battery_voltage))),
+    ...i16be(readNumber(fields.temperature) * 100),
+    ...u16be(readNumber(fields.humidity) * 10),
+    0x01,
+    ...u16be(DRAGINO_NO_PROBE),
+    ...u16be(DRAGINO_NO_PROBE),
+  ]);
+}
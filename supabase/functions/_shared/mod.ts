@@ -18,10 +18,16 @@ export {
   isValidTTNDeviceId,
   isValidCluster,
   getTTNApiBaseUrl,
+  normalizeTTNBaseUrl,
+  resolveTTNEndpoints,
+  describeTTNHost,
   parseClusterFromUrl,
   convertLegacyDeviceId,
   VALID_CLUSTERS,
+  TTN_HOST_COLUMNS,
   type TTNCluster,
+  type TTNHostSettings,
+  type TTNEndpoints,
 } from "./ttn-utils.ts";
 
 // Response utilities
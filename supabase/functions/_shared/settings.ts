@@ -3,11 +3,12 @@
  */
 
 import { getSupabaseClient } from "./supabase.ts";
+import { TTN_HOST_COLUMNS, type TTNHostSettings } from "./ttn-utils.ts";
 
 /**
  * TTN Settings structure
  */
-export interface TTNSettings {
+export interface TTNSettings extends TTNHostSettings {
   api_key: string | null;
   application_id: string | null;
   cluster: string;
@@ -55,6 +56,11 @@ export async function loadUserSettings(userId: string): Promise<TTNSettings | nu
       webhook_secret: (ttn.webhook_secret as string) || null,
       gateway_owner_type: (ttn.gateway_owner_type as string) || null,
       gateway_owner_id: (ttn.gateway_owner_id as string) || null,
+      base_url: (ttn.base_url as string) || null,
+      identity_server_url: (ttn.identity_server_url as string) || null,
+      network_server_url: (ttn.network_server_url as string) || null,
+      application_server_url: (ttn.application_server_url as string) || null,
+      join_server_url: (ttn.join_server_url as string) || null,
     };
   } catch (err) {
     console.error('[settings] Exception loading user settings:', err);
@@ -72,7 +78,7 @@ export async function loadOrgSettings(orgId: string): Promise<TTNSettings | null
 
     const { data, error } = await supabase
       .from('ttn_settings')
-      .select('api_key, application_id, cluster, enabled, webhook_secret, gateway_owner_type, gateway_owner_id')
+      .select(`api_key, application_id, enabled, webhook_secret, gateway_owner_type, gateway_owner_id, ${TTN_HOST_COLUMNS}`)
       .eq('org_id', orgId)
       .maybeSingle();
 
@@ -114,13 +120,21 @@ export async function loadTTNSettings(
     const orgSettings = await loadOrgSettings(orgId);
 
     if (orgSettings?.api_key) {
-      // Merge: use user's app/cluster if available, otherwise org's
+      // Merge: use user's app/hosts if available, otherwise org's
       if (userSettings) {
+        const userHosts = userSettings.base_url ? userSettings : null;
         return {
           settings: {
             ...orgSettings,
             application_id: userSettings.application_id || orgSettings.application_id,
             cluster: userSettings.cluster || orgSettings.cluster,
+            ...(userHosts && {
+              base_url: userHosts.base_url,
+              identity_server_url: userHosts.identity_server_url,
+              network_server_url: userHosts.network_server_url,
+              application_server_url: userHosts.application_server_url,
+              join_server_url: userHosts.join_server_url,
+            }),
           },
           source: 'org',
         };
@@ -25,6 +25,15 @@ export function generateTTNDeviceId(devEui: string): string | null {
   return `sensor-${normalized}`;
 }
 
+/**
+ * Derive the ABP session DevAddr for a DevEUI.
+ * Format: 260C + last 4 hex chars of the DevEUI (uppercase)
+ */
+export function generateAbpDevAddr(devEui: string): string {
+  const cleaned = devEui.replace(/[:\s-]/g, '').toUpperCase();
+  return '260C' + cleaned.slice(-4);
+}
+
 /**
  * Validate TTN device ID format.
  * Expected format: sensor-XXXXXXXXXXXXXXXX (16 hex characters)
@@ -50,7 +59,105 @@ export function isValidCluster(cluster: string): cluster is TTNCluster {
  * Build TTN API base URL for a cluster
  */
 export function getTTNApiBaseUrl(cluster: TTNCluster): string {
-  return `https://${cluster}.cloud.thethings.network/api/v3`;
+  return resolveTTNEndpoints({ cluster }).apiUrl;
+}
+
+/**
+ * Where a TTN deployment is served. TTN Cloud only needs a cluster; a
+ * self-hosted The Things Stack sets base_url, plus a component URL for each
+ * of the Identity, Network, Application and Join Servers on another host.
+ * Field names match the ttn_settings columns.
+ */
+export interface TTNHostSettings {
+  cluster?: string | null;
+  base_url?: string | null;
+  identity_server_url?: string | null;
+  network_server_url?: string | null;
+  application_server_url?: string | null;
+  join_server_url?: string | null;
+}
+
+/** ttn_settings columns holding host settings, for selects */
+export const TTN_HOST_COLUMNS = 'cluster, base_url, identity_server_url, network_server_url, application_server_url, join_server_url';
+
+/**
+ * Resolved TTN endpoints. API roots end in /api/v3; addresses are host[:port]
+ * as TTN expects them in end device and gateway server address fields.
+ */
+export interface TTNEndpoints {
+  baseUrl: string;          // Deployment root, e.g. https://eu1.cloud.thethings.network
+  consoleUrl: string;
+  apiUrl: string;           // API root of the deployment (TTN Cloud: the cluster)
+  isUrl: string;            // Identity Server API root
+  isHomeUrl: string;        // Identity Server of record (TTN Cloud: always eu1)
+  nsUrl: string;
+  asUrl: string;
+  jsUrl: string;
+  nsAddress: string;
+  asAddress: string;
+  jsAddress: string;
+  gsAddress: string;
+  selfHosted: boolean;
+}
+
+/** TTN Cloud serves its Identity Server of record from eu1 only */
+const TTN_CLOUD_IDENTITY_CLUSTER = 'eu1';
+
+/**
+ * Normalize a TTN URL to its root: http(s) only, no trailing slash and no
+ * trailing /api/v3 or /console (pasted API or Console URLs are accepted).
+ * @returns Root URL or null if invalid
+ */
+export function normalizeTTNBaseUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') return null;
+    const path = parsed.pathname.replace(/\/+$/, '').replace(/\/(api\/v3|console)$/, '');
+    return `${parsed.origin}${path}`;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve every TTN endpoint from host settings. Without base_url the
+ * cluster's TTN Cloud host is used; component URLs override base_url.
+ */
+export function resolveTTNEndpoints(settings: TTNHostSettings): TTNEndpoints {
+  const base = settings.base_url ? normalizeTTNBaseUrl(settings.base_url) : null;
+  const baseUrl = base ?? `https://${settings.cluster || 'eu1'}.cloud.thethings.network`;
+  const component = (url?: string | null) => (url && normalizeTTNBaseUrl(url)) || baseUrl;
+
+  const is = component(settings.identity_server_url);
+  const ns = component(settings.network_server_url);
+  const as = component(settings.application_server_url);
+  const js = component(settings.join_server_url);
+  const isHome = base || settings.identity_server_url
+    ? is
+    : `https://${TTN_CLOUD_IDENTITY_CLUSTER}.cloud.thethings.network`;
+
+  return {
+    baseUrl,
+    consoleUrl: `${baseUrl}/console`,
+    apiUrl: `${baseUrl}/api/v3`,
+    isUrl: `${is}/api/v3`,
+    isHomeUrl: `${isHome}/api/v3`,
+    nsUrl: `${ns}/api/v3`,
+    asUrl: `${as}/api/v3`,
+    jsUrl: `${js}/api/v3`,
+    nsAddress: new URL(ns).host,
+    asAddress: new URL(as).host,
+    jsAddress: new URL(js).host,
+    gsAddress: new URL(baseUrl).host,
+    selfHosted: !!base,
+  };
+}
+
+/**
+ * Describe where TTN calls go, for logs and error messages
+ */
+export function describeTTNHost(settings: TTNHostSettings): string {
+  return new URL(resolveTTNEndpoints(settings).baseUrl).host;
 }
 
 /**
@@ -0,0 +1,292 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { TTNUplinkPayload } from "./ttnWebhookProcessor.ts";
+
+/**
+ * Application up message types TTN delivers to webhooks, keyed by the field
+ * that carries the message in the body
+ */
+export const TTN_MESSAGE_TYPES = [
+  'uplink_message',
+  'uplink_normalized',
+  'join_accept',
+  'downlink_queued',
+  'downlink_sent',
+  'downlink_ack',
+  'downlink_nack',
+  'downlink_failed',
+  'downlink_queue_invalidated',
+  'location_solved',
+  'service_data',
+] as const;
+
+export type TTNMessageType = typeof TTN_MESSAGE_TYPES[number];
+
+export type DownlinkStatus = 'queued' | 'sent' | 'acked' | 'nacked' | 'failed' | 'invalidated';
+
+export interface TTNEventPayload {
+  end_device_ids: {
+    device_id: string;
+    dev_eui?: string;
+    join_eui?: string;
+    dev_addr?: string;
+    application_ids: { application_id: string };
+  };
+  correlation_ids?: string[];
+  received_at?: string;
+  [messageType: string]: unknown;
+}
+
+interface TTNDownlink {
+  f_port?: number;
+  f_cnt?: number;
+  frm_payload?: string;
+  decoded_payload?: Record<string, unknown>;
+  confirmed?: boolean;
+  priority?: string;
+  correlation_ids?: string[];
+}
+
+interface ProcessResult {
+  status: number;
+  body: Record<string, unknown>;
+}
+
+type LogFn = (level: string, msg: string, data?: Record<string, unknown>) => void;
+
+const DOWNLINK_STATUS: Partial<Record<TTNMessageType, DownlinkStatus>> = {
+  downlink_queued: 'queued',
+  downlink_sent: 'sent',
+  downlink_ack: 'acked',
+  downlink_nack: 'nacked',
+  downlink_failed: 'failed',
+  downlink_queue_invalidated: 'invalidated',
+};
+
+// Events can arrive out of order; a downlink never moves back to an earlier status
+const DOWNLINK_STATUS_RANK: Record<DownlinkStatus, number> = {
+  queued: 0,
+  sent: 1,
+  acked: 2,
+  nacked: 2,
+  failed: 2,
+  invalidated: 2,
+};
+
+/**
+ * The message type of a webhook body, or null when none is recognised
+ */
+export function detectTTNMessageType(body: Record<string, unknown>): TTNMessageType | null {
+  return TTN_MESSAGE_TYPES.find(type => body[type] !== undefined && body[type] !== null) ?? null;
+}
+
+/**
+ * Turn an uplink_normalized event into an uplink for processTTNUplink.
+ * Normalized air measurements fill in when there is no decoded payload.
+ */
+export function normalizedToUplink(event: TTNEventPayload): TTNUplinkPayload {
+  const message = event.uplink_normalized as TTNUplinkPayload['uplink_message'] & {
+    normalized_payload?: Array<{ air?: { temperature?: number; relativeHumidity?: number } }>;
+  };
+  const air = message.normalized_payload?.[0]?.air;
+  const decoded = message.decoded_payload ?? {
+    ...(air?.temperature !== undefined && { temperature: air.temperature }),
+    ...(air?.relativeHumidity !== undefined && { humidity: air.relativeHumidity }),
+  };
+
+  return {
+    end_device_ids: event.end_device_ids,
+    correlation_ids: event.correlation_ids,
+    received_at: event.received_at ?? new Date().toISOString(),
+    uplink_message: { ...message, decoded_payload: decoded },
+  };
+}
+
+/**
+ * Stable id of a downlink across its queued/sent/ack events: TTN's
+ * as:downlink correlation id, else the port and frame counter
+ */
+export function downlinkId(downlink: TTNDownlink): string {
+  const correlationId = downlink.correlation_ids?.find(id => id.startsWith('as:downlink:'));
+  if (correlationId) return correlationId;
+  return `f_port:${downlink.f_port ?? 0}:${downlink.f_cnt ?? downlink.frm_payload ?? 'unknown'}`;
+}
+
+function downlinksOf(type: TTNMessageType, message: Record<string, unknown>): TTNDownlink[] {
+  if (type === 'downlink_failed') return message.downlink ? [message.downlink as TTNDownlink] : [];
+  if (type === 'downlink_queue_invalidated') return (message.downlinks as TTNDownlink[] | undefined) ?? [];
+  return [message as TTNDownlink];
+}
+
+async function lookupSensor(
+  supabase: SupabaseClient,
+  ids: TTNEventPayload['end_device_ids']
+): Promise<{ id: string; org_id: string; dev_eui: string } | null> {
+  if (ids.dev_eui) {
+    const { data } = await supabase
+      .from('lora_sensors')
+      .select('id, org_id, dev_eui')
+      .eq('dev_eui', ids.dev_eui.toUpperCase())
+      .neq('status', 'disabled')
+      .limit(1)
+      .maybeSingle();
+    if (data) return data;
+  }
+  if (ids.device_id) {
+    const { data } = await supabase
+      .from('lora_sensors')
+      .select('id, org_id, dev_eui')
+      .eq('ttn_device_id', ids.device_id)
+      .neq('status', 'disabled')
+      .limit(1)
+      .maybeSingle();
+    if (data) return data;
+  }
+  return null;
+}
+
+// dev_eui of the event, falling back to "sensor-<hex>" / "eui-<hex>" device ids
+function eventDevEui(ids: TTNEventPayload['end_device_ids']): string | null {
+  if (ids.dev_eui) return ids.dev_eui.toUpperCase();
+  const match = ids.device_id?.match(/^(?:sensor-|eui-)([0-9a-fA-F]+)$/);
+  return match ? match[1].toUpperCase() : null;
+}
+
+/**
+ * Persist a non-uplink event: every event goes to sensor_device_events,
+ * downlink events also update sensor_downlinks, and join accepts and
+ * solved locations update lora_sensors.
+ */
+export async function processTTNEvent(
+  event: TTNEventPayload,
+  type: Exclude<TTNMessageType, 'uplink_message' | 'uplink_normalized'>,
+  supabase: SupabaseClient,
+  log: LogFn
+): Promise<ProcessResult> {
+  const ids = event.end_device_ids || ({} as TTNEventPayload['end_device_ids']);
+  const message = (event[type] ?? {}) as Record<string, unknown>;
+  const receivedAt = event.received_at || (message.received_at as string | undefined) || new Date().toISOString();
+
+  const sensor = await lookupSensor(supabase, ids);
+  const devEui = sensor?.dev_eui ?? eventDevEui(ids);
+  const orgId = sensor?.org_id ?? null;
+
+  log('info', 'Received TTN event', { message_type: type, device_id: ids.device_id, dev_eui: devEui, sensor_id: sensor?.id });
+
+  const { error: eventError } = await supabase
+    .from('sensor_device_events')
+    .insert({
+      org_id: orgId,
+      sensor_id: sensor?.id ?? null,
+      dev_eui: devEui,
+      device_id: ids.device_id ?? null,
+      event_type: type,
+      payload: message,
+      correlation_ids: event.correlation_ids ?? [],
+      received_at: receivedAt,
+    });
+
+  if (eventError) {
+    log('warn', 'Failed to insert sensor_device_events', { error: eventError.message });
+  }
+
+  const downlinkStatus = DOWNLINK_STATUS[type];
+  if (downlinkStatus && devEui) {
+    for (const downlink of downlinksOf(type, message)) {
+      await updateDownlink(supabase, log, {
+        orgId,
+        sensorId: sensor?.id ?? null,
+        devEui,
+        downlink,
+        status: downlinkStatus,
+        error: type === 'downlink_failed' ? (message.error as Record<string, unknown> | undefined) ?? null : null,
+        at: receivedAt,
+      });
+    }
+  }
+
+  if (sensor && type === 'join_accept') {
+    const { error } = await supabase
+      .from('lora_sensors')
+      .update({ last_join_at: receivedAt, dev_addr: ids.dev_addr ?? null })
+      .eq('id', sensor.id);
+    if (error) log('warn', 'Failed to record join on lora_sensors', { error: error.message });
+  }
+
+  if (sensor && type === 'location_solved') {
+    const location = (message.location ?? {}) as Record<string, unknown>;
+    const { error } = await supabase
+      .from('lora_sensors')
+      .update({
+        last_location: { ...location, service: message.service ?? null },
+        last_location_at: receivedAt,
+      })
+      .eq('id', sensor.id);
+    if (error) log('warn', 'Failed to record location on lora_sensors', { error: error.message });
+  }
+
+  if (!sensor) {
+    log('warn', 'TTN event for an unregistered device - stored as unassigned', { message_type: type, dev_eui: devEui });
+    return {
+      status: 202,
+      body: { ok: true, status: 'unassigned', message_type: type, message: 'Device not registered - event logged for later assignment' },
+    };
+  }
+
+  return {
+    status: 200,
+    body: {
+      ok: true,
+      message_type: type,
+      org_id: orgId,
+      sensor_id: sensor.id,
+      ...(downlinkStatus && { downlink_status: downlinkStatus }),
+    },
+  };
+}
+
+async function updateDownlink(
+  supabase: SupabaseClient,
+  log: LogFn,
+  update: {
+    orgId: string | null;
+    sensorId: string | null;
+    devEui: string;
+    downlink: TTNDownlink;
+    status: DownlinkStatus;
+    error: Record<string, unknown> | null;
+    at: string;
+  }
+): Promise<void> {
+  const id = downlinkId(update.downlink);
+  const { data: existing } = await supabase
+    .from('sensor_downlinks')
+    .select('status')
+    .eq('dev_eui', update.devEui)
+    .eq('downlink_id', id)
+    .maybeSingle();
+
+  if (existing && DOWNLINK_STATUS_RANK[existing.status as DownlinkStatus] > DOWNLINK_STATUS_RANK[update.status]) {
+    log('info', 'Ignoring stale downlink status', { downlink_id: id, status: update.status, current: existing.status });
+    return;
+  }
+
+  const { error } = await supabase
+    .from('sensor_downlinks')
+    .upsert({
+      dev_eui: update.devEui,
+      downlink_id: id,
+      org_id: update.orgId,
+      sensor_id: update.sensorId,
+      f_port: update.downlink.f_port ?? null,
+      f_cnt: update.downlink.f_cnt ?? null,
+      frm_payload: update.downlink.frm_payload ?? null,
+      confirmed: update.downlink.confirmed ?? false,
+      status: update.status,
+      error: update.error,
+      updated_at: update.at,
+    }, { onConflict: 'dev_eui,downlink_id' });
+
+  if (error) {
+    log('warn', 'Failed to upsert sensor_downlinks', { error: error.message, downlink_id: id });
+  }
+}
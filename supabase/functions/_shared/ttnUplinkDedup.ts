@@ -0,0 +1,118 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Frame counter check against the device's last ingested frame:
+ * - first: no earlier frame with an f_cnt
+ * - ok: counter increased
+ * - reset: counter restarted at 0 (device rejoined)
+ * - replay: same counter as the last frame, outside the duplicate window
+ * - regression: counter went backwards
+ * - unknown: uplink carried no f_cnt
+ */
+export type FCntStatus = 'first' | 'ok' | 'reset' | 'replay' | 'regression' | 'unknown';
+
+/** What happened to a non-duplicate frame, recorded on sensor_uplinks.ingest_decision */
+export type IngestDecision = 'accepted' | 'flagged' | 'rejected';
+
+/** flag: store and process replayed frames; reject: store them without processing */
+export type FCntReplayPolicy = 'flag' | 'reject';
+
+export type UplinkIngestCheck =
+  | { duplicate: true; duplicate_of: string; matched_on: 'correlation_id' | 'f_cnt' }
+  | { duplicate: false; f_cnt_status: FCntStatus; decision: IngestDecision; last_f_cnt: number | null };
+
+export type UplinkIngestResult = Extract<UplinkIngestCheck, { duplicate: false }>;
+
+export interface UplinkIdentity {
+  devEui: string;
+  fCnt: number | null;
+  receivedAt: string;
+  /** TTN correlation id of the uplink, stable across webhook retries */
+  dedupKey: string | null;
+}
+
+/** Frames with the same dev_eui and f_cnt this close together are the same frame */
+export const DUPLICATE_WINDOW_SECONDS = 120;
+
+/**
+ * The as:up correlation id TTN assigns to an uplink; retries reuse it
+ */
+export function uplinkDedupKey(correlationIds: string[] | null | undefined): string | null {
+  return correlationIds?.find(id => id.startsWith('as:up:')) ?? null;
+}
+
+export function fcntReplayPolicy(value: string | null | undefined): FCntReplayPolicy {
+  return value === 'reject' ? 'reject' : 'flag';
+}
+
+export function classifyFCnt(fCnt: number | null, lastFCnt: number | null): FCntStatus {
+  if (fCnt === null) return 'unknown';
+  if (lastFCnt === null) return 'first';
+  if (fCnt > lastFCnt) return 'ok';
+  if (fCnt === 0) return 'reset';
+  return fCnt === lastFCnt ? 'replay' : 'regression';
+}
+
+// sensor_uplinks holds dev_eui in upper case (ttn-webhook) and lower case (ttn-simulate)
+function devEuiVariants(devEui: string): string[] {
+  return [...new Set([devEui.toUpperCase(), devEui.toLowerCase()])];
+}
+
+/**
+ * Decide whether an uplink is a duplicate of an ingested frame and, if not,
+ * how its frame counter compares with the device's last frame.
+ */
+export async function checkUplinkIngest(
+  supabase: SupabaseClient,
+  uplink: UplinkIdentity,
+  policy: FCntReplayPolicy
+): Promise<UplinkIngestCheck> {
+  const devEuis = devEuiVariants(uplink.devEui);
+
+  if (uplink.dedupKey) {
+    const { data } = await supabase
+      .from('sensor_uplinks')
+      .select('id')
+      .in('dev_eui', devEuis)
+      .eq('dedup_key', uplink.dedupKey)
+      .limit(1)
+      .maybeSingle();
+    if (data) return { duplicate: true, duplicate_of: data.id, matched_on: 'correlation_id' };
+  }
+
+  if (uplink.fCnt !== null) {
+    const receivedAt = Date.parse(uplink.receivedAt);
+    const { data } = await supabase
+      .from('sensor_uplinks')
+      .select('id')
+      .in('dev_eui', devEuis)
+      .eq('f_cnt', uplink.fCnt)
+      .gte('received_at', new Date(receivedAt - DUPLICATE_WINDOW_SECONDS * 1000).toISOString())
+      .lte('received_at', new Date(receivedAt + DUPLICATE_WINDOW_SECONDS * 1000).toISOString())
+      .limit(1)
+      .maybeSingle();
+    if (data) return { duplicate: true, duplicate_of: data.id, matched_on: 'f_cnt' };
+  }
+
+  // Rejected frames never become the baseline, so a replay cannot move it
+  const { data: last } = await supabase
+    .from('sensor_uplinks')
+    .select('f_cnt')
+    .in('dev_eui', devEuis)
+    .in('ingest_decision', ['accepted', 'flagged'])
+    .gte('f_cnt', 0)
+    .order('received_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  const lastFCnt = (last?.f_cnt as number | undefined) ?? null;
+  const status = classifyFCnt(uplink.fCnt, lastFCnt);
+  const outOfOrder = status === 'replay' || status === 'regression';
+
+  return {
+    duplicate: false,
+    f_cnt_status: status,
+    decision: !outOfOrder ? 'accepted' : policy === 'reject' ? 'rejected' : 'flagged',
+    last_f_cnt: lastFCnt,
+  };
+}
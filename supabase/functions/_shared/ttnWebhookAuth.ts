@@ -1,12 +1,56 @@
 import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
 
-export async function loadWebhookSecretForApplication(
+/**
+ * How ttn-webhook authenticates an application's uplinks:
+ * - secret: X-TTN-Webhook-Secret header carries the secret (TTN webhook header)
+ * - hmac: X-TTN-Webhook-Signature carries sha256=<hex HMAC-SHA256 of the raw body>
+ */
+export type WebhookAuthMode = 'secret' | 'hmac';
+
+export const WEBHOOK_AUTH_MODES: WebhookAuthMode[] = ['secret', 'hmac'];
+
+/**
+ * A rotated-out secret, still accepted until expires_at
+ */
+export interface PreviousWebhookSecret {
+  secret: string;
+  expires_at: string;
+  rotated_at?: string;
+}
+
+export interface WebhookAuthConfig {
+  mode: WebhookAuthMode;
+  /** Current secret first, then unexpired previous secrets */
+  secrets: string[];
+}
+
+export interface WebhookAuthRequest {
+  secretHeader: string | null;
+  signatureHeader: string | null;
+  rawBody: string;
+}
+
+export const DEFAULT_WEBHOOK_GRACE_HOURS = 24;
+export const MAX_WEBHOOK_GRACE_HOURS = 720;
+
+/**
+ * Previous secrets whose grace period has not ended
+ */
+export function unexpiredPreviousSecrets(
+  previous: PreviousWebhookSecret[] | null | undefined,
+  now: Date = new Date()
+): PreviousWebhookSecret[] {
+  return (previous ?? []).filter(entry => entry?.secret && Date.parse(entry.expires_at) > now.getTime());
+}
+
+export async function loadWebhookAuthForApplication(
   supabase: SupabaseClient,
-  applicationId: string
-): Promise<string | null> {
+  applicationId: string,
+  now: Date = new Date()
+): Promise<WebhookAuthConfig | null> {
   const { data, error } = await supabase
     .from('ttn_settings')
-    .select('webhook_secret')
+    .select('webhook_secret, previous_webhook_secrets, webhook_auth_mode')
     .eq('application_id', applicationId)
     .limit(1)
     .maybeSingle();
@@ -15,25 +59,113 @@ export async function loadWebhookSecretForApplication(
     console.error('[ttn-webhook-auth] Failed to load webhook secret', error);
     return null;
   }
+  if (!data) return null;
+
+  const secrets = [
+    data.webhook_secret,
+    ...unexpiredPreviousSecrets(data.previous_webhook_secrets, now).map(entry => entry.secret),
+  ].filter((secret): secret is string => !!secret);
+
+  return {
+    mode: data.webhook_auth_mode === 'hmac' ? 'hmac' : 'secret',
+    secrets,
+  };
+}
+
+/**
+ * Compare two strings in time independent of where they differ
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const encoder = new TextEncoder();
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  const length = Math.max(left.length, right.length);
+  let diff = left.length ^ right.length;
+  for (let i = 0; i < length; i++) {
+    diff |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return diff === 0;
+}
 
-  return data?.webhook_secret ?? null;
+/**
+ * Hex HMAC-SHA256 of the raw request body
+ */
+export async function computeWebhookSignature(secret: string, rawBody: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(rawBody));
+  return Array.from(new Uint8Array(signature), byte => byte.toString(16).padStart(2, '0')).join('');
 }
 
-export function verifyWebhookSecret(
-  providedSecret: string | null,
-  expectedSecret: string | null
-): { ok: boolean; error?: string } {
-  if (!expectedSecret) {
-    return { ok: true };
+/**
+ * Verify a webhook request against the application's active secrets.
+ * Every secret is checked so timing does not reveal which one matched.
+ */
+export async function verifyWebhookRequest(
+  request: WebhookAuthRequest,
+  auth: WebhookAuthConfig | null,
+  allowUnauthenticated = false
+): Promise<{ ok: boolean; error?: string }> {
+  if (!auth || auth.secrets.length === 0) {
+    return allowUnauthenticated
+      ? { ok: true }
+      : { ok: false, error: 'No webhook secret configured for this application' };
   }
 
-  if (!providedSecret) {
-    return { ok: false, error: 'Missing webhook secret' };
+  if (auth.mode === 'hmac') {
+    if (!request.signatureHeader) {
+      return { ok: false, error: 'Missing webhook signature' };
+    }
+    const provided = request.signatureHeader.trim().replace(/^sha256=/i, '').toLowerCase();
+    let matched = false;
+    for (const secret of auth.secrets) {
+      matched = timingSafeEqual(provided, await computeWebhookSignature(secret, request.rawBody)) || matched;
+    }
+    return matched ? { ok: true } : { ok: false, error: 'Invalid webhook signature' };
   }
 
-  if (providedSecret !== expectedSecret) {
-    return { ok: false, error: 'Invalid webhook secret' };
+  if (!request.secretHeader) {
+    return { ok: false, error: 'Missing webhook secret' };
+  }
+  let matched = false;
+  for (const secret of auth.secrets) {
+    matched = timingSafeEqual(request.secretHeader, secret) || matched;
   }
+  return matched ? { ok: true } : { ok: false, error: 'Invalid webhook secret' };
+}
 
-  return { ok: true };
+/**
+ * Random 32-byte hex secret
+ */
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Make newSecret current; the old current secret stays valid for graceHours
+ * (0 ends it immediately) and expired previous secrets are dropped.
+ */
+export function rotateWebhookSecrets(
+  current: string | null,
+  previous: PreviousWebhookSecret[] | null | undefined,
+  newSecret: string,
+  graceHours: number,
+  now: Date = new Date()
+): { webhook_secret: string; previous_webhook_secrets: PreviousWebhookSecret[] } {
+  const kept = unexpiredPreviousSecrets(previous, now).filter(entry => entry.secret !== newSecret);
+  if (current && current !== newSecret && graceHours > 0) {
+    kept.unshift({
+      secret: current,
+      expires_at: new Date(now.getTime() + graceHours * 3600_000).toISOString(),
+      rotated_at: now.toISOString(),
+    });
+  }
+  return { webhook_secret: newSecret, previous_webhook_secrets: kept };
 }
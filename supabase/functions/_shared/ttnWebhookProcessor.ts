@@ -1,4 +1,15 @@
 import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { checkUplinkIngest, uplinkDedupKey, type FCntReplayPolicy, type UplinkIngestResult } from "./ttnUplinkDedup.ts";
+
+export interface RxMetadataEntry {
+  gateway_ids: {
+    gateway_id: string;
+    eui: string;
+  };
+  rssi: number;
+  snr: number;
+  timestamp?: number;
+}
 
 export interface TTNUplinkPayload {
   end_device_ids: {
@@ -8,18 +19,13 @@ export interface TTNUplinkPayload {
       application_id: string;
     };
   };
+  correlation_ids?: string[];
   received_at: string;
   uplink_message: {
     decoded_payload: Record<string, unknown>;
-    rx_metadata: Array<{
-      gateway_ids: {
-        gateway_id: string;
-        eui: string;
-      };
-      rssi: number;
-      snr: number;
-    }>;
+    rx_metadata: RxMetadataEntry[];
     f_port: number;
+    f_cnt?: number;
     frm_payload: string;
   };
 }
@@ -40,10 +46,34 @@ interface ProcessResult {
 
 type LogFn = (level: string, msg: string, data?: Record<string, unknown>) => void;
 
+export interface ProcessOptions {
+  /** What to do with replayed or regressed frame counters (default: flag) */
+  fcntPolicy?: FCntReplayPolicy;
+}
+
+/**
+ * Pick the gateway with the best link from an uplink's rx_metadata.
+ * Highest SNR wins (it decides demodulation margin); RSSI breaks ties.
+ */
+export function selectBestGateway(rxMetadata: RxMetadataEntry[] | undefined): RxMetadataEntry | undefined {
+  let best: RxMetadataEntry | undefined;
+  for (const entry of rxMetadata ?? []) {
+    if (
+      !best ||
+      (entry.snr ?? -Infinity) > (best.snr ?? -Infinity) ||
+      (entry.snr === best.snr && (entry.rssi ?? -Infinity) > (best.rssi ?? -Infinity))
+    ) {
+      best = entry;
+    }
+  }
+  return best;
+}
+
 export async function processTTNUplink(
   payload: TTNUplinkPayload,
   supabase: SupabaseClient,
-  log: LogFn
+  log: LogFn,
+  options: ProcessOptions = {}
 ): Promise<ProcessResult> {
   log('info', 'Received TTN webhook', {
     device_id: payload.end_device_ids?.device_id,
@@ -80,14 +110,23 @@ export async function processTTNUplink(
   const applicationId = payload.end_device_ids.application_ids?.application_id;
   const decodedPayload = payload.uplink_message?.decoded_payload || {};
   const fPort = payload.uplink_message?.f_port || 0;
-  const rxMetadata = payload.uplink_message?.rx_metadata?.[0];
+  const fCnt = payload.uplink_message?.f_cnt ?? null;
+  const receivedAt = payload.received_at || new Date().toISOString();
+  const dedupKey = uplinkDedupKey(payload.correlation_ids);
+  const rxMetadata = selectBestGateway(payload.uplink_message?.rx_metadata);
 
-  // Extract telemetry from rx_metadata
+  // Extract telemetry from the best gateway's rx_metadata
   const rssiDbm = rxMetadata?.rssi ?? (decodedPayload.signal_strength as number) ?? null;
   const snrDb = rxMetadata?.snr ?? null;
   const batteryPct = (decodedPayload.battery_level ?? decodedPayload.battery ?? decodedPayload.batt ?? decodedPayload.vbat) as number | null;
 
-  log('info', 'Processing uplink', { devEui, fPort, applicationId });
+  log('info', 'Processing uplink', {
+    devEui,
+    fPort,
+    applicationId,
+    gateway_count: payload.uplink_message?.rx_metadata?.length ?? 0,
+    best_gateway_id: rxMetadata?.gateway_ids?.gateway_id,
+  });
 
   // Step 1: Look up sensor in lora_sensors to get org_id and unit_id
   let sensor: SensorRecord | null = null;
@@ -134,7 +173,7 @@ export async function processTTNUplink(
       siteId = sensor.site_id;
       // Use the dev_eui from the sensor record if we didn't have one
       if (!devEui && sensorByDeviceId.dev_eui) {
-        devEui = sensorByDeviceId.dev_eui;
+        devEui = sensorByDeviceId.dev_eui.toUpperCase();
       }
       log('info', 'Found sensor by ttn_device_id', {
         sensor_id: sensor.id,
@@ -167,29 +206,61 @@ export async function processTTNUplink(
     unitId = unitId || (decodedPayload.unit_id as string | null);
   }
 
-  // Step 2: Always insert raw uplink into sensor_uplinks for history
+  // Step 2: Drop retries and double-sends, and check the frame counter
+  let ingest: UplinkIngestResult | null = null;
+  if (devEui) {
+    const check = await checkUplinkIngest(supabase, { devEui, fCnt, receivedAt, dedupKey }, options.fcntPolicy ?? 'flag');
+    if (check.duplicate) {
+      log('info', 'Duplicate uplink ignored', { devEui, f_cnt: fCnt, duplicate_of: check.duplicate_of, matched_on: check.matched_on });
+      return {
+        status: 200,
+        body: { ok: true, status: 'duplicate', duplicate_of: check.duplicate_of, matched_on: check.matched_on },
+      };
+    }
+    ingest = check;
+    if (ingest.decision !== 'accepted') {
+      log('warn', 'Out-of-order frame counter', { devEui, f_cnt: fCnt, last_f_cnt: ingest.last_f_cnt, f_cnt_status: ingest.f_cnt_status, decision: ingest.decision });
+    }
+  }
+
+  // Step 3: Always insert raw uplink into sensor_uplinks for history
   const uplinkRecord = {
     org_id: orgId,
     unit_id: unitId,
     dev_eui: devEui,
     f_port: fPort,
+    f_cnt: fCnt,
+    dedup_key: dedupKey,
+    f_cnt_status: ingest?.f_cnt_status ?? 'unknown',
+    ingest_decision: ingest?.decision ?? 'accepted',
     payload_json: decodedPayload,
     rssi_dbm: rssiDbm,
     snr_db: snrDb,
     battery_pct: batteryPct,
-    received_at: payload.received_at || new Date().toISOString(),
+    received_at: receivedAt,
   };
 
   const { error: uplinkError } = await supabase
     .from('sensor_uplinks')
     .insert(uplinkRecord);
 
-  if (uplinkError) {
+  if (uplinkError?.code === '23505') {
+    // A concurrent retry inserted the same correlation id first
+    log('info', 'Duplicate uplink ignored', { devEui, f_cnt: fCnt, matched_on: 'correlation_id' });
+    return { status: 200, body: { ok: true, status: 'duplicate', matched_on: 'correlation_id' } };
+  } else if (uplinkError) {
     log('warn', 'Failed to insert sensor_uplinks', { error: uplinkError.message });
   } else {
     log('info', 'Inserted raw uplink record');
   }
 
+  if (ingest?.decision === 'rejected') {
+    return {
+      status: 202,
+      body: { ok: true, status: 'rejected', f_cnt_status: ingest.f_cnt_status, last_f_cnt: ingest.last_f_cnt, message: 'Out-of-order frame counter - uplink logged, not processed' },
+    };
+  }
+
   // If we don't have org_id, accept the uplink but log it as unassigned
   if (!orgId) {
     log('warn', 'No org_id resolved - uplink stored as unassigned', { devEui });
@@ -208,7 +279,7 @@ export async function processTTNUplink(
   const humidity = (decodedPayload.humidity ?? decodedPayload.Hum_SHT) as number | undefined;
   const doorStatus = (decodedPayload.door_status ?? decodedPayload.DOOR_OPEN_STATUS ?? decodedPayload.door ?? decodedPayload.open ?? decodedPayload.contact) as string | boolean | undefined;
 
-  // Step 3: Update unit_telemetry if we have a unit_id
+  // Step 4: Update unit_telemetry if we have a unit_id
   if (unitId) {
     const now = new Date().toISOString();
 
@@ -252,7 +323,7 @@ export async function processTTNUplink(
     }
   }
 
-  // Step 4: Also insert into legacy tables for backward compatibility
+  // Step 5: Also insert into legacy tables for backward compatibility
   // Use field-presence detection (same as telemetry above) instead of fPort gating
   if (tempC !== undefined) {
     const sensorData = {
@@ -304,6 +375,8 @@ export async function processTTNUplink(
       org_id: orgId,
       unit_id: unitId,
       f_port: fPort,
+      f_cnt_status: ingest?.f_cnt_status ?? 'unknown',
+      ingest_decision: ingest?.decision ?? 'accepted',
       sensor_registered: !!sensor,
     },
   };
@@ -1,4 +1,15 @@
-import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { normalizeTTNBaseUrl, resolveTTNEndpoints, TTN_HOST_COLUMNS, type TTNHostSettings } from '../_shared/ttn-utils.ts';
+import {
+  DEFAULT_WEBHOOK_GRACE_HOURS,
+  generateWebhookSecret,
+  MAX_WEBHOOK_GRACE_HOURS,
+  rotateWebhookSecrets,
+  unexpiredPreviousSecrets,
+  WEBHOOK_AUTH_MODES,
+  type PreviousWebhookSecret,
+  type WebhookAuthMode,
+} from '../_shared/ttnWebhookAuth.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -14,15 +25,23 @@ type TTNCluster = typeof VALID_CLUSTERS[number];
 const REQUIRED_PERMISSIONS = ['applications:read', 'devices:read', 'devices:write'];
 
 interface TTNSettingsRequest {
-  action: 'load' | 'save' | 'test' | 'test_stored' | 'check_device' | 'check_gateway' | 'check_gateway_permissions' | 'check_app_permissions' | 'discover_gateway_owner';
+  action: 'load' | 'save' | 'test' | 'test_stored' | 'check_device' | 'check_gateway' | 'check_gateway_permissions' | 'check_app_permissions' | 'discover_gateway_owner' | 'rotate_webhook_secret' | 'end_webhook_secret_grace';
   org_id?: string;
   selected_user_id?: string; // For testing specific user's TTN settings
   enabled?: boolean;
   cluster?: TTNCluster;
+  base_url?: string | null; // Self-hosted The Things Stack root, replaces cluster
+  identity_server_url?: string | null;
+  network_server_url?: string | null;
+  application_server_url?: string | null;
+  join_server_url?: string | null;
   application_id?: string;
   api_key?: string;
   gateway_api_key?: string; // Personal/Org API key with gateway permissions
   webhook_secret?: string;
+  webhook_auth_mode?: WebhookAuthMode;
+  grace_period_hours?: number; // rotate_webhook_secret: how long the old secret stays valid
+  user_id?: string; // rotate_webhook_secret: synced_users row whose ttn mirror gets the new secret
   device_id?: string;
   gateway_id?: string;
   gateway_owner_type?: 'user' | 'organization';
@@ -48,9 +67,24 @@ function maskSecret(value: string | null): string | null {
   return `****${value.slice(-4)}`;
 }
 
-// Build cluster base URL
-function getBaseUrl(cluster: string): string {
-  return `https://${cluster}.cloud.thethings.network`;
+// Last 4 characters and expiry of previous webhook secrets still in their grace period
+function describePreviousSecrets(previous: PreviousWebhookSecret[] | null | undefined): { last4: string; expires_at: string }[] {
+  return unexpiredPreviousSecrets(previous).map(entry => ({
+    last4: entry.secret.slice(-4),
+    expires_at: entry.expires_at,
+  }));
+}
+
+// Host URL fields of a request or ttn_settings row
+const HOST_URL_FIELDS = ['base_url', 'identity_server_url', 'network_server_url', 'application_server_url', 'join_server_url'] as const;
+
+// Pick the host settings of a request or ttn_settings row
+function pickHosts(source: TTNHostSettings | null | undefined): TTNHostSettings {
+  const hosts: TTNHostSettings = { cluster: source?.cluster ?? null };
+  for (const field of HOST_URL_FIELDS) {
+    hosts[field] = source?.[field] ?? null;
+  }
+  return hosts;
 }
 
 // Build response with correlation ID
@@ -137,6 +171,12 @@ Deno.serve(async (req) => {
       case 'discover_gateway_owner':
         return await handleDiscoverGatewayOwner(supabaseAdmin, body, requestId);
 
+      case 'rotate_webhook_secret':
+        return await handleRotateWebhookSecret(supabaseAdmin, body, requestId);
+
+      case 'end_webhook_secret_grace':
+        return await handleEndWebhookSecretGrace(supabaseAdmin, body, requestId);
+
       default:
         return errorResponse(`Unknown action: ${action}`, 'VALIDATION_ERROR', 400, requestId);
     }
@@ -165,7 +205,7 @@ async function handleLoad(
       ok: true,
       settings: {
         enabled: false,
-        cluster: 'nam1',
+        ...pickHosts({ cluster: 'nam1' }),
         application_id: null,
         api_key_preview: null,
         api_key_set: false,
@@ -176,6 +216,8 @@ async function handleLoad(
         webhook_secret_preview: null,
         webhook_secret_set: false,
         webhook_secret_last4: null,
+        webhook_auth_mode: 'secret',
+        previous_webhook_secrets: [],
         gateway_owner_type: 'user',
         gateway_owner_id: null,
       }
@@ -186,7 +228,7 @@ async function handleLoad(
 
   const { data, error } = await supabase
     .from('ttn_settings')
-    .select('enabled, cluster, application_id, api_key, gateway_api_key, webhook_secret, updated_at, last_test_at, last_test_success, gateway_owner_type, gateway_owner_id')
+    .select(`enabled, ${TTN_HOST_COLUMNS}, application_id, api_key, gateway_api_key, webhook_secret, webhook_auth_mode, previous_webhook_secrets, updated_at, last_test_at, last_test_success, gateway_owner_type, gateway_owner_id`)
     .eq('org_id', org_id)
     .maybeSingle();
 
@@ -200,7 +242,7 @@ async function handleLoad(
       ok: true,
       settings: {
         enabled: false,
-        cluster: 'nam1',
+        ...pickHosts({ cluster: 'nam1' }),
         application_id: null,
         api_key_preview: null,
         api_key_set: false,
@@ -211,6 +253,8 @@ async function handleLoad(
         webhook_secret_preview: null,
         webhook_secret_set: false,
         webhook_secret_last4: null,
+        webhook_auth_mode: 'secret',
+        previous_webhook_secrets: [],
         last_test_at: null,
         last_test_success: null,
         gateway_owner_type: 'user',
@@ -227,7 +271,7 @@ async function handleLoad(
     ok: true,
     settings: {
       enabled: data.enabled,
-      cluster: data.cluster,
+      ...pickHosts(data),
       application_id: data.application_id,
       api_key_preview: maskSecret(data.api_key),
       api_key_set: hasApiKey,
@@ -238,6 +282,8 @@ async function handleLoad(
       webhook_secret_preview: maskSecret(data.webhook_secret),
       webhook_secret_set: hasWebhookSecret,
       webhook_secret_last4: hasWebhookSecret ? data.webhook_secret.slice(-4) : null,
+      webhook_auth_mode: data.webhook_auth_mode || 'secret',
+      previous_webhook_secrets: describePreviousSecrets(data.previous_webhook_secrets),
       updated_at: data.updated_at,
       last_test_at: data.last_test_at,
       last_test_success: data.last_test_success,
@@ -253,13 +299,34 @@ async function handleSave(
   body: TTNSettingsRequest,
   requestId: string
 ): Promise<Response> {
-  const { org_id, enabled, cluster, application_id, api_key, gateway_api_key, webhook_secret, gateway_owner_type, gateway_owner_id } = body;
+  const { org_id, enabled, cluster, application_id, api_key, gateway_api_key, webhook_secret, webhook_auth_mode, gateway_owner_type, gateway_owner_id } = body;
 
   if (!org_id) {
     return errorResponse('org_id is required to save settings', 'VALIDATION_ERROR', 400, requestId);
   }
 
-  console.log(`[${requestId}] Saving settings for org ${org_id}, enabled=${enabled}, cluster=${cluster}, app=${application_id}, gateway_owner=${gateway_owner_type}/${gateway_owner_id}`);
+  if (webhook_auth_mode !== undefined && !WEBHOOK_AUTH_MODES.includes(webhook_auth_mode)) {
+    return errorResponse(`Invalid webhook_auth_mode. Use: ${WEBHOOK_AUTH_MODES.join(' or ')}`, 'VALIDATION_ERROR', 400, requestId);
+  }
+
+  // Normalize host URLs; an empty value clears the override
+  const hostUrls: Partial<Record<typeof HOST_URL_FIELDS[number], string | null>> = {};
+  for (const field of HOST_URL_FIELDS) {
+    const value = body[field];
+    if (value === undefined) continue;
+    if (!value || !value.trim()) {
+      hostUrls[field] = null;
+      continue;
+    }
+    const normalized = normalizeTTNBaseUrl(value);
+    if (!normalized) {
+      return errorResponse(`Invalid ${field}: expected an http(s) URL`, 'VALIDATION_ERROR', 400, requestId);
+    }
+    hostUrls[field] = normalized;
+  }
+  const baseUrl = hostUrls.base_url ?? null;
+
+  console.log(`[${requestId}] Saving settings for org ${org_id}, enabled=${enabled}, cluster=${cluster}, base_url=${baseUrl || 'none'}, app=${application_id}, gateway_owner=${gateway_owner_type}/${gateway_owner_id}`);
 
   // Check if we have an existing API key stored
   const { data: existingSettings } = await supabase
@@ -279,8 +346,9 @@ async function handleSave(
     if (!api_key && !hasExistingKey) {
       return errorResponse('API key is required when enabling TTN', 'VALIDATION_ERROR', 400, requestId);
     }
-    if (!cluster || !VALID_CLUSTERS.includes(cluster as TTNCluster)) {
-      return errorResponse('Valid cluster (eu1 or nam1) is required', 'VALIDATION_ERROR', 400, requestId);
+    // A self-hosted base URL replaces the cluster
+    if (!baseUrl && (!cluster || !VALID_CLUSTERS.includes(cluster as TTNCluster))) {
+      return errorResponse('Valid cluster (eu1 or nam1) or a base URL is required', 'VALIDATION_ERROR', 400, requestId);
     }
   }
 
@@ -290,6 +358,7 @@ async function handleSave(
     enabled: enabled ?? false,
     cluster: cluster ?? 'nam1',
     application_id: application_id ?? null,
+    ...hostUrls,
   };
 
   // Only update secrets if new values provided
@@ -302,6 +371,9 @@ async function handleSave(
   if (webhook_secret) {
     upsertData.webhook_secret = webhook_secret;
   }
+  if (webhook_auth_mode) {
+    upsertData.webhook_auth_mode = webhook_auth_mode;
+  }
   
   // Update gateway owner settings if provided
   if (gateway_owner_type !== undefined) {
@@ -323,7 +395,7 @@ async function handleSave(
   // Reload settings to get the current state including updated_at
   const { data: savedSettings } = await supabase
     .from('ttn_settings')
-    .select('api_key, gateway_api_key, webhook_secret, updated_at, gateway_owner_type, gateway_owner_id')
+    .select('api_key, gateway_api_key, webhook_secret, webhook_auth_mode, updated_at, gateway_owner_type, gateway_owner_id')
     .eq('org_id', org_id)
     .maybeSingle();
 
@@ -346,12 +418,118 @@ async function handleSave(
     gateway_api_key_last4: gatewayApiKeyLast4,
     webhook_secret_set: webhookSecretSet,
     webhook_secret_preview: maskSecret(savedSettings?.webhook_secret),
+    webhook_auth_mode: savedSettings?.webhook_auth_mode || 'secret',
     updated_at: savedSettings?.updated_at,
     gateway_owner_type: savedSettings?.gateway_owner_type || 'user',
     gateway_owner_id: savedSettings?.gateway_owner_id || null,
   }, 200, requestId);
 }
 
+// Rotate the webhook secret; the old one stays valid for the grace period
+async function handleRotateWebhookSecret(
+  supabase: SupabaseClient,
+  body: TTNSettingsRequest,
+  requestId: string
+): Promise<Response> {
+  const { org_id, user_id, webhook_secret } = body;
+  const graceHours = body.grace_period_hours ?? DEFAULT_WEBHOOK_GRACE_HOURS;
+
+  if (!org_id) {
+    return errorResponse('org_id is required to rotate the webhook secret', 'VALIDATION_ERROR', 400, requestId);
+  }
+  if (!Number.isFinite(graceHours) || graceHours < 0 || graceHours > MAX_WEBHOOK_GRACE_HOURS) {
+    return errorResponse(`grace_period_hours must be between 0 and ${MAX_WEBHOOK_GRACE_HOURS}`, 'VALIDATION_ERROR', 400, requestId);
+  }
+  if (webhook_secret !== undefined && webhook_secret.length < 16) {
+    return errorResponse('webhook_secret must be at least 16 characters', 'VALIDATION_ERROR', 400, requestId);
+  }
+
+  const { data: existing, error: loadError } = await supabase
+    .from('ttn_settings')
+    .select('webhook_secret, previous_webhook_secrets')
+    .eq('org_id', org_id)
+    .maybeSingle();
+
+  if (loadError) {
+    console.error(`[${requestId}] Rotate load error:`, loadError.message);
+    return errorResponse('Failed to load settings', 'DB_ERROR', 500, requestId);
+  }
+  if (!existing) {
+    return errorResponse('Save TTN settings before rotating the webhook secret', 'NOT_FOUND', 404, requestId);
+  }
+
+  const newSecret = webhook_secret || generateWebhookSecret();
+  const rotated = rotateWebhookSecrets(existing.webhook_secret, existing.previous_webhook_secrets, newSecret, graceHours);
+  const updatedAt = new Date().toISOString();
+
+  const { error } = await supabase
+    .from('ttn_settings')
+    .update({ ...rotated, updated_at: updatedAt })
+    .eq('org_id', org_id);
+
+  if (error) {
+    console.error(`[${requestId}] Rotate error:`, error.message);
+    return errorResponse('Failed to rotate webhook secret', 'DB_ERROR', 500, requestId);
+  }
+
+  // Keep the synced_users.ttn mirror (read by the emulator) on the new secret
+  if (user_id) {
+    const { data: user } = await supabase
+      .from('synced_users')
+      .select('ttn')
+      .eq('id', user_id)
+      .maybeSingle();
+
+    if (user?.ttn) {
+      const { error: userError } = await supabase
+        .from('synced_users')
+        .update({ ttn: { ...user.ttn, webhook_secret: newSecret, webhook_secret_last4: newSecret.slice(-4), updated_at: updatedAt } })
+        .eq('id', user_id);
+      if (userError) {
+        console.warn(`[${requestId}] synced_users.ttn update warning:`, userError.message);
+      }
+    }
+  }
+
+  console.log(`[${requestId}] Webhook secret rotated for org ${org_id}: ****${newSecret.slice(-4)}, grace=${graceHours}h, previous=${rotated.previous_webhook_secrets.length}`);
+
+  // The full secret is returned once so it can be entered in the TTN webhook
+  return buildResponse({
+    ok: true,
+    message: 'Webhook secret rotated',
+    webhook_secret: newSecret,
+    webhook_secret_last4: newSecret.slice(-4),
+    previous_webhook_secrets: describePreviousSecrets(rotated.previous_webhook_secrets),
+    updated_at: updatedAt,
+  }, 200, requestId);
+}
+
+// End the grace period of every previous webhook secret
+async function handleEndWebhookSecretGrace(
+  supabase: SupabaseClient,
+  body: TTNSettingsRequest,
+  requestId: string
+): Promise<Response> {
+  const { org_id } = body;
+
+  if (!org_id) {
+    return errorResponse('org_id is required', 'VALIDATION_ERROR', 400, requestId);
+  }
+
+  const { error } = await supabase
+    .from('ttn_settings')
+    .update({ previous_webhook_secrets: [], updated_at: new Date().toISOString() })
+    .eq('org_id', org_id);
+
+  if (error) {
+    console.error(`[${requestId}] End grace error:`, error.message);
+    return errorResponse('Failed to revoke previous webhook secrets', 'DB_ERROR', 500, requestId);
+  }
+
+  console.log(`[${requestId}] Previous webhook secrets revoked for org ${org_id}`);
+  return buildResponse({ ok: true, message: 'Previous webhook secrets revoked', previous_webhook_secrets: [] }, 200, requestId);
+}
+
 // Test TTN connection using stored API key from database
 async function handleTestStored(
   supabase: any,
@@ -381,7 +559,7 @@ async function handleTestStored(
     console.log(`[${requestId}] Using TTN settings from request for user ${selected_user_id}: app=${application_id}, cluster=${cluster}`);
     settings = {
       enabled: true,
-      cluster: cluster,
+      ...pickHosts(body),
       application_id: application_id,
       api_key: null, // Will fetch from org settings below
     };
@@ -401,6 +579,7 @@ async function handleTestStored(
       const ttn = data.ttn as any;
       settings = {
         enabled: ttn.enabled || false,
+        ...pickHosts(ttn),
         cluster: ttn.cluster || 'nam1',
         application_id: ttn.application_id || null,
         api_key: null, // API key is not stored in synced_users, only last4
@@ -412,7 +591,7 @@ async function handleTestStored(
       console.log(`[${requestId}] User TTN settings not found, falling back to org settings`);
       const { data: orgData, error: orgError } = await supabase
         .from('ttn_settings')
-        .select('enabled, cluster, application_id, api_key')
+        .select(`enabled, ${TTN_HOST_COLUMNS}, application_id, api_key`)
         .eq('org_id', org_id)
         .maybeSingle();
 
@@ -423,7 +602,7 @@ async function handleTestStored(
     console.log(`[${requestId}] Loading TTN settings from ttn_settings for org ${org_id}`);
     const { data, error: fetchError } = await supabase
       .from('ttn_settings')
-      .select('enabled, cluster, application_id, api_key')
+      .select(`enabled, ${TTN_HOST_COLUMNS}, application_id, api_key`)
       .eq('org_id', org_id)
       .maybeSingle();
 
@@ -487,7 +666,7 @@ async function handleTestStored(
 
   // Now test with the stored credentials
   const result = await handleTest({
-    cluster: settings.cluster,
+    ...pickHosts(settings),
     application_id: settings.application_id,
     api_key: apiKey,
   }, requestId);
@@ -519,20 +698,20 @@ async function handleTest(
   body: Partial<TTNSettingsRequest>,
   requestId: string
 ): Promise<Response> {
-  const { cluster, application_id, api_key } = body;
+  const { cluster, base_url, application_id, api_key } = body;
 
-  console.log(`[${requestId}] Testing TTN connection: cluster=${cluster}, app=${application_id}`);
+  console.log(`[${requestId}] Testing TTN connection: cluster=${cluster}, base_url=${base_url || 'none'}, app=${application_id}`);
 
   // Validate required fields
-  if (!cluster) {
+  if (!cluster && !base_url) {
     return buildResponse({
       ok: false,
-      error: 'Cluster is required',
+      error: 'Cluster or base URL is required',
       code: 'VALIDATION_ERROR',
     }, 200, requestId);
   }
 
-  if (!VALID_CLUSTERS.includes(cluster as TTNCluster)) {
+  if (!base_url && !VALID_CLUSTERS.includes(cluster as TTNCluster)) {
     return buildResponse({
       ok: false,
       error: `Invalid cluster. Use: ${VALID_CLUSTERS.join(' or ')}`,
@@ -556,15 +735,16 @@ async function handleTest(
     }, 200, requestId);
   }
 
-  const baseUrl = getBaseUrl(cluster);
+  const endpoints = resolveTTNEndpoints(body);
+  const baseUrl = endpoints.baseUrl;
 
   // ONLY call GET /api/v3/applications/{application_id}
   // This is the ONLY validation we perform
-  console.log(`[${requestId}] Fetching application: ${baseUrl}/api/v3/applications/${application_id}`);
+  console.log(`[${requestId}] Fetching application: ${endpoints.isUrl}/applications/${application_id}`);
   
   let response: Response;
   try {
-    response = await fetch(`${baseUrl}/api/v3/applications/${application_id}`, {
+    response = await fetch(`${endpoints.isUrl}/applications/${application_id}`, {
       method: 'GET',
       headers: {
         'Authorization': `Bearer ${api_key}`,
@@ -641,11 +821,11 @@ async function handleTest(
 
   if (status === 404) {
     // Application not found - try eu1 Identity Server fallback for Community accounts
-    if (cluster !== 'eu1') {
+    if (endpoints.isHomeUrl !== endpoints.isUrl) {
       console.log(`[${requestId}] App not found on ${cluster}, trying eu1 Identity Server`);
       try {
         const eu1Response = await fetch(
-          `https://eu1.cloud.thethings.network/api/v3/applications/${application_id}`,
+          `${endpoints.isHomeUrl}/applications/${application_id}`,
           {
             method: 'GET',
             headers: { 'Authorization': `Bearer ${api_key}`, 'Accept': 'application/json' },
@@ -673,7 +853,9 @@ async function handleTest(
 
     return buildResponse({
       ok: false,
-      error: `Application "${application_id}" not found in ${cluster} cluster`,
+      error: endpoints.selfHosted
+        ? `Application "${application_id}" not found on ${new URL(baseUrl).host}`
+        : `Application "${application_id}" not found in ${cluster} cluster`,
       code: 'NOT_FOUND',
       hint: 'Check the Application ID in TTN Console. If correct, verify you selected the right cluster region.',
       cluster_hint: `Application may exist in a different region. Try switching cluster.`,
@@ -700,15 +882,15 @@ async function handleCheckAppPermissions(
   body: Partial<TTNSettingsRequest>,
   requestId: string
 ): Promise<Response> {
-  const { cluster, application_id, api_key } = body;
+  const { cluster, base_url, application_id, api_key } = body;
 
-  console.log(`[${requestId}] Checking app permissions: cluster=${cluster}, app=${application_id}`);
+  console.log(`[${requestId}] Checking app permissions: cluster=${cluster}, base_url=${base_url || 'none'}, app=${application_id}`);
 
   // Validate required fields
-  if (!cluster || !VALID_CLUSTERS.includes(cluster as TTNCluster)) {
+  if (!base_url && (!cluster || !VALID_CLUSTERS.includes(cluster as TTNCluster))) {
     return buildResponse({
       ok: false,
-      error: 'Valid cluster is required',
+      error: 'Valid cluster or base URL is required',
       code: 'VALIDATION_ERROR',
     }, 200, requestId);
   }
@@ -729,8 +911,9 @@ async function handleCheckAppPermissions(
     }, 200, requestId);
   }
 
-  const baseUrl = getBaseUrl(cluster);
-  const rightsUrl = `${baseUrl}/api/v3/applications/${application_id}/rights`;
+  const endpoints = resolveTTNEndpoints(body);
+  const baseUrl = endpoints.baseUrl;
+  const rightsUrl = `${endpoints.isUrl}/applications/${application_id}/rights`;
 
   console.log(`[${requestId}] Fetching rights: ${rightsUrl}`);
 
@@ -869,11 +1052,11 @@ async function handleCheckDevice(
   body: TTNSettingsRequest,
   requestId: string
 ): Promise<Response> {
-  const { cluster, application_id, api_key, device_id } = body;
+  const { cluster, base_url, application_id, api_key, device_id } = body;
 
   console.log(`[${requestId}] Checking device: cluster=${cluster}, app=${application_id}, device=${device_id}`);
 
-  if (!cluster || !application_id || !api_key || !device_id) {
+  if (!(cluster || base_url) || !application_id || !api_key || !device_id) {
     return buildResponse({
       ok: false,
       error: 'Missing required fields: cluster, application_id, api_key, device_id',
@@ -881,8 +1064,8 @@ async function handleCheckDevice(
     }, 200, requestId);
   }
 
-  const baseUrl = getBaseUrl(cluster);
-  const checkUrl = `${baseUrl}/api/v3/applications/${application_id}/devices/${device_id}`;
+  const endpoints = resolveTTNEndpoints(body);
+  const checkUrl = `${endpoints.isUrl}/applications/${application_id}/devices/${device_id}`;
 
   try {
     const response = await fetch(checkUrl, {
@@ -921,11 +1104,11 @@ async function handleCheckGateway(
   body: TTNSettingsRequest,
   requestId: string
 ): Promise<Response> {
-  const { cluster, gateway_id, org_id } = body;
+  const { cluster, base_url, gateway_id, org_id } = body;
 
   console.log(`[${requestId}] Checking gateway: cluster=${cluster}, gateway=${gateway_id}`);
 
-  if (!cluster || !gateway_id) {
+  if (!(cluster || base_url) || !gateway_id) {
     return buildResponse({
       ok: false,
       error: 'Missing required fields: cluster, gateway_id',
@@ -953,8 +1136,8 @@ async function handleCheckGateway(
     }, 200, requestId);
   }
 
-  const baseUrl = getBaseUrl(cluster);
-  const checkUrl = `${baseUrl}/api/v3/gateways/${gateway_id}`;
+  const endpoints = resolveTTNEndpoints(body);
+  const checkUrl = `${endpoints.isUrl}/gateways/${gateway_id}`;
 
   try {
     const response = await fetch(checkUrl, {
@@ -999,20 +1182,21 @@ function looksLikeInternalId(ownerId: string | null): boolean {
 // Discover gateway owner from TTN API (organizations or users the API key can access)
 async function discoverGatewayOwnerInternal(
   apiKey: string,
-  cluster: string,
+  hosts: TTNHostSettings,
   requestId: string
 ): Promise<{ ok: boolean; owner_type?: 'user' | 'organization'; owner_id?: string; all_organizations?: string[]; hint?: string }> {
-  // TTN Identity Server endpoints (/api/v3/auth_info, /api/v3/organizations)
+  // On TTN Cloud, Identity Server endpoints (/api/v3/auth_info, /api/v3/organizations)
   // are ONLY served by eu1.cloud.thethings.network, regardless of the user's
-  // regional cluster. All other API calls use the user's cluster.
-  const identityBaseUrl = 'https://eu1.cloud.thethings.network';
-  const clusterBaseUrl = getBaseUrl(cluster);
+  // regional cluster. All other API calls use the user's cluster. Self-hosted
+  // deployments serve both from their own Identity Server.
+  const endpoints = resolveTTNEndpoints(hosts);
+  const identityBaseUrl = endpoints.isHomeUrl;
 
   console.log(`[${requestId}] Discovery: Using Identity Server at ${identityBaseUrl}`);
 
   // Try /api/v3/auth_info first - works with any valid API key
   try {
-    const authInfoUrl = `${identityBaseUrl}/api/v3/auth_info`;
+    const authInfoUrl = `${endpoints.isHomeUrl}/auth_info`;
     console.log(`[${requestId}] Discovery: Checking auth info at ${authInfoUrl}`);
     const authInfoResponse = await fetch(authInfoUrl, {
       headers: { 'Authorization': `Bearer ${apiKey}`, 'Accept': 'application/json' },
@@ -1045,7 +1229,7 @@ async function discoverGatewayOwnerInternal(
 
   // Try /api/v3/organizations
   try {
-    const orgsUrl = `${identityBaseUrl}/api/v3/organizations?limit=10`;
+    const orgsUrl = `${endpoints.isHomeUrl}/organizations?limit=10`;
     console.log(`[${requestId}] Discovery: Checking organizations at ${orgsUrl}`);
     const orgsResponse = await fetch(orgsUrl, {
       headers: { 'Authorization': `Bearer ${apiKey}`, 'Accept': 'application/json' },
@@ -1067,7 +1251,7 @@ async function discoverGatewayOwnerInternal(
 
   // Last resort: try listing gateways directly (un-scoped) to extract owner from gateway metadata
   try {
-    const gatewaysUrl = `${clusterBaseUrl}/api/v3/gateways?limit=1&field_mask=ids,administrative_contact,technical_contact`;
+    const gatewaysUrl = `${endpoints.isUrl}/gateways?limit=1&field_mask=ids,administrative_contact,technical_contact`;
     console.log(`[${requestId}] Discovery: Trying direct gateway list at ${gatewaysUrl}`);
     const gwResponse = await fetch(gatewaysUrl, {
       headers: { 'Authorization': `Bearer ${apiKey}`, 'Accept': 'application/json' },
@@ -1126,15 +1310,19 @@ async function handleDiscoverGatewayOwner(
 
   console.log(`[${requestId}] Discover gateway owner for org ${org_id || 'none'}`);
 
-  // Get the API key (from request or stored)
+  // Get the API key (from request or stored), and the stored hosts unless the request has them
   let apiKey = gateway_api_key;
-  if (!apiKey && org_id) {
+  let hosts: TTNHostSettings = body;
+  if (org_id && (!apiKey || !body.base_url)) {
     const { data } = await supabase
       .from('ttn_settings')
-      .select('gateway_api_key, api_key')
+      .select(`gateway_api_key, api_key, ${TTN_HOST_COLUMNS}`)
       .eq('org_id', org_id)
       .maybeSingle();
-    apiKey = data?.gateway_api_key || data?.api_key;
+    apiKey = apiKey || data?.gateway_api_key || data?.api_key;
+    if (!body.base_url && data?.base_url) {
+      hosts = data;
+    }
   }
 
   if (!apiKey) {
@@ -1146,7 +1334,7 @@ async function handleDiscoverGatewayOwner(
   }
 
   const ttnCluster = cluster || 'nam1';
-  const result = await discoverGatewayOwnerInternal(apiKey, ttnCluster, requestId);
+  const result = await discoverGatewayOwnerInternal(apiKey, { ...pickHosts(hosts), cluster: ttnCluster }, requestId);
 
   return buildResponse({
     ok: result.ok,
@@ -1174,19 +1362,23 @@ async function handleCheckGatewayPermissions(
   let gatewayApiKey: string | null = null;
   let appApiKey: string | null = null;
   let ttnCluster = cluster || 'nam1';
+  let hosts: TTNHostSettings = body;
   let gatewayOwnerType: 'user' | 'organization' = 'user';
   let gatewayOwnerId: string | null = null;
 
   if (org_id) {
     const { data } = await supabase
       .from('ttn_settings')
-      .select('api_key, gateway_api_key, cluster, gateway_owner_type, gateway_owner_id')
+      .select(`api_key, gateway_api_key, ${TTN_HOST_COLUMNS}, gateway_owner_type, gateway_owner_id`)
       .eq('org_id', org_id)
       .maybeSingle();
 
     gatewayApiKey = data?.gateway_api_key || null;
     appApiKey = data?.api_key || null;
     ttnCluster = cluster || data?.cluster || 'nam1';
+    if (!body.base_url && data?.base_url) {
+      hosts = data;
+    }
     gatewayOwnerType = data?.gateway_owner_type || 'user';
     gatewayOwnerId = data?.gateway_owner_id || null;
   }
@@ -1215,7 +1407,7 @@ async function handleCheckGatewayPermissions(
   
   if (!gatewayOwnerId || looksLikeInternalId(gatewayOwnerId)) {
     console.log(`[${requestId}] Owner ID missing or looks invalid (${gatewayOwnerId}), attempting auto-discovery`);
-    discoveredOwner = await discoverGatewayOwnerInternal(apiKey, ttnCluster, requestId);
+    discoveredOwner = await discoverGatewayOwnerInternal(apiKey, { ...pickHosts(hosts), cluster: ttnCluster }, requestId);
     
     if (discoveredOwner.ok && discoveredOwner.owner_id) {
       console.log(`[${requestId}] Auto-discovered owner: ${discoveredOwner.owner_type}/${discoveredOwner.owner_id}`);
@@ -1241,7 +1433,7 @@ async function handleCheckGatewayPermissions(
     }, 200, requestId);
   }
 
-  const baseUrl = getBaseUrl(ttnCluster);
+  const endpoints = resolveTTNEndpoints({ ...pickHosts(hosts), cluster: ttnCluster });
   
   // If owner ID is still an internal FG ID after failed discovery, use un-scoped endpoints
   const ownerIsInvalid = looksLikeInternalId(gatewayOwnerId);
@@ -1260,8 +1452,8 @@ async function handleCheckGatewayPermissions(
   try {
     // Use un-scoped endpoint if owner ID is invalid, otherwise use owner-scoped
     const readUrl = ownerIsInvalid
-      ? `${baseUrl}/api/v3/gateways?limit=1`
-      : `${baseUrl}/api/v3/${ownerPath}/gateways?limit=1`;
+      ? `${endpoints.isUrl}/gateways?limit=1`
+      : `${endpoints.isUrl}/${ownerPath}/gateways?limit=1`;
     console.log(`[${requestId}] Testing gateway read: ${readUrl}`);
     const listResponse = await fetch(readUrl, {
       headers: {
@@ -1298,8 +1490,8 @@ async function handleCheckGatewayPermissions(
   try {
     // Use un-scoped endpoint if owner ID is invalid
     const writeUrl = ownerIsInvalid
-      ? `${baseUrl}/api/v3/gateways`
-      : `${baseUrl}/api/v3/${ownerPath}/gateways`;
+      ? `${endpoints.isUrl}/gateways`
+      : `${endpoints.isUrl}/${ownerPath}/gateways`;
     console.log(`[${requestId}] Testing gateway write: ${writeUrl}`);
     
     // POST with a test gateway ID - we expect:
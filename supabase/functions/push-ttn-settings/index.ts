@@ -3,6 +3,9 @@
 // So we only save to local ttn_settings and synced_users.ttn tables
 // Auth: verify_jwt=false, uses API key validation
 
+import { normalizeTTNBaseUrl } from '../_shared/ttn-utils.ts';
+import { WEBHOOK_AUTH_MODES, type WebhookAuthMode } from '../_shared/ttnWebhookAuth.ts';
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
@@ -14,14 +17,23 @@ interface PushTTNSettingsRequest {
   user_id?: string; // Selected user ID to also update synced_users.ttn
   enabled?: boolean;
   cluster?: string;
+  base_url?: string | null;  // Self-hosted The Things Stack root, replaces cluster
+  identity_server_url?: string | null;
+  network_server_url?: string | null;
+  application_server_url?: string | null;
+  join_server_url?: string | null;
   application_id?: string;
   api_key?: string;  // Application API key for device operations
   gateway_api_key?: string;  // Personal/Organization API key for gateway operations
   webhook_secret?: string;
+  webhook_auth_mode?: WebhookAuthMode;  // secret header or HMAC body signature
   gateway_owner_type?: 'user' | 'organization';
   gateway_owner_id?: string;
 }
 
+// Host URL fields, stored alongside cluster
+const HOST_URL_FIELDS = ['base_url', 'identity_server_url', 'network_server_url', 'application_server_url', 'join_server_url'] as const;
+
 interface PushResult {
   ok: boolean;
   request_id: string;
@@ -50,7 +62,7 @@ Deno.serve(async (req) => {
 
   try {
     const body: PushTTNSettingsRequest = await req.json();
-    const { org_id, user_id, enabled, cluster, application_id, api_key, gateway_api_key, webhook_secret, gateway_owner_type, gateway_owner_id } = body;
+    const { org_id, user_id, enabled, cluster, application_id, api_key, gateway_api_key, webhook_secret, webhook_auth_mode, gateway_owner_type, gateway_owner_id } = body;
 
     // Validate required fields
     if (!org_id) {
@@ -63,6 +75,34 @@ Deno.serve(async (req) => {
       }, 400);
     }
 
+    if (webhook_auth_mode !== undefined && !WEBHOOK_AUTH_MODES.includes(webhook_auth_mode)) {
+      return buildResponse({
+        ok: false,
+        request_id: requestId,
+        error: `Invalid webhook_auth_mode: expected ${WEBHOOK_AUTH_MODES.join(' or ')}`,
+        error_code: 'INVALID_WEBHOOK_AUTH_MODE',
+        step: 'validation',
+      }, 400);
+    }
+
+    // Normalize host URLs; an empty value clears the override
+    const hostUrls: Record<string, string | null> = {};
+    for (const field of HOST_URL_FIELDS) {
+      const value = body[field];
+      if (value === undefined) continue;
+      const normalized = value && value.trim() ? normalizeTTNBaseUrl(value) : null;
+      if (value && value.trim() && !normalized) {
+        return buildResponse({
+          ok: false,
+          request_id: requestId,
+          error: `Invalid ${field}: expected an http(s) URL`,
+          error_code: 'INVALID_HOST_URL',
+          step: 'validation',
+        }, 400);
+      }
+      hostUrls[field] = normalized;
+    }
+
     // Log the push request (redacted)
     const apiKeyLast4 = api_key ? api_key.slice(-4) : null;
     const gatewayApiKeyLast4 = gateway_api_key ? gateway_api_key.slice(-4) : null;
@@ -71,6 +111,7 @@ Deno.serve(async (req) => {
       user_id: user_id || null,
       enabled,
       cluster,
+      base_url: hostUrls.base_url ?? null,
       application_id,
       has_api_key: !!api_key,
       api_key_last4: apiKeyLast4 ? `****${apiKeyLast4}` : null,
@@ -117,6 +158,7 @@ Deno.serve(async (req) => {
         enabled: enabled ?? true,
         cluster: cluster || 'nam1',
         application_id,
+        ...hostUrls,
         updated_at: updatedAt,
       };
 
@@ -133,6 +175,9 @@ Deno.serve(async (req) => {
       if (webhook_secret) {
         updateData.webhook_secret = webhook_secret;
       }
+      if (webhook_auth_mode) {
+        updateData.webhook_auth_mode = webhook_auth_mode;
+      }
       if (gateway_owner_type) {
         updateData.gateway_owner_type = gateway_owner_type;
       }
@@ -181,6 +226,7 @@ Deno.serve(async (req) => {
           enabled: enabled ?? true,
           cluster: cluster || 'nam1',
           application_id,
+          ...hostUrls,
           updated_at: updatedAt,
         };
 
@@ -193,6 +239,9 @@ Deno.serve(async (req) => {
           ttnJsonData.webhook_secret = webhook_secret;
           ttnJsonData.webhook_secret_last4 = webhook_secret.slice(-4);
         }
+        if (webhook_auth_mode) {
+          ttnJsonData.webhook_auth_mode = webhook_auth_mode;
+        }
 
         const { error: userUpdateError } = await supabase
           .from('synced_users')
@@ -1,5 +1,6 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { loadTTNSettings } from '../_shared/settings.ts';
+import { resolveTTNEndpoints, TTN_HOST_COLUMNS, type TTNEndpoints, type TTNHostSettings } from '../_shared/ttn-utils.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -81,13 +82,13 @@ function extractCorrelationIds(responseText: string): string[] {
 
 // Verify device exists on Application Server (critical for simulate to work)
 async function verifyASVisibility(
-  cluster: string,
+  endpoints: TTNEndpoints,
   applicationId: string,
   deviceId: string,
   apiKey: string,
   requestId: string
 ): Promise<{ visible: boolean; error?: string }> {
-  const asCheckUrl = `https://${cluster}.cloud.thethings.network/api/v3/as/applications/${applicationId}/devices/${deviceId}`;
+  const asCheckUrl = `${endpoints.asUrl}/as/applications/${applicationId}/devices/${deviceId}`;
   
   console.log(`[${requestId}] Verifying AS visibility at: ${asCheckUrl}`);
   
@@ -148,7 +149,7 @@ Deno.serve(async (req) => {
     }
 
     // Load TTN settings using shared loader (user-first, org-fallback)
-    let ttnSettings = null;
+    let ttnSettings: (TTNHostSettings & { api_key: string | null; application_id: string | null }) | null = null;
     let settingsSource = 'none';
 
     if (selected_user_id) {
@@ -161,7 +162,7 @@ Deno.serve(async (req) => {
       // Fallback to org-only if no user selected
       const { data, error } = await supabase
         .from('ttn_settings')
-        .select('api_key, application_id, cluster, enabled')
+        .select(`api_key, application_id, enabled, ${TTN_HOST_COLUMNS}`)
         .eq('org_id', org_id)
         .maybeSingle();
 
@@ -177,10 +178,12 @@ Deno.serve(async (req) => {
     const apiKey = ttnSettings?.api_key || Deno.env.get('TTN_API_KEY');
     const cluster = ttnSettings?.cluster || 'nam1';
     const applicationId = ttnSettings?.application_id;
+    const endpoints = resolveTTNEndpoints({ ...ttnSettings, cluster });
 
     console.log(`[${requestId}] PROVISIONING_TARGET`, {
       application_id: applicationId,
       cluster,
+      base_url: endpoints.baseUrl,
       settings_source: settingsSource,
       selected_user_id,
       org_id,
@@ -217,8 +220,6 @@ Deno.serve(async (req) => {
     const results: ProvisionResult[] = [];
     const summary = { created: 0, already_exists: 0, failed: 0, total: devices.length };
 
-    // Build common endpoints for debug output
-    const baseUrl = `https://${cluster}.cloud.thethings.network/api/v3`;
 
     // Process each device
     for (const device of devices) {
@@ -250,10 +251,10 @@ Deno.serve(async (req) => {
         cluster_used: cluster,
         application_id: applicationId,
         endpoints: {
-          is: `${baseUrl}/applications/${applicationId}/devices`,
-          js: `${baseUrl}/js/applications/${applicationId}/devices/${deviceId}`,
-          ns: `${baseUrl}/ns/applications/${applicationId}/devices/${deviceId}`,
-          as: `${baseUrl}/as/applications/${applicationId}/devices/${deviceId}`,
+          is: `${endpoints.isUrl}/applications/${applicationId}/devices`,
+          js: `${endpoints.jsUrl}/js/applications/${applicationId}/devices/${deviceId}`,
+          ns: `${endpoints.nsUrl}/ns/applications/${applicationId}/devices/${deviceId}`,
+          as: `${endpoints.asUrl}/as/applications/${applicationId}/devices/${deviceId}`,
         },
         as_verified: false,
         registration_steps: [],
@@ -316,7 +317,7 @@ Deno.serve(async (req) => {
           console.log(`[${requestId}] Device ${deviceId} already exists in IS, checking AS visibility...`);
           debug.registration_steps.push('IS: already_exists');
           
-          const asCheck = await verifyASVisibility(cluster, applicationId, deviceId, apiKey, requestId);
+          const asCheck = await verifyASVisibility(endpoints, applicationId, deviceId, apiKey, requestId);
           debug.as_verified = asCheck.visible;
           
           if (!asCheck.visible) {
@@ -413,8 +414,8 @@ Deno.serve(async (req) => {
               dev_eui: normalizedDevEui.toUpperCase(),
               join_eui: normalizedJoinEui,
             },
-            network_server_address: `${cluster}.cloud.thethings.network`,
-            application_server_address: `${cluster}.cloud.thethings.network`,
+            network_server_address: endpoints.nsAddress,
+            application_server_address: endpoints.asAddress,
             root_keys: {
               app_key: {
                 key: normalizedAppKey,
@@ -559,7 +560,7 @@ Deno.serve(async (req) => {
         // =============================================
         console.log(`[${requestId}] Verifying device is visible on AS...`);
         
-        const asVerification = await verifyASVisibility(cluster, applicationId, deviceId, apiKey, requestId);
+        const asVerification = await verifyASVisibility(endpoints, applicationId, deviceId, apiKey, requestId);
         debug.as_verified = asVerification.visible;
 
         if (!asVerification.visible) {
@@ -633,10 +634,10 @@ Deno.serve(async (req) => {
             cluster_used: cluster,
             application_id: applicationId,
             endpoints: {
-              is: `${baseUrl}/applications/${applicationId}/devices`,
-              js: `${baseUrl}/js/applications/${applicationId}/devices/${deviceId}`,
-              ns: `${baseUrl}/ns/applications/${applicationId}/devices/${deviceId}`,
-              as: `${baseUrl}/as/applications/${applicationId}/devices/${deviceId}`,
+              is: `${endpoints.isUrl}/applications/${applicationId}/devices`,
+              js: `${endpoints.jsUrl}/js/applications/${applicationId}/devices/${deviceId}`,
+              ns: `${endpoints.nsUrl}/ns/applications/${applicationId}/devices/${deviceId}`,
+              as: `${endpoints.asUrl}/as/applications/${applicationId}/devices/${deviceId}`,
             },
             as_verified: false,
             registration_steps: ['exception'],
@@ -1,5 +1,6 @@
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { loadTTNSettings } from '../_shared/settings.ts';
+import { resolveTTNEndpoints, TTN_HOST_COLUMNS, type TTNEndpoints } from '../_shared/ttn-utils.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -130,6 +131,7 @@ async function upsertGatewayInDatabase(
   gateway: GatewayToProvision,
   ttnGatewayId: string,
   cluster: string,
+  gatewayServerAddress: string,
   frequencyPlan: string,
   status: 'pending' | 'active' | 'disabled',
   provisionError: string | null,
@@ -146,7 +148,7 @@ async function upsertGatewayInDatabase(
     status,
     cluster,
     frequency_plan: frequencyPlan,
-    gateway_server_address: `${cluster}.cloud.thethings.network`,
+    gateway_server_address: gatewayServerAddress,
     is_online: gateway.is_online ?? true,
     provisioned_at: status === 'active' ? new Date().toISOString() : null,
     provision_error: provisionError,
@@ -171,7 +173,7 @@ async function upsertGatewayInDatabase(
 async function registerGatewayWithRetry(
   gateway: GatewayToProvision,
   apiKey: string,
-  cluster: string,
+  endpoints: TTNEndpoints,
   frequencyPlan: string,
   ownerType: 'user' | 'organization',
   ownerId: string,
@@ -201,7 +203,7 @@ async function registerGatewayWithRetry(
   const ownerPath = ownerType === 'organization'
     ? `organizations/${ownerId}`
     : `users/${ownerId}`;
-  const ttnUrl = `https://${cluster}.cloud.thethings.network/api/v3/${ownerPath}/gateways`;
+  const ttnUrl = `${endpoints.isUrl}/${ownerPath}/gateways`;
   
   for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
     try {
@@ -215,7 +217,7 @@ async function registerGatewayWithRetry(
           },
           name: name || gatewayId,
           description: `Emulator gateway provisioned at ${new Date().toISOString()}`,
-          gateway_server_address: `${cluster}.cloud.thethings.network`,
+          gateway_server_address: endpoints.gsAddress,
           frequency_plan_id: frequencyPlan,
           status_public: false,
           location_public: false,
@@ -421,7 +423,7 @@ Deno.serve(async (req) => {
     if (org_id) {
       const { data, error } = await supabase
         .from('ttn_settings')
-        .select('api_key, gateway_api_key, cluster, gateway_owner_type, gateway_owner_id')
+        .select(`api_key, gateway_api_key, gateway_owner_type, gateway_owner_id, ${TTN_HOST_COLUMNS}`)
         .eq('org_id', org_id)
         .maybeSingle();
 
@@ -432,8 +434,12 @@ Deno.serve(async (req) => {
       }
     }
 
-    // Use user's cluster if available, otherwise org's
+    // Use user's cluster and hosts if available, otherwise org's
     const cluster = userSettings?.cluster || ttnSettings?.cluster || 'nam1';
+    const endpoints = resolveTTNEndpoints({
+      ...(userSettings?.base_url ? userSettings : ttnSettings),
+      cluster,
+    });
     
     // For gateway operations, prefer gateway_api_key (Personal/Org key with gateway rights)
     // Fall back to api_key (Application key) only if gateway_api_key not set
@@ -518,7 +524,7 @@ Deno.serve(async (req) => {
       const result = await registerGatewayWithRetry(
         gatewayWithEui,
         apiKey,
-        cluster,
+        endpoints,
         frequencyPlan,
         gatewayOwnerType,
         gatewayOwnerId,
@@ -546,6 +552,7 @@ Deno.serve(async (req) => {
           gatewayWithEui,
           result.ttn_gateway_id,
           cluster,
+          endpoints.gsAddress,
           frequencyPlan,
           dbStatus,
           result.error || null,
@@ -569,6 +576,7 @@ Deno.serve(async (req) => {
         summary,
         config_used: {
           cluster,
+          base_url: endpoints.baseUrl,
           gateway_owner_type: gatewayOwnerType,
           gateway_owner_id: gatewayOwnerId,
           api_key_last4: apiKey.slice(-4),
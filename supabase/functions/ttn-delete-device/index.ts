@@ -9,12 +9,11 @@ import {
   loadTTNSettings, 
   normalizeDevEui, 
   generateTTNDeviceId,
-  getTTNApiBaseUrl,
+  resolveTTNEndpoints,
   isValidCluster,
   successResponse,
   errorResponse,
   generateRequestId,
-  type TTNCluster,
 } from "../_shared/mod.ts";
 
 interface DeleteDeviceRequest {
@@ -132,7 +131,8 @@ Deno.serve(async (req: Request) => {
     const effectiveAppId = application_id || settings.application_id;
     const apiKey = settings.api_key;
 
-    if (!effectiveCluster || !isValidCluster(effectiveCluster)) {
+    // A self-hosted base URL replaces the cluster
+    if (!settings.base_url && (!effectiveCluster || !isValidCluster(effectiveCluster))) {
       return errorResponse('Invalid or missing TTN cluster', requestId, { 
         errorCode: 'INVALID_CLUSTER' 
       });
@@ -151,9 +151,9 @@ Deno.serve(async (req: Request) => {
       });
     }
 
-    // Build TTN API URL
-    const baseUrl = getTTNApiBaseUrl(effectiveCluster as TTNCluster);
-    const deleteUrl = `${baseUrl}/applications/${effectiveAppId}/devices/${deviceId}`;
+    // Build TTN API URL (end device registry lives on the Identity Server)
+    const endpoints = resolveTTNEndpoints({ ...settings, cluster: effectiveCluster });
+    const deleteUrl = `${endpoints.isUrl}/applications/${effectiveAppId}/devices/${deviceId}`;
 
     console.log(`[${requestId}] Calling TTN API:`, { 
       url: deleteUrl.replace(apiKey, '***'),
@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveTTNEndpoints, TTN_HOST_COLUMNS, type TTNEndpoints, type TTNHostSettings } from "../_shared/ttn-utils.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -16,7 +17,7 @@ interface PreflightRequest {
   detect_cluster_from_url?: string; // If provided, parse cluster from TTN console URL
 }
 
-interface TTNSettings {
+interface TTNSettings extends TTNHostSettings {
   api_key: string | null;
   application_id: string | null;
   cluster: string;
@@ -124,6 +125,11 @@ async function loadUserSettings(userId: string): Promise<TTNSettings | null> {
       application_id: ttn.application_id || null,
       cluster: ttn.cluster || 'nam1',
       enabled: ttn.enabled || false,
+      base_url: ttn.base_url || null,
+      identity_server_url: ttn.identity_server_url || null,
+      network_server_url: ttn.network_server_url || null,
+      application_server_url: ttn.application_server_url || null,
+      join_server_url: ttn.join_server_url || null,
     };
   } catch (err) {
     console.error('Exception loading user settings:', err);
@@ -145,7 +151,7 @@ async function loadOrgSettings(orgId: string): Promise<TTNSettings | null> {
 
     const { data, error } = await supabase
       .from('ttn_settings')
-      .select('api_key, application_id, cluster, enabled')
+      .select(`api_key, application_id, enabled, ${TTN_HOST_COLUMNS}`)
       .eq('org_id', orgId)
       .maybeSingle();
 
@@ -162,12 +168,13 @@ async function loadOrgSettings(orgId: string): Promise<TTNSettings | null> {
 
 // Check if application exists
 async function checkApplicationExists(
-  cluster: string,
+  endpoints: TTNEndpoints,
   applicationId: string,
   apiKey: string
 ): Promise<{ exists: boolean; error?: string }> {
+  const host = new URL(endpoints.baseUrl).host;
   try {
-    const url = `https://${cluster}.cloud.thethings.network/api/v3/applications/${applicationId}`;
+    const url = `${endpoints.isUrl}/applications/${applicationId}`;
     console.log(`[preflight] Checking application: ${url}`);
 
     const response = await fetch(url, {
@@ -179,11 +186,11 @@ async function checkApplicationExists(
 
     if (response.status === 404) {
       // Try eu1 Identity Server fallback for Community/Sandbox accounts
-      if (cluster !== 'eu1') {
-        console.log(`[preflight] App not found on ${cluster}, trying eu1 Identity Server`);
+      if (endpoints.isHomeUrl !== endpoints.isUrl) {
+        console.log(`[preflight] App not found on ${host}, trying eu1 Identity Server`);
         try {
           const eu1Response = await fetch(
-            `https://eu1.cloud.thethings.network/api/v3/applications/${applicationId}`,
+            `${endpoints.isHomeUrl}/applications/${applicationId}`,
             { method: 'GET', headers: { 'Authorization': `Bearer ${apiKey}` } }
           );
           if (eu1Response.ok) {
@@ -198,7 +205,7 @@ async function checkApplicationExists(
       }
       return { 
         exists: false, 
-        error: `Application "${applicationId}" not found on cluster ${cluster}`,
+        error: `Application "${applicationId}" not found on ${host}`,
       };
     }
 
@@ -239,7 +246,7 @@ async function checkApplicationExists(
 // 2. The IS endpoint requires `devices:read` rights which the API key may lack
 // 3. On TTN Sandbox, the IS may live on a different cluster than the AS
 async function checkDeviceExists(
-  cluster: string,
+  endpoints: TTNEndpoints,
   applicationId: string,
   deviceId: string,
   apiKey: string
@@ -247,7 +254,7 @@ async function checkDeviceExists(
   try {
     // Query the Application Server endpoint — this is the server that handles
     // simulated uplinks, so checking here tells us if simulation will work.
-    const url = `https://${cluster}.cloud.thethings.network/api/v3/as/applications/${applicationId}/devices/${deviceId}`;
+    const url = `${endpoints.asUrl}/as/applications/${applicationId}/devices/${deviceId}`;
 
     const response = await fetch(url, {
       method: 'GET',
@@ -335,13 +342,14 @@ serve(async (req) => {
     }
 
     const { api_key, application_id, cluster } = settings;
-    const host = `${cluster}.cloud.thethings.network`;
+    const endpoints = resolveTTNEndpoints(settings);
+    const host = new URL(endpoints.baseUrl).host;
 
-    console.log(`[preflight] Settings loaded: cluster=${cluster}, app=${application_id}, source=${settingsSource}`);
+    console.log(`[preflight] Settings loaded: cluster=${cluster}, host=${host}, app=${application_id}, source=${settingsSource}`);
 
     // Check for cluster mismatch if URL provided
     let clusterMismatch: PreflightResult['cluster_mismatch'];
-    if (detect_cluster_from_url) {
+    if (detect_cluster_from_url && !endpoints.selfHosted) {
       const detectedCluster = parseClusterFromUrl(detect_cluster_from_url);
       if (detectedCluster && detectedCluster !== cluster) {
         clusterMismatch = {
@@ -355,7 +363,7 @@ serve(async (req) => {
 
     // Check application exists
     console.log(`[preflight] Checking application: ${application_id}`);
-    const appCheck = await checkApplicationExists(cluster, application_id, api_key);
+    const appCheck = await checkApplicationExists(endpoints, application_id, api_key);
 
     if (!appCheck.exists) {
       return new Response(
@@ -396,7 +404,7 @@ serve(async (req) => {
       }
 
       console.log(`[preflight] Checking device: ${deviceId}`);
-      const deviceCheck = await checkDeviceExists(cluster, application_id, deviceId, api_key);
+      const deviceCheck = await checkDeviceExists(endpoints, application_id, deviceId, api_key);
       
       deviceResults.push({
         dev_eui: device.dev_eui,
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { loadTTNSettings } from '../_shared/settings.ts';
+import { generateAbpDevAddr, resolveTTNEndpoints, type TTNHostSettings } from '../_shared/ttn-utils.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -58,9 +59,10 @@ serve(async (req) => {
       });
     }
 
-    // Resolve API key and cluster
+    // Resolve API key, cluster and self-hosted URLs
     let apiKey: string | undefined;
     let cluster = requestCluster || 'nam1';
+    let hosts: TTNHostSettings = {};
 
     // Try loading from user/org settings
     if (selected_user_id) {
@@ -68,6 +70,7 @@ serve(async (req) => {
       if (settings?.api_key) {
         apiKey = settings.api_key;
         cluster = settings.cluster || cluster;
+        hosts = settings;
         console.log(`[ttn-provision-abp][${requestId}] Using API key from ${source} settings`);
       }
     }
@@ -92,17 +95,17 @@ serve(async (req) => {
     const normalizedDevEui = devEui.replace(/[:\s-]/g, '').toUpperCase();
 
     // Generate unique dev_addr: '260C' + last 4 hex chars of dev_eui
-    const devAddr = '260C' + normalizedDevEui.slice(-4);
+    const devAddr = generateAbpDevAddr(normalizedDevEui);
 
     // Dummy 16-byte session keys (base64 encoded)
     // These are arbitrary but valid — ABP doesn't use over-the-air key exchange
     const dummyKeyB64 = 'AQEBAQEBAQEBAQEBAQEBAQ==';
 
-    // TTN Cloud: Identity Server ALWAYS lives on eu1, regardless of regional cluster
-    const isBaseUrl = 'https://eu1.cloud.thethings.network/api/v3';
-    // NS and AS live on the regional cluster
-    const clusterBaseUrl = `https://${cluster}.cloud.thethings.network/api/v3`;
-    console.log(`[ttn-provision-abp][${requestId}] IS base URL: ${isBaseUrl} | NS/AS base URL: ${clusterBaseUrl}`);
+    // TTN Cloud: Identity Server of record ALWAYS lives on eu1, regardless of
+    // regional cluster; NS and AS live on the regional cluster
+    const endpoints = resolveTTNEndpoints({ ...hosts, cluster });
+    const isBaseUrl = endpoints.isHomeUrl;
+    console.log(`[ttn-provision-abp][${requestId}] IS base URL: ${isBaseUrl} | NS base URL: ${endpoints.nsUrl} | AS base URL: ${endpoints.asUrl}`);
 
     const authHeaders = {
       'Authorization': `Bearer ${apiKey}`,
@@ -119,7 +122,7 @@ serve(async (req) => {
     };
 
     // =============================================
-    // PRE-CHECK: Verify device exists on Identity Server (eu1)
+    // PRE-CHECK: Verify device exists on Identity Server (eu1 on TTN Cloud)
     // FrostGuard should have created it. If a previous run deleted it,
     // the user needs to re-provision in FrostGuard first.
     // =============================================
@@ -161,7 +164,7 @@ serve(async (req) => {
     // =============================================
     // STEP 1: Network Server — Set LoRaWAN config + session + MAC state
     // =============================================
-    const nsUrl = `${clusterBaseUrl}/ns/applications/${applicationId}/devices/${deviceId}`;
+    const nsUrl = `${endpoints.nsUrl}/ns/applications/${applicationId}/devices/${deviceId}`;
     console.log(`[ttn-provision-abp][${requestId}] Step 1/2: PUT ${nsUrl}`);
     const nsPayload = {
       end_device: {
@@ -238,7 +241,7 @@ serve(async (req) => {
     // =============================================
     // STEP 2: Application Server — Set app session key
     // =============================================
-    const asUrl = `${clusterBaseUrl}/as/applications/${applicationId}/devices/${deviceId}`;
+    const asUrl = `${endpoints.asUrl}/as/applications/${applicationId}/devices/${deviceId}`;
     console.log(`[ttn-provision-abp][${requestId}] Step 2/2: PUT ${asUrl}`);
     const asPayload = {
       end_device: {
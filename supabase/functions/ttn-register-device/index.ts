@@ -1,10 +1,13 @@
+import { resolveTTNEndpoints, type TTNHostSettings } from '../_shared/ttn-utils.ts';
+
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
-interface RegisterDeviceRequest {
+// Self-hosted The Things Stack URLs (base_url etc.) replace the cluster
+interface RegisterDeviceRequest extends TTNHostSettings {
   applicationId: string;
   cluster: string;
   devEui: string;
@@ -51,10 +54,10 @@ Deno.serve(async (req) => {
     const body: RegisterDeviceRequest = await req.json();
     const { applicationId, cluster, devEui, joinEui, appKey, deviceName } = body;
 
-    console.log('Registering device in TTN:', { applicationId, cluster, devEui, deviceName });
+    console.log('Registering device in TTN:', { applicationId, cluster, baseUrl: body.base_url, devEui, deviceName });
 
     // Validate required fields
-    if (!applicationId || !cluster || !devEui || !joinEui || !appKey) {
+    if (!applicationId || !(cluster || body.base_url) || !devEui || !joinEui || !appKey) {
       return new Response(
         JSON.stringify({ 
           success: false, 
@@ -81,7 +84,8 @@ Deno.serve(async (req) => {
     console.log('Using canonical device_id:', deviceId);
 
     // Build TTN Device Registry API URL
-    const ttnUrl = `https://${cluster}.cloud.thethings.network/api/v3/applications/${applicationId}/devices`;
+    const endpoints = resolveTTNEndpoints(body);
+    const ttnUrl = `${endpoints.isUrl}/applications/${applicationId}/devices`;
 
     // Build the device registration payload for OTAA
     const devicePayload = {
@@ -173,7 +177,7 @@ Deno.serve(async (req) => {
     }
 
     // Also register in Join Server for OTAA
-    const joinServerUrl = `https://${cluster}.cloud.thethings.network/api/v3/js/applications/${applicationId}/devices/${deviceId}`;
+    const joinServerUrl = `${endpoints.jsUrl}/js/applications/${applicationId}/devices/${deviceId}`;
     
     const joinServerPayload = {
       end_device: {
@@ -182,8 +186,8 @@ Deno.serve(async (req) => {
           dev_eui: normalizedDevEui.toUpperCase(),
           join_eui: joinEui.toUpperCase().replace(/[:\s-]/g, ''),
         },
-        network_server_address: `${cluster}.cloud.thethings.network`,
-        application_server_address: `${cluster}.cloud.thethings.network`,
+        network_server_address: endpoints.nsAddress,
+        application_server_address: endpoints.asAddress,
         root_keys: {
           app_key: {
             key: appKey.toUpperCase().replace(/[:\s-]/g, ''),
@@ -1,6 +1,9 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveTTNEndpoints, TTN_HOST_COLUMNS, type TTNHostSettings } from "../_shared/ttn-utils.ts";
+import { checkUplinkIngest, fcntReplayPolicy } from "../_shared/ttnUplinkDedup.ts";
+import { encodeLegacyFrmPayload } from "../_shared/frmPayload.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -16,13 +19,17 @@ interface SimulateUplinkRequest {
   devEui?: string;
   cluster?: string;
   decodedPayload: Record<string, unknown>;
+  frmPayload?: string;  // Base64 frame from the device's codec (default: legacy Dragino frame)
   fPort: number;
+  fCnt?: number;
   gatewayId?: string;
   gatewayEui?: string;
   signalStrength?: number;
+  rxMetadata?: Record<string, unknown>[];  // Envelope rx_metadata (default: one gateway at signalStrength)
+  settings?: Record<string, unknown>;      // Envelope radio settings (default: US915 SF7)
 }
 
-interface TTNSettings {
+interface TTNSettings extends TTNHostSettings {
   api_key: string | null;
   application_id: string | null;
   cluster: string;
@@ -34,7 +41,7 @@ type TtnPayload = {
   application_id?: string;
   cluster?: string;
   enabled?: boolean;
-};
+} & TTNHostSettings;
 
 function isTtnPayload(value: unknown): value is TtnPayload {
   if (!value || typeof value !== 'object') {
@@ -42,7 +49,10 @@ function isTtnPayload(value: unknown): value is TtnPayload {
   }
 
   const payload = value as Record<string, unknown>;
-  const stringKeys = ['api_key', 'application_id', 'cluster'] as const;
+  const stringKeys = [
+    'api_key', 'application_id', 'cluster', 'base_url',
+    'identity_server_url', 'network_server_url', 'application_server_url', 'join_server_url',
+  ] as const;
 
   for (const key of stringKeys) {
     if (key in payload && payload[key] != null && typeof payload[key] !== 'string') {
@@ -184,7 +194,7 @@ function resolveDoorStatus(payload: Record<string, unknown>): string | undefined
 }
 
 // Validate TTN configuration before making API call
-function validateConfig(applicationId: string, deviceId: string, cluster: string): string | null {
+function validateConfig(applicationId: string, deviceId: string, cluster: string, selfHosted: boolean): string | null {
   if (!applicationId || applicationId.trim() === '') {
     return 'Application ID is required. Find it in TTN Console → Applications.';
   }
@@ -195,6 +205,10 @@ function validateConfig(applicationId: string, deviceId: string, cluster: string
   if (!/^sensor-[a-f0-9]{16}$/i.test(deviceId)) {
     return `Device ID "${deviceId}" has invalid format. Expected format: sensor-XXXXXXXXXXXXXXXX (16 hex characters). Example: sensor-0f8fe95caba665d4`;
   }
+  // A self-hosted base URL replaces the cluster
+  if (selfHosted) {
+    return null;
+  }
   if (!cluster || cluster.trim() === '') {
     return 'TTN cluster is required.';
   }
@@ -251,6 +265,11 @@ async function loadUserSettings(userId: string): Promise<TTNSettings | null> {
       application_id: ttn.application_id ?? null,
       cluster: ttn.cluster || 'nam1',
       enabled: ttn.enabled ?? false,
+      base_url: ttn.base_url ?? null,
+      identity_server_url: ttn.identity_server_url ?? null,
+      network_server_url: ttn.network_server_url ?? null,
+      application_server_url: ttn.application_server_url ?? null,
+      join_server_url: ttn.join_server_url ?? null,
     };
   } catch (err) {
     console.error('Exception loading user settings:', err);
@@ -273,7 +292,7 @@ async function loadOrgSettings(orgId: string): Promise<TTNSettings | null> {
 
     const { data, error } = await supabase
       .from('ttn_settings')
-      .select('api_key, application_id, cluster, enabled')
+      .select(`api_key, application_id, enabled, ${TTN_HOST_COLUMNS}`)
       .eq('org_id', orgId)
       .maybeSingle();
 
@@ -308,7 +327,7 @@ serve(async (req) => {
 
   try {
     const body: SimulateUplinkRequest = await req.json();
-    const { org_id, selected_user_id, decodedPayload, fPort, gatewayId, gatewayEui, devEui: requestDevEui, signalStrength: requestSignalStrength } = body;
+    const { org_id, selected_user_id, decodedPayload, frmPayload, fPort, fCnt, gatewayId, gatewayEui, devEui: requestDevEui, signalStrength: requestSignalStrength, rxMetadata, settings } = body;
     let { deviceId } = body;
     // Capture applicationId from request body — the frontend sends the correct
     // value from the FrostGuard live pull which takes precedence over the
@@ -321,6 +340,7 @@ serve(async (req) => {
     let apiKey: string | undefined;
     let applicationId: string | undefined;
     let cluster: string | undefined;
+    let hosts: TTNHostSettings = {};
     let settingsSource = 'request';
 
     // ONLY use user's full API key from synced_users.ttn (no org fallback)
@@ -360,6 +380,7 @@ serve(async (req) => {
     // live pull) over the synced_users mirror which can be stale
     applicationId = requestApplicationId || userSettings.application_id || undefined;
     cluster = userSettings.cluster;
+    hosts = userSettings;
     if (requestApplicationId && userSettings.application_id && requestApplicationId !== userSettings.application_id) {
       console.warn(`[ttn-simulate][${requestId}] application_id mismatch: request=${requestApplicationId}, synced_users=${userSettings.application_id}. Using request value.`);
     }
@@ -384,6 +405,9 @@ serve(async (req) => {
         if (!cluster && orgSettings.cluster) {
           cluster = orgSettings.cluster;
         }
+        if (!hosts.base_url && orgSettings.base_url) {
+          hosts = orgSettings;
+        }
         console.log(`[ttn-simulate] Using org API key from ttn_settings (last4: ****${apiKey.slice(-4)}) with app: ${applicationId}, cluster: ${cluster}`);
       }
     }
@@ -428,7 +452,9 @@ serve(async (req) => {
     }
 
     // Validate configuration
-    const validationError = validateConfig(applicationId!, deviceId, cluster!);
+    const endpoints = resolveTTNEndpoints({ ...hosts, cluster });
+    const host = new URL(endpoints.baseUrl).host;
+    const validationError = validateConfig(applicationId!, deviceId, cluster!, endpoints.selfHosted);
     if (validationError) {
       console.error(`[ttn-simulate][${requestId}] Validation error:`, validationError);
       return new Response(
@@ -448,6 +474,7 @@ serve(async (req) => {
       applicationId, 
       deviceId, 
       cluster, 
+      host,
       fPort, 
       settingsSource,
       orgId: org_id || 'none'
@@ -461,7 +488,7 @@ serve(async (req) => {
     // When the API key lacks `devices:read`, TTN returns 404 on the IS check
     // even though the device exists and simulation would succeed.
     // The simulate endpoint returns proper errors handled by parseTTNError().
-    const ttnUrl = `https://${cluster}.cloud.thethings.network/api/v3/as/applications/${applicationId}/devices/${deviceId}/up/simulate`;
+    const ttnUrl = `${endpoints.asUrl}/as/applications/${applicationId}/devices/${deviceId}/up/simulate`;
 
     console.log('Calling TTN API:', ttnUrl);
 
@@ -469,7 +496,8 @@ serve(async (req) => {
     // Send decoded_payload directly — TTN's simulate API passes it straight to
     // webhooks WITHOUT running the payload formatter. This is the official
     // testing mechanism and exactly what FrostGuard reads.
-    // Also include frm_payload (Base64-encoded JSON) for TTN Console log realism.
+    // Also include frm_payload, the device's binary frame, for TTN Console log realism.
+    // rx_metadata and settings come from the emulator's envelope when it sends them.
     // Use explicit signalStrength from request, fall back to decoded_payload, then default
     const rssi = requestSignalStrength ?? (decodedPayload.signal_strength as number) ?? -70;
     const now = new Date().toISOString();
@@ -511,9 +539,10 @@ serve(async (req) => {
         // include full device identifiers in the forwarded webhook event.
         session_key_id: "AAAAAAAAAAAAAAAAAAAAAA==",
         f_port: fPort,
-        frm_payload: btoa(JSON.stringify(decodedPayload)),
+        ...(fCnt !== undefined && { f_cnt: fCnt }),
+        frm_payload: frmPayload ?? encodeLegacyFrmPayload(decodedPayload),
         decoded_payload: decodedPayload,
-        rx_metadata: [
+        rx_metadata: rxMetadata ?? [
           {
             gateway_ids: gatewayIds,
             rssi,
@@ -523,7 +552,7 @@ serve(async (req) => {
             received_at: now,
           }
         ],
-        settings: {
+        settings: settings ?? {
           data_rate: {
             lora: {
               bandwidth: 125000,
@@ -574,14 +603,14 @@ serve(async (req) => {
           deviceId,
           cluster,
           cluster_used: cluster,
-          host_used: `${cluster}.cloud.thethings.network`,
+          host_used: host,
           settingsSource,
           request_id: requestId,
           correlation_id: parsedError.correlation_id,
           cluster_hint: parsedError.errorType === 'as_not_visible'
-            ? `Device registered but not visible on Application Server at ${cluster}.cloud.thethings.network. Re-provision the device.`
+            ? `Device registered but not visible on Application Server at ${host}. Re-provision the device.`
             : response.status === 404 
-            ? `Device not found on ${cluster}.cloud.thethings.network. Verify this is the correct cluster for your TTN Console.`
+            ? `Device not found on ${host}. Verify this is the correct cluster for your TTN Console.`
             : undefined,
         }),
         { 
@@ -626,11 +655,28 @@ serve(async (req) => {
       }
     }
     
+    // The TTN webhook may have ingested this frame already (or will, and
+    // then skips it); either way it must only be written once
+    const ingest = await checkUplinkIngest(
+      supabase,
+      { devEui, fCnt: fCnt ?? null, receivedAt: dbNow, dedupKey: null },
+      fcntReplayPolicy(Deno.env.get('TTN_FCNT_REPLAY_POLICY'))
+    );
+    const writeFrame = !ingest.duplicate && ingest.decision !== 'rejected';
+    if (ingest.duplicate) {
+      console.log(`[ttn-simulate][${requestId}] Frame already ingested via webhook (${ingest.duplicate_of}), skipping dual-write`);
+    } else if (ingest.decision !== 'accepted') {
+      console.warn(`[ttn-simulate][${requestId}] Out-of-order f_cnt ${fCnt} (last ${ingest.last_f_cnt}): ${ingest.f_cnt_status}, ${ingest.decision}`);
+    }
+
     // 1. Insert into sensor_uplinks (raw history)
     const uplinkRecord = {
       org_id: org_id,
       dev_eui: devEui.toLowerCase(),
       f_port: fPort,
+      f_cnt: fCnt ?? null,
+      f_cnt_status: ingest.duplicate ? null : ingest.f_cnt_status,
+      ingest_decision: ingest.duplicate ? null : ingest.decision,
       payload_json: decodedPayload,
       rssi_dbm: (decodedPayload.signal_strength as number) ?? -70,
       battery_pct: (decodedPayload.battery_level as number) ?? null,
@@ -638,15 +684,17 @@ serve(async (req) => {
       unit_id: isUuid ? unitId : (unitId || null),
     };
     
-    console.log(`[ttn-simulate][${requestId}] Inserting sensor_uplink:`, JSON.stringify(uplinkRecord));
-    
-    const { error: uplinkError } = await supabase
-      .from('sensor_uplinks')
-      .insert(uplinkRecord);
+    let uplinkError: { message: string } | null = null;
+    if (!ingest.duplicate) {
+      console.log(`[ttn-simulate][${requestId}] Inserting sensor_uplink:`, JSON.stringify(uplinkRecord));
+      ({ error: uplinkError } = await supabase
+        .from('sensor_uplinks')
+        .insert(uplinkRecord));
+    }
     
     if (uplinkError) {
       console.warn(`[ttn-simulate][${requestId}] Failed to insert sensor_uplink:`, uplinkError.message);
-    } else {
+    } else if (!ingest.duplicate) {
       console.log(`[ttn-simulate][${requestId}] sensor_uplink inserted successfully`);
     }
     
@@ -656,7 +704,7 @@ serve(async (req) => {
     const hasTemperature = resolveTemperature(decodedPayload) !== undefined;
     const hasDoor = resolveDoorStatus(decodedPayload) !== undefined;
 
-    if (unitId && isUuid && org_id) {
+    if (writeFrame && unitId && isUuid && org_id) {
       const telemetryUpdate: Record<string, unknown> = {
         unit_id: unitId,
         org_id: org_id,
@@ -698,7 +746,7 @@ serve(async (req) => {
     }
 
     // 3. Insert into legacy door_events table when payload contains door data
-    if (hasDoor) {
+    if (writeFrame && hasDoor) {
       const doorStatus = resolveDoorStatus(decodedPayload)!;
       const doorEventRecord = {
         device_serial: devEui.toLowerCase(),
@@ -722,7 +770,7 @@ serve(async (req) => {
     }
 
     // 4. Insert into legacy sensor_readings table when payload contains temperature data
-    if (hasTemperature) {
+    if (writeFrame && hasTemperature) {
       const tempC = resolveTemperature(decodedPayload)!;
       const humidity = (decodedPayload.humidity ?? decodedPayload.Hum_SHT) as number | undefined;
       const readingRecord = {
@@ -763,12 +811,16 @@ serve(async (req) => {
         // Authoritative server timestamp for client sync
         server_timestamp: now,
         received_at: now,
-        db_writes: {
-          sensor_uplinks: !uplinkError,
-          unit_telemetry: unitId && isUuid ? true : 'skipped_no_uuid',
-          door_events: hasDoor,
-          sensor_readings: hasTemperature,
-        },
+        db_writes: ingest.duplicate
+          ? { skipped: 'duplicate', duplicate_of: ingest.duplicate_of }
+          : {
+            sensor_uplinks: !uplinkError,
+            unit_telemetry: !writeFrame ? 'skipped_rejected' : unitId && isUuid ? true : 'skipped_no_uuid',
+            door_events: writeFrame && hasDoor,
+            sensor_readings: writeFrame && hasTemperature,
+            f_cnt_status: ingest.f_cnt_status,
+            ingest_decision: ingest.decision,
+          },
       }),
       { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
     );
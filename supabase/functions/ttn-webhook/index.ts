@@ -1,10 +1,12 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
 import { processTTNUplink, TTNUplinkPayload } from "../_shared/ttnWebhookProcessor.ts";
-import { loadWebhookSecretForApplication, verifyWebhookSecret } from "../_shared/ttnWebhookAuth.ts";
+import { loadWebhookAuthForApplication, verifyWebhookRequest } from "../_shared/ttnWebhookAuth.ts";
+import { fcntReplayPolicy } from "../_shared/ttnUplinkDedup.ts";
+import { detectTTNMessageType, normalizedToUplink, processTTNEvent, type TTNEventPayload } from "../_shared/ttnEventProcessor.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-ttn-webhook-secret',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type, x-ttn-webhook-secret, x-ttn-webhook-signature',
   'Access-Control-Allow-Methods': 'POST, OPTIONS',
 };
 
@@ -24,23 +26,48 @@ Deno.serve(async (req) => {
     const supabaseKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
     const supabase = createClient(supabaseUrl, supabaseKey);
 
-    const payload: TTNUplinkPayload = await req.json();
+    // HMAC signatures cover the raw body, so read it before parsing
+    const rawBody = await req.text();
+    const payload: TTNEventPayload = JSON.parse(rawBody);
     const applicationId = payload.end_device_ids?.application_ids?.application_id;
-    const providedSecret = req.headers.get('x-ttn-webhook-secret');
-    const expectedSecret = applicationId
-      ? await loadWebhookSecretForApplication(supabase, applicationId)
+    const webhookAuth = applicationId
+      ? await loadWebhookAuthForApplication(supabase, applicationId)
       : null;
 
-    const secretCheck = verifyWebhookSecret(providedSecret, expectedSecret);
+    const secretCheck = await verifyWebhookRequest(
+      {
+        secretHeader: req.headers.get('x-ttn-webhook-secret'),
+        signatureHeader: req.headers.get('x-ttn-webhook-signature'),
+        rawBody,
+      },
+      webhookAuth,
+      Deno.env.get('TTN_WEBHOOK_ALLOW_UNAUTHENTICATED') === 'true'
+    );
     if (!secretCheck.ok) {
-      log('warn', 'Webhook secret validation failed', { applicationId });
+      log('warn', 'Webhook authentication failed', { applicationId, mode: webhookAuth?.mode, error: secretCheck.error });
       return new Response(
         JSON.stringify({ ok: false, error: secretCheck.error, errorType: 'auth_error' }),
         { status: 401, headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
       );
     }
 
-    const result = await processTTNUplink(payload, supabase, log);
+    // Route on the message field TTN set; uplink_message and uplink_normalized
+    // for the same frame share a correlation id, so only one is ingested
+    const messageType = detectTTNMessageType(payload);
+    let result;
+    if (messageType === 'uplink_message' || messageType === 'uplink_normalized') {
+      const uplink = messageType === 'uplink_normalized'
+        ? normalizedToUplink(payload)
+        : payload as unknown as TTNUplinkPayload;
+      result = await processTTNUplink(uplink, supabase, log, {
+        fcntPolicy: fcntReplayPolicy(Deno.env.get('TTN_FCNT_REPLAY_POLICY')),
+      });
+    } else if (messageType) {
+      result = await processTTNEvent(payload, messageType, supabase, log);
+    } else {
+      log('warn', 'Unrecognised TTN message type', { applicationId, fields: Object.keys(payload) });
+      result = { status: 200, body: { ok: true, status: 'ignored', message: 'No supported TTN message type in body' } };
+    }
 
     return new Response(
       JSON.stringify(result.body),
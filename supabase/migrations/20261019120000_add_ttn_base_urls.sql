@@ -0,0 +1,30 @@
+-- Migration: Add self-hosted The Things Stack URLs to ttn_settings
+--
+-- Background:
+-- TTN Cloud deployments are addressed by cluster (eu1, nam1, au1), which
+-- only covers *.cloud.thethings.network. The Things Stack Enterprise and
+-- open source installs run on their own domain, and local stand-ins run on
+-- any URL. When base_url is set it replaces the cluster host for every TTN
+-- call; the component URLs are only needed where the Identity, Network,
+-- Application or Join Server is served from a different host.
+
+ALTER TABLE public.ttn_settings
+ADD COLUMN IF NOT EXISTS base_url TEXT;
+
+ALTER TABLE public.ttn_settings
+ADD COLUMN IF NOT EXISTS identity_server_url TEXT;
+
+ALTER TABLE public.ttn_settings
+ADD COLUMN IF NOT EXISTS network_server_url TEXT;
+
+ALTER TABLE public.ttn_settings
+ADD COLUMN IF NOT EXISTS application_server_url TEXT;
+
+ALTER TABLE public.ttn_settings
+ADD COLUMN IF NOT EXISTS join_server_url TEXT;
+
+COMMENT ON COLUMN public.ttn_settings.base_url IS 'Root URL of a self-hosted The Things Stack (e.g. https://tts.example.com). NULL uses the TTN Cloud cluster.';
+COMMENT ON COLUMN public.ttn_settings.identity_server_url IS 'Identity Server root URL when it differs from base_url';
+COMMENT ON COLUMN public.ttn_settings.network_server_url IS 'Network Server root URL when it differs from base_url';
+COMMENT ON COLUMN public.ttn_settings.application_server_url IS 'Application Server root URL when it differs from base_url';
+COMMENT ON COLUMN public.ttn_settings.join_server_url IS 'Join Server root URL when it differs from base_url';
@@ -0,0 +1,24 @@
+-- Migration: Webhook secret rotation and HMAC signature mode
+--
+-- Background:
+-- ttn-webhook compared X-TTN-Webhook-Secret against a single webhook_secret,
+-- so replacing the secret dropped every uplink until TTN's webhook header
+-- was updated too. Rotation (manage-ttn-settings rotate_webhook_secret) now
+-- moves the old secret into previous_webhook_secrets with an expiry, and
+-- ttn-webhook accepts it until then. webhook_auth_mode 'hmac' verifies an
+-- X-TTN-Webhook-Signature HMAC-SHA256 of the body instead of the header.
+
+ALTER TABLE public.ttn_settings
+ADD COLUMN IF NOT EXISTS previous_webhook_secrets JSONB NOT NULL DEFAULT '[]'::jsonb;
+
+ALTER TABLE public.ttn_settings
+ADD COLUMN IF NOT EXISTS webhook_auth_mode TEXT NOT NULL DEFAULT 'secret';
+
+ALTER TABLE public.ttn_settings
+DROP CONSTRAINT IF EXISTS ttn_settings_webhook_auth_mode_check;
+
+ALTER TABLE public.ttn_settings
+ADD CONSTRAINT ttn_settings_webhook_auth_mode_check CHECK (webhook_auth_mode IN ('secret', 'hmac'));
+
+COMMENT ON COLUMN public.ttn_settings.previous_webhook_secrets IS 'Rotated-out webhook secrets still accepted during their grace period: [{secret, expires_at, rotated_at}]';
+COMMENT ON COLUMN public.ttn_settings.webhook_auth_mode IS 'secret: X-TTN-Webhook-Secret header; hmac: X-TTN-Webhook-Signature sha256=<hex HMAC-SHA256 of the body>';
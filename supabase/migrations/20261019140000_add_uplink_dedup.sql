@@ -0,0 +1,49 @@
+-- Migration: Idempotent uplink ingestion
+--
+-- Background:
+-- processTTNUplink inserted into sensor_uplinks, sensor_readings and
+-- door_events on every call, so TTN webhook retries and the emulator's
+-- ttn-simulate dual-write landed the same frame twice. Uplinks are now
+-- deduplicated on TTN's as:up correlation id (dedup_key) or on dev_eui +
+-- f_cnt within a short received_at window, and the frame counter is checked
+-- against the device's last frame. The outcome is recorded per row.
+
+ALTER TABLE public.sensor_uplinks
+ADD COLUMN IF NOT EXISTS f_cnt INTEGER;
+
+ALTER TABLE public.sensor_uplinks
+ADD COLUMN IF NOT EXISTS dedup_key TEXT;
+
+ALTER TABLE public.sensor_uplinks
+ADD COLUMN IF NOT EXISTS f_cnt_status TEXT;
+
+ALTER TABLE public.sensor_uplinks
+ADD COLUMN IF NOT EXISTS ingest_decision TEXT;
+
+ALTER TABLE public.sensor_uplinks
+DROP CONSTRAINT IF EXISTS sensor_uplinks_f_cnt_status_check;
+
+ALTER TABLE public.sensor_uplinks
+ADD CONSTRAINT sensor_uplinks_f_cnt_status_check CHECK (f_cnt_status IN ('first', 'ok', 'reset', 'replay', 'regression', 'unknown'));
+
+ALTER TABLE public.sensor_uplinks
+DROP CONSTRAINT IF EXISTS sensor_uplinks_ingest_decision_check;
+
+ALTER TABLE public.sensor_uplinks
+ADD CONSTRAINT sensor_uplinks_ingest_decision_check CHECK (ingest_decision IN ('accepted', 'flagged', 'rejected'));
+
+-- Concurrent retries of one TTN uplink cannot both insert. dev_eui is
+-- stored in both cases (ttn-webhook upper, ttn-simulate lower), so the
+-- key ignores case.
+CREATE UNIQUE INDEX IF NOT EXISTS idx_sensor_uplinks_dedup_key
+  ON public.sensor_uplinks(upper(dev_eui), dedup_key)
+  WHERE dedup_key IS NOT NULL;
+
+-- Duplicate window and last-frame lookups
+CREATE INDEX IF NOT EXISTS idx_sensor_uplinks_dev_eui_f_cnt
+  ON public.sensor_uplinks(dev_eui, f_cnt, received_at DESC);
+
+COMMENT ON COLUMN public.sensor_uplinks.f_cnt IS 'LoRaWAN uplink frame counter';
+COMMENT ON COLUMN public.sensor_uplinks.dedup_key IS 'TTN as:up correlation id, stable across webhook retries';
+COMMENT ON COLUMN public.sensor_uplinks.f_cnt_status IS 'Frame counter vs the last frame: first, ok, reset, replay, regression or unknown';
+COMMENT ON COLUMN public.sensor_uplinks.ingest_decision IS 'accepted, flagged (out of order, processed) or rejected (out of order, not processed)';
@@ -0,0 +1,74 @@
+-- Migration: TTN webhook message types beyond uplinks
+--
+-- Background:
+-- ttn-webhook treated every POST as an uplink_message. It now routes on the
+-- message type TTN sets: join accepts, downlink queued/sent/ack/nack/failed/
+-- queue invalidated, location solved and service data are kept as device
+-- event history, downlinks get a current status row, and join accepts and
+-- solved locations update lora_sensors.
+
+-- 1. Device state from join accepts and location solving
+ALTER TABLE public.lora_sensors
+ADD COLUMN IF NOT EXISTS last_join_at TIMESTAMPTZ;
+
+ALTER TABLE public.lora_sensors
+ADD COLUMN IF NOT EXISTS dev_addr TEXT;
+
+ALTER TABLE public.lora_sensors
+ADD COLUMN IF NOT EXISTS last_location JSONB;
+
+ALTER TABLE public.lora_sensors
+ADD COLUMN IF NOT EXISTS last_location_at TIMESTAMPTZ;
+
+-- 2. Event history (join history is event_type = 'join_accept')
+CREATE TABLE IF NOT EXISTS public.sensor_device_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID,
+  sensor_id UUID REFERENCES public.lora_sensors(id) ON DELETE SET NULL,
+  dev_eui TEXT,
+  device_id TEXT,
+  event_type TEXT NOT NULL,
+  payload JSONB,
+  correlation_ids TEXT[] NOT NULL DEFAULT '{}',
+  received_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_sensor_device_events_org_id ON public.sensor_device_events(org_id);
+CREATE INDEX IF NOT EXISTS idx_sensor_device_events_dev_eui ON public.sensor_device_events(dev_eui, event_type, received_at DESC);
+
+-- 3. Downlink status, one row per downlink
+CREATE TABLE IF NOT EXISTS public.sensor_downlinks (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  org_id UUID,
+  sensor_id UUID REFERENCES public.lora_sensors(id) ON DELETE SET NULL,
+  dev_eui TEXT NOT NULL,
+  downlink_id TEXT NOT NULL,
+  f_port INTEGER,
+  f_cnt INTEGER,
+  frm_payload TEXT,
+  confirmed BOOLEAN NOT NULL DEFAULT false,
+  status TEXT NOT NULL CHECK (status IN ('queued', 'sent', 'acked', 'nacked', 'failed', 'invalidated')),
+  error JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  CONSTRAINT unique_sensor_downlink UNIQUE (dev_eui, downlink_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_sensor_downlinks_org_id ON public.sensor_downlinks(org_id);
+
+-- RLS: org members read; the webhook (service role) writes
+ALTER TABLE public.sensor_device_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.sensor_downlinks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Org members can view their device events"
+  ON public.sensor_device_events FOR SELECT
+  USING (public.is_org_member(auth.uid(), org_id));
+
+CREATE POLICY "Org members can view their downlinks"
+  ON public.sensor_downlinks FOR SELECT
+  USING (public.is_org_member(auth.uid(), org_id));
+
+COMMENT ON COLUMN public.lora_sensors.last_join_at IS 'Time of the last TTN join_accept';
+COMMENT ON COLUMN public.lora_sensors.last_location IS 'Last TTN location_solved location: latitude, longitude, altitude, accuracy, source, service';
+COMMENT ON TABLE public.sensor_device_events IS 'Non-uplink TTN webhook events (join_accept, downlink_*, location_solved, service_data)';
+COMMENT ON TABLE public.sensor_downlinks IS 'Latest status of each downlink, from TTN downlink_* events';
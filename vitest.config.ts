@@ -22,6 +22,10 @@ export default defineConfig({
   resolve: {
     alias: {
       '@': path.resolve(__dirname, './src'),
+      // Edge function imports, resolved to the mock TTN harness shims
+      'https://esm.sh/@supabase/supabase-js@2': path.resolve(__dirname, './src/mockTtn/memorySupabase.ts'),
+      'https://deno.land/std@0.168.0/http/server.ts': path.resolve(__dirname, './src/mockTtn/denoRuntime.ts'),
+      'https://deno.land/x/xhr@0.1.0/mod.ts': path.resolve(__dirname, './src/mockTtn/denoRuntime.ts'),
     },
   },
 });